@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { readAsset } from '@/lib/asset-storage';
+import { ASSET_IMAGE_TYPES } from '@/lib/template-images';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { assetId: string } }
+) {
+  try {
+    // Assets never change, so the ID is a strong validator
+    const etag = `"${params.assetId}"`;
+    const cacheHeaders = {
+      ETag: etag,
+      'Cache-Control': 'public, max-age=31536000, immutable',
+    };
+
+    // Only template images are public, and only in types that can't run
+    // scripts. Certificate job archives share the storage but are downloaded
+    // from their job, without caching. This is
+    // checked before answering revalidations too, so a guessed ETag doesn't
+    // confirm that an archive exists.
+    const asset = await readAsset(params.assetId);
+    if (!asset || !ASSET_IMAGE_TYPES.includes(asset.contentType)) {
+      return NextResponse.json({ error: 'Asset not found' }, { status: 404 });
+    }
+
+    if (request.headers.get('if-none-match') === etag) {
+      return new NextResponse(null, { status: 304, headers: cacheHeaders });
+    }
+
+    return new NextResponse(asset.data, {
+      headers: {
+        ...cacheHeaders,
+        'Content-Type': asset.contentType,
+        'X-Content-Type-Options': 'nosniff',
+        'Content-Length': asset.data.length.toString(),
+      },
+    });
+  } catch (error) {
+    console.error('Asset download error:', error);
+    return NextResponse.json(
+      { error: 'Failed to load asset' },
+      { status: 500 }
+    );
+  }
+}
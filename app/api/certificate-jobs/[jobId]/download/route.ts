@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Readable } from 'stream';
+import { openAsset } from '@/lib/asset-storage';
+import { getCertificateJob } from '@/lib/certificate-jobs';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { jobId: string } }
+) {
+  try {
+    const job = await getCertificateJob(params.jobId);
+    if (!job) {
+      return NextResponse.json({ error: 'Job not found' }, { status: 404 });
+    }
+
+    if (job.status !== 'completed' || !job.archiveAssetId) {
+      return NextResponse.json(
+        { error: 'Certificates are not ready yet' },
+        { status: 409 }
+      );
+    }
+
+    const archive = await openAsset(job.archiveAssetId);
+    if (!archive) {
+      return NextResponse.json(
+        { error: 'Certificate archive has expired' },
+        { status: 410 }
+      );
+    }
+
+    // Streamed so large archives are never held in memory
+    return new NextResponse(
+      Readable.toWeb(archive.stream) as ReadableStream<Uint8Array>,
+      {
+        headers: {
+          'Content-Type': archive.contentType,
+          ...(archive.size > 0
+            ? { 'Content-Length': archive.size.toString() }
+            : {}),
+          'Content-Disposition': `attachment; filename="${job.archiveFilename}"`,
+          // Archives hold participant data and expire with their job
+          'Cache-Control': 'private, no-store',
+        },
+      }
+    );
+  } catch (error) {
+    console.error('Certificate job download error:', error);
+    return NextResponse.json(
+      { error: 'Failed to download certificates' },
+      { status: 500 }
+    );
+  }
+}
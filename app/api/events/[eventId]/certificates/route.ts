@@ -0,0 +1,147 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ObjectId } from 'mongodb';
+import { Readable } from 'stream';
+import {
+  appendCertificates,
+  createCertificateArchive,
+} from '@/lib/certificate-archive';
+import {
+  generateZipFilename,
+  isCertificateRevoked,
+} from '@/lib/certificate-utils';
+import { getDatabase } from '@/lib/mongodb';
+import { findAllParticipants } from '@/lib/participant-store';
+import { hasTemplateImage } from '@/lib/template-images';
+import { EmailStatus, IEvent, IParticipantQuery } from '@/lib/types';
+
+export const dynamic = 'force-dynamic';
+
+const EMAIL_STATUSES: EmailStatus[] = [
+  'not_sent',
+  'pending',
+  'sent',
+  'failed',
+  'bounced',
+];
+
+/**
+ * Streams an event's certificates as a ZIP archive, adding each certificate
+ * as soon as it is rendered. Filters are query parameters (GET) or form
+ * fields (POST, for selections too long for a URL):
+ * - ids: Certification IDs to include, repeated for each participant
+ * - search: Only participants whose name, certification ID or email match
+ * - emailStatus: Only participants with this email status
+ * - missingEmail: 'true' for only participants without an email address
+ * - templateVariantId: Only participants using this template
+ * Filters combine like the participant table's. Without filters every
+ * participant is included. Revoked certificates are always left out.
+ */
+async function streamCertificates(
+  eventId: string,
+  readFilters: () => Promise<URLSearchParams | FormData>
+) {
+  try {
+    if (!ObjectId.isValid(eventId)) {
+      return NextResponse.json({ error: 'Event not found' }, { status: 404 });
+    }
+
+    const filters = await readFilters();
+    const ids = filters.getAll('ids').map(String).filter(Boolean);
+    const emailStatus = filters.get('emailStatus');
+    if (emailStatus && !EMAIL_STATUSES.includes(emailStatus as EmailStatus)) {
+      return NextResponse.json(
+        { error: 'Invalid email status' },
+        { status: 400 }
+      );
+    }
+
+    const db = await getDatabase();
+    const event = await db
+      .collection<IEvent>('events')
+      .findOne(
+        { _id: new ObjectId(eventId) },
+        { projection: { participants: 0 } }
+      );
+    if (!event) {
+      return NextResponse.json({ error: 'Event not found' }, { status: 404 });
+    }
+    if (!hasTemplateImage(event.template)) {
+      return NextResponse.json(
+        { error: 'Event has no template' },
+        { status: 400 }
+      );
+    }
+
+    const query: IParticipantQuery = {
+      search: filters.get('search')?.toString(),
+      emailStatus: (emailStatus as EmailStatus) || undefined,
+      missingEmail: filters.get('missingEmail') === 'true',
+      templateVariantId: filters.get('templateVariantId')?.toString(),
+    };
+    const participants = (
+      await findAllParticipants(
+        eventId,
+        query,
+        event.templateVariants,
+        ids.length > 0 ? ids : undefined
+      )
+    ).filter((p) => !isCertificateRevoked(p));
+    if (participants.length === 0) {
+      return NextResponse.json(
+        { error: 'No participants to generate certificates for' },
+        { status: 404 }
+      );
+    }
+
+    const archive = createCertificateArchive();
+    appendCertificates(archive, event, participants)
+      .then((renderedCount) => {
+        if (renderedCount === 0) {
+          throw new Error('None of the certificates could be generated');
+        }
+        return archive.finalize();
+      })
+      .catch((error) => {
+        console.error('Error streaming certificates:', error);
+        // The response has started, so breaking the stream is the only way
+        // to tell the browser the download failed
+        archive.destroy(error);
+      });
+
+    return new NextResponse(
+      Readable.toWeb(archive) as ReadableStream<Uint8Array>,
+      {
+        headers: {
+          'Content-Type': 'application/zip',
+          'Content-Disposition': `attachment; filename="${generateZipFilename(
+            event.title,
+            participants.length
+          )}"`,
+        },
+      }
+    );
+  } catch (error) {
+    console.error('Certificate download error:', error);
+    return NextResponse.json(
+      { error: 'Failed to download certificates' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { eventId: string } }
+) {
+  return streamCertificates(
+    params.eventId,
+    async () => request.nextUrl.searchParams
+  );
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { eventId: string } }
+) {
+  return streamCertificates(params.eventId, () => request.formData());
+}
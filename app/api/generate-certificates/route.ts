@@ -1,23 +1,59 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { generateCertificate } from '@/lib/canvas-utils';
-import { parseCSV } from '@/lib/csv-utils';
-import { ITextConfig } from '@/lib/types';
-import archiver from 'archiver';
 import { Readable } from 'stream';
+import { parseCSV, parseXLSX } from '@/lib/csv-utils';
+import {
+  ITextConfig,
+  ITextElement,
+  ICustomFont,
+  IQRCodeConfig,
+  IImageLayer,
+  IEvent,
+  CertificateOutputFormat,
+  ArchiveGrouping,
+  RenderScale,
+} from '@/lib/types';
+import {
+  appendCertificates,
+  createCertificateArchive,
+} from '@/lib/certificate-archive';
 
 export async function POST(request: NextRequest) {
   try {
-    const { templateUrl, csvData, nameConfig, idConfig } = await request.json();
+    const {
+      templateUrl,
+      csvData,
+      xlsxData,
+      sheetName,
+      nameConfig,
+      idConfig,
+      textElements,
+      format,
+      renderScale,
+      fonts,
+      qrCodeConfig,
+      verificationBaseUrl,
+      imageLayers,
+      eventTitle,
+      eventDate,
+      filenamePattern,
+      archiveGrouping,
+    } = await request.json();
 
-    if (!templateUrl || !csvData || !nameConfig || !idConfig) {
+    if (!templateUrl || !(csvData || xlsxData) || !nameConfig || !idConfig) {
       return NextResponse.json(
         { error: 'Missing required parameters' },
         { status: 400 }
       );
     }
 
-    // Parse CSV data
-    const recipients = parseCSV(csvData);
+    // Parse CSV data, or a base64 encoded XLSX workbook. Invalid rows are
+    // skipped so the rest of the certificates are still generated.
+    const recipients = xlsxData
+      ? await parseXLSX(Buffer.from(xlsxData, 'base64'), {
+          sheetName,
+          invalidRows: 'skip',
+        })
+      : parseCSV(csvData, { invalidRows: 'skip' });
 
     if (recipients.length === 0) {
       return NextResponse.json(
@@ -26,68 +62,70 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Create ZIP archive
-    const archive = archiver('zip', { zlib: { level: 9 } });
-    const chunks: Buffer[] = [];
-
-    // Set up event listeners BEFORE finalizing
-    archive.on('data', (chunk) => chunks.push(chunk));
-    archive.on('error', (err) => {
-      console.error('Archive error:', err);
-      throw err;
-    });
-
-    console.log('recipients', recipients);
-
-    // Generate certificates for each recipient
-    for (const recipient of recipients) {
-      try {
-        const certificateBuffer = await generateCertificate(
-          `${
-            process.env.NEXT_PUBLIC_BASE_URL || 'http://localhost:3000'
-          }${templateUrl}`,
-          recipient,
-          nameConfig as ITextConfig,
-          idConfig as ITextConfig
-        );
-
-        const filename = `certificate_${recipient.certification_id}.png`;
-        console.log('filename', filename);
-
-        archive.append(certificateBuffer, { name: filename });
-      } catch (error) {
-        console.error(
-          `Error generating certificate for ${recipient.name}:`,
-          error
-        );
-        // Continue with other certificates even if one fails
-      }
+    // Fetched once; the render workers decode it once each
+    const templateResponse = await fetch(
+      `${
+        process.env.NEXT_PUBLIC_BASE_URL || 'http://localhost:3000'
+      }${templateUrl}`
+    );
+    if (!templateResponse.ok) {
+      return NextResponse.json(
+        { error: 'Template image not found' },
+        { status: 400 }
+      );
     }
+    const template = Buffer.from(await templateResponse.arrayBuffer());
 
-    // Finalize the archive and wait for completion
-    await new Promise<void>((resolve, reject) => {
-      archive.on('end', () => {
-        console.log('Archive finalized successfully');
-        resolve();
-      });
+    // The layout is given like an event's, so the certificates are rendered
+    // and archived the same way as an event's
+    const event = {
+      title: eventTitle || '',
+      eventDate,
+      template: {
+        base64: template.toString('base64'),
+        originalName: 'template',
+        uploadedAt: new Date(),
+      },
+      nameConfig: nameConfig as ITextConfig,
+      idConfig: idConfig as ITextConfig,
+      textElements: (textElements || []) as ITextElement[],
+      outputFormat: (format || 'png') as CertificateOutputFormat,
+      renderScale: (Number(renderScale) || 1) as RenderScale,
+      filenamePattern,
+      archiveGrouping: archiveGrouping as ArchiveGrouping | undefined,
+      fonts: (fonts || []) as ICustomFont[],
+      qrCodeConfig: qrCodeConfig as IQRCodeConfig | undefined,
+      verificationBaseUrl,
+      imageLayers: (imageLayers || []) as IImageLayer[],
+      participants: [],
+    } as unknown as IEvent;
 
-      archive.on('error', (err) => {
-        console.error('Archive finalization error:', err);
-        reject(err);
+    // Certificates are rendered a batch at a time and streamed as they are
+    // added, so neither the renders nor the archive are held all at once
+    const archive = createCertificateArchive();
+    appendCertificates(archive, event, recipients)
+      .then((renderedCount) => {
+        if (renderedCount === 0) {
+          throw new Error('None of the certificates could be generated');
+        }
+        return archive.finalize();
+      })
+      .catch((error) => {
+        console.error('Error streaming certificates:', error);
+        // The response has started, so breaking the stream is the only way
+        // to tell the browser the download failed
+        archive.destroy(error);
       });
 
-      archive.finalize();
-    });
-
-    const zipBuffer = Buffer.concat(chunks as unknown as Uint8Array[]);
-
-    return new NextResponse(zipBuffer, {
-      headers: {
-        'Content-Type': 'application/zip',
-        'Content-Disposition': 'attachment; filename="certificates.zip"',
-        'Content-Length': zipBuffer.length.toString(),
-      },
-    });
+    return new NextResponse(
+      Readable.toWeb(archive) as ReadableStream<Uint8Array>,
+      {
+        headers: {
+          'Content-Type': 'application/zip',
+          'Content-Disposition': 'attachment; filename="certificates.zip"',
+        },
+      }
+    );
   } catch (error) {
     console.error('Certificate generation error:', error);
     return NextResponse.json(
@@ -1,7 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { writeFile, mkdir } from 'fs/promises';
-import { join } from 'path';
-import { existsSync } from 'fs';
+import { storeAsset } from '@/lib/asset-storage';
+import { ASSET_IMAGE_TYPES, getAssetUrl } from '@/lib/template-images';
 
 export const dynamic = 'force-dynamic';
 
@@ -15,30 +14,18 @@ export async function POST(request: NextRequest) {
     }
     
     // Validate file type
-    if (!file.type.startsWith('image/')) {
-      return NextResponse.json({ success: false, error: 'File must be an image' });
+    if (!ASSET_IMAGE_TYPES.includes(file.type)) {
+      return NextResponse.json({ success: false, error: 'File must be a PNG, JPEG or WebP image' });
     }
     
     const bytes = await file.arrayBuffer();
     const buffer = Buffer.from(bytes);
     
-    // Create uploads directory if it doesn't exist
-    const uploadsDir = join(process.cwd(), 'public', 'uploads');
-    if (!existsSync(uploadsDir)) {
-      await mkdir(uploadsDir, { recursive: true });
-    }
-    
-    // Generate unique filename
-    const timestamp = Date.now();
-    const filename = `${timestamp}-${file.name}`;
-    const filepath = join(uploadsDir, filename);
-    
-    // Write file
-    await writeFile(filepath, buffer);
-    
-    const url = `/uploads/${filename}`;
+    // Store in asset storage; the returned ID is referenced by events
+    const assetId = await storeAsset(buffer, file.type);
+    const url = getAssetUrl(assetId);
     
-    return NextResponse.json({ success: true, url });
+    return NextResponse.json({ success: true, assetId, url });
   } catch (error) {
     console.error('Upload error:', error);
     return NextResponse.json({ success: false, error: 'Upload failed' });
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  normalizeCertificationId,
+  verifyCertificate,
+} from '@/lib/certificate-verification';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { certificationId: string } }
+) {
+  try {
+    const certificate = await verifyCertificate(
+      normalizeCertificationId(params.certificationId)
+    );
+
+    if (!certificate) {
+      return NextResponse.json(
+        { valid: false, error: 'Certificate not found' },
+        { status: 404 }
+      );
+    }
+
+    // Revoked certificates are found but not valid; the body still carries
+    // the status and reason
+    return NextResponse.json({
+      valid: certificate.status !== 'revoked',
+      certificate,
+    });
+  } catch (error) {
+    console.error('Certificate verification error:', error);
+    return NextResponse.json(
+      { error: 'Failed to verify certificate' },
+      { status: 500 }
+    );
+  }
+}
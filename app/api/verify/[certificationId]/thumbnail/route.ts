@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  normalizeCertificationId,
+  renderCertificateThumbnail,
+} from '@/lib/certificate-verification';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { certificationId: string } }
+) {
+  try {
+    const thumbnail = await renderCertificateThumbnail(
+      normalizeCertificationId(params.certificationId)
+    );
+
+    if (!thumbnail) {
+      return NextResponse.json(
+        { error: 'Certificate not found' },
+        { status: 404 }
+      );
+    }
+
+    return new NextResponse(thumbnail, {
+      headers: {
+        'Content-Type': 'image/png',
+        'Content-Length': thumbnail.length.toString(),
+        'Cache-Control': 'public, max-age=300',
+      },
+    });
+  } catch (error) {
+    console.error('Certificate thumbnail error:', error);
+    return NextResponse.json(
+      { error: 'Failed to render certificate thumbnail' },
+      { status: 500 }
+    );
+  }
+}
@@ -5,13 +5,19 @@ import dynamic from 'next/dynamic';
 import { ResponsiveLayout } from '@/components/layout/responsive-layout';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { IEvent } from '@/lib/types';
-import { getAllEventsSummary, getEvent } from '@/lib/actions';
+import {
+  getAllEventsSummary,
+  getEvent,
+  getParticipantSummary,
+} from '@/lib/actions';
 import {
   saveAppState,
   loadAppState,
   findEventById,
 } from '@/lib/local-storage-utils';
 import { IView, viewList } from '@/lib/types';
+import { hasTemplateImage } from '@/lib/template-images';
+import { getParticipantCount } from '@/lib/utils';
 
 // Lazy load components for code splitting
 const EventCreationTab = dynamic(
@@ -87,18 +93,28 @@ export default function Home() {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
+  // Participants are not loaded with the event; the views that list them
+  // load them a page at a time, so only their count is kept here
+  const loadEvent = async (eventId: string) => {
+    const [event, summary] = await Promise.all([
+      getEvent(eventId, { participants: 0 }),
+      getParticipantSummary(eventId),
+    ]);
+    return event && { ...event, participantCount: summary.total };
+  };
+
   // Load full event data when selected event changes
   useEffect(() => {
     const loadFullEventData = async () => {
       if (!selectedEvent?._id) return;
       
-      // Check if we already have full data (has base64 or participants)
-      if (selectedEvent.template.base64 || selectedEvent.participants.length > 0) {
+      // Check if we already have full data
+      if (!selectedEvent.isSummary) {
         return; // Already have full data
       }
 
       try {
-        const fullEvent = await getEvent(selectedEvent._id.toString());
+        const fullEvent = await loadEvent(selectedEvent._id.toString());
         if (fullEvent) {
           setSelectedEvent(fullEvent);
           // Update in events list too
@@ -120,7 +136,7 @@ export default function Home() {
       try {
         setLoading(true);
 
-        // Load event summaries (without base64 and participants) for faster initial load
+        // Load event summaries (without file data and participants) for faster initial load
         const eventSummaries = await getAllEventsSummary();
         setEvents(eventSummaries);
 
@@ -138,7 +154,7 @@ export default function Home() {
             if (event) {
               setSelectedEvent(event);
               // Load full event data in background
-              getEvent(savedState.selectedEventId)
+              loadEvent(savedState.selectedEventId)
                 .then((fullEvent) => {
                   if (fullEvent) {
                     setSelectedEvent(fullEvent);
@@ -173,7 +189,7 @@ export default function Home() {
       
       // If we have a selected event, refresh its full data
       if (selectedEvent?._id) {
-        const fullEvent = await getEvent(selectedEvent._id.toString());
+        const fullEvent = await loadEvent(selectedEvent._id.toString());
         if (fullEvent) {
           setSelectedEvent(fullEvent);
           setEvents((prev) =>
@@ -214,16 +230,16 @@ export default function Home() {
     });
     
     // Load full event data if we only have summary
-    if (!event.template.base64 && event._id) {
+    if (event.isSummary && event._id) {
       try {
-        const fullEvent = await getEvent(event._id.toString());
+        const fullEvent = await loadEvent(event._id.toString());
         if (fullEvent) {
           setSelectedEvent(fullEvent);
           setEvents((prev) =>
             prev.map((e) => (e._id === fullEvent._id ? fullEvent : e))
           );
           // Use full event for navigation check
-          if (fullEvent.template.base64) {
+          if (hasTemplateImage(fullEvent.template)) {
             navigateView(viewList.template);
           } else {
             navigateView(viewList.template);
@@ -236,7 +252,7 @@ export default function Home() {
     }
     
     // If event has template, go to layout section, otherwise go to template upload
-    if (event.template.base64) {
+    if (hasTemplateImage(event.template)) {
       navigateView(viewList.template);
     } else {
       navigateView(viewList.template);
@@ -297,8 +313,8 @@ export default function Home() {
 
   const canGenerate =
     selectedEvent &&
-    selectedEvent.template.base64 &&
-    selectedEvent.participants.length > 0;
+    hasTemplateImage(selectedEvent.template) &&
+    getParticipantCount(selectedEvent) > 0;
 
   if (loading) {
     return (
@@ -363,7 +379,6 @@ export default function Home() {
       {currentView === viewList.email && selectedEvent && (
         <EmailStatusDashboard
           eventId={selectedEvent._id!.toString()}
-          participants={selectedEvent.participants}
           onEmailRetry={handleParticipantsUploaded}
         />
       )}
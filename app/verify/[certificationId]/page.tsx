@@ -0,0 +1,190 @@
+import type { Metadata } from 'next';
+import Image from 'next/image';
+import Link from 'next/link';
+import { AlertTriangle, CheckCircle2, XCircle } from 'lucide-react';
+import {
+  normalizeCertificationId,
+  verifyCertificate,
+} from '@/lib/certificate-verification';
+import { Badge } from '@/components/ui/badge';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+
+export const dynamic = 'force-dynamic';
+
+export const metadata: Metadata = {
+  title: 'Verify Certificate - Certificate Generator',
+  description: 'Confirm that a certificate is genuine.',
+};
+
+interface VerifyPageProps {
+  params: { certificationId: string };
+}
+
+function formatDate(date: Date | string): string {
+  return new Date(date).toLocaleDateString('en-US', {
+    day: 'numeric',
+    month: 'long',
+    year: 'numeric',
+  });
+}
+
+export default async function VerifyCertificatePage({
+  params,
+}: VerifyPageProps) {
+  const certificationId = normalizeCertificationId(params.certificationId);
+  const certificate = await verifyCertificate(certificationId);
+  const isRevoked = certificate?.status === 'revoked';
+
+  return (
+    <main className="min-h-screen bg-gray-50 dark:bg-gray-900 flex items-center justify-center p-4">
+      <Card className="w-full max-w-2xl">
+        {certificate ? (
+          <>
+            <CardHeader className="text-center">
+              {isRevoked ? (
+                <>
+                  <AlertTriangle className="h-12 w-12 mx-auto text-red-600 dark:text-red-400" />
+                  <CardTitle className="text-2xl">
+                    Certificate Revoked
+                  </CardTitle>
+                  <CardDescription>
+                    This certificate was issued through Certificate Generator
+                    but is no longer valid.
+                  </CardDescription>
+                </>
+              ) : (
+                <>
+                  <CheckCircle2 className="h-12 w-12 mx-auto text-green-600 dark:text-green-400" />
+                  <CardTitle className="text-2xl">
+                    Certificate Verified
+                  </CardTitle>
+                  <CardDescription>
+                    This certificate was issued through Certificate Generator
+                    and is genuine.
+                  </CardDescription>
+                </>
+              )}
+            </CardHeader>
+            <CardContent className="space-y-6">
+              {/* At most 600 pixels wide; the height follows the template */}
+              <Image
+                src={`/api/verify/${encodeURIComponent(
+                  certificate.certificationId
+                )}/thumbnail`}
+                alt={`Certificate for ${certificate.holderName}`}
+                width={600}
+                height={424}
+                unoptimized
+                className="w-full h-auto rounded-lg border border-gray-200 dark:border-gray-700"
+              />
+
+              <dl className="grid grid-cols-1 sm:grid-cols-2 gap-4 text-sm">
+                <div>
+                  <dt className="text-gray-500 dark:text-gray-400">Holder</dt>
+                  <dd className="font-medium text-gray-900 dark:text-gray-100">
+                    {certificate.holderName}
+                  </dd>
+                </div>
+                <div>
+                  <dt className="text-gray-500 dark:text-gray-400">
+                    Certificate ID
+                  </dt>
+                  <dd className="font-mono text-gray-900 dark:text-gray-100">
+                    {certificate.certificationId}
+                  </dd>
+                </div>
+                <div>
+                  <dt className="text-gray-500 dark:text-gray-400">Event</dt>
+                  <dd className="font-medium text-gray-900 dark:text-gray-100">
+                    {certificate.eventTitle}
+                  </dd>
+                </div>
+                <div>
+                  <dt className="text-gray-500 dark:text-gray-400">
+                    Event Date
+                  </dt>
+                  <dd className="text-gray-900 dark:text-gray-100">
+                    {formatDate(certificate.eventDate)}
+                  </dd>
+                </div>
+                <div>
+                  <dt className="text-gray-500 dark:text-gray-400">Status</dt>
+                  <dd>
+                    {isRevoked ? (
+                      <Badge className="bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200 hover:bg-red-100">
+                        Revoked
+                      </Badge>
+                    ) : (
+                      <Badge className="bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200 hover:bg-green-100">
+                        Valid
+                      </Badge>
+                    )}
+                  </dd>
+                </div>
+                {certificate.issuedAt && (
+                  <div>
+                    <dt className="text-gray-500 dark:text-gray-400">Issued</dt>
+                    <dd className="text-gray-900 dark:text-gray-100">
+                      {formatDate(certificate.issuedAt)}
+                    </dd>
+                  </div>
+                )}
+                {certificate.revokedAt && (
+                  <div>
+                    <dt className="text-gray-500 dark:text-gray-400">
+                      Revoked
+                    </dt>
+                    <dd className="text-gray-900 dark:text-gray-100">
+                      {formatDate(certificate.revokedAt)}
+                    </dd>
+                  </div>
+                )}
+                {certificate.revocationReason && (
+                  <div className="sm:col-span-2">
+                    <dt className="text-gray-500 dark:text-gray-400">Reason</dt>
+                    <dd className="text-gray-900 dark:text-gray-100">
+                      {certificate.revocationReason}
+                    </dd>
+                  </div>
+                )}
+                {certificate.replacedBy && (
+                  <div className="sm:col-span-2">
+                    <dt className="text-gray-500 dark:text-gray-400">
+                      Replaced By
+                    </dt>
+                    <dd>
+                      <Link
+                        href={`/verify/${encodeURIComponent(
+                          certificate.replacedBy
+                        )}`}
+                        className="font-mono text-blue-600 dark:text-blue-400 hover:underline"
+                      >
+                        {certificate.replacedBy}
+                      </Link>
+                    </dd>
+                  </div>
+                )}
+              </dl>
+            </CardContent>
+          </>
+        ) : (
+          <CardHeader className="text-center">
+            <XCircle className="h-12 w-12 mx-auto text-red-600 dark:text-red-400" />
+            <CardTitle className="text-2xl">Certificate Not Found</CardTitle>
+            <CardDescription>
+              No certificate with ID{' '}
+              <span className="font-mono">{certificationId}</span> could be
+              verified. Check the ID and try again.
+            </CardDescription>
+          </CardHeader>
+        )}
+      </Card>
+    </main>
+  );
+}
@@ -15,13 +15,12 @@ import { Progress } from '@/components/ui/progress';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Badge } from '@/components/ui/badge';
 import { IRecipientData, EmailStatus } from '@/lib/types';
-import { sendBulkEmails } from '@/lib/actions';
+import { getParticipantsByIds, sendBulkEmails } from '@/lib/actions';
 import { toast } from '@/hooks/use-toast';
 import { Send, CheckCircle, XCircle, Clock, AlertCircle } from 'lucide-react';
 
 interface BulkEmailActionsProps {
   eventId: string;
-  participants: IRecipientData[];
   selectedParticipantIds: string[];
   onEmailSent?: () => void;
   disabled?: boolean;
@@ -39,7 +38,6 @@ interface EmailProgress {
 
 export function BulkEmailActions({
   eventId,
-  participants,
   selectedParticipantIds,
   onEmailSent,
   disabled = false,
@@ -48,10 +46,12 @@ export function BulkEmailActions({
   const [open, setOpen] = useState(false);
   const [isSending, setIsSending] = useState(false);
   const [progress, setProgress] = useState<EmailProgress | null>(null);
-
-  const selectedParticipants = participants.filter((p) =>
-    selectedParticipantIds.includes(p.certification_id)
-  );
+  // Selections may span table pages that were never loaded, so the selected
+  // participants are fetched when the dialog opens
+  const [selectedParticipants, setSelectedParticipants] = useState<
+    IRecipientData[]
+  >([]);
+  const [isLoading, setIsLoading] = useState(false);
 
   const participantsWithEmails = selectedParticipants.filter((p) => p.email);
   const participantsWithoutEmails = selectedParticipants.filter(
@@ -155,10 +155,32 @@ export function BulkEmailActions({
     }
   };
 
+  const handleOpenChange = async (isOpen: boolean) => {
+    setOpen(isOpen);
+    if (!isOpen) return;
+
+    setSelectedParticipants([]);
+    setIsLoading(true);
+    try {
+      setSelectedParticipants(
+        await getParticipantsByIds(eventId, selectedParticipantIds)
+      );
+    } catch (error) {
+      toast({
+        title: 'Failed to Load Participants',
+        description:
+          error instanceof Error ? error.message : 'Unknown error occurred',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
   const statusCounts = getStatusCounts();
 
   return (
-    <Dialog open={open} onOpenChange={setOpen}>
+    <Dialog open={open} onOpenChange={handleOpenChange}>
       <DialogTrigger asChild>
         {children || (
           <Button
@@ -338,11 +360,15 @@ export function BulkEmailActions({
           </Button>
           <Button
             onClick={handleBulkSend}
-            disabled={isSending || participantsWithEmails.length === 0}
+            disabled={
+              isSending || isLoading || participantsWithEmails.length === 0
+            }
           >
             <Send className="h-4 w-4 mr-2" />
             {isSending
               ? 'Sending...'
+              : isLoading
+              ? 'Loading...'
               : `Send ${participantsWithEmails.length} Emails`}
           </Button>
         </DialogFooter>
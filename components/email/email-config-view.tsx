@@ -2,6 +2,7 @@
 
 import { useState, useEffect } from 'react';
 import { IEvent, IEmailConfig, IEmailTemplate } from '@/lib/types';
+import { getParticipantCount } from '@/lib/utils';
 import { Button } from '@/components/ui/button';
 import {
   Card,
@@ -29,6 +30,7 @@ import {
   testEmailConfiguration,
   updateEventEmailConfig,
   updateEventEmailTemplate,
+  getParticipantSummary,
 } from '@/lib/actions';
 import { toast } from '@/hooks/use-toast';
 
@@ -175,6 +177,10 @@ export function EmailConfigView({
   onConfigUpdate,
 }: EmailConfigViewProps) {
   const [activeTab, setActiveTab] = useState<'smtp' | 'templates'>('smtp');
+  // Extra CSV columns can be used as variables too
+  const [participantFieldNames, setParticipantFieldNames] = useState<string[]>(
+    []
+  );
   const [isLoading, setIsLoading] = useState(false);
   const [isTesting, setIsTesting] = useState(false);
   const [testResult, setTestResult] = useState<{
@@ -289,6 +295,17 @@ export function EmailConfigView({
     }
   }, [event.emailConfig, event.emailTemplate]);
 
+  // Participants are not loaded with the event
+  useEffect(() => {
+    if (!event._id) return;
+
+    getParticipantSummary(event._id.toString())
+      .then((summary) => setParticipantFieldNames(summary.fieldNames))
+      .catch((error) => {
+        console.error('Error loading participant fields:', error);
+      });
+  }, [event._id]);
+
   const handleTestConnection = async () => {
     setIsTesting(true);
     setTestResult(null);
@@ -692,6 +709,7 @@ export function EmailConfigView({
                       '{participantName}',
                       '{certificateId}',
                       '{eventDate}',
+                      ...participantFieldNames.map((name) => `{${name}}`),
                     ].map((variable) => (
                       <code
                         key={variable}
@@ -925,7 +943,7 @@ export function EmailConfigView({
                 Participants:
               </span>
               <p className="text-gray-900 dark:text-gray-100">
-                {event.participants.length}
+                {getParticipantCount(event)}
               </p>
             </div>
             <div>
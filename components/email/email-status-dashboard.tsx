@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import {
   Card,
   CardContent,
@@ -12,8 +12,18 @@ import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { IRecipientData, EmailStatus, IEmailLog } from '@/lib/types';
-import { getEmailLogs, retryFailedEmail } from '@/lib/actions';
+import {
+  IRecipientData,
+  EmailStatus,
+  IEmailLog,
+  IParticipantSummary,
+} from '@/lib/types';
+import {
+  getEmailLogs,
+  getParticipantPage,
+  getParticipantSummary,
+  retryFailedEmail,
+} from '@/lib/actions';
 import { toast } from '@/hooks/use-toast';
 import {
   EmailStatusIndicator,
@@ -32,7 +42,6 @@ import {
 
 interface EmailStatusDashboardProps {
   eventId: string;
-  participants: IRecipientData[];
   onEmailRetry?: () => void;
 }
 
@@ -45,20 +54,71 @@ interface EmailStats {
   bounced: number;
 }
 
+// Participants listed per page; more are loaded on request
+const PARTICIPANTS_PAGE_SIZE = 50;
+
 export function EmailStatusDashboard({
   eventId,
-  participants,
   onEmailRetry,
 }: EmailStatusDashboardProps) {
   const [emailLogs, setEmailLogs] = useState<IEmailLog[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [retryingEmails, setRetryingEmails] = useState<Set<string>>(new Set());
   const [filter, setFilter] = useState<EmailStatus | 'all'>('all');
+  // Status counts come from the server; only the listed participants are
+  // loaded, a page at a time
+  const [summary, setSummary] = useState<IParticipantSummary | null>(null);
+  const [participants, setParticipants] = useState<IRecipientData[]>([]);
+  const [filteredTotal, setFilteredTotal] = useState(0);
+  const [isLoadingParticipants, setIsLoadingParticipants] = useState(false);
 
   useEffect(() => {
     loadEmailLogs();
   }, [eventId]);
 
+  const loadSummary = useCallback(async () => {
+    try {
+      setSummary(await getParticipantSummary(eventId));
+    } catch (error) {
+      console.error('Error loading participant summary:', error);
+    }
+  }, [eventId]);
+
+  const loadParticipants = useCallback(
+    async (page: number) => {
+      setIsLoadingParticipants(true);
+      try {
+        const result = await getParticipantPage(
+          eventId,
+          filter === 'all' ? {} : { emailStatus: filter },
+          page,
+          PARTICIPANTS_PAGE_SIZE
+        );
+        setParticipants((prev) =>
+          page === 0 ? result.participants : [...prev, ...result.participants]
+        );
+        setFilteredTotal(result.total);
+      } catch (error) {
+        toast({
+          title: 'Error Loading Participants',
+          description: 'Failed to load participants',
+          variant: 'destructive',
+        });
+      } finally {
+        setIsLoadingParticipants(false);
+      }
+    },
+    [eventId, filter]
+  );
+
+  useEffect(() => {
+    loadSummary();
+  }, [loadSummary]);
+
+  useEffect(() => {
+    loadParticipants(0);
+  }, [loadParticipants]);
+
   const loadEmailLogs = async () => {
     setIsLoading(true);
     try {
@@ -89,6 +149,8 @@ export function EmailStatusDashboard({
         });
         onEmailRetry?.();
         loadEmailLogs();
+        loadSummary();
+        loadParticipants(0);
       } else {
         toast({
           title: 'Retry Failed',
@@ -112,52 +174,18 @@ export function EmailStatusDashboard({
   };
 
   const getEmailStats = (): EmailStats => {
-    const stats: EmailStats = {
-      total: participants.length,
-      sent: 0,
-      failed: 0,
-      pending: 0,
-      notSent: 0,
-      bounced: 0,
+    const counts = summary?.emailStatusCounts;
+    return {
+      total: summary?.total || 0,
+      sent: counts?.sent || 0,
+      failed: counts?.failed || 0,
+      pending: counts?.pending || 0,
+      notSent: counts?.not_sent || 0,
+      bounced: counts?.bounced || 0,
     };
-
-    participants.forEach((participant) => {
-      const status = participant.emailStatus || 'not_sent';
-      switch (status) {
-        case 'sent':
-          stats.sent++;
-          break;
-        case 'failed':
-          stats.failed++;
-          break;
-        case 'pending':
-          stats.pending++;
-          break;
-        case 'bounced':
-          stats.bounced++;
-          break;
-        case 'not_sent':
-        default:
-          stats.notSent++;
-          break;
-      }
-    });
-
-    return stats;
-  };
-
-  const getFilteredParticipants = () => {
-    if (filter === 'all') return participants;
-    return participants.filter((p) => p.emailStatus === filter);
-  };
-
-  const getFailedParticipants = () => {
-    return participants.filter((p) => p.emailStatus === 'failed');
   };
 
   const stats = getEmailStats();
-  const filteredParticipants = getFilteredParticipants();
-  const failedParticipants = getFailedParticipants();
 
   const getStatusIcon = (status: EmailStatus) => {
     switch (status) {
@@ -241,11 +269,11 @@ export function EmailStatusDashboard({
       </div>
 
       {/* Failed Emails Alert */}
-      {failedParticipants.length > 0 && (
+      {stats.failed > 0 && (
         <Alert variant="destructive">
           <AlertCircle className="h-4 w-4" />
           <AlertDescription>
-            {failedParticipants.length} email(s) failed to send.
+            {stats.failed} email(s) failed to send.
             <Button
               variant="link"
               className="p-0 h-auto ml-2"
@@ -289,7 +317,7 @@ export function EmailStatusDashboard({
 
           {/* Participants List */}
           <div className="space-y-2">
-            {filteredParticipants.map((participant) => (
+            {participants.map((participant) => (
               <Card key={participant.certification_id}>
                 <CardContent className="p-4">
                   <div className="flex items-center justify-between">
@@ -350,6 +378,26 @@ export function EmailStatusDashboard({
               </Card>
             ))}
           </div>
+
+          {participants.length < filteredTotal && (
+            <div className="flex items-center justify-center gap-3">
+              <span className="text-sm text-gray-500">
+                Showing {participants.length} of {filteredTotal}
+              </span>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() =>
+                  loadParticipants(
+                    Math.ceil(participants.length / PARTICIPANTS_PAGE_SIZE)
+                  )
+                }
+                disabled={isLoadingParticipants}
+              >
+                {isLoadingParticipants ? 'Loading...' : 'Load more'}
+              </Button>
+            </div>
+          )}
         </TabsContent>
 
         <TabsContent value="logs" className="space-y-4">
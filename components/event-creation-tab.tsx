@@ -47,7 +47,6 @@ export function EventCreationTab({ onEventCreated }: EventCreationTabProps) {
         eventDate,
         status: 'draft',
         template: {
-          base64: '',
           originalName: '',
           uploadedAt: new Date(),
         },
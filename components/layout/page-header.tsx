@@ -1,6 +1,8 @@
 'use client';
 
 import { IEvent } from '@/lib/types';
+import { hasTemplateImage } from '@/lib/template-images';
+import { getParticipantCount } from '@/lib/utils';
 import { Badge } from '@/components/ui/badge';
 
 interface PageHeaderProps {
@@ -9,8 +11,8 @@ interface PageHeaderProps {
 
 export function PageHeader({ selectedEvent }: PageHeaderProps) {
   const getEventStatus = (event: IEvent) => {
-    if (!event.template.base64) return 'no-template';
-    if (event.participants.length === 0) return 'no-participants';
+    if (!hasTemplateImage(event.template)) return 'no-template';
+    if (getParticipantCount(event) === 0) return 'no-participants';
     return 'ready';
   };
 
@@ -62,7 +64,7 @@ export function PageHeader({ selectedEvent }: PageHeaderProps) {
         {selectedEvent && (
           <div className="flex items-center gap-4">
             <div className="text-sm text-gray-600 dark:text-gray-400">
-              {selectedEvent.participants.length} participants
+              {getParticipantCount(selectedEvent)} participants
             </div>
             {getEventStatus(selectedEvent) === 'ready' && (
               <div className="text-sm text-green-600 dark:text-green-400 font-medium">
@@ -8,6 +8,8 @@ import { CreateEventButton } from '../sidebar/create-event-button';
 import { Card, CardContent } from '../ui/card';
 import { Badge } from '../ui/badge';
 import { IView, viewList } from '@/lib/types';
+import { hasTemplateImage } from '@/lib/template-images';
+import { getParticipantCount } from '@/lib/utils';
 
 interface SidebarProps {
   events: IEvent[];
@@ -64,16 +66,22 @@ export function Sidebar({
       case viewList.template:
         return 'available';
       case viewList.layout:
-        return selectedEvent.template.base64 ? 'available' : 'disabled';
+        return hasTemplateImage(selectedEvent.template)
+          ? 'available'
+          : 'disabled';
       case viewList.recipients:
-        return selectedEvent.template.base64 ? 'available' : 'disabled';
+        return hasTemplateImage(selectedEvent.template)
+          ? 'available'
+          : 'disabled';
       case viewList.email:
-        return selectedEvent.template.base64 &&
-          selectedEvent.participants.length > 0
+        return hasTemplateImage(selectedEvent.template) &&
+          getParticipantCount(selectedEvent) > 0
           ? 'available'
           : 'disabled';
       case viewList.emailConfig:
-        return selectedEvent.template.base64 ? 'available' : 'disabled';
+        return hasTemplateImage(selectedEvent.template)
+          ? 'available'
+          : 'disabled';
       default:
         return 'disabled';
     }
@@ -9,7 +9,7 @@ import {
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
 import { Download, Send, MoreHorizontal, Loader2 } from 'lucide-react';
-import { IParticipantAction, IRecipientData } from '@/lib/types';
+import { IParticipantAction } from '@/lib/types';
 import { BulkEmailActions } from '@/components/email';
 
 interface BulkActionsProps {
@@ -21,7 +21,6 @@ interface BulkActionsProps {
   isSendingEmails?: boolean;
   onBulkSendEmails?: (participantIds: string[]) => void;
   eventId?: string;
-  participants?: IRecipientData[];
   selectedParticipantIds?: string[];
   isEmailConfigured?: boolean;
 }
@@ -35,7 +34,6 @@ export function BulkActions({
   isSendingEmails = false,
   onBulkSendEmails,
   eventId,
-  participants = [],
   selectedParticipantIds = [],
   isEmailConfigured = false,
 }: BulkActionsProps) {
@@ -77,7 +75,6 @@ export function BulkActions({
         {eventId && (
           <BulkEmailActions
             eventId={eventId}
-            participants={participants}
             selectedParticipantIds={selectedParticipantIds}
             onEmailSent={() => onBulkSendEmails?.(selectedParticipantIds)}
             disabled={disabled}
@@ -111,6 +108,12 @@ export function BulkActions({
             </Button>
           </DropdownMenuTrigger>
           <DropdownMenuContent align="end">
+            <DropdownMenuItem
+              onClick={() => handleAction('print')}
+              disabled={disabled || isDownloading}
+            >
+              Print as PDF
+            </DropdownMenuItem>
             <DropdownMenuItem
               onClick={() => handleAction('export')}
               disabled={disabled || isExporting}
@@ -119,7 +122,13 @@ export function BulkActions({
               {isExporting ? (
                 <Loader2 className="h-4 w-4 animate-spin" />
               ) : null}
-              {isExporting ? 'Exporting...' : 'Export Selected'}
+              {isExporting ? 'Exporting...' : 'Export as CSV'}
+            </DropdownMenuItem>
+            <DropdownMenuItem
+              onClick={() => handleAction('export-xlsx')}
+              disabled={disabled || isExporting}
+            >
+              Export as XLSX
             </DropdownMenuItem>
             <DropdownMenuItem
               onClick={() => handleAction('delete')}
@@ -0,0 +1,51 @@
+'use client';
+
+import { ICertificateJobFailure } from '@/lib/types';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { AlertTriangle } from 'lucide-react';
+
+// Failures listed by name; the heading always counts all of them
+const MAX_LISTED_FAILURES = 10;
+
+interface CertificateJobFailuresProps {
+  failures: ICertificateJobFailure[];
+  onDismiss: () => void;
+}
+
+export function CertificateJobFailures({
+  failures,
+  onDismiss,
+}: CertificateJobFailuresProps) {
+  return (
+    <Alert className="border-amber-200 bg-amber-50 dark:border-amber-800 dark:bg-amber-950/20">
+      <AlertTriangle className="h-4 w-4" />
+      <AlertDescription className="text-amber-800 dark:text-amber-200">
+        <div className="flex items-center justify-between">
+          <span className="font-medium">
+            {failures.length} certificate{failures.length === 1 ? '' : 's'}{' '}
+            could not be generated and {failures.length === 1 ? 'is' : 'are'}{' '}
+            missing from the download:
+          </span>
+          <button
+            onClick={onDismiss}
+            className="ml-2 text-amber-600 hover:text-amber-800 dark:text-amber-400 dark:hover:text-amber-200 text-lg leading-none"
+          >
+            ×
+          </button>
+        </div>
+        <ul className="mt-2 space-y-1 text-sm">
+          {failures.slice(0, MAX_LISTED_FAILURES).map((failure) => (
+            <li key={failure.certification_id}>
+              {failure.name} ({failure.certification_id}): {failure.error}
+            </li>
+          ))}
+        </ul>
+        {failures.length > MAX_LISTED_FAILURES && (
+          <p className="mt-1 text-sm">
+            and {failures.length - MAX_LISTED_FAILURES} more
+          </p>
+        )}
+      </AlertDescription>
+    </Alert>
+  );
+}
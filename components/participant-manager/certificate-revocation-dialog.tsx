@@ -0,0 +1,233 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { IRecipientData, IReissueCertificateOptions } from '@/lib/types';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Loader2, RefreshCw, ShieldOff } from 'lucide-react';
+
+export type CertificateRevocationMode = 'revoke' | 'reissue';
+
+interface CertificateRevocationDialogProps {
+  participant: IRecipientData | null;
+  mode: CertificateRevocationMode;
+  isOpen: boolean;
+  onClose: () => void;
+  onRevoke: (reason: string) => Promise<void>;
+  onReissue: (options: IReissueCertificateOptions) => Promise<void>;
+  isEmailConfigured?: boolean;
+}
+
+export function CertificateRevocationDialog({
+  participant,
+  mode,
+  isOpen,
+  onClose,
+  onRevoke,
+  onReissue,
+  isEmailConfigured = false,
+}: CertificateRevocationDialogProps) {
+  const [reason, setReason] = useState('');
+  const [name, setName] = useState('');
+  const [email, setEmail] = useState('');
+  const [certificationId, setCertificationId] = useState('');
+  const [sendEmail, setSendEmail] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  // Reset the form when a different participant is opened
+  useEffect(() => {
+    if (participant) {
+      setReason('');
+      setName(participant.name);
+      setEmail(participant.email || '');
+      setCertificationId('');
+      setSendEmail(false);
+      setError(null);
+    }
+  }, [participant, mode]);
+
+  const isReissue = mode === 'reissue';
+  const canSendEmail = isEmailConfigured && !!email.trim();
+
+  const handleConfirm = async () => {
+    if (!isReissue && !reason.trim()) {
+      setError('Please enter a reason for revoking this certificate');
+      return;
+    }
+
+    if (isReissue && !name.trim()) {
+      setError('Name is required');
+      return;
+    }
+
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      if (isReissue) {
+        await onReissue({
+          reason: reason.trim(),
+          name: name.trim(),
+          email: email.trim(),
+          certificationId: certificationId.trim() || undefined,
+          sendEmail: sendEmail && canSendEmail,
+        });
+      } else {
+        await onRevoke(reason.trim());
+      }
+      onClose();
+    } catch (error) {
+      console.error(`Error during certificate ${mode}:`, error);
+      setError(
+        isReissue
+          ? 'Failed to reissue certificate. Please try again.'
+          : 'Failed to revoke certificate. Please try again.'
+      );
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleCancel = () => {
+    if (!isSubmitting) {
+      onClose();
+    }
+  };
+
+  if (!participant) {
+    return null;
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleCancel}>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            {isReissue ? (
+              <RefreshCw className="h-5 w-5" />
+            ) : (
+              <ShieldOff className="h-5 w-5" />
+            )}
+            {isReissue ? 'Reissue Certificate' : 'Revoke Certificate'}
+          </DialogTitle>
+          <DialogDescription>
+            {isReissue
+              ? `Certificate ${participant.certification_id} will be revoked and replaced by a new certificate linked to it.`
+              : `Certificate ${participant.certification_id} for ${participant.name} will show as revoked on the verification page. The record is kept.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-4">
+          {error && (
+            <Alert className="border-red-200 bg-red-50 dark:border-red-800 dark:bg-red-950/20">
+              <AlertDescription className="text-red-800 dark:text-red-200">
+                {error}
+              </AlertDescription>
+            </Alert>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="revocation-reason">
+              Reason{isReissue ? '' : ' *'}
+            </Label>
+            <Textarea
+              id="revocation-reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder={
+                isReissue
+                  ? 'e.g. Name was misspelled (optional)'
+                  : 'e.g. Issued in error'
+              }
+              disabled={isSubmitting}
+            />
+          </div>
+
+          {isReissue && (
+            <>
+              <div className="space-y-2">
+                <Label htmlFor="reissue-name">Name *</Label>
+                <Input
+                  id="reissue-name"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  disabled={isSubmitting}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="reissue-email">Email</Label>
+                <Input
+                  id="reissue-email"
+                  type="email"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  disabled={isSubmitting}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="reissue-id">New Certificate ID</Label>
+                <Input
+                  id="reissue-id"
+                  value={certificationId}
+                  onChange={(e) => setCertificationId(e.target.value)}
+                  placeholder="Generated automatically"
+                  disabled={isSubmitting}
+                />
+              </div>
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id="reissue-send-email"
+                  checked={sendEmail && canSendEmail}
+                  onCheckedChange={(checked) => setSendEmail(checked === true)}
+                  disabled={isSubmitting || !canSendEmail}
+                />
+                <Label htmlFor="reissue-send-email" className="text-sm">
+                  Email the corrected certificate
+                </Label>
+              </div>
+            </>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={handleCancel}
+            disabled={isSubmitting}
+          >
+            Cancel
+          </Button>
+          <Button
+            onClick={handleConfirm}
+            disabled={isSubmitting}
+            variant={isReissue ? 'default' : 'destructive'}
+            className="min-w-[100px]"
+          >
+            {isSubmitting ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                {isReissue ? 'Reissuing...' : 'Revoking...'}
+              </>
+            ) : isReissue ? (
+              'Reissue'
+            ) : (
+              'Revoke'
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
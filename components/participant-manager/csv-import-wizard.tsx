@@ -0,0 +1,667 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import {
+  CSVColumnTarget,
+  CSVDelimiter,
+  CSVEncoding,
+  ICSVColumnMapping,
+  ICSVImportMapping,
+  IParticipantDiff,
+  IParticipantImportOptions,
+  IRecipientData,
+  ParticipantMatchKey,
+} from '@/lib/types';
+import {
+  CSV_COLUMN_TARGET_LABELS,
+  CSV_DELIMITERS,
+  CSV_ENCODINGS,
+  decodeCSVBuffer,
+  detectDelimiter,
+  getMappingErrors,
+  readCSVTable,
+  readImportRows,
+  readSheetTable,
+  suggestColumnMapping,
+} from '@/lib/csv-utils';
+import { isXLSXFile, readXLSXWorkbook, XLSXSheet } from '@/lib/xlsx-utils';
+import { PARTICIPANT_MATCH_KEY_LABELS } from '@/lib/participant-merge';
+import { previewParticipantImport } from '@/lib/actions';
+import {
+  getRowsWithErrors,
+  NameFitCheck,
+  validateImportRows,
+} from '@/lib/import-validation';
+import { ParticipantImportDiff } from './participant-import-diff';
+import {
+  ImportRowEdits,
+  ImportValidationReport,
+} from './import-validation-report';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { FileSpreadsheet, Loader2 } from 'lucide-react';
+
+const DELIMITER_LABELS: Record<CSVDelimiter, string> = {
+  ',': 'Comma (,)',
+  ';': 'Semicolon (;)',
+  '\t': 'Tab',
+  '|': 'Pipe (|)',
+};
+
+const ENCODING_LABELS: Record<CSVEncoding, string> = {
+  'utf-8': 'UTF-8',
+  'utf-16le': 'UTF-16 LE',
+  'utf-16be': 'UTF-16 BE',
+  'windows-1252': 'Windows-1252 (Excel)',
+};
+
+const COLUMN_TARGETS = Object.keys(
+  CSV_COLUMN_TARGET_LABELS
+) as CSVColumnTarget[];
+
+// Data rows shown in the preview
+const PREVIEW_ROW_COUNT = 5;
+
+// Merges are previewed on the server once edits pause
+const MERGE_PREVIEW_DELAY = 300;
+
+interface CSVImportWizardProps {
+  file: File;
+  onClose: () => void;
+  // Saves the participants; the parent closes the wizard on success
+  onImport: (
+    participants: IRecipientData[],
+    mapping: ICSVImportMapping,
+    options: IParticipantImportOptions
+  ) => Promise<void>;
+  eventId: string;
+  existingCount: number; // Participants already in the event
+  nameFits?: NameFitCheck;
+  savedMapping?: ICSVImportMapping;
+  templateField?: string;
+}
+
+export function CSVImportWizard({
+  file,
+  onClose,
+  onImport,
+  eventId,
+  existingCount,
+  nameFits,
+  savedMapping,
+  templateField,
+}: CSVImportWizardProps) {
+  const isXLSX = isXLSXFile(file);
+  const [buffer, setBuffer] = useState<ArrayBuffer | null>(null);
+  const [sheets, setSheets] = useState<XLSXSheet[] | null>(null);
+  // The saved mapping seeds the dialect; the wizard is remounted per file
+  const [sheetName, setSheetName] = useState(savedMapping?.sheetName);
+  const [encoding, setEncoding] = useState<CSVEncoding | undefined>(
+    savedMapping?.encoding
+  );
+  const [delimiter, setDelimiter] = useState<CSVDelimiter | undefined>(
+    savedMapping?.delimiter
+  );
+  const [columns, setColumns] = useState<ICSVColumnMapping[]>([]);
+  const [rowEdits, setRowEdits] = useState<Record<number, ImportRowEdits>>({});
+  const [excludedRows, setExcludedRows] = useState<Set<number>>(new Set());
+  // Merging keeps delivery history, so it is the default for re-imports
+  const [importOptions, setImportOptions] = useState<IParticipantImportOptions>(
+    {
+      mode: existingCount > 0 ? 'merge' : 'replace',
+      matchBy: 'certification_id',
+      removeMissing: false,
+    }
+  );
+  const [mergePreview, setMergePreview] = useState<{
+    diff: IParticipantDiff | null;
+    error: string | null;
+  } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+
+  useEffect(() => {
+    let isCancelled = false;
+    file
+      .arrayBuffer()
+      .then(async (data) => {
+        if (!isXLSXFile(file)) {
+          if (!isCancelled) setBuffer(data);
+          return;
+        }
+        const workbook = await readXLSXWorkbook(data);
+        if (!isCancelled) setSheets(workbook);
+      })
+      .catch((error) => {
+        console.error('Error reading participant file:', error);
+        if (!isCancelled) {
+          setError(
+            error instanceof Error ? error.message : 'Failed to read file'
+          );
+        }
+      });
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [file]);
+
+  const decoded = useMemo(
+    () => (buffer ? decodeCSVBuffer(buffer, encoding) : null),
+    [buffer, encoding]
+  );
+  const detectedDelimiter = useMemo(
+    () => (decoded ? detectDelimiter(decoded.content) : undefined),
+    [decoded]
+  );
+
+  // Remembered sheets that no longer exist fall back to the first sheet
+  const sheet = sheets
+    ? sheets.find((candidate) => candidate.name === sheetName) || sheets[0]
+    : null;
+
+  const { table, tableError } = useMemo(() => {
+    try {
+      if (sheet) {
+        return { table: readSheetTable(sheet.rows), tableError: null };
+      }
+      if (decoded) {
+        return {
+          table: readCSVTable(decoded.content, delimiter || detectedDelimiter),
+          tableError: null,
+        };
+      }
+      return { table: null, tableError: null };
+    } catch (error) {
+      return {
+        table: null,
+        tableError: error instanceof Error ? error.message : 'Invalid CSV',
+      };
+    }
+  }, [decoded, delimiter, detectedDelimiter, sheet]);
+
+  // Suggest a mapping whenever the file is read with a different dialect
+  useEffect(() => {
+    setColumns(
+      table
+        ? suggestColumnMapping(table.headers, { savedMapping, templateField })
+        : []
+    );
+    setRowEdits({});
+    setExcludedRows(new Set());
+  }, [table, savedMapping, templateField]);
+
+  const mappingErrors = table ? getMappingErrors(columns) : [];
+  const canMapRows = !!table && mappingErrors.length === 0;
+
+  // Read the rows with the current mapping and any fixes made in the report
+  const importRows = useMemo(
+    () =>
+      table && canMapRows
+        ? readImportRows(table, columns).map(({ row, participant }) => ({
+            row,
+            participant: { ...participant, ...rowEdits[row] },
+          }))
+        : [],
+    [table, canMapRows, columns, rowEdits]
+  );
+  const issues = useMemo(
+    () => validateImportRows(importRows, { checkEmails: true, nameFits }),
+    [importRows, nameFits]
+  );
+  const errorRows = useMemo(() => getRowsWithErrors(issues), [issues]);
+
+  // The rows that will be imported
+  const { rows, rowsError } = useMemo(() => {
+    if (!canMapRows) {
+      return { rows: null, rowsError: null };
+    }
+    const validRows = importRows
+      .filter(({ row }) => !errorRows.has(row) && !excludedRows.has(row))
+      .map(({ participant }) => ({
+        ...participant,
+        name: participant.name.trim(),
+        certification_id: participant.certification_id.trim(),
+        email: (participant.email || '').trim(),
+      }));
+    return validRows.length > 0
+      ? { rows: validRows, rowsError: null }
+      : { rows: null, rowsError: 'There are no valid rows to import' };
+  }, [importRows, errorRows, excludedRows, canMapRows]);
+
+  const isMerge = importOptions.mode === 'merge';
+  const { matchBy, removeMissing } = importOptions;
+
+  // Preview a merge of the rows against the event's participants
+  useEffect(() => {
+    setMergePreview(null);
+    if (!rows || !isMerge) return;
+
+    let isCancelled = false;
+    const timeout = setTimeout(() => {
+      previewParticipantImport(eventId, rows, { matchBy, removeMissing })
+        .then((preview) => {
+          if (!isCancelled) {
+            setMergePreview({
+              diff: preview.diff || null,
+              error: preview.error || null,
+            });
+          }
+        })
+        .catch((error) => {
+          console.error('Error previewing import:', error);
+          if (!isCancelled) {
+            setMergePreview({
+              diff: null,
+              error: 'Failed to compare with the existing participants',
+            });
+          }
+        });
+    }, MERGE_PREVIEW_DELAY);
+
+    return () => {
+      isCancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [eventId, rows, isMerge, matchBy, removeMissing]);
+
+  const diff = isMerge ? mergePreview?.diff || null : null;
+  const importError = rowsError || (isMerge ? mergePreview?.error : null);
+  const isPreviewing = !!rows && isMerge && !mergePreview;
+  // Merges can only be saved once the preview found no problems
+  const incoming = rows && (!isMerge || diff) ? rows : null;
+
+  const handleEditRow = (row: number, edits: ImportRowEdits) => {
+    setRowEdits((prev) => ({ ...prev, [row]: { ...prev[row], ...edits } }));
+  };
+
+  const handleToggleExclude = (row: number, excluded: boolean) => {
+    setExcludedRows((prev) => {
+      const next = new Set(prev);
+      if (excluded) {
+        next.add(row);
+      } else {
+        next.delete(row);
+      }
+      return next;
+    });
+  };
+
+  const handleTargetChange = (index: number, target: CSVColumnTarget) => {
+    setColumns((prev) =>
+      prev.map((column, i) => (i === index ? { ...column, target } : column))
+    );
+  };
+
+  const handleImport = async () => {
+    if (!incoming) return;
+
+    setIsImporting(true);
+    setError(null);
+    try {
+      await onImport(
+        incoming,
+        sheet
+          ? { sheetName: sheet.name, columns }
+          : {
+              delimiter: delimiter || detectedDelimiter,
+              encoding: decoded?.encoding,
+              columns,
+            },
+        importOptions
+      );
+    } catch (error) {
+      console.error('Error importing CSV:', error);
+      setError(
+        error instanceof Error ? error.message : 'Failed to import CSV file'
+      );
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const handleCancel = () => {
+    if (!isImporting) {
+      onClose();
+    }
+  };
+
+  return (
+    <Dialog open onOpenChange={handleCancel}>
+      <DialogContent className="sm:max-w-[800px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <FileSpreadsheet className="h-5 w-5" />
+            Import Participants
+          </DialogTitle>
+          <DialogDescription>
+            Check how {file.name} was read and choose what each column is
+            imported as. The mapping is remembered for this event.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-4">
+          {(error || tableError) && (
+            <Alert className="border-red-200 bg-red-50 dark:border-red-800 dark:bg-red-950/20">
+              <AlertDescription className="text-red-800 dark:text-red-200">
+                {error || tableError}
+              </AlertDescription>
+            </Alert>
+          )}
+
+          {isXLSX ? (
+            <div className="space-y-2">
+              <Label htmlFor="xlsx-sheet">Sheet</Label>
+              <Select
+                value={sheet?.name || ''}
+                onValueChange={setSheetName}
+                disabled={!sheets || isImporting}
+              >
+                <SelectTrigger id="xlsx-sheet">
+                  <SelectValue placeholder="Reading workbook..." />
+                </SelectTrigger>
+                <SelectContent>
+                  {(sheets || []).map((candidate) => (
+                    <SelectItem key={candidate.name} value={candidate.name}>
+                      {candidate.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          ) : (
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="csv-encoding">Encoding</Label>
+                <Select
+                  value={decoded?.encoding || ''}
+                  onValueChange={(value) => setEncoding(value as CSVEncoding)}
+                  disabled={!buffer || isImporting}
+                >
+                  <SelectTrigger id="csv-encoding">
+                    <SelectValue placeholder="Detecting..." />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {CSV_ENCODINGS.map((value) => (
+                      <SelectItem key={value} value={value}>
+                        {ENCODING_LABELS[value]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="csv-delimiter">Delimiter</Label>
+                <Select
+                  value={delimiter || detectedDelimiter || ''}
+                  onValueChange={(value) => setDelimiter(value as CSVDelimiter)}
+                  disabled={!buffer || isImporting}
+                >
+                  <SelectTrigger id="csv-delimiter">
+                    <SelectValue placeholder="Detecting..." />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {CSV_DELIMITERS.map((value) => (
+                      <SelectItem key={value} value={value}>
+                        {DELIMITER_LABELS[value]}
+                        {value === detectedDelimiter ? ' (detected)' : ''}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          )}
+
+          {!table && !tableError && !error && (
+            <div className="flex items-center gap-2 text-sm text-gray-500 dark:text-gray-400">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Reading file...
+            </div>
+          )}
+
+          {table && columns.length === table.headers.length && (
+            <div className="space-y-2">
+              <Label>Preview</Label>
+              <div className="border rounded-lg overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow className="bg-gray-50 dark:bg-gray-800">
+                      {table.headers.map((header, index) => (
+                        <TableHead
+                          key={index}
+                          className="p-2 align-top min-w-[160px]"
+                        >
+                          <div className="space-y-2 py-1">
+                            <div className="font-medium text-gray-900 dark:text-gray-100 truncate">
+                              {header || `Column ${index + 1}`}
+                            </div>
+                            <Select
+                              value={columns[index].target}
+                              onValueChange={(value) =>
+                                handleTargetChange(
+                                  index,
+                                  value as CSVColumnTarget
+                                )
+                              }
+                              disabled={isImporting}
+                            >
+                              <SelectTrigger className="h-8">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {COLUMN_TARGETS.map((target) => (
+                                  <SelectItem key={target} value={target}>
+                                    {CSV_COLUMN_TARGET_LABELS[target]}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          </div>
+                        </TableHead>
+                      ))}
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {table.rows.slice(0, PREVIEW_ROW_COUNT).map((row, i) => (
+                      <TableRow key={i}>
+                        {table.headers.map((_, index) => (
+                          <TableCell
+                            key={index}
+                            className={`p-2 text-sm truncate max-w-[200px] ${
+                              columns[index].target === 'ignore'
+                                ? 'text-gray-400 dark:text-gray-600'
+                                : ''
+                            }`}
+                          >
+                            {row[index]}
+                          </TableCell>
+                        ))}
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                Showing {Math.min(PREVIEW_ROW_COUNT, table.rows.length)} of{' '}
+                {table.rows.length} rows. Custom fields can be used as
+                placeholders in certificates and emails.
+              </p>
+            </div>
+          )}
+
+          {canMapRows && (
+            <div className="space-y-2">
+              <Label>Validation</Label>
+              <ImportValidationReport
+                rows={importRows}
+                issues={issues}
+                excludedRows={excludedRows}
+                editedRows={
+                  new Set(Object.keys(rowEdits).map((row) => Number(row)))
+                }
+                errorRows={errorRows}
+                onToggleExclude={handleToggleExclude}
+                onEditRow={handleEditRow}
+                disabled={isImporting}
+              />
+            </div>
+          )}
+
+          {[...mappingErrors, importError].filter(Boolean).map((message) => (
+            <p key={message} className="text-sm text-red-600 dark:text-red-400">
+              {message}
+            </p>
+          ))}
+
+          {existingCount > 0 && canMapRows && (
+            <div className="space-y-3">
+              <Label>Import Mode</Label>
+              <RadioGroup
+                value={importOptions.mode}
+                onValueChange={(mode) =>
+                  setImportOptions((prev) => ({
+                    ...prev,
+                    mode: mode as IParticipantImportOptions['mode'],
+                  }))
+                }
+                disabled={isImporting}
+              >
+                <div className="flex items-center space-x-2">
+                  <RadioGroupItem value="merge" id="import-mode-merge" />
+                  <Label htmlFor="import-mode-merge" className="font-normal">
+                    Merge with the {existingCount} existing participants
+                  </Label>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <RadioGroupItem value="replace" id="import-mode-replace" />
+                  <Label htmlFor="import-mode-replace" className="font-normal">
+                    Replace all participants and their email history
+                  </Label>
+                </div>
+              </RadioGroup>
+
+              {importOptions.mode === 'merge' && (
+                <>
+                  <div className="grid grid-cols-2 gap-4 items-end">
+                    <div className="space-y-2">
+                      <Label htmlFor="import-match-by">Match Rows By</Label>
+                      <Select
+                        value={importOptions.matchBy}
+                        onValueChange={(matchBy) =>
+                          setImportOptions((prev) => ({
+                            ...prev,
+                            matchBy: matchBy as ParticipantMatchKey,
+                          }))
+                        }
+                        disabled={isImporting}
+                      >
+                        <SelectTrigger id="import-match-by">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {(
+                            Object.keys(
+                              PARTICIPANT_MATCH_KEY_LABELS
+                            ) as ParticipantMatchKey[]
+                          ).map((matchBy) => (
+                            <SelectItem key={matchBy} value={matchBy}>
+                              {PARTICIPANT_MATCH_KEY_LABELS[matchBy]}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="flex items-center space-x-2 pb-2">
+                      <Checkbox
+                        id="import-remove-missing"
+                        checked={importOptions.removeMissing}
+                        onCheckedChange={(checked) =>
+                          setImportOptions((prev) => ({
+                            ...prev,
+                            removeMissing: checked === true,
+                          }))
+                        }
+                        disabled={isImporting}
+                      />
+                      <Label
+                        htmlFor="import-remove-missing"
+                        className="text-sm font-normal"
+                      >
+                        Remove participants missing from the file
+                      </Label>
+                    </div>
+                  </div>
+
+                  {isPreviewing && (
+                    <div className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400">
+                      <Loader2 className="h-4 w-4 animate-spin" />
+                      Comparing with the existing participants...
+                    </div>
+                  )}
+
+                  {diff && (
+                    <ParticipantImportDiff
+                      diff={diff}
+                      removeMissing={importOptions.removeMissing}
+                    />
+                  )}
+                </>
+              )}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={handleCancel}
+            disabled={isImporting}
+          >
+            Cancel
+          </Button>
+          <Button
+            onClick={handleImport}
+            disabled={!incoming || isImporting}
+            className="min-w-[100px]"
+          >
+            {isImporting ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Importing...
+              </>
+            ) : (
+              `Import ${incoming?.length || 0} Participants`
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
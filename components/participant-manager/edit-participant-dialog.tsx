@@ -1,7 +1,12 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { IRecipientData } from '@/lib/types';
+import { IRecipientData, ITemplateVariant } from '@/lib/types';
+import {
+  DEFAULT_TEMPLATE_NAME,
+  findTemplateVariant,
+} from '@/lib/template-variants';
+import { validateFieldName } from '@/lib/participant-fields';
 import {
   Dialog,
   DialogContent,
@@ -13,8 +18,27 @@ import {
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 import { Alert, AlertDescription } from '@/components/ui/alert';
-import { Loader2, User, Mail, Hash } from 'lucide-react';
+import {
+  Loader2,
+  User,
+  Mail,
+  Hash,
+  FileImage,
+  ListPlus,
+  Plus,
+  X,
+} from 'lucide-react';
+
+// Select value for participants using the event's default template
+const DEFAULT_TEMPLATE_VALUE = '__default__';
 
 interface EditParticipantDialogProps {
   participant: IRecipientData | null;
@@ -22,6 +46,7 @@ interface EditParticipantDialogProps {
   onClose: () => void;
   onSave: (updatedParticipant: IRecipientData) => Promise<void>;
   isLoading?: boolean;
+  templateVariants?: ITemplateVariant[];
 }
 
 export function EditParticipantDialog({
@@ -30,6 +55,7 @@ export function EditParticipantDialog({
   onClose,
   onSave,
   isLoading = false,
+  templateVariants = [],
 }: EditParticipantDialogProps) {
   const [formData, setFormData] = useState<IRecipientData>({
     name: '',
@@ -37,6 +63,7 @@ export function EditParticipantDialog({
     email: '',
   });
   const [errors, setErrors] = useState<Record<string, string>>({});
+  const [newFieldName, setNewFieldName] = useState('');
   const [isSubmitting, setIsSubmitting] = useState(false);
 
   // Initialize form data when participant changes
@@ -46,7 +73,10 @@ export function EditParticipantDialog({
         name: participant.name,
         certification_id: participant.certification_id,
         email: participant.email || '',
+        templateKey: participant.templateKey,
+        fields: { ...participant.fields },
       });
+      setNewFieldName('');
       setErrors({});
     }
   }, [participant]);
@@ -96,6 +126,36 @@ export function EditParticipantDialog({
     }
   };
 
+  const handleFieldChange = (fieldName: string, value: string) => {
+    setFormData((prev) => ({
+      ...prev,
+      fields: { ...prev.fields, [fieldName]: value },
+    }));
+  };
+
+  const handleAddField = () => {
+    const fieldError = validateFieldName(
+      newFieldName,
+      Object.keys(formData.fields || {})
+    );
+    if (fieldError) {
+      setErrors((prev) => ({ ...prev, newField: fieldError }));
+      return;
+    }
+
+    handleFieldChange(newFieldName.trim(), '');
+    setNewFieldName('');
+    setErrors((prev) => ({ ...prev, newField: '' }));
+  };
+
+  const handleRemoveField = (fieldName: string) => {
+    setFormData((prev) => {
+      const fields = { ...prev.fields };
+      delete fields[fieldName];
+      return { ...prev, fields };
+    });
+  };
+
   const handleSave = async () => {
     if (!validateForm()) {
       return;
@@ -107,6 +167,8 @@ export function EditParticipantDialog({
         name: formData.name.trim(),
         certification_id: formData.certification_id.trim(),
         email: formData.email?.trim() || '',
+        templateKey: formData.templateKey,
+        fields: formData.fields,
       };
 
       await onSave(updatedParticipant);
@@ -133,7 +195,7 @@ export function EditParticipantDialog({
 
   return (
     <Dialog open={isOpen} onOpenChange={handleCancel}>
-      <DialogContent className="sm:max-w-[500px]">
+      <DialogContent className="sm:max-w-[500px] max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle className="flex items-center gap-2">
             <User className="h-5 w-5" />
@@ -223,6 +285,111 @@ export function EditParticipantDialog({
               </p>
             )}
           </div>
+
+          {/* Custom Fields */}
+          <div className="space-y-2">
+            <Label className="flex items-center gap-2">
+              <ListPlus className="h-4 w-4" />
+              Custom Fields
+            </Label>
+            {Object.entries(formData.fields || {}).map(([fieldName, value]) => (
+              <div key={fieldName} className="flex items-center gap-2">
+                <Label
+                  htmlFor={`field-${fieldName}`}
+                  className="w-1/3 truncate text-sm text-gray-600 dark:text-gray-400"
+                  title={fieldName}
+                >
+                  {fieldName}
+                </Label>
+                <Input
+                  id={`field-${fieldName}`}
+                  value={value}
+                  onChange={(e) => handleFieldChange(fieldName, e.target.value)}
+                  disabled={isSubmitting}
+                />
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => handleRemoveField(fieldName)}
+                  disabled={isSubmitting}
+                  className="h-8 w-8 p-0 shrink-0"
+                  aria-label={`Remove ${fieldName}`}
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            <div className="flex items-center gap-2">
+              <Input
+                value={newFieldName}
+                onChange={(e) => setNewFieldName(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') {
+                    e.preventDefault();
+                    handleAddField();
+                  }
+                }}
+                placeholder="New field name, e.g. company"
+                className={errors.newField ? 'border-red-500' : ''}
+                disabled={isSubmitting}
+              />
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={handleAddField}
+                disabled={isSubmitting || !newFieldName.trim()}
+                className="shrink-0"
+              >
+                <Plus className="h-4 w-4 mr-1" />
+                Add
+              </Button>
+            </div>
+            {errors.newField && (
+              <p className="text-sm text-red-600 dark:text-red-400">
+                {errors.newField}
+              </p>
+            )}
+          </div>
+
+          {/* Template Field */}
+          {templateVariants.length > 0 && (
+            <div className="space-y-2">
+              <Label htmlFor="template" className="flex items-center gap-2">
+                <FileImage className="h-4 w-4" />
+                Template
+              </Label>
+              <Select
+                value={
+                  findTemplateVariant(
+                    { templateVariants },
+                    formData.templateKey
+                  )?.name || DEFAULT_TEMPLATE_VALUE
+                }
+                onValueChange={(value) =>
+                  setFormData((prev) => ({
+                    ...prev,
+                    templateKey:
+                      value === DEFAULT_TEMPLATE_VALUE ? undefined : value,
+                  }))
+                }
+                disabled={isSubmitting}
+              >
+                <SelectTrigger id="template">
+                  <SelectValue placeholder="Select template" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={DEFAULT_TEMPLATE_VALUE}>
+                    {DEFAULT_TEMPLATE_NAME}
+                  </SelectItem>
+                  {templateVariants.map((variant) => (
+                    <SelectItem key={variant.id} value={variant.name}>
+                      {variant.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
         </div>
 
         <DialogFooter>
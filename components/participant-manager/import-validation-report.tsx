@@ -0,0 +1,167 @@
+'use client';
+
+import { IRecipientData } from '@/lib/types';
+import {
+  IImportIssue,
+  IImportRow,
+  ImportIssueField,
+} from '@/lib/import-validation';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { AlertCircle, AlertTriangle, CheckCircle } from 'lucide-react';
+
+// Rows with issues listed for editing; the summary always counts all of them
+const MAX_LISTED_ROWS = 50;
+
+const EDITABLE_FIELDS: { field: ImportIssueField; label: string }[] = [
+  { field: 'name', label: 'Name' },
+  { field: 'certification_id', label: 'Certification ID' },
+  { field: 'email', label: 'Email' },
+];
+
+export type ImportRowEdits = Partial<Pick<IRecipientData, ImportIssueField>>;
+
+interface ImportValidationReportProps {
+  rows: IImportRow[];
+  issues: IImportIssue[];
+  excludedRows: Set<number>;
+  editedRows: Set<number>;
+  errorRows: Set<number>;
+  onToggleExclude: (row: number, excluded: boolean) => void;
+  onEditRow: (row: number, edits: ImportRowEdits) => void;
+  disabled?: boolean;
+}
+
+export function ImportValidationReport({
+  rows,
+  issues,
+  excludedRows,
+  editedRows,
+  errorRows,
+  onToggleExclude,
+  onEditRow,
+  disabled = false,
+}: ImportValidationReportProps) {
+  const errorCount = issues.filter(
+    (issue) => issue.severity === 'error'
+  ).length;
+  const warningCount = issues.length - errorCount;
+  const importedCount = rows.filter(
+    ({ row }) => !errorRows.has(row) && !excludedRows.has(row)
+  ).length;
+
+  // Fixed and excluded rows stay listed so edits can continue
+  const listedRows = rows.filter(
+    ({ row }) =>
+      excludedRows.has(row) ||
+      editedRows.has(row) ||
+      issues.some((issue) => issue.row === row)
+  );
+
+  if (listedRows.length === 0) {
+    return (
+      <div className="flex items-center gap-2 text-sm text-green-700 dark:text-green-400">
+        <CheckCircle className="h-4 w-4" />
+        All {rows.length} rows are valid.
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="text-sm">
+        {errorCount} error{errorCount === 1 ? '' : 's'} and {warningCount}{' '}
+        warning{warningCount === 1 ? '' : 's'}. {importedCount} of {rows.length}{' '}
+        rows will be imported; rows with errors are skipped until they are
+        fixed.
+      </div>
+
+      <ul className="max-h-72 overflow-y-auto space-y-3 border rounded-lg p-3">
+        {listedRows.slice(0, MAX_LISTED_ROWS).map(({ row, participant }) => {
+          const rowIssues = issues.filter((issue) => issue.row === row);
+          const hasErrors = errorRows.has(row);
+          const getFieldClass = (field: ImportIssueField) => {
+            const fieldIssues = rowIssues.filter(
+              (issue) => issue.field === field
+            );
+            if (fieldIssues.some((issue) => issue.severity === 'error')) {
+              return 'border-red-500';
+            }
+            return fieldIssues.length > 0 ? 'border-amber-500' : '';
+          };
+
+          return (
+            <li
+              key={row}
+              className={`space-y-2 ${
+                excludedRows.has(row) || hasErrors ? 'opacity-75' : ''
+              }`}
+            >
+              <div className="flex items-center justify-between">
+                <span className="text-sm font-medium">Row {row}</span>
+                <div className="flex items-center space-x-2">
+                  <Checkbox
+                    id={`exclude-row-${row}`}
+                    checked={hasErrors || excludedRows.has(row)}
+                    onCheckedChange={(checked) =>
+                      onToggleExclude(row, checked === true)
+                    }
+                    disabled={disabled || hasErrors}
+                  />
+                  <Label
+                    htmlFor={`exclude-row-${row}`}
+                    className="text-xs font-normal"
+                  >
+                    {hasErrors ? 'Skipped' : 'Exclude'}
+                  </Label>
+                </div>
+              </div>
+
+              <div className="grid grid-cols-3 gap-2">
+                {EDITABLE_FIELDS.map(({ field, label }) => (
+                  <Input
+                    key={field}
+                    aria-label={`${label} in row ${row}`}
+                    placeholder={label}
+                    value={participant[field] || ''}
+                    onChange={(e) =>
+                      onEditRow(row, { [field]: e.target.value })
+                    }
+                    disabled={disabled}
+                    className={`h-8 text-sm ${getFieldClass(field)}`}
+                  />
+                ))}
+              </div>
+
+              {rowIssues.map((issue, index) => (
+                <p
+                  key={index}
+                  className={`flex items-center gap-1 text-xs ${
+                    issue.severity === 'error'
+                      ? 'text-red-600 dark:text-red-400'
+                      : 'text-amber-600 dark:text-amber-400'
+                  }`}
+                >
+                  {issue.severity === 'error' ? (
+                    <AlertCircle className="h-3 w-3 shrink-0" />
+                  ) : (
+                    <AlertTriangle className="h-3 w-3 shrink-0" />
+                  )}
+                  {issue.message}
+                </p>
+              ))}
+            </li>
+          );
+        })}
+      </ul>
+
+      {listedRows.length > MAX_LISTED_ROWS && (
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          {listedRows.length - MAX_LISTED_ROWS} more rows have issues. Fix them
+          in the file and upload it again.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,130 @@
+'use client';
+
+import { IParticipantDiff, IRecipientData } from '@/lib/types';
+import { Badge } from '@/components/ui/badge';
+import { ArrowRight } from 'lucide-react';
+
+// Rows listed per section; the counts always cover everything
+const MAX_LISTED_PARTICIPANTS = 20;
+
+interface ParticipantImportDiffProps {
+  diff: IParticipantDiff;
+  removeMissing: boolean;
+}
+
+function ParticipantList({
+  title,
+  participants,
+}: {
+  title: string;
+  participants: IRecipientData[];
+}) {
+  if (participants.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-1">
+      <div className="text-sm font-medium">{title}</div>
+      <ul className="text-sm text-gray-600 dark:text-gray-400 space-y-0.5">
+        {participants.slice(0, MAX_LISTED_PARTICIPANTS).map((participant) => (
+          <li key={participant.certification_id} className="truncate">
+            {participant.name}{' '}
+            <span className="text-gray-400 dark:text-gray-500">
+              ({participant.certification_id})
+            </span>
+          </li>
+        ))}
+      </ul>
+      {participants.length > MAX_LISTED_PARTICIPANTS && (
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          and {participants.length - MAX_LISTED_PARTICIPANTS} more
+        </p>
+      )}
+    </div>
+  );
+}
+
+export function ParticipantImportDiff({
+  diff,
+  removeMissing,
+}: ParticipantImportDiffProps) {
+  return (
+    <div className="space-y-4 p-3 border rounded-lg">
+      <div className="flex flex-wrap gap-2">
+        <Badge className="bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300">
+          {diff.added.length} added
+        </Badge>
+        <Badge className="bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-300">
+          {diff.updated.length} updated
+        </Badge>
+        <Badge variant="secondary">{diff.unchanged.length} unchanged</Badge>
+        <Badge
+          className={
+            removeMissing
+              ? 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300'
+              : 'bg-amber-100 text-amber-800 dark:bg-amber-900/30 dark:text-amber-300'
+          }
+        >
+          {diff.missing.length} missing from file
+          {removeMissing ? ' (removed)' : ' (kept)'}
+        </Badge>
+      </div>
+
+      <div className="max-h-64 overflow-y-auto space-y-4">
+        {diff.updated.length > 0 && (
+          <div className="space-y-1">
+            <div className="text-sm font-medium">Updated</div>
+            <ul className="space-y-2">
+              {diff.updated
+                .slice(0, MAX_LISTED_PARTICIPANTS)
+                .map(({ existing, changes }) => (
+                  <li key={existing.certification_id} className="text-sm">
+                    <div className="truncate">
+                      {existing.name}{' '}
+                      <span className="text-gray-400 dark:text-gray-500">
+                        ({existing.certification_id})
+                      </span>
+                    </div>
+                    <ul className="ml-4 text-xs text-gray-600 dark:text-gray-400">
+                      {changes.map((change) => (
+                        <li
+                          key={change.field}
+                          className="flex items-center gap-1 flex-wrap"
+                        >
+                          <span className="font-medium">{change.field}:</span>
+                          <span className="line-through">
+                            {change.before || '(empty)'}
+                          </span>
+                          <ArrowRight className="h-3 w-3" />
+                          <span>{change.after || '(empty)'}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  </li>
+                ))}
+            </ul>
+            {diff.updated.length > MAX_LISTED_PARTICIPANTS && (
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                and {diff.updated.length - MAX_LISTED_PARTICIPANTS} more
+              </p>
+            )}
+          </div>
+        )}
+
+        <ParticipantList title="Added" participants={diff.added} />
+        <ParticipantList
+          title={
+            removeMissing ? 'Missing from file (removed)' : 'Missing from file'
+          }
+          participants={diff.missing}
+        />
+      </div>
+
+      <p className="text-xs text-gray-500 dark:text-gray-400">
+        Updated participants keep their email delivery history. Empty cells in
+        the file do not clear existing values.
+      </p>
+    </div>
+  );
+}
@@ -1,32 +1,60 @@
 'use client';
 
-import { useState, useEffect } from 'react';
-import { IRecipientData, IEvent, IParticipantAction } from '@/lib/types';
+import { useState, useEffect, useMemo, useCallback } from 'react';
+import {
+  IRecipientData,
+  IEvent,
+  IParticipantAction,
+  IReissueCertificateOptions,
+  ICSVImportMapping,
+  IParticipantImportOptions,
+  ICertificateJob,
+  IPrintOptions,
+  IParticipantSummary,
+} from '@/lib/types';
 import { useToast } from '@/hooks/use-toast';
 import {
+  getParticipantSummary,
+  getParticipantsByIds,
   saveParticipants,
+  mergeParticipantImport,
+  updateCSVImportMapping,
   generateIndividualCertificate,
   updateParticipant,
   deleteParticipant,
   deleteParticipants,
-  generateSelectedCertificates,
+  startCertificateJob,
+  getCertificateJobStatus,
   exportParticipantsCSV,
+  exportParticipantsXLSX,
   sendParticipantEmail,
   sendBulkEmails,
   getEmailStatus,
   retryFailedEmail,
+  revokeCertificate,
+  reissueCertificate,
 } from '@/lib/actions';
-import { parseCSV, downloadCSV, generateCSVFilename } from '@/lib/csv-utils';
+import { downloadCSV, generateCSVFilename } from '@/lib/csv-utils';
+import { downloadXLSX } from '@/lib/xlsx-utils';
+import { createNameFitCheck } from '@/lib/import-validation';
 import {
   downloadCertificate,
-  generateCertificateFilename,
-  downloadZipFile,
-  generateZipFilename,
+  getCertificateFileInfo,
+  downloadCertificateJobArchive,
+  downloadCertificateArchive,
 } from '@/lib/certificate-utils';
+import { buildCertificateFilename } from '@/lib/filename-pattern';
 import { CSVActions } from './csv-actions';
 import { ParticipantTable } from './participant-table';
 import { EditParticipantDialog } from './edit-participant-dialog';
+import { CSVImportWizard } from './csv-import-wizard';
 import { DeleteConfirmationDialog } from './delete-confirmation-dialog';
+import { CertificateJobFailures } from './certificate-job-failures';
+import { PrintPdfDialog } from './print-pdf-dialog';
+import {
+  CertificateRevocationDialog,
+  CertificateRevocationMode,
+} from './certificate-revocation-dialog';
 import { BulkEmailActions } from '@/components/email';
 import { FileUpload } from '@/components/ui/file-upload';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
@@ -34,6 +62,9 @@ import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Button } from '@/components/ui/button';
 import { CheckCircle, AlertCircle, Loader2, Settings } from 'lucide-react';
 
+// How often a running certificate job's progress is checked
+const JOB_POLL_INTERVAL_MS = 1000;
+
 interface ParticipantManagerSectionProps {
   event: IEvent | null;
   onParticipantsUploaded: () => void;
@@ -46,8 +77,18 @@ export function ParticipantManagerSection({
   onBack,
 }: ParticipantManagerSectionProps) {
   const { toast } = useToast();
-  const [participants, setParticipants] = useState<IRecipientData[]>([]);
+  // Participants are loaded a page at a time by the table; only their count
+  // and custom field names are kept here
+  const [summary, setSummary] = useState<
+    Pick<IParticipantSummary, 'total' | 'fieldNames'>
+  >({
+    total: 0,
+    fieldNames: [],
+  });
+  // Changing this reloads the table
+  const [participantsVersion, setParticipantsVersion] = useState(0);
   const [csvFile, setCsvFile] = useState<File | null>(null);
+  const [importFile, setImportFile] = useState<File | null>(null);
   const [isUploading, setIsUploading] = useState(false);
   const [showUpload, setShowUpload] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -63,7 +104,19 @@ export function ParticipantManagerSection({
   >([]);
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
   const [isDeletingParticipant, setIsDeletingParticipant] = useState(false);
+  const [revocationParticipant, setRevocationParticipant] =
+    useState<IRecipientData | null>(null);
+  const [revocationMode, setRevocationMode] =
+    useState<CertificateRevocationMode>('revoke');
   const [isBulkDownloading, setIsBulkDownloading] = useState(false);
+  const [certificateJob, setCertificateJob] = useState<ICertificateJob | null>(
+    null
+  );
+  // Participants of the print PDF being set up; all when participantIds is
+  // not set
+  const [printTarget, setPrintTarget] = useState<{
+    participantIds?: string[];
+  } | null>(null);
   const [isExportingCSV, setIsExportingCSV] = useState(false);
   const [successMessage, setSuccessMessage] = useState<string | null>(null);
   const [sendingEmails, setSendingEmails] = useState<Set<string>>(new Set());
@@ -72,12 +125,41 @@ export function ParticipantManagerSection({
     new Map()
   );
 
-  // Initialize participants from event
-  useEffect(() => {
-    if (event) {
-      setParticipants(event.participants);
-      setShowUpload(event.participants.length === 0);
+  const eventId = event?._id?.toString();
+
+  const loadSummary = useCallback(async () => {
+    if (!eventId) return null;
+    try {
+      const result = await getParticipantSummary(eventId);
+      setSummary(result);
+      return result;
+    } catch (error) {
+      console.error('Error loading participant summary:', error);
+      setError('Failed to load participants');
+      return null;
     }
+  }, [eventId]);
+
+  // Show the upload form for events without participants
+  useEffect(() => {
+    loadSummary().then((result) => {
+      if (result) setShowUpload(result.total === 0);
+    });
+  }, [loadSummary]);
+
+  // Reloads the table and the count after participants were changed
+  const refreshParticipants = () => {
+    setParticipantsVersion((prev) => prev + 1);
+    loadSummary();
+  };
+
+  // Flags imported names that the certificate's name box would cut off
+  const nameFits = useMemo(() => {
+    const ctx =
+      typeof document !== 'undefined'
+        ? document.createElement('canvas').getContext('2d')
+        : null;
+    return event && ctx ? createNameFitCheck(event, ctx) : undefined;
   }, [event]);
 
   const downloadCSVTemplate = () => {
@@ -94,25 +176,51 @@ export function ParticipantManagerSection({
     document.body.removeChild(link);
   };
 
-  const handleCSVUpload = async (file: File) => {
+  const handleCSVUpload = (file: File) => {
     if (!event?._id) return;
 
     setCsvFile(file);
+    setError(null);
+    // Columns are mapped in the import wizard before anything is saved
+    setImportFile(file);
+  };
+
+  const handleCancelImport = () => {
+    setImportFile(null);
+    setCsvFile(null);
+  };
+
+  const handleCSVImport = async (
+    parsedRecipients: IRecipientData[],
+    mapping: ICSVImportMapping,
+    options: IParticipantImportOptions
+  ) => {
+    if (!event?._id) return;
+
     setIsUploading(true);
     setError(null);
 
     try {
-      const csvContent = await file.text();
-      const parsedRecipients = parseCSV(csvContent);
-
-      setParticipants(parsedRecipients);
-      await saveParticipants(event._id.toString(), parsedRecipients);
+      let description = `${parsedRecipients.length} participants have been uploaded successfully.`;
+      if (options.mode === 'merge') {
+        const result = await mergeParticipantImport(
+          event._id.toString(),
+          parsedRecipients,
+          options
+        );
+        description = `${result.added} added, ${result.updated} updated and ${result.removed} removed.`;
+      } else {
+        await saveParticipants(event._id.toString(), parsedRecipients);
+      }
+      refreshParticipants();
+      await updateCSVImportMapping(event._id.toString(), mapping);
+      setImportFile(null);
       setShowUpload(false);
       onParticipantsUploaded();
 
       toast({
         title: 'Participants Uploaded',
-        description: `${parsedRecipients.length} participants have been uploaded successfully.`,
+        description,
         variant: 'default',
       });
     } catch (error) {
@@ -126,6 +234,7 @@ export function ParticipantManagerSection({
         description: `Failed to upload CSV file: ${errorMessage}`,
         variant: 'destructive',
       });
+      throw error;
     } finally {
       setIsUploading(false);
     }
@@ -133,7 +242,6 @@ export function ParticipantManagerSection({
 
   const handleCSVRemove = () => {
     setCsvFile(null);
-    setParticipants([]);
     setShowUpload(true);
     setError(null);
   };
@@ -157,6 +265,89 @@ export function ParticipantManagerSection({
       case 'delete':
         handleDeleteParticipant(participant);
         break;
+      case 'revoke':
+      case 'reissue':
+        setRevocationMode(action);
+        setRevocationParticipant(participant);
+        break;
+    }
+  };
+
+  const handleRevokeCertificate = async (reason: string) => {
+    if (!event?._id || !revocationParticipant) return;
+
+    try {
+      const revoked = await revokeCertificate(
+        event._id.toString(),
+        revocationParticipant.certification_id,
+        reason
+      );
+
+      refreshParticipants();
+
+      toast({
+        title: 'Certificate Revoked',
+        description: `Certificate ${revoked.certification_id} for ${revoked.name} has been revoked.`,
+        variant: 'default',
+      });
+    } catch (error) {
+      console.error('Error revoking certificate:', error);
+      const errorMessage =
+        error instanceof Error ? error.message : 'Unknown error';
+
+      toast({
+        title: 'Revocation Failed',
+        description: `Failed to revoke certificate: ${errorMessage}`,
+        variant: 'destructive',
+      });
+      throw error; // Re-throw to let the dialog handle it
+    }
+  };
+
+  const handleReissueCertificate = async (
+    options: IReissueCertificateOptions
+  ) => {
+    if (!event?._id || !revocationParticipant) return;
+
+    try {
+      const result = await reissueCertificate(
+        event._id.toString(),
+        revocationParticipant.certification_id,
+        options
+      );
+
+      // Shows the revoked record and its reissue
+      refreshParticipants();
+
+      toast({
+        title: 'Certificate Reissued',
+        description: `${result.revoked.certification_id} has been replaced by ${result.reissued.certification_id}.`,
+        variant: 'default',
+      });
+
+      if (result.email && !result.email.success) {
+        toast({
+          title: 'Email Failed',
+          description:
+            result.email.error || 'Failed to email the reissued certificate',
+          variant: 'destructive',
+        });
+      }
+
+      if (onParticipantsUploaded) {
+        onParticipantsUploaded();
+      }
+    } catch (error) {
+      console.error('Error reissuing certificate:', error);
+      const errorMessage =
+        error instanceof Error ? error.message : 'Unknown error';
+
+      toast({
+        title: 'Reissue Failed',
+        description: `Failed to reissue certificate: ${errorMessage}`,
+        variant: 'destructive',
+      });
+      throw error; // Re-throw to let the dialog handle it
     }
   };
 
@@ -177,13 +368,13 @@ export function ParticipantManagerSection({
       );
 
       // Generate filename
-      const filename = generateCertificateFilename(
-        participant.name,
-        participant.certification_id
+      const { extension, mimeType } = getCertificateFileInfo(
+        event.outputFormat
       );
+      const filename = buildCertificateFilename(event, participant, extension);
 
       // Download the certificate
-      downloadCertificate(certificateBuffer, filename);
+      downloadCertificate(certificateBuffer, filename, mimeType);
 
       toast({
         title: 'Certificate Downloaded',
@@ -236,14 +427,7 @@ export function ParticipantManagerSection({
         updatedParticipant
       );
 
-      // Update local participants list
-      setParticipants((prev) =>
-        prev.map((p) =>
-          p.certification_id === editingParticipant.certification_id
-            ? updatedParticipant
-            : p
-        )
-      );
+      refreshParticipants();
 
       // If certification_id changed, update the event data
       if (
@@ -312,13 +496,7 @@ export function ParticipantManagerSection({
         await deleteParticipants(event._id.toString(), participantIds);
       }
 
-      // Update local participants list
-      const deletedIds = new Set(
-        deletingParticipants.map((p) => p.certification_id)
-      );
-      setParticipants((prev) =>
-        prev.filter((p) => !deletedIds.has(p.certification_id))
-      );
+      refreshParticipants();
 
       // Reload events to get updated data
       if (onParticipantsUploaded) {
@@ -358,7 +536,10 @@ export function ParticipantManagerSection({
 
     switch (action) {
       case 'download':
-        handleBulkDownload(participantIds);
+        handleSelectedDownload(participantIds);
+        break;
+      case 'print':
+        setPrintTarget({ participantIds });
         break;
       case 'send':
         handleBulkSendEmails(participantIds);
@@ -366,44 +547,81 @@ export function ParticipantManagerSection({
       case 'export':
         handleCSVExport(participantIds);
         break;
+      case 'export-xlsx':
+        handleXLSXExport(participantIds);
+        break;
       case 'delete':
         handleBulkDelete(participantIds);
         break;
     }
   };
 
-  const handleBulkDownload = async (participantIds: string[]) => {
+  // Streams the selected certificates as a ZIP archive, the same way as the
+  // table's download of all or filtered participants
+  const handleSelectedDownload = (participantIds: string[]) => {
     if (!event?._id || participantIds.length === 0) {
       setError('No participants selected for download');
       return;
     }
 
+    setError(null);
+    downloadCertificateArchive(event._id.toString(), { participantIds });
+  };
+
+  /**
+   * Generates certificates as a print PDF and downloads it
+   * @param participantIds - Certification IDs to include, or all participants
+   */
+  const handlePrintDownload = async (
+    participantIds: string[] | undefined,
+    printOptions: IPrintOptions
+  ) => {
+    if (!event?._id || participantIds?.length === 0) {
+      setError('No participants selected for download');
+      return;
+    }
+
     setIsBulkDownloading(true);
     setError(null);
 
     try {
-      // Generate certificates for selected participants
-      const zipBuffer = await generateSelectedCertificates(
+      // Certificates are generated by a background job; its progress is
+      // polled until the PDF is ready
+      let job: ICertificateJob | null = await startCertificateJob(
         event._id.toString(),
-        participantIds
+        participantIds,
+        printOptions
       );
+      setCertificateJob(job);
 
-      // Generate filename for the ZIP file
-      const zipFilename = generateZipFilename(
-        event.title,
-        participantIds.length
-      );
+      while (job && (job.status === 'queued' || job.status === 'running')) {
+        await new Promise((resolve) =>
+          setTimeout(resolve, JOB_POLL_INTERVAL_MS)
+        );
+        job = await getCertificateJobStatus(job._id!.toString());
+        setCertificateJob(job);
+      }
+
+      if (!job) {
+        throw new Error('Certificate job not found');
+      }
+      if (job.status === 'failed') {
+        throw new Error(job.error || 'Certificate generation failed');
+      }
 
-      // Download the ZIP file
-      downloadZipFile(zipBuffer, zipFilename);
+      downloadCertificateJobArchive(job._id!.toString());
 
+      const generatedCount = job.total - job.failures.length;
       toast({
         title: 'Certificates Downloaded',
-        description: `ZIP file with ${participantIds.length} certificates has been downloaded successfully.`,
+        description:
+          job.failures.length > 0
+            ? `Print PDF with ${generatedCount} certificates is downloading. ${job.failures.length} could not be generated.`
+            : `Print PDF with ${generatedCount} certificates is downloading.`,
         variant: 'default',
       });
     } catch (error) {
-      console.error('Error downloading selected certificates:', error);
+      console.error('Error downloading print PDF:', error);
       const errorMessage =
         error instanceof Error ? error.message : 'Unknown error';
       setError(`Failed to download certificates: ${errorMessage}`);
@@ -464,18 +682,71 @@ export function ParticipantManagerSection({
     }
   };
 
-  const handleBulkDelete = (participantIds: string[]) => {
-    const participantsToDelete = participants.filter((p) =>
-      participantIds.includes(p.certification_id)
-    );
+  const handleXLSXExport = async (participantIds: string[]) => {
+    if (!event?._id || participantIds.length === 0) {
+      setError('No participants selected for export');
+      return;
+    }
 
-    if (participantsToDelete.length === 0) {
+    setIsExportingCSV(true);
+    setError(null);
+
+    try {
+      // Export selected participants with their email status
+      const xlsxBuffer = await exportParticipantsXLSX(
+        event._id.toString(),
+        participantIds
+      );
+
+      downloadXLSX(
+        xlsxBuffer,
+        generateCSVFilename(event.title, participantIds.length, 'xlsx')
+      );
+
+      toast({
+        title: 'XLSX Exported',
+        description: `XLSX file with ${participantIds.length} participants has been exported successfully.`,
+        variant: 'default',
+      });
+    } catch (error) {
+      console.error('Error exporting XLSX:', error);
+      const errorMessage =
+        error instanceof Error ? error.message : 'Unknown error';
+      setError(`Failed to export XLSX: ${errorMessage}`);
+
+      toast({
+        title: 'Export Failed',
+        description: `Failed to export XLSX: ${errorMessage}`,
+        variant: 'destructive',
+      });
+    } finally {
+      setIsExportingCSV(false);
+    }
+  };
+
+  const handleBulkDelete = async (participantIds: string[]) => {
+    if (!event?._id || participantIds.length === 0) {
       setError('No participants selected for deletion');
       return;
     }
 
-    setDeletingParticipants(participantsToDelete);
-    setIsDeleteDialogOpen(true);
+    try {
+      // Selections may span pages that were never loaded
+      const participantsToDelete = await getParticipantsByIds(
+        event._id.toString(),
+        participantIds
+      );
+      if (participantsToDelete.length === 0) {
+        setError('No participants selected for deletion');
+        return;
+      }
+
+      setDeletingParticipants(participantsToDelete);
+      setIsDeleteDialogOpen(true);
+    } catch (error) {
+      console.error('Error loading participants to delete:', error);
+      setError('Failed to load the selected participants');
+    }
   };
 
   // Email functionality
@@ -512,19 +783,7 @@ export function ParticipantManagerSection({
           variant: 'default',
         });
 
-        // Update local participant data
-        setParticipants((prev) =>
-          prev.map((p) =>
-            p.certification_id === participantId
-              ? {
-                  ...p,
-                  emailStatus: 'sent',
-                  lastEmailSent: new Date(),
-                  emailError: undefined,
-                }
-              : p
-          )
-        );
+        refreshParticipants();
 
         // Refresh event data
         if (onParticipantsUploaded) {
@@ -537,19 +796,7 @@ export function ParticipantManagerSection({
           variant: 'destructive',
         });
 
-        // Update local participant data with error
-        setParticipants((prev) =>
-          prev.map((p) =>
-            p.certification_id === participantId
-              ? {
-                  ...p,
-                  emailStatus: 'failed',
-                  emailError: result.error,
-                  emailRetryCount: (p.emailRetryCount || 0) + 1,
-                }
-              : p
-          )
-        );
+        refreshParticipants();
       }
     } catch (error) {
       console.error('Error sending email:', error);
@@ -562,19 +809,7 @@ export function ParticipantManagerSection({
         variant: 'destructive',
       });
 
-      // Update local participant data with error
-      setParticipants((prev) =>
-        prev.map((p) =>
-          p.certification_id === participantId
-            ? {
-                ...p,
-                emailStatus: 'failed',
-                emailError: errorMessage,
-                emailRetryCount: (p.emailRetryCount || 0) + 1,
-              }
-            : p
-        )
-      );
+      refreshParticipants();
     } finally {
       setSendingEmails((prev) => {
         const newSet = new Set(prev);
@@ -590,28 +825,29 @@ export function ParticipantManagerSection({
       return;
     }
 
-    // Filter participants with email addresses
-    const participantsWithEmail = participants.filter(
-      (p) => participantIds.includes(p.certification_id) && p.email
-    );
-
-    if (participantsWithEmail.length === 0) {
-      toast({
-        title: 'No Valid Emails',
-        description: 'Selected participants do not have email addresses.',
-        variant: 'destructive',
-      });
-      return;
-    }
-
     setIsBulkSendingEmails(true);
     setError(null);
 
     try {
+      // Filter participants with email addresses
+      const participantsWithEmail = (
+        await getParticipantsByIds(event._id.toString(), participantIds)
+      ).filter((p) => p.email);
+
+      if (participantsWithEmail.length === 0) {
+        toast({
+          title: 'No Valid Emails',
+          description: 'Selected participants do not have email addresses.',
+          variant: 'destructive',
+        });
+        return;
+      }
+
       const result = await sendBulkEmails(
         event._id.toString(),
         participantsWithEmail.map((p) => p.certification_id)
       );
+      refreshParticipants();
 
       if (result.success) {
         toast({
@@ -668,19 +904,7 @@ export function ParticipantManagerSection({
           variant: 'default',
         });
 
-        // Update local participant data
-        setParticipants((prev) =>
-          prev.map((p) =>
-            p.certification_id === participantId
-              ? {
-                  ...p,
-                  emailStatus: 'sent',
-                  lastEmailSent: new Date(),
-                  emailError: undefined,
-                }
-              : p
-          )
-        );
+        refreshParticipants();
 
         // Refresh event data
         if (onParticipantsUploaded) {
@@ -755,7 +979,7 @@ export function ParticipantManagerSection({
         <CSVActions
           onDownload={downloadCSVTemplate}
           onUpload={() => setShowUpload(true)}
-          hasParticipants={participants.length > 0}
+          hasParticipants={summary.total > 0}
           isUploading={isUploading}
         />
       </div>
@@ -776,6 +1000,16 @@ export function ParticipantManagerSection({
         </Alert>
       )}
 
+      {/* Certificates missing from the last bulk download */}
+      {!isBulkDownloading &&
+        certificateJob?.status === 'completed' &&
+        certificateJob.failures.length > 0 && (
+          <CertificateJobFailures
+            failures={certificateJob.failures}
+            onDismiss={() => setCertificateJob(null)}
+          />
+        )}
+
       {/* Success Message Display */}
       {successMessage && (
         <Alert className="border-green-200 bg-green-50 dark:border-green-800 dark:bg-green-950/20">
@@ -803,21 +1037,22 @@ export function ParticipantManagerSection({
           </CardHeader>
           <CardContent className="space-y-4">
             <div className="text-sm text-gray-600 dark:text-gray-400">
-              Upload a CSV file with participant names and certificate IDs. The
-              file must have 'name' and 'certification_id' columns.
+              Upload a CSV or Excel (.xlsx) file with participant names and
+              certificate IDs. You can choose which columns hold the name,
+              certificate ID and email before importing.
             </div>
             <FileUpload
               onFileSelect={handleCSVUpload}
               onFileRemove={handleCSVRemove}
-              accept=".csv"
+              accept=".csv,.xlsx"
               selectedFile={csvFile}
               disabled={isUploading}
             />
-            {participants.length > 0 && (
+            {summary.total > 0 && (
               <div className="flex items-center gap-2 p-3 border rounded-lg bg-green-50 dark:bg-green-900/20">
                 <CheckCircle className="w-5 h-5 text-green-600" />
                 <span className="text-green-800 dark:text-green-200">
-                  {participants.length} participants uploaded successfully
+                  {summary.total} participants uploaded successfully
                 </span>
                 <button
                   onClick={() => setShowUpload(false)}
@@ -835,7 +1070,7 @@ export function ParticipantManagerSection({
       {!showUpload && (
         <div className="relative">
           <ParticipantTable
-            participants={participants}
+            refreshKey={participantsVersion}
             onParticipantAction={handleParticipantAction}
             onBulkAction={handleBulkAction}
             disabled={isUploading}
@@ -846,8 +1081,10 @@ export function ParticipantManagerSection({
             isBulkSendingEmails={isBulkSendingEmails}
             onRetryFailedEmail={handleRetryFailedEmail}
             onBulkSendEmails={handleBulkSendEmails}
+            onPrintAll={() => setPrintTarget({})}
             eventId={event?._id?.toString()}
             isEmailConfigured={event?.emailConfig?.enabled || false}
+            templateVariants={event?.templateVariants}
           />
 
           {/* Loading Overlay for Bulk Operations */}
@@ -857,7 +1094,10 @@ export function ParticipantManagerSection({
                 <Loader2 className="h-5 w-5 animate-spin text-blue-600" />
                 <span className="text-gray-700 dark:text-gray-300 font-medium">
                   {isBulkDownloading
-                    ? 'Generating certificates...'
+                    ? certificateJob?.status === 'running' &&
+                      certificateJob.total > 0
+                      ? `Generating certificates... ${certificateJob.processed} of ${certificateJob.total}`
+                      : 'Generating certificates...'
                     : isBulkSendingEmails
                     ? 'Sending emails...'
                     : 'Exporting CSV...'}
@@ -869,7 +1109,7 @@ export function ParticipantManagerSection({
       )}
 
       {/* Navigation Buttons */}
-      {participants.length > 0 && !showUpload && (
+      {summary.total > 0 && !showUpload && (
         <div className="flex justify-between pt-6 border-t border-gray-200 dark:border-gray-700">
           {onBack && (
             <button
@@ -895,8 +1135,23 @@ export function ParticipantManagerSection({
         onClose={handleCloseEditDialog}
         onSave={handleSaveParticipant}
         isLoading={isUpdatingParticipant}
+        templateVariants={event?.templateVariants}
       />
 
+      {/* CSV Import Wizard */}
+      {importFile && (
+        <CSVImportWizard
+          file={importFile}
+          onClose={handleCancelImport}
+          onImport={handleCSVImport}
+          eventId={event._id!.toString()}
+          existingCount={summary.total}
+          nameFits={nameFits}
+          savedMapping={event?.csvImportMapping}
+          templateField={event?.templateField}
+        />
+      )}
+
       {/* Delete Confirmation Dialog */}
       <DeleteConfirmationDialog
         participants={deletingParticipants}
@@ -906,6 +1161,28 @@ export function ParticipantManagerSection({
         isLoading={isDeletingParticipant}
       />
 
+      {/* Revoke / Reissue Dialog */}
+      <CertificateRevocationDialog
+        participant={revocationParticipant}
+        mode={revocationMode}
+        isOpen={!!revocationParticipant}
+        onClose={() => setRevocationParticipant(null)}
+        onRevoke={handleRevokeCertificate}
+        onReissue={handleReissueCertificate}
+        isEmailConfigured={event?.emailConfig?.enabled || false}
+      />
+
+      {/* Print PDF Options */}
+      <PrintPdfDialog
+        isOpen={!!printTarget}
+        participantCount={printTarget?.participantIds?.length}
+        fieldNames={summary.fieldNames}
+        onClose={() => setPrintTarget(null)}
+        onPrint={(options) =>
+          handlePrintDownload(printTarget?.participantIds, options)
+        }
+      />
+
       {/* Email Dashboard Toggle */}
       {/* {participants.length > 0 && !showUpload && (
         <div className="mt-4 flex justify-center">
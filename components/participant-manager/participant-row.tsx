@@ -2,6 +2,7 @@
 
 import { useState } from 'react';
 import { IParticipantAction, IRecipientData } from '@/lib/types';
+import { isCertificateRevoked } from '@/lib/certificate-utils';
 import { Checkbox } from '@/components/ui/checkbox';
 import { Button } from '@/components/ui/button';
 import {
@@ -22,6 +23,8 @@ interface ParticipantRowProps {
   isSendingEmail?: boolean;
   onRetryFailedEmail?: (participant: IRecipientData) => void;
   isEmailConfigured?: boolean;
+  templateName?: string; // Shown when the event has several templates
+  style?: React.CSSProperties;
 }
 
 export function ParticipantRow({
@@ -34,8 +37,11 @@ export function ParticipantRow({
   isSendingEmail = false,
   onRetryFailedEmail,
   isEmailConfigured = false,
+  templateName,
+  style,
 }: ParticipantRowProps) {
   const [isActionMenuOpen, setIsActionMenuOpen] = useState(false);
+  const isRevoked = isCertificateRevoked(participant);
 
   const handleSelectionChange = (checked: boolean) => {
     onSelectionChange(index, checked);
@@ -47,7 +53,10 @@ export function ParticipantRow({
   };
 
   return (
-    <tr className="border-b border-gray-200 dark:border-gray-700 hover:bg-gray-50 dark:hover:bg-gray-800/50">
+    <tr
+      className="border-b border-gray-200 dark:border-gray-700 hover:bg-gray-50 dark:hover:bg-gray-800/50"
+      style={style}
+    >
       {/* Checkbox Column */}
       <td className="p-4">
         <Checkbox
@@ -62,6 +71,11 @@ export function ParticipantRow({
         <div className="font-medium text-gray-900 dark:text-gray-100">
           {participant.name}
         </div>
+        {templateName && (
+          <span className="mt-1 inline-block px-1.5 py-0.5 rounded text-xs font-medium bg-blue-100 text-blue-800 dark:bg-blue-900/40 dark:text-blue-300">
+            {templateName}
+          </span>
+        )}
       </td>
 
       {/* Email Column */}
@@ -76,6 +90,26 @@ export function ParticipantRow({
         <div className="text-sm font-mono text-gray-600 dark:text-gray-400">
           {participant.certification_id}
         </div>
+        {isRevoked && (
+          <div
+            className="mt-1 flex items-center gap-1"
+            title={participant.revocationReason}
+          >
+            <span className="px-1.5 py-0.5 rounded text-xs font-medium bg-red-100 text-red-800 dark:bg-red-900/40 dark:text-red-300">
+              Revoked
+            </span>
+            {participant.replacedBy && (
+              <span className="text-xs text-gray-500 dark:text-gray-400">
+                → {participant.replacedBy}
+              </span>
+            )}
+          </div>
+        )}
+        {participant.replaces && (
+          <div className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+            Reissue of {participant.replaces}
+          </div>
+        )}
       </td>
 
       {/* Last Email Column */}
@@ -155,7 +189,8 @@ export function ParticipantRow({
               isSendingEmail ||
               isDownloading ||
               !participant.email ||
-              !isEmailConfigured
+              !isEmailConfigured ||
+              isRevoked
             }
           >
             {isSendingEmail ? (
@@ -184,6 +219,16 @@ export function ParticipantRow({
               <DropdownMenuItem onClick={() => handleAction('edit')}>
                 Edit Participant
               </DropdownMenuItem>
+              {!isRevoked && (
+                <DropdownMenuItem onClick={() => handleAction('revoke')}>
+                  Revoke Certificate
+                </DropdownMenuItem>
+              )}
+              {!participant.replacedBy && (
+                <DropdownMenuItem onClick={() => handleAction('reissue')}>
+                  Reissue Certificate
+                </DropdownMenuItem>
+              )}
               {/* <DropdownMenuItem onClick={() => handleAction('duplicate')}>
                 Duplicate
               </DropdownMenuItem> */}
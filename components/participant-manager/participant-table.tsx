@@ -1,21 +1,74 @@
 'use client';
 
-import { useState, useMemo } from 'react';
-import { IParticipantAction, IRecipientData } from '@/lib/types';
+import { useState, useEffect, useCallback, useRef } from 'react';
+import {
+  EmailStatus,
+  IParticipantAction,
+  IParticipantQuery,
+  IRecipientData,
+  ITemplateVariant,
+  ParticipantSortField,
+} from '@/lib/types';
+import { getParticipantIds, getParticipantPage } from '@/lib/actions';
+import { downloadCertificateArchive } from '@/lib/certificate-utils';
+import {
+  DEFAULT_TEMPLATE_NAME,
+  DEFAULT_TEMPLATE_VARIANT_ID,
+  getParticipantTemplateName,
+} from '@/lib/template-variants';
 import { ParticipantRow } from './participant-row';
 import { BulkActions } from './bulk-actions';
 import { Checkbox } from '@/components/ui/checkbox';
 import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 import {
-  Table,
   TableBody,
+  TableCell,
   TableHead,
   TableHeader,
   TableRow,
 } from '@/components/ui/table';
+import {
+  ArrowDown,
+  ArrowUp,
+  ArrowUpDown,
+  Download,
+  Loader2,
+  Printer,
+  Search,
+} from 'lucide-react';
+
+// Rows are fetched a page at a time as they scroll into view
+const PAGE_SIZE = 100;
+const ROW_HEIGHT = 80;
+const VIEWPORT_HEIGHT = 640;
+const OVERSCAN_ROWS = 10;
+const SEARCH_DELAY = 300;
+
+const ALL_OPTION = 'all';
+const MISSING_EMAIL_OPTION = 'missing';
+const COLUMN_COUNT = 6;
+
+const EMAIL_FILTER_OPTIONS: { value: string; label: string }[] = [
+  { value: ALL_OPTION, label: 'All email statuses' },
+  { value: 'not_sent', label: 'Not sent' },
+  { value: 'pending', label: 'Pending' },
+  { value: 'sent', label: 'Sent' },
+  { value: 'failed', label: 'Failed' },
+  { value: 'bounced', label: 'Bounced' },
+  { value: MISSING_EMAIL_OPTION, label: 'No email address' },
+];
 
 interface ParticipantTableProps {
-  participants: IRecipientData[];
+  refreshKey?: number; // The table reloads when this changes
   onParticipantAction: (
     action: IParticipantAction,
     participant: IRecipientData
@@ -29,12 +82,14 @@ interface ParticipantTableProps {
   isBulkSendingEmails?: boolean;
   onRetryFailedEmail?: (participant: IRecipientData) => void;
   onBulkSendEmails?: (participantIds: string[]) => void;
+  onPrintAll?: () => void; // Opens the print PDF options for every participant
   eventId?: string;
   isEmailConfigured?: boolean;
+  templateVariants?: ITemplateVariant[];
 }
 
 export function ParticipantTable({
-  participants,
+  refreshKey,
   onParticipantAction,
   onBulkAction,
   disabled = false,
@@ -45,55 +100,221 @@ export function ParticipantTable({
   isBulkSendingEmails = false,
   onRetryFailedEmail,
   onBulkSendEmails,
+  onPrintAll,
   eventId,
   isEmailConfigured = false,
+  templateVariants = [],
 }: ParticipantTableProps) {
-  const [selectedParticipants, setSelectedParticipants] = useState<Set<number>>(
+  const [searchInput, setSearchInput] = useState('');
+  const [query, setQuery] = useState<IParticipantQuery>({ search: '' });
+  const [pages, setPages] = useState<Record<number, IRecipientData[]>>({});
+  const [total, setTotal] = useState(0);
+  // Not known until the first page has loaded
+  const [eventTotal, setEventTotal] = useState<number | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [requestVersion, setRequestVersion] = useState(0);
+  const [selectedParticipants, setSelectedParticipants] = useState<Set<string>>(
     new Set()
   );
+  const [isSelectingAll, setIsSelectingAll] = useState(false);
+
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const latestRequest = useRef(0);
+  const requestedPages = useRef<Set<number>>(new Set());
+
+  // Search once typing pauses
+  useEffect(() => {
+    const timeout = setTimeout(
+      () =>
+        setQuery((prev) =>
+          prev.search === searchInput ? prev : { ...prev, search: searchInput }
+        ),
+      SEARCH_DELAY
+    );
+    return () => clearTimeout(timeout);
+  }, [searchInput]);
+
+  // A new query starts from the top with nothing selected
+  useEffect(() => {
+    setPages({});
+    setSelectedParticipants(new Set());
+    setScrollTop(0);
+    if (scrollRef.current) {
+      scrollRef.current.scrollTop = 0;
+    }
+  }, [eventId, query]);
+
+  // Refetch whenever the query changes or a reload is requested. Loaded rows stay
+  // visible until their page has been reloaded.
+  useEffect(() => {
+    latestRequest.current += 1;
+    requestedPages.current = new Set();
+    setRequestVersion(latestRequest.current);
+  }, [eventId, query, refreshKey]);
+
+  const loadPage = useCallback(
+    async (page: number, version: number) => {
+      if (!eventId) return;
+
+      try {
+        const result = await getParticipantPage(
+          eventId,
+          query,
+          page,
+          PAGE_SIZE
+        );
+        // Ignore pages of an outdated query
+        if (version !== latestRequest.current) return;
+
+        setPages((prev) => ({ ...prev, [page]: result.participants }));
+        setTotal(result.total);
+        setEventTotal(result.eventTotal);
+        setLoadError(null);
+      } catch (error) {
+        console.error('Error loading participants:', error);
+        if (version !== latestRequest.current) return;
+
+        requestedPages.current.delete(page);
+        setLoadError('Failed to load participants');
+      }
+    },
+    [eventId, query]
+  );
+
+  // Only the rows in and around the viewport are rendered
+  const firstRow = Math.max(
+    0,
+    Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN_ROWS
+  );
+  const lastRow = Math.min(
+    total,
+    Math.ceil((scrollTop + VIEWPORT_HEIGHT) / ROW_HEIGHT) + OVERSCAN_ROWS
+  );
+  const firstPage = Math.floor(firstRow / PAGE_SIZE);
+  const lastPage = Math.floor(Math.max(firstRow, lastRow - 1) / PAGE_SIZE);
+
+  useEffect(() => {
+    for (let page = firstPage; page <= lastPage; page++) {
+      if (!requestedPages.current.has(page)) {
+        requestedPages.current.add(page);
+        loadPage(page, requestVersion);
+      }
+    }
+  }, [firstPage, lastPage, requestVersion, loadPage]);
+
+  const getRow = (index: number): IRecipientData | undefined =>
+    pages[Math.floor(index / PAGE_SIZE)]?.[index % PAGE_SIZE];
 
   const selectedCount = selectedParticipants.size;
-  const allSelected =
-    participants.length > 0 && selectedCount === participants.length;
-  const someSelected = selectedCount > 0 && selectedCount < participants.length;
+  const allSelected = total > 0 && selectedCount >= total;
+  const someSelected = selectedCount > 0 && !allSelected;
+  const selectedParticipantIds = Array.from(selectedParticipants);
 
-  const handleSelectAll = (checked: boolean) => {
-    if (checked) {
-      setSelectedParticipants(new Set(participants.map((_, index) => index)));
-    } else {
+  // Selects every participant matching the query, not just the loaded rows
+  const handleSelectAll = async (checked: boolean) => {
+    if (!checked || !eventId) {
       setSelectedParticipants(new Set());
+      return;
+    }
+
+    setIsSelectingAll(true);
+    try {
+      const ids = await getParticipantIds(eventId, query);
+      setSelectedParticipants(new Set(ids));
+    } catch (error) {
+      console.error('Error selecting participants:', error);
+      setLoadError('Failed to select participants');
+    } finally {
+      setIsSelectingAll(false);
     }
   };
 
   const handleSelectParticipant = (index: number, selected: boolean) => {
+    const participant = getRow(index);
+    if (!participant) return;
+
     const newSelected = new Set(selectedParticipants);
     if (selected) {
-      newSelected.add(index);
+      newSelected.add(participant.certification_id);
     } else {
-      newSelected.delete(index);
+      newSelected.delete(participant.certification_id);
     }
     setSelectedParticipants(newSelected);
   };
 
   const handleBulkAction = (action: IParticipantAction) => {
-    const selectedParticipantIds = Array.from(selectedParticipants).map(
-      (index) => participants[index].certification_id
-    );
     onBulkAction(action, selectedParticipantIds);
   };
 
-  const selectedParticipantIds = Array.from(selectedParticipants).map(
-    (index) => participants[index].certification_id
+  const handleSort = (field: ParticipantSortField) => {
+    setQuery((prev) => ({
+      ...prev,
+      sortBy: field,
+      sortDirection:
+        prev.sortBy === field && prev.sortDirection !== 'desc' ? 'desc' : 'asc',
+    }));
+  };
+
+  const handleEmailFilterChange = (value: string) => {
+    setQuery((prev) => ({
+      ...prev,
+      emailStatus:
+        value === ALL_OPTION || value === MISSING_EMAIL_OPTION
+          ? undefined
+          : (value as EmailStatus),
+      missingEmail: value === MISSING_EMAIL_OPTION,
+    }));
+  };
+
+  const handleTemplateFilterChange = (value: string) => {
+    setQuery((prev) => ({
+      ...prev,
+      templateVariantId: value === ALL_OPTION ? undefined : value,
+    }));
+  };
+
+  const isFiltered = !!(
+    query.search?.trim() ||
+    query.emailStatus ||
+    query.missingEmail ||
+    query.templateVariantId
   );
 
-  const handleParticipantAction = (
-    action: IParticipantAction,
-    participant: IRecipientData
-  ) => {
-    onParticipantAction(action, participant);
+  // Streams the certificates of every participant matching the search and
+  // filters, or all of them
+  const handleFilteredDownload = () => {
+    if (!eventId) return;
+    downloadCertificateArchive(eventId, query);
   };
 
-  if (participants.length === 0) {
+  const renderSortableHead = (field: ParticipantSortField, label: string) => {
+    const SortIcon =
+      query.sortBy !== field
+        ? ArrowUpDown
+        : query.sortDirection === 'desc'
+        ? ArrowDown
+        : ArrowUp;
+
+    return (
+      <TableHead className="p-4 font-medium text-gray-900 dark:text-gray-100">
+        <button
+          type="button"
+          onClick={() => handleSort(field)}
+          className="flex items-center gap-1 hover:text-blue-600 dark:hover:text-blue-400"
+        >
+          {label}
+          <SortIcon
+            className={`h-3 w-3 ${
+              query.sortBy === field ? '' : 'text-gray-400'
+            }`}
+          />
+        </button>
+      </TableHead>
+    );
+  };
+
+  if (eventTotal === 0) {
     return (
       <div className="text-center py-12">
         <div className="w-16 h-16 mx-auto mb-4 rounded-full bg-gray-100 dark:bg-gray-700 flex items-center justify-center">
@@ -121,10 +342,90 @@ export function ParticipantTable({
     );
   }
 
-  console.log(participants);
+  const emailFilterValue = query.missingEmail
+    ? MISSING_EMAIL_OPTION
+    : query.emailStatus || ALL_OPTION;
+  const visibleRows: number[] = [];
+  for (let index = firstRow; index < lastRow; index++) {
+    visibleRows.push(index);
+  }
 
   return (
     <div className="space-y-4">
+      {/* Search and Filters */}
+      <div className="flex flex-wrap items-center gap-3">
+        <div className="relative flex-1 min-w-[200px]">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+          <Input
+            value={searchInput}
+            onChange={(e) => setSearchInput(e.target.value)}
+            placeholder="Search by name, certificate ID or email"
+            className="pl-9"
+            aria-label="Search participants"
+          />
+        </div>
+        <Select
+          value={emailFilterValue}
+          onValueChange={handleEmailFilterChange}
+        >
+          <SelectTrigger className="w-48" aria-label="Filter by email status">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {EMAIL_FILTER_OPTIONS.map((option) => (
+              <SelectItem key={option.value} value={option.value}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {templateVariants.length > 0 && (
+          <Select
+            value={query.templateVariantId || ALL_OPTION}
+            onValueChange={handleTemplateFilterChange}
+          >
+            <SelectTrigger className="w-48" aria-label="Filter by template">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_OPTION}>All templates</SelectItem>
+              <SelectItem value={DEFAULT_TEMPLATE_VARIANT_ID}>
+                {DEFAULT_TEMPLATE_NAME}
+              </SelectItem>
+              {templateVariants.map((variant) => (
+                <SelectItem key={variant.id} value={variant.id}>
+                  {variant.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+        {eventId && (
+          <Button
+            variant="outline"
+            onClick={handleFilteredDownload}
+            disabled={disabled || (isFiltered && total === 0)}
+            className="flex items-center gap-2"
+            title="Download the certificates of every participant matching the search and filters as a ZIP file"
+          >
+            <Download className="h-4 w-4" />
+            {isFiltered ? 'Download Matching' : 'Download All'}
+          </Button>
+        )}
+        {onPrintAll && (
+          <Button
+            variant="outline"
+            onClick={onPrintAll}
+            disabled={disabled || isBulkDownloading}
+            className="flex items-center gap-2"
+            title="Create one print-ready PDF with every certificate"
+          >
+            <Printer className="h-4 w-4" />
+            Print All
+          </Button>
+        )}
+      </div>
+
       {/* Bulk Actions */}
       <BulkActions
         selectedCount={selectedCount}
@@ -135,71 +436,126 @@ export function ParticipantTable({
         isSendingEmails={isBulkSendingEmails}
         onBulkSendEmails={onBulkSendEmails}
         eventId={eventId}
-        participants={participants}
         selectedParticipantIds={selectedParticipantIds}
         isEmailConfigured={isEmailConfigured}
       />
 
       {/* Table */}
-      <div className="border border-gray-200 dark:border-gray-700 rounded-lg overflow-hidden bg-white dark:bg-gray-800">
-        <Table>
-          <TableHeader>
+      <div
+        ref={scrollRef}
+        onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+        className="border border-gray-200 dark:border-gray-700 rounded-lg overflow-auto bg-white dark:bg-gray-800"
+        style={{ maxHeight: VIEWPORT_HEIGHT }}
+      >
+        <table className="w-full caption-bottom text-sm">
+          <TableHeader className="sticky top-0 z-10 bg-gray-50 dark:bg-gray-800">
             <TableRow className="bg-gray-50 dark:bg-gray-800">
               <TableHead className="w-12 p-4">
-                <Checkbox
-                  checked={allSelected}
-                  ref={(el) => {
-                    if (el) {
-                      (el as HTMLInputElement).indeterminate = someSelected;
+                {isSelectingAll ? (
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                ) : (
+                  <Checkbox
+                    checked={allSelected}
+                    ref={(el) => {
+                      if (el) {
+                        (el as HTMLInputElement).indeterminate = someSelected;
+                      }
+                    }}
+                    onCheckedChange={(checked) =>
+                      handleSelectAll(checked === true)
                     }
-                  }}
-                  onCheckedChange={handleSelectAll}
-                  disabled={disabled}
-                />
-              </TableHead>
-              <TableHead className="p-4 font-medium text-gray-900 dark:text-gray-100">
-                Name
-              </TableHead>
-              <TableHead className="p-4 font-medium text-gray-900 dark:text-gray-100">
-                Email
-              </TableHead>
-              <TableHead className="p-4 font-medium text-gray-900 dark:text-gray-100">
-                Certificate ID
-              </TableHead>
-              <TableHead className="p-4 font-medium text-gray-900 dark:text-gray-100">
-                Last Email
+                    disabled={disabled || total === 0}
+                    aria-label="Select all matching participants"
+                  />
+                )}
               </TableHead>
+              {renderSortableHead('name', 'Name')}
+              {renderSortableHead('email', 'Email')}
+              {renderSortableHead('certification_id', 'Certificate ID')}
+              {renderSortableHead('lastEmailSent', 'Last Email')}
               <TableHead className="w-32 p-4 font-medium text-gray-900 dark:text-gray-100">
                 Actions
               </TableHead>
             </TableRow>
           </TableHeader>
           <TableBody>
-            {participants.map((participant, index) => (
-              <ParticipantRow
-                key={`${participant.certification_id}-${index}`}
-                participant={participant}
-                index={index}
-                isSelected={selectedParticipants.has(index)}
-                onSelectionChange={handleSelectParticipant}
-                onAction={handleParticipantAction}
-                isDownloading={downloadingParticipants.has(
-                  participant.certification_id
-                )}
-                isSendingEmail={sendingEmails.has(participant.certification_id)}
-                onRetryFailedEmail={onRetryFailedEmail}
-                isEmailConfigured={isEmailConfigured}
+            {firstRow > 0 && (
+              <tr aria-hidden style={{ height: firstRow * ROW_HEIGHT }} />
+            )}
+            {visibleRows.map((index) => {
+              const participant = getRow(index);
+              if (!participant) {
+                return (
+                  <tr key={`loading-${index}`} style={{ height: ROW_HEIGHT }}>
+                    <td colSpan={COLUMN_COUNT} className="p-4">
+                      <Skeleton className="h-4 w-full" />
+                    </td>
+                  </tr>
+                );
+              }
+
+              return (
+                <ParticipantRow
+                  key={`${participant.certification_id}-${index}`}
+                  participant={participant}
+                  index={index}
+                  isSelected={selectedParticipants.has(
+                    participant.certification_id
+                  )}
+                  onSelectionChange={handleSelectParticipant}
+                  onAction={onParticipantAction}
+                  isDownloading={downloadingParticipants.has(
+                    participant.certification_id
+                  )}
+                  isSendingEmail={sendingEmails.has(
+                    participant.certification_id
+                  )}
+                  onRetryFailedEmail={onRetryFailedEmail}
+                  isEmailConfigured={isEmailConfigured}
+                  templateName={
+                    templateVariants.length > 0
+                      ? getParticipantTemplateName(
+                          { templateVariants },
+                          participant
+                        )
+                      : undefined
+                  }
+                  style={{ height: ROW_HEIGHT }}
+                />
+              );
+            })}
+            {lastRow < total && (
+              <tr
+                aria-hidden
+                style={{ height: (total - lastRow) * ROW_HEIGHT }}
               />
-            ))}
+            )}
+            {total === 0 && pages[0] && (
+              <TableRow>
+                <TableCell
+                  colSpan={COLUMN_COUNT}
+                  className="p-8 text-center text-gray-600 dark:text-gray-400"
+                >
+                  No participants match your search and filters.
+                </TableCell>
+              </TableRow>
+            )}
           </TableBody>
-        </Table>
+        </table>
       </div>
 
       {/* Table Footer */}
       <div className="flex items-center justify-between text-sm text-gray-600 dark:text-gray-400">
         <div>
-          Showing {participants.length} participant
-          {participants.length > 1 ? 's' : ''}
+          {loadError ? (
+            <span className="text-red-600 dark:text-red-400">{loadError}</span>
+          ) : eventTotal === null ? (
+            'Loading participants...'
+          ) : total === eventTotal ? (
+            `${total} participant${total === 1 ? '' : 's'}`
+          ) : (
+            `${total} of ${eventTotal} participants match`
+          )}
         </div>
         <div>
           {selectedCount > 0 && (
@@ -0,0 +1,212 @@
+'use client';
+
+import { useState } from 'react';
+import { IPrintOptions, PrintPaperSize, PrintSortOrder } from '@/lib/types';
+import { MAX_BLEED_MM, PRINT_PAPER_SIZES } from '@/lib/print-layout';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Printer } from 'lucide-react';
+
+interface PrintPdfDialogProps {
+  isOpen: boolean;
+  participantCount?: number; // Selected participants; all when not set
+  fieldNames: string[]; // Custom participant fields to sort by
+  onClose: () => void;
+  onPrint: (options: IPrintOptions) => void;
+}
+
+const IMPORT_ORDER = 'import';
+const FIELD_SORT_PREFIX = 'field:';
+
+const DEFAULT_OPTIONS: IPrintOptions = {
+  paperSize: 'a4',
+  perPage: 1,
+  cropMarks: false,
+  bleed: 0,
+};
+
+function getSortValue(sortBy?: PrintSortOrder): string {
+  if (!sortBy) return IMPORT_ORDER;
+  return sortBy.by === 'field'
+    ? `${FIELD_SORT_PREFIX}${sortBy.field}`
+    : sortBy.by;
+}
+
+function parseSortValue(value: string): PrintSortOrder | undefined {
+  if (value === IMPORT_ORDER) return undefined;
+  if (value.startsWith(FIELD_SORT_PREFIX)) {
+    return { by: 'field', field: value.slice(FIELD_SORT_PREFIX.length) };
+  }
+  return { by: value as 'name' | 'surname' | 'certification_id' };
+}
+
+export function PrintPdfDialog({
+  isOpen,
+  participantCount,
+  fieldNames,
+  onClose,
+  onPrint,
+}: PrintPdfDialogProps) {
+  // Kept between openings so repeated prints use the same layout
+  const [options, setOptions] = useState<IPrintOptions>(DEFAULT_OPTIONS);
+
+  const updateOptions = (changes: Partial<IPrintOptions>) => {
+    setOptions((prev) => ({ ...prev, ...changes }));
+  };
+
+  const handleBleedChange = (value: string) => {
+    const bleed = parseFloat(value);
+    updateOptions({
+      bleed: isNaN(bleed) ? 0 : Math.min(Math.max(bleed, 0), MAX_BLEED_MM),
+    });
+  };
+
+  const handlePrint = () => {
+    onPrint(options);
+    onClose();
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Printer className="h-5 w-5" />
+            Print PDF
+          </DialogTitle>
+          <DialogDescription>
+            {participantCount === undefined
+              ? 'Every certificate'
+              : `${participantCount} certificate${
+                  participantCount === 1 ? '' : 's'
+                }`}{' '}
+            in one PDF, laid out on sheets of paper for printing.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-4 py-4">
+          <div className="space-y-2">
+            <Label htmlFor="print-paper-size">Paper Size</Label>
+            <Select
+              value={options.paperSize}
+              onValueChange={(value) =>
+                updateOptions({ paperSize: value as PrintPaperSize })
+              }
+            >
+              <SelectTrigger id="print-paper-size">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(PRINT_PAPER_SIZES) as PrintPaperSize[]).map(
+                  (size) => (
+                    <SelectItem key={size} value={size}>
+                      {PRINT_PAPER_SIZES[size].label}
+                    </SelectItem>
+                  )
+                )}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="print-per-page">Certificates per Sheet</Label>
+            <Select
+              value={options.perPage.toString()}
+              onValueChange={(value) =>
+                updateOptions({ perPage: value === '2' ? 2 : 1 })
+              }
+            >
+              <SelectTrigger id="print-per-page">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="1">1 per sheet</SelectItem>
+                <SelectItem value="2">2 per sheet</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="print-bleed">Bleed (mm)</Label>
+            <Input
+              id="print-bleed"
+              type="number"
+              min={0}
+              max={MAX_BLEED_MM}
+              step={0.5}
+              value={options.bleed}
+              onChange={(e) => handleBleedChange(e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="print-sort">Page Order</Label>
+            <Select
+              value={getSortValue(options.sortBy)}
+              onValueChange={(value) =>
+                updateOptions({ sortBy: parseSortValue(value) })
+              }
+            >
+              <SelectTrigger id="print-sort">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={IMPORT_ORDER}>Import order</SelectItem>
+                <SelectItem value="name">Name</SelectItem>
+                <SelectItem value="surname">Surname</SelectItem>
+                <SelectItem value="certification_id">Certificate ID</SelectItem>
+                {fieldNames.map((field) => (
+                  <SelectItem
+                    key={field}
+                    value={`${FIELD_SORT_PREFIX}${field}`}
+                  >
+                    {field}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="col-span-2 flex items-center space-x-2">
+            <Checkbox
+              id="print-crop-marks"
+              checked={options.cropMarks}
+              onCheckedChange={(checked) =>
+                updateOptions({ cropMarks: checked === true })
+              }
+            />
+            <Label htmlFor="print-crop-marks" className="text-sm">
+              Add crop marks
+            </Label>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={handlePrint} className="min-w-[100px]">
+            Create PDF
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
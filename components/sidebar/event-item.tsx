@@ -1,6 +1,8 @@
 'use client';
 
 import { IEvent } from '@/lib/types';
+import { hasTemplateImage } from '@/lib/template-images';
+import { getParticipantCount } from '@/lib/utils';
 import { format } from 'date-fns';
 import {
   Calendar,
@@ -86,8 +88,8 @@ export function EventItem({
   const getEventStatus = (event: IEvent) => {
     if (event.isDeleted) return 'deleted';
     if (event.status === 'archived') return 'archived';
-    if (!event.template.base64) return 'no-template';
-    if (event.participants.length === 0) return 'no-participants';
+    if (!hasTemplateImage(event.template)) return 'no-template';
+    if (getParticipantCount(event) === 0) return 'no-participants';
     if (!event.emailConfig || !event.emailConfig.enabled)
       return 'no-email-config';
     return 'ready';
@@ -293,11 +295,13 @@ export function EventItem({
                 <div className="flex items-center gap-2 text-xs text-gray-500 dark:text-gray-400">
                   <div className="flex items-center gap-1">
                     <Users className="w-3 h-3" />
-                    {event.participants.length} participants
+                    {getParticipantCount(event)} participants
                   </div>
                   <div className="flex items-center gap-1">
                     <FileText className="w-3 h-3" />
-                    {event.template.base64 ? 'Template' : 'No Template'}
+                    {hasTemplateImage(event.template)
+                      ? 'Template'
+                      : 'No Template'}
                   </div>
                 </div>
               </div>
@@ -329,11 +333,13 @@ export function EventItem({
                   </div>
                   <div className="flex items-center gap-1">
                     <Users className="w-3 h-3" />
-                    {event.participants.length}
+                    {getParticipantCount(event)}
                   </div>
                   <div className="flex items-center gap-1">
                     <FileText className="w-3 h-3" />
-                    {event.template.base64 ? 'Template' : 'No Template'}
+                    {hasTemplateImage(event.template)
+                      ? 'Template'
+                      : 'No Template'}
                   </div>
                 </div>
               </>
@@ -1,6 +1,8 @@
 'use client';
 
 import { IEvent } from '@/lib/types';
+import { hasTemplateImage } from '@/lib/template-images';
+import { getParticipantCount } from '@/lib/utils';
 import { EventItem } from './event-item';
 import { useState, useMemo } from 'react';
 import {
@@ -99,9 +101,9 @@ export function EventList({
             //   ? 'deleted'
             a.status === 'archived'
               ? 'archived'
-              : !a.template.base64
+              : !hasTemplateImage(a.template)
               ? 'no-template'
-              : a.participants.length === 0
+              : getParticipantCount(a) === 0
               ? 'no-participants'
               : !a.emailConfig || !a.emailConfig.enabled
               ? 'no-email-config'
@@ -111,9 +113,9 @@ export function EventList({
             //   ? 'deleted'
             b.status === 'archived'
               ? 'archived'
-              : !b.template.base64
+              : !hasTemplateImage(b.template)
               ? 'no-template'
-              : b.participants.length === 0
+              : getParticipantCount(b) === 0
               ? 'no-participants'
               : !b.emailConfig || !b.emailConfig.enabled
               ? 'no-email-config'
@@ -1,24 +1,89 @@
 'use client';
 
-import { useRef, useEffect, useState } from 'react';
-import { ITextConfig } from '@/lib/types';
+import { useRef, useEffect, useState, useMemo } from 'react';
+import {
+  ITextConfig,
+  ITextElement,
+  ICustomFont,
+  IQRCodeConfig,
+  IImageLayer,
+  LayoutElementKey,
+} from '@/lib/types';
+import { renderTextTemplate } from '@/lib/text-template';
+import {
+  drawTextElement,
+  getTextBoxBounds,
+  TextLayout,
+} from '@/lib/text-rendering';
+import {
+  buildVerificationUrl,
+  drawQRCode,
+  getQRCodeBounds,
+} from '@/lib/qr-code';
+import {
+  drawImageLayer,
+  getImageLayerDataUrl,
+  getImageLayerKey,
+  getImageLayerResizeHandle,
+  isPointInImageLayer,
+  parseImageLayerKey,
+  resizeImageLayerToPoint,
+} from '@/lib/image-layers';
+import { useCustomFonts } from '@/hooks/use-custom-fonts';
 
 interface CertificatePreviewProps {
   templateUrl: string;
   nameConfig: ITextConfig;
   idConfig: ITextConfig;
+  textElements?: ITextElement[];
+  sampleVariables?: Record<string, string>;
+  fonts?: ICustomFont[];
+  qrCodeConfig?: IQRCodeConfig;
+  verificationBaseUrl?: string;
+  imageLayers?: IImageLayer[];
+  onImageLayerResize?: (
+    layerId: string,
+    size: Pick<IImageLayer, 'width' | 'height'>
+  ) => void;
   onPositionChange: (
-    type: 'name' | 'id',
+    type: LayoutElementKey,
     position: Partial<ITextConfig>
   ) => void;
-  selectedTextType: 'name' | 'id';
-  onTextTypeChange: (type: 'name' | 'id') => void;
+  selectedTextType: LayoutElementKey;
+  onTextTypeChange: (type: LayoutElementKey) => void;
+}
+
+interface PreviewElement {
+  key: LayoutElementKey;
+  text: string;
+  config: ITextConfig;
+  color: string;
 }
 
+const ELEMENT_COLORS: Record<string, string> = {
+  name: '#3b82f6',
+  id: '#10b981',
+};
+const CUSTOM_ELEMENT_COLOR = '#a855f7';
+const QR_CODE_COLOR = '#f59e0b';
+const IMAGE_LAYER_COLOR = '#0ea5e9';
+const RESIZE_HANDLE_SIZE = 10;
+const NO_TEXT_ELEMENTS: ITextElement[] = [];
+const NO_VARIABLES: Record<string, string> = {};
+const NO_FONTS: ICustomFont[] = [];
+const NO_IMAGE_LAYERS: IImageLayer[] = [];
+
 export function CertificatePreview({
   templateUrl,
   nameConfig,
   idConfig,
+  textElements = NO_TEXT_ELEMENTS,
+  sampleVariables = NO_VARIABLES,
+  fonts = NO_FONTS,
+  qrCodeConfig,
+  verificationBaseUrl,
+  imageLayers = NO_IMAGE_LAYERS,
+  onImageLayerResize,
   onPositionChange,
   selectedTextType,
   onTextTypeChange,
@@ -27,8 +92,13 @@ export function CertificatePreview({
   const containerRef = useRef<HTMLDivElement>(null);
   const [image, setImage] = useState<HTMLImageElement | null>(null);
   const [scale, setScale] = useState(1);
-  const [dragging, setDragging] = useState<'name' | 'id' | null>(null);
+  const [dragging, setDragging] = useState<LayoutElementKey | null>(null);
   const [dragOffset, setDragOffset] = useState({ x: 0, y: 0 });
+  const [resizingLayerId, setResizingLayerId] = useState<string | null>(null);
+  const layerImagesRef = useRef(new Map<string, HTMLImageElement>());
+  const [layerImagesVersion, setLayerImagesVersion] = useState(0);
+  const fontsVersion = useCustomFonts(fonts);
+  const selectedLayerId = parseImageLayerKey(selectedTextType);
 
   useEffect(() => {
     const img = new Image();
@@ -46,6 +116,43 @@ export function CertificatePreview({
     img.src = templateUrl;
   }, [templateUrl]);
 
+  // Load layer images once per layer; redraw when each finishes loading
+  useEffect(() => {
+    const cache = layerImagesRef.current;
+    imageLayers.forEach((layer) => {
+      if (cache.has(layer.id)) return;
+
+      const img = new Image();
+      img.onload = () => setLayerImagesVersion((version) => version + 1);
+      img.src = getImageLayerDataUrl(layer);
+      cache.set(layer.id, img);
+    });
+  }, [imageLayers]);
+
+  const elements = useMemo<PreviewElement[]>(
+    () => [
+      {
+        key: 'name',
+        text: sampleVariables.name || 'John Doe',
+        config: nameConfig,
+        color: ELEMENT_COLORS.name,
+      },
+      {
+        key: 'id',
+        text: sampleVariables.certification_id || 'CERT-2025-001',
+        config: idConfig,
+        color: ELEMENT_COLORS.id,
+      },
+      ...textElements.map((element) => ({
+        key: element.id,
+        text: renderTextTemplate(element.content, sampleVariables),
+        config: element.config,
+        color: CUSTOM_ELEMENT_COLOR,
+      })),
+    ],
+    [nameConfig, idConfig, textElements, sampleVariables]
+  );
+
   useEffect(() => {
     if (!image || !canvasRef.current) return;
 
@@ -63,64 +170,159 @@ export function CertificatePreview({
     // Draw template image
     ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
 
-    // Draw text previews
-    drawTextPreview(ctx, 'John Doe', nameConfig, scale);
-    drawTextPreview(ctx, 'CERT-2025-001', idConfig, scale);
-
-    // Draw position indicators
-    drawPositionIndicator(
-      ctx,
-      nameConfig,
-      scale,
-      'name',
-      selectedTextType === 'name'
-    );
-    drawPositionIndicator(
-      ctx,
-      idConfig,
-      scale,
-      'id',
-      selectedTextType === 'id'
+    // Draw image layers in order above the template
+    imageLayers.forEach((layer) => {
+      const layerImage = layerImagesRef.current.get(layer.id);
+      if (layerImage?.complete && layerImage.naturalWidth > 0) {
+        drawImageLayer(ctx, layerImage, layer, scale);
+      }
+    });
+
+    // Draw text previews with the same layout used for generation
+    const layouts = elements.map((element) =>
+      drawTextElement(ctx, element.text, element.config, scale)
     );
-  }, [image, scale, nameConfig, idConfig, selectedTextType]);
 
-  const drawTextPreview = (
+    // Draw the QR code with the sample certificate ID
+    if (qrCodeConfig?.enabled) {
+      drawQRCode(
+        ctx,
+        buildVerificationUrl(
+          verificationBaseUrl,
+          sampleVariables.certification_id || 'CERT-2025-001'
+        ),
+        qrCodeConfig,
+        scale
+      );
+      drawQRCodeOutline(ctx, qrCodeConfig, scale, selectedTextType === 'qr');
+    }
+
+    // Draw image layer outlines
+    imageLayers.forEach((layer) => {
+      drawImageLayerOutline(ctx, layer, scale, layer.id === selectedLayerId);
+    });
+
+    // Draw text boxes and position indicators
+    elements.forEach((element, index) => {
+      if (element.config.maxWidth) {
+        drawTextBox(
+          ctx,
+          element.config,
+          layouts[index],
+          scale,
+          element.color,
+          selectedTextType === element.key
+        );
+      }
+      drawPositionIndicator(
+        ctx,
+        element.config,
+        scale,
+        element.color,
+        selectedTextType === element.key
+      );
+    });
+  }, [
+    image,
+    scale,
+    elements,
+    selectedTextType,
+    fontsVersion,
+    qrCodeConfig,
+    verificationBaseUrl,
+    sampleVariables,
+    imageLayers,
+    selectedLayerId,
+    layerImagesVersion,
+  ]);
+
+  const drawTextBox = (
     ctx: CanvasRenderingContext2D,
-    text: string,
     config: ITextConfig,
-    scale: number
+    layout: TextLayout,
+    scale: number,
+    color: string,
+    isSelected: boolean
   ) => {
-    ctx.font = `${config.fontSize * scale}px ${config.fontFamily}`;
-    ctx.fillStyle = config.color;
-    ctx.textAlign = config.textAlign;
-    ctx.textBaseline = 'middle';
-
-    // Add subtle shadow
-    ctx.shadowColor = 'rgba(0, 0, 0, 0.3)';
-    ctx.shadowBlur = 2 * scale;
-    ctx.shadowOffsetX = 1 * scale;
-    ctx.shadowOffsetY = 1 * scale;
-
-    ctx.fillText(text, config.x * scale, config.y * scale);
-
-    // Reset shadow
-    ctx.shadowColor = 'transparent';
-    ctx.shadowBlur = 0;
-    ctx.shadowOffsetX = 0;
-    ctx.shadowOffsetY = 0;
+    const bounds = getTextBoxBounds(config, layout);
+
+    ctx.strokeStyle = color;
+    ctx.lineWidth = 1;
+    ctx.globalAlpha = isSelected ? 0.9 : 0.5;
+    ctx.setLineDash([4, 4]);
+    ctx.strokeRect(
+      bounds.x * scale,
+      bounds.y * scale,
+      bounds.width * scale,
+      bounds.height * scale
+    );
+    ctx.setLineDash([]);
+    ctx.globalAlpha = 1;
+  };
+
+  const drawQRCodeOutline = (
+    ctx: CanvasRenderingContext2D,
+    config: IQRCodeConfig,
+    scale: number,
+    isSelected: boolean
+  ) => {
+    const bounds = getQRCodeBounds(config);
+
+    ctx.strokeStyle = QR_CODE_COLOR;
+    ctx.lineWidth = isSelected ? 3 : 2;
+    ctx.setLineDash(isSelected ? [5, 5] : []);
+    ctx.strokeRect(
+      bounds.x * scale,
+      bounds.y * scale,
+      bounds.width * scale,
+      bounds.height * scale
+    );
+    ctx.setLineDash([]);
+  };
+
+  const drawImageLayerOutline = (
+    ctx: CanvasRenderingContext2D,
+    layer: IImageLayer,
+    scale: number,
+    isSelected: boolean
+  ) => {
+    ctx.save();
+    ctx.translate(layer.x * scale, layer.y * scale);
+    ctx.rotate((layer.rotation * Math.PI) / 180);
+    ctx.strokeStyle = IMAGE_LAYER_COLOR;
+    ctx.lineWidth = isSelected ? 2 : 1;
+    ctx.setLineDash(isSelected ? [5, 5] : [3, 3]);
+    ctx.strokeRect(
+      (-layer.width / 2) * scale,
+      (-layer.height / 2) * scale,
+      layer.width * scale,
+      layer.height * scale
+    );
+    ctx.restore();
+
+    // Draw resize handle on the selected layer
+    if (isSelected) {
+      const handle = getImageLayerResizeHandle(layer);
+      ctx.fillStyle = IMAGE_LAYER_COLOR;
+      ctx.fillRect(
+        handle.x * scale - RESIZE_HANDLE_SIZE / 2,
+        handle.y * scale - RESIZE_HANDLE_SIZE / 2,
+        RESIZE_HANDLE_SIZE,
+        RESIZE_HANDLE_SIZE
+      );
+    }
   };
 
   const drawPositionIndicator = (
     ctx: CanvasRenderingContext2D,
     config: ITextConfig,
     scale: number,
-    type: 'name' | 'id',
+    color: string,
     isSelected: boolean
   ) => {
     const x = config.x * scale;
     const y = config.y * scale;
     const size = isSelected ? 12 : 8;
-    const color = type === 'name' ? '#3b82f6' : '#10b981';
 
     // Draw crosshair
     ctx.strokeStyle = color;
@@ -157,22 +359,64 @@ export function CertificatePreview({
     const x = (e.clientX - rect.left) / scale;
     const y = (e.clientY - rect.top) / scale;
 
-    // Check if clicking near name position
-    const nameDistance = Math.sqrt(
-      Math.pow(x - nameConfig.x, 2) + Math.pow(y - nameConfig.y, 2)
-    );
-    const idDistance = Math.sqrt(
-      Math.pow(x - idConfig.x, 2) + Math.pow(y - idConfig.y, 2)
+    // Start resizing when the selected layer's handle is grabbed
+    const selectedLayer = imageLayers.find(
+      (layer) => layer.id === selectedLayerId
     );
+    if (selectedLayer && onImageLayerResize) {
+      const handle = getImageLayerResizeHandle(selectedLayer);
+      const handleDistance = Math.max(
+        Math.abs(x - handle.x),
+        Math.abs(y - handle.y)
+      );
+      if (handleDistance * scale <= RESIZE_HANDLE_SIZE) {
+        setResizingLayerId(selectedLayer.id);
+        return;
+      }
+    }
+
+    // Find the closest element near the click position
+    let closest: PreviewElement | null = null;
+    let closestDistance = 30;
+    for (const element of elements) {
+      const distance = Math.sqrt(
+        Math.pow(x - element.config.x, 2) + Math.pow(y - element.config.y, 2)
+      );
+      if (distance < closestDistance) {
+        closest = element;
+        closestDistance = distance;
+      }
+    }
+
+    const qrBounds = qrCodeConfig?.enabled
+      ? getQRCodeBounds(qrCodeConfig)
+      : null;
+    const isInsideQRCode =
+      !!qrBounds &&
+      x >= qrBounds.x &&
+      x <= qrBounds.x + qrBounds.width &&
+      y >= qrBounds.y &&
+      y <= qrBounds.y + qrBounds.height;
+
+    // Layers drawn last are on top
+    const topLayer = [...imageLayers]
+      .reverse()
+      .find((layer) => isPointInImageLayer(layer, x, y));
 
-    if (nameDistance < 30) {
-      setDragging('name');
-      setDragOffset({ x: x - nameConfig.x, y: y - nameConfig.y });
-      onTextTypeChange('name');
-    } else if (idDistance < 30) {
-      setDragging('id');
-      setDragOffset({ x: x - idConfig.x, y: y - idConfig.y });
-      onTextTypeChange('id');
+    if (closest) {
+      setDragging(closest.key);
+      setDragOffset({ x: x - closest.config.x, y: y - closest.config.y });
+      onTextTypeChange(closest.key);
+    } else if (qrCodeConfig && isInsideQRCode) {
+      // The whole QR code acts as a drag handle
+      setDragging('qr');
+      setDragOffset({ x: x - qrCodeConfig.x, y: y - qrCodeConfig.y });
+      onTextTypeChange('qr');
+    } else if (topLayer) {
+      const key = getImageLayerKey(topLayer.id);
+      setDragging(key);
+      setDragOffset({ x: x - topLayer.x, y: y - topLayer.y });
+      onTextTypeChange(key);
     } else {
       // Click to place new position for selected text type
       onPositionChange(selectedTextType, { x, y });
@@ -180,9 +424,27 @@ export function CertificatePreview({
   };
 
   const handleMouseMove = (e: React.MouseEvent) => {
-    if (!dragging || !canvasRef.current) return;
+    if (!canvasRef.current) return;
 
     const rect = canvasRef.current.getBoundingClientRect();
+
+    if (resizingLayerId) {
+      const layer = imageLayers.find((l) => l.id === resizingLayerId);
+      if (layer && onImageLayerResize) {
+        onImageLayerResize(
+          layer.id,
+          resizeImageLayerToPoint(
+            layer,
+            (e.clientX - rect.left) / scale,
+            (e.clientY - rect.top) / scale
+          )
+        );
+      }
+      return;
+    }
+
+    if (!dragging) return;
+
     const x = (e.clientX - rect.left) / scale - dragOffset.x;
     const y = (e.clientY - rect.top) / scale - dragOffset.y;
 
@@ -191,6 +453,7 @@ export function CertificatePreview({
 
   const handleMouseUp = () => {
     setDragging(null);
+    setResizingLayerId(null);
     setDragOffset({ x: 0, y: 0 });
   };
 
@@ -229,6 +492,24 @@ export function CertificatePreview({
           <div className="w-3 h-3 rounded-full bg-green-500"></div>
           <span>Certificate ID</span>
         </div>
+        {textElements.length > 0 && (
+          <div className="flex items-center gap-2">
+            <div className="w-3 h-3 rounded-full bg-purple-500"></div>
+            <span>Custom Text</span>
+          </div>
+        )}
+        {imageLayers.length > 0 && (
+          <div className="flex items-center gap-2">
+            <div className="w-3 h-3 rounded-sm border-2 border-dashed border-sky-500"></div>
+            <span>Image Layer</span>
+          </div>
+        )}
+        {qrCodeConfig?.enabled && (
+          <div className="flex items-center gap-2">
+            <div className="w-3 h-3 rounded-sm bg-amber-500"></div>
+            <span>QR Code</span>
+          </div>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,112 @@
+'use client';
+
+import { useRef } from 'react';
+import { ICustomFont } from '@/lib/types';
+import { FONT_FILE_ACCEPT } from '@/lib/font-utils';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Loader2, Trash2, Type, Upload } from 'lucide-react';
+
+interface CustomFontsProps {
+  fonts: ICustomFont[];
+  onUpload: (file: File) => void;
+  onRemove: (fontId: string) => void;
+  isUploading?: boolean;
+  error?: string | null;
+}
+
+export function CustomFonts({
+  fonts,
+  onUpload,
+  onRemove,
+  isUploading = false,
+  error,
+}: CustomFontsProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) {
+      onUpload(file);
+    }
+    // Allow selecting the same file again
+    e.target.value = '';
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-lg">Custom Fonts</CardTitle>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => inputRef.current?.click()}
+            disabled={isUploading}
+            className="flex items-center gap-1"
+          >
+            {isUploading ? (
+              <Loader2 className="h-4 w-4 animate-spin" />
+            ) : (
+              <Upload className="h-4 w-4" />
+            )}
+            Upload Font
+          </Button>
+          <input
+            ref={inputRef}
+            type="file"
+            accept={FONT_FILE_ACCEPT}
+            onChange={handleFileChange}
+            className="hidden"
+          />
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          Upload TTF, OTF or WOFF files so the preview and generated
+          certificates use the same glyphs.
+        </p>
+
+        {error && (
+          <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+        )}
+
+        {fonts.length === 0 ? (
+          <div className="text-sm text-gray-500 dark:text-gray-400">
+            No custom fonts uploaded
+          </div>
+        ) : (
+          <ul className="space-y-2">
+            {fonts.map((font) => (
+              <li
+                key={font.id}
+                className="flex items-center gap-3 p-2 border border-gray-200 dark:border-gray-700 rounded-lg"
+              >
+                <Type className="h-4 w-4 text-gray-500" />
+                <div className="flex-1 min-w-0">
+                  <div
+                    className="text-sm font-medium truncate"
+                    style={{ fontFamily: `"${font.family}"` }}
+                  >
+                    {font.family}
+                  </div>
+                  <div className="text-xs text-gray-500 dark:text-gray-400 truncate">
+                    {font.originalName}
+                  </div>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => onRemove(font.id)}
+                  className="h-8 w-8 p-0 text-red-600 dark:text-red-400"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
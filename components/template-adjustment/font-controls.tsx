@@ -1,26 +1,72 @@
 'use client';
 
 import { useState } from 'react';
-import { ITextConfig, FONT_FAMILIES } from '@/lib/types';
+import {
+  ITextConfig,
+  ITextElement,
+  ICustomFont,
+  IQRCodeConfig,
+  IImageLayer,
+  ITextShadow,
+  LayoutElementKey,
+  TextFontStyle,
+  TextOverflowMode,
+  TextTransform,
+  FONT_FAMILIES,
+} from '@/lib/types';
+import { TEXT_PLACEHOLDERS } from '@/lib/text-template';
+import {
+  DEFAULT_FONT_WEIGHT,
+  DEFAULT_LINE_HEIGHT,
+  DEFAULT_MIN_FONT_SIZE,
+  DEFAULT_TEXT_SHADOW,
+} from '@/lib/text-rendering';
+import { getImageLayerKey, parseImageLayerKey } from '@/lib/image-layers';
 import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
 import {
   Select,
   SelectContent,
+  SelectGroup,
   SelectItem,
+  SelectLabel,
+  SelectSeparator,
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select';
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Plus, Trash2 } from 'lucide-react';
+
+const FONT_WEIGHTS = [
+  { value: 300, label: 'Light' },
+  { value: 400, label: 'Regular' },
+  { value: 500, label: 'Medium' },
+  { value: 600, label: 'Semibold' },
+  { value: 700, label: 'Bold' },
+  { value: 900, label: 'Black' },
+];
 
 interface FontControlsProps {
-  selectedTextType: 'name' | 'id';
-  onTextTypeChange: (type: 'name' | 'id') => void;
+  selectedTextType: LayoutElementKey;
+  onTextTypeChange: (type: LayoutElementKey) => void;
   nameConfig: ITextConfig;
   idConfig: ITextConfig;
+  textElements?: ITextElement[];
+  customFonts?: ICustomFont[];
+  qrCodeConfig?: IQRCodeConfig;
+  imageLayers?: IImageLayer[];
+  fieldNames?: string[]; // Custom participant fields usable as placeholders
   onConfigChange: (config: ITextConfig) => void;
+  onAddTextElement?: () => void;
+  onTextElementChange?: (
+    id: string,
+    updates: Partial<Pick<ITextElement, 'label' | 'content'>>
+  ) => void;
+  onRemoveTextElement?: (id: string) => void;
 }
 
 export function FontControls({
@@ -28,9 +74,37 @@ export function FontControls({
   onTextTypeChange,
   nameConfig,
   idConfig,
+  textElements = [],
+  customFonts = [],
+  qrCodeConfig,
+  imageLayers = [],
+  fieldNames = [],
   onConfigChange,
+  onAddTextElement,
+  onTextElementChange,
+  onRemoveTextElement,
 }: FontControlsProps) {
-  const currentConfig = selectedTextType === 'name' ? nameConfig : idConfig;
+  const selectedElement = textElements.find(
+    (element) => element.id === selectedTextType
+  );
+  const isQRCodeSelected = selectedTextType === 'qr' && !!qrCodeConfig;
+  const selectedLayerId = parseImageLayerKey(selectedTextType);
+  const selectedLayer = imageLayers.find(
+    (layer) => layer.id === selectedLayerId
+  );
+  const currentConfig =
+    selectedTextType === 'name'
+      ? nameConfig
+      : selectedElement
+      ? selectedElement.config
+      : idConfig;
+
+  const position =
+    isQRCodeSelected && qrCodeConfig
+      ? qrCodeConfig
+      : selectedLayer || currentConfig;
+
+  const shadow = currentConfig.shadow || DEFAULT_TEXT_SHADOW;
 
   const handleConfigChange = (updates: Partial<ITextConfig>) => {
     const newConfig = { ...currentConfig, ...updates };
@@ -53,6 +127,18 @@ export function FontControls({
     handleConfigChange({ color });
   };
 
+  const handleShadowChange = (updates: Partial<ITextShadow>) => {
+    handleConfigChange({ shadow: { ...shadow, ...updates } });
+  };
+
+  // Empty or zero clears the text box
+  const handleMaxWidthChange = (value: string) => {
+    const maxWidth = parseInt(value, 10);
+    handleConfigChange({
+      maxWidth: maxWidth > 0 ? maxWidth : undefined,
+    });
+  };
+
   return (
     <Card>
       <CardHeader>
@@ -61,11 +147,24 @@ export function FontControls({
       <CardContent className="space-y-6">
         {/* Text Type Selector */}
         <div className="space-y-3">
-          <Label className="text-sm font-medium">Select Element</Label>
+          <div className="flex items-center justify-between">
+            <Label className="text-sm font-medium">Select Element</Label>
+            {onAddTextElement && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={onAddTextElement}
+                className="flex items-center gap-1"
+              >
+                <Plus className="h-4 w-4" />
+                Add Text
+              </Button>
+            )}
+          </div>
           <RadioGroup
             value={selectedTextType}
-            onValueChange={(value) => onTextTypeChange(value as 'name' | 'id')}
-            className="flex gap-6"
+            onValueChange={onTextTypeChange}
+            className="flex flex-wrap gap-x-6 gap-y-2"
           >
             <div className="flex items-center space-x-2">
               <RadioGroupItem value="name" id="name" />
@@ -79,100 +178,554 @@ export function FontControls({
                 Certificate ID
               </Label>
             </div>
+            {textElements.map((element) => (
+              <div key={element.id} className="flex items-center space-x-2">
+                <RadioGroupItem value={element.id} id={element.id} />
+                <Label htmlFor={element.id} className="text-sm">
+                  {element.label || 'Untitled Text'}
+                </Label>
+              </div>
+            ))}
+            {imageLayers.map((layer) => (
+              <div key={layer.id} className="flex items-center space-x-2">
+                <RadioGroupItem
+                  value={getImageLayerKey(layer.id)}
+                  id={getImageLayerKey(layer.id)}
+                />
+                <Label htmlFor={getImageLayerKey(layer.id)} className="text-sm">
+                  {layer.label || 'Image Layer'}
+                </Label>
+              </div>
+            ))}
+            {qrCodeConfig?.enabled && (
+              <div className="flex items-center space-x-2">
+                <RadioGroupItem value="qr" id="qr" />
+                <Label htmlFor="qr" className="text-sm">
+                  QR Code
+                </Label>
+              </div>
+            )}
           </RadioGroup>
         </div>
 
-        {/* Font Family */}
-        <div className="space-y-2">
-          <Label htmlFor="font-family" className="text-sm font-medium">
-            Font Family
-          </Label>
-          <Select
-            value={currentConfig.fontFamily}
-            onValueChange={handleFontFamilyChange}
-          >
-            <SelectTrigger id="font-family">
-              <SelectValue placeholder="Select font family" />
-            </SelectTrigger>
-            <SelectContent>
-              {FONT_FAMILIES.map((font) => (
-                <SelectItem key={font} value={font}>
-                  <span style={{ fontFamily: font }}>{font}</span>
-                </SelectItem>
-              ))}
-            </SelectContent>
-          </Select>
-        </div>
+        {/* Custom Text Content */}
+        {selectedElement && (
+          <div className="space-y-3 p-3 border border-gray-200 dark:border-gray-700 rounded-lg">
+            <div className="space-y-2">
+              <Label
+                htmlFor="text-element-label"
+                className="text-sm font-medium"
+              >
+                Label
+              </Label>
+              <Input
+                id="text-element-label"
+                value={selectedElement.label}
+                onChange={(e) =>
+                  onTextElementChange?.(selectedElement.id, {
+                    label: e.target.value,
+                  })
+                }
+                placeholder="e.g. Completion Date"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label
+                htmlFor="text-element-content"
+                className="text-sm font-medium"
+              >
+                Content
+              </Label>
+              <Input
+                id="text-element-content"
+                value={selectedElement.content}
+                onChange={(e) =>
+                  onTextElementChange?.(selectedElement.id, {
+                    content: e.target.value,
+                  })
+                }
+                placeholder="e.g. Completed on {eventDate}"
+              />
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                Available placeholders:{' '}
+                {[...TEXT_PLACEHOLDERS, ...fieldNames]
+                  .map((key) => `{${key}}`)
+                  .join(', ')}
+              </p>
+            </div>
+            {onRemoveTextElement && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => onRemoveTextElement(selectedElement.id)}
+                className="flex items-center gap-1 text-red-600 dark:text-red-400"
+              >
+                <Trash2 className="h-4 w-4" />
+                Remove Text
+              </Button>
+            )}
+          </div>
+        )}
 
-        {/* Text Alignment */}
-        <div className="space-y-2">
-          <Label htmlFor="text-align" className="text-sm font-medium">
-            Text Alignment
-          </Label>
-          <Select
-            value={currentConfig.textAlign}
-            onValueChange={(value) =>
-              handleTextAlignChange(value as 'left' | 'center' | 'right')
-            }
-          >
-            <SelectTrigger id="text-align">
-              <SelectValue placeholder="Select alignment" />
-            </SelectTrigger>
-            <SelectContent>
-              <SelectItem value="left">Left</SelectItem>
-              <SelectItem value="center">Center</SelectItem>
-              <SelectItem value="right">Right</SelectItem>
-            </SelectContent>
-          </Select>
-        </div>
+        {isQRCodeSelected ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            Drag the QR code on the preview to move it. Size and colors are set
+            in the QR Code settings.
+          </p>
+        ) : selectedLayer ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            Drag the layer on the preview to move it, or drag its corner handle
+            to resize it. Opacity and rotation are set in the Image Layers
+            settings.
+          </p>
+        ) : (
+          <>
+            {/* Font Family */}
+            <div className="space-y-2">
+              <Label htmlFor="font-family" className="text-sm font-medium">
+                Font Family
+              </Label>
+              <Select
+                value={currentConfig.fontFamily}
+                onValueChange={handleFontFamilyChange}
+              >
+                <SelectTrigger id="font-family">
+                  <SelectValue placeholder="Select font family" />
+                </SelectTrigger>
+                <SelectContent>
+                  {customFonts.length > 0 && (
+                    <>
+                      <SelectGroup>
+                        <SelectLabel>Event Fonts</SelectLabel>
+                        {customFonts.map((font) => (
+                          <SelectItem key={font.id} value={font.family}>
+                            <span style={{ fontFamily: `"${font.family}"` }}>
+                              {font.family}
+                            </span>
+                          </SelectItem>
+                        ))}
+                      </SelectGroup>
+                      <SelectSeparator />
+                    </>
+                  )}
+                  <SelectGroup>
+                    {customFonts.length > 0 && (
+                      <SelectLabel>System Fonts</SelectLabel>
+                    )}
+                    {FONT_FAMILIES.map((font) => (
+                      <SelectItem key={font} value={font}>
+                        <span style={{ fontFamily: font }}>{font}</span>
+                      </SelectItem>
+                    ))}
+                  </SelectGroup>
+                </SelectContent>
+              </Select>
+            </div>
 
-        {/* Color Picker */}
-        <div className="space-y-2">
-          <Label htmlFor="color" className="text-sm font-medium">
-            Color
-          </Label>
-          <div className="flex items-center gap-3">
-            <input
-              type="color"
-              id="color"
-              value={currentConfig.color}
-              onChange={(e) => handleColorChange(e.target.value)}
-              className="w-12 h-10 rounded border border-gray-300 dark:border-gray-600 cursor-pointer"
-            />
-            <input
-              type="text"
-              value={currentConfig.color}
-              onChange={(e) => handleColorChange(e.target.value)}
-              className="flex-1 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md text-sm font-mono"
-              placeholder="#000000"
-            />
-          </div>
-        </div>
+            {/* Text Alignment */}
+            <div className="space-y-2">
+              <Label htmlFor="text-align" className="text-sm font-medium">
+                Text Alignment
+              </Label>
+              <Select
+                value={currentConfig.textAlign}
+                onValueChange={(value) =>
+                  handleTextAlignChange(value as 'left' | 'center' | 'right')
+                }
+              >
+                <SelectTrigger id="text-align">
+                  <SelectValue placeholder="Select alignment" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="left">Left</SelectItem>
+                  <SelectItem value="center">Center</SelectItem>
+                  <SelectItem value="right">Right</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
 
-        {/* Font Size */}
-        <div className="space-y-3">
-          <div className="flex items-center justify-between">
-            <Label htmlFor="font-size" className="text-sm font-medium">
-              Font Size
-            </Label>
-            <span className="text-sm text-gray-600 dark:text-gray-400">
-              {currentConfig.fontSize}px
-            </span>
-          </div>
-          <Slider
-            id="font-size"
-            min={8}
-            max={72}
-            step={1}
-            value={[currentConfig.fontSize]}
-            onValueChange={handleFontSizeChange}
-            className="w-full"
-          />
-          <div className="flex justify-between text-xs text-gray-500 dark:text-gray-400">
-            <span>8px</span>
-            <span>72px</span>
-          </div>
-        </div>
+            {/* Color Picker */}
+            <div className="space-y-2">
+              <Label htmlFor="color" className="text-sm font-medium">
+                Color
+              </Label>
+              <div className="flex items-center gap-3">
+                <input
+                  type="color"
+                  id="color"
+                  value={currentConfig.color}
+                  onChange={(e) => handleColorChange(e.target.value)}
+                  className="w-12 h-10 rounded border border-gray-300 dark:border-gray-600 cursor-pointer"
+                />
+                <input
+                  type="text"
+                  value={currentConfig.color}
+                  onChange={(e) => handleColorChange(e.target.value)}
+                  className="flex-1 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md text-sm font-mono"
+                  placeholder="#000000"
+                />
+              </div>
+            </div>
+
+            {/* Font Size */}
+            <div className="space-y-3">
+              <div className="flex items-center justify-between">
+                <Label htmlFor="font-size" className="text-sm font-medium">
+                  Font Size
+                </Label>
+                <span className="text-sm text-gray-600 dark:text-gray-400">
+                  {currentConfig.fontSize}px
+                </span>
+              </div>
+              <Slider
+                id="font-size"
+                min={8}
+                max={72}
+                step={1}
+                value={[currentConfig.fontSize]}
+                onValueChange={handleFontSizeChange}
+                className="w-full"
+              />
+              <div className="flex justify-between text-xs text-gray-500 dark:text-gray-400">
+                <span>8px</span>
+                <span>72px</span>
+              </div>
+            </div>
+
+            {/* Font Weight and Style */}
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="font-weight" className="text-sm font-medium">
+                  Weight
+                </Label>
+                <Select
+                  value={String(
+                    currentConfig.fontWeight ?? DEFAULT_FONT_WEIGHT
+                  )}
+                  onValueChange={(value) =>
+                    handleConfigChange({ fontWeight: parseInt(value, 10) })
+                  }
+                >
+                  <SelectTrigger id="font-weight">
+                    <SelectValue placeholder="Select weight" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {FONT_WEIGHTS.map((weight) => (
+                      <SelectItem
+                        key={weight.value}
+                        value={String(weight.value)}
+                      >
+                        {weight.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="font-style" className="text-sm font-medium">
+                  Style
+                </Label>
+                <Select
+                  value={currentConfig.fontStyle || 'normal'}
+                  onValueChange={(value) =>
+                    handleConfigChange({ fontStyle: value as TextFontStyle })
+                  }
+                >
+                  <SelectTrigger id="font-style">
+                    <SelectValue placeholder="Select style" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="normal">Normal</SelectItem>
+                    <SelectItem value="italic">Italic</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            {/* Text Transform */}
+            <div className="space-y-2">
+              <Label htmlFor="text-transform" className="text-sm font-medium">
+                Letter Case
+              </Label>
+              <Select
+                value={currentConfig.textTransform || 'none'}
+                onValueChange={(value) =>
+                  handleConfigChange({ textTransform: value as TextTransform })
+                }
+              >
+                <SelectTrigger id="text-transform">
+                  <SelectValue placeholder="Select letter case" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">As entered</SelectItem>
+                  <SelectItem value="uppercase">UPPERCASE</SelectItem>
+                  <SelectItem value="lowercase">lowercase</SelectItem>
+                  <SelectItem value="small-caps">Small Caps</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            {/* Letter Spacing */}
+            <div className="space-y-3">
+              <div className="flex items-center justify-between">
+                <Label htmlFor="letter-spacing" className="text-sm font-medium">
+                  Letter Spacing
+                </Label>
+                <span className="text-sm text-gray-600 dark:text-gray-400">
+                  {currentConfig.letterSpacing || 0}px
+                </span>
+              </div>
+              <Slider
+                id="letter-spacing"
+                min={-5}
+                max={30}
+                step={0.5}
+                value={[currentConfig.letterSpacing || 0]}
+                onValueChange={(value) =>
+                  handleConfigChange({ letterSpacing: value[0] || undefined })
+                }
+                className="w-full"
+              />
+            </div>
+
+            {/* Outline */}
+            <div className="space-y-3">
+              <div className="flex items-center justify-between">
+                <Label htmlFor="stroke-width" className="text-sm font-medium">
+                  Outline
+                </Label>
+                <span className="text-sm text-gray-600 dark:text-gray-400">
+                  {currentConfig.strokeWidth || 0}px
+                </span>
+              </div>
+              <div className="flex items-center gap-3">
+                <input
+                  type="color"
+                  aria-label="Outline color"
+                  value={currentConfig.strokeColor || '#ffffff'}
+                  onChange={(e) =>
+                    handleConfigChange({ strokeColor: e.target.value })
+                  }
+                  className="w-12 h-10 rounded border border-gray-300 dark:border-gray-600 cursor-pointer"
+                />
+                <Slider
+                  id="stroke-width"
+                  min={0}
+                  max={10}
+                  step={0.5}
+                  value={[currentConfig.strokeWidth || 0]}
+                  onValueChange={(value) =>
+                    handleConfigChange({
+                      strokeWidth: value[0] || undefined,
+                      strokeColor: currentConfig.strokeColor || '#ffffff',
+                    })
+                  }
+                  className="flex-1"
+                />
+              </div>
+            </div>
+
+            {/* Shadow */}
+            <div className="space-y-3">
+              <div className="flex items-center justify-between">
+                <Label htmlFor="text-shadow" className="text-sm font-medium">
+                  Shadow
+                </Label>
+                <Switch
+                  id="text-shadow"
+                  checked={shadow.enabled}
+                  onCheckedChange={(enabled) => handleShadowChange({ enabled })}
+                />
+              </div>
+
+              {shadow.enabled && (
+                <>
+                  <div className="flex items-center gap-3">
+                    <input
+                      type="color"
+                      aria-label="Shadow color"
+                      value={shadow.color}
+                      onChange={(e) =>
+                        handleShadowChange({ color: e.target.value })
+                      }
+                      className="w-12 h-10 rounded border border-gray-300 dark:border-gray-600 cursor-pointer"
+                    />
+                    <div className="flex-1 space-y-1">
+                      <div className="flex justify-between text-xs text-gray-500 dark:text-gray-400">
+                        <span>Opacity</span>
+                        <span>{Math.round(shadow.opacity * 100)}%</span>
+                      </div>
+                      <Slider
+                        min={0}
+                        max={100}
+                        step={5}
+                        value={[Math.round(shadow.opacity * 100)]}
+                        onValueChange={(value) =>
+                          handleShadowChange({ opacity: value[0] / 100 })
+                        }
+                      />
+                    </div>
+                  </div>
+                  <div className="grid grid-cols-3 gap-2">
+                    <div className="space-y-1">
+                      <Label
+                        htmlFor="shadow-blur"
+                        className="text-xs text-gray-500 dark:text-gray-400"
+                      >
+                        Blur
+                      </Label>
+                      <Input
+                        id="shadow-blur"
+                        type="number"
+                        min={0}
+                        value={shadow.blur}
+                        onChange={(e) =>
+                          handleShadowChange({
+                            blur: Math.max(0, parseFloat(e.target.value) || 0),
+                          })
+                        }
+                      />
+                    </div>
+                    <div className="space-y-1">
+                      <Label
+                        htmlFor="shadow-offset-x"
+                        className="text-xs text-gray-500 dark:text-gray-400"
+                      >
+                        Offset X
+                      </Label>
+                      <Input
+                        id="shadow-offset-x"
+                        type="number"
+                        value={shadow.offsetX}
+                        onChange={(e) =>
+                          handleShadowChange({
+                            offsetX: parseFloat(e.target.value) || 0,
+                          })
+                        }
+                      />
+                    </div>
+                    <div className="space-y-1">
+                      <Label
+                        htmlFor="shadow-offset-y"
+                        className="text-xs text-gray-500 dark:text-gray-400"
+                      >
+                        Offset Y
+                      </Label>
+                      <Input
+                        id="shadow-offset-y"
+                        type="number"
+                        value={shadow.offsetY}
+                        onChange={(e) =>
+                          handleShadowChange({
+                            offsetY: parseFloat(e.target.value) || 0,
+                          })
+                        }
+                      />
+                    </div>
+                  </div>
+                </>
+              )}
+            </div>
+
+            {/* Text Box */}
+            <div className="space-y-3">
+              <div className="space-y-2">
+                <Label htmlFor="max-width" className="text-sm font-medium">
+                  Max Width
+                </Label>
+                <Input
+                  id="max-width"
+                  type="number"
+                  min={0}
+                  value={currentConfig.maxWidth ?? ''}
+                  onChange={(e) => handleMaxWidthChange(e.target.value)}
+                  placeholder="No limit"
+                />
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                  Width of the text box in template pixels. Leave empty to allow
+                  any width.
+                </p>
+              </div>
+
+              {!!currentConfig.maxWidth && (
+                <>
+                  <div className="space-y-2">
+                    <Label htmlFor="overflow" className="text-sm font-medium">
+                      When Text Is Too Long
+                    </Label>
+                    <Select
+                      value={currentConfig.overflow || 'shrink'}
+                      onValueChange={(value) =>
+                        handleConfigChange({
+                          overflow: value as TextOverflowMode,
+                        })
+                      }
+                    >
+                      <SelectTrigger id="overflow">
+                        <SelectValue placeholder="Select overflow mode" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="shrink">Shrink to fit</SelectItem>
+                        <SelectItem value="wrap">Wrap onto lines</SelectItem>
+                        <SelectItem value="truncate">Truncate</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+
+                  {(currentConfig.overflow || 'shrink') === 'shrink' && (
+                    <div className="space-y-2">
+                      <Label
+                        htmlFor="min-font-size"
+                        className="text-sm font-medium"
+                      >
+                        Minimum Font Size
+                      </Label>
+                      <Input
+                        id="min-font-size"
+                        type="number"
+                        min={1}
+                        max={currentConfig.fontSize}
+                        value={
+                          currentConfig.minFontSize ?? DEFAULT_MIN_FONT_SIZE
+                        }
+                        onChange={(e) =>
+                          handleConfigChange({
+                            minFontSize:
+                              parseInt(e.target.value, 10) || undefined,
+                          })
+                        }
+                      />
+                    </div>
+                  )}
+
+                  {currentConfig.overflow === 'wrap' && (
+                    <div className="space-y-2">
+                      <Label
+                        htmlFor="line-height"
+                        className="text-sm font-medium"
+                      >
+                        Line Height
+                      </Label>
+                      <Input
+                        id="line-height"
+                        type="number"
+                        min={0.8}
+                        max={3}
+                        step={0.1}
+                        value={currentConfig.lineHeight ?? DEFAULT_LINE_HEIGHT}
+                        onChange={(e) =>
+                          handleConfigChange({
+                            lineHeight: parseFloat(e.target.value) || undefined,
+                          })
+                        }
+                      />
+                    </div>
+                  )}
+                </>
+              )}
+            </div>
+          </>
+        )}
 
         {/* Position Indicators */}
         <div className="pt-4 border-t border-gray-200 dark:border-gray-700">
@@ -182,13 +735,13 @@ export function FontControls({
               <div>
                 <span className="text-gray-600 dark:text-gray-400">X:</span>
                 <span className="ml-2 font-mono">
-                  {Math.round(currentConfig.x)}px
+                  {Math.round(position.x)}px
                 </span>
               </div>
               <div>
                 <span className="text-gray-600 dark:text-gray-400">Y:</span>
                 <span className="ml-2 font-mono">
-                  {Math.round(currentConfig.y)}px
+                  {Math.round(position.y)}px
                 </span>
               </div>
             </div>
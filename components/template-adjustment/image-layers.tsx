@@ -0,0 +1,294 @@
+'use client';
+
+import { useRef } from 'react';
+import Image from 'next/image';
+import { IImageLayer, LayoutElementKey } from '@/lib/types';
+import {
+  IMAGE_LAYER_FILE_ACCEPT,
+  MIN_IMAGE_LAYER_SIZE,
+  getImageLayerDataUrl,
+  getImageLayerKey,
+  parseImageLayerKey,
+} from '@/lib/image-layers';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { ArrowDown, ArrowUp, Loader2, Trash2, Upload } from 'lucide-react';
+
+type ImageLayerUpdates = Partial<Omit<IImageLayer, 'id' | 'base64'>>;
+
+interface ImageLayersProps {
+  layers: IImageLayer[];
+  selectedTextType: LayoutElementKey;
+  onSelect: (key: LayoutElementKey) => void;
+  onUpload: (file: File) => void;
+  onChange: (layerId: string, updates: ImageLayerUpdates) => void;
+  onReorder: (layerIds: string[]) => void;
+  onRemove: (layerId: string) => void;
+  isUploading?: boolean;
+  error?: string | null;
+}
+
+export function ImageLayers({
+  layers,
+  selectedTextType,
+  onSelect,
+  onUpload,
+  onChange,
+  onReorder,
+  onRemove,
+  isUploading = false,
+  error,
+}: ImageLayersProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const selectedLayerId = parseImageLayerKey(selectedTextType);
+  const selectedLayer = layers.find((layer) => layer.id === selectedLayerId);
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) {
+      onUpload(file);
+    }
+    // Allow selecting the same file again
+    e.target.value = '';
+  };
+
+  const handleMove = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= layers.length) return;
+
+    const layerIds = layers.map((layer) => layer.id);
+    [layerIds[index], layerIds[target]] = [layerIds[target], layerIds[index]];
+    onReorder(layerIds);
+  };
+
+  const handleSizeChange = (
+    layer: IImageLayer,
+    dimension: 'width' | 'height',
+    value: number
+  ) => {
+    if (!Number.isFinite(value) || value < MIN_IMAGE_LAYER_SIZE) return;
+
+    // Keep the aspect ratio of the original image
+    const ratio = layer.height / layer.width;
+    onChange(
+      layer.id,
+      dimension === 'width'
+        ? { width: value, height: value * ratio }
+        : { width: value / ratio, height: value }
+    );
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-lg">Image Layers</CardTitle>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => inputRef.current?.click()}
+            disabled={isUploading}
+            className="flex items-center gap-1"
+          >
+            {isUploading ? (
+              <Loader2 className="h-4 w-4 animate-spin" />
+            ) : (
+              <Upload className="h-4 w-4" />
+            )}
+            Add Image
+          </Button>
+          <input
+            ref={inputRef}
+            type="file"
+            accept={IMAGE_LAYER_FILE_ACCEPT}
+            onChange={handleFileChange}
+            className="hidden"
+          />
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          Add PNG signatures, logos or seals. Layers are drawn above the
+          template in list order, so the last layer is on top.
+        </p>
+
+        {error && (
+          <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+        )}
+
+        {layers.length === 0 ? (
+          <div className="text-sm text-gray-500 dark:text-gray-400">
+            No image layers added
+          </div>
+        ) : (
+          <ul className="space-y-2">
+            {layers.map((layer, index) => (
+              <li
+                key={layer.id}
+                onClick={() => onSelect(getImageLayerKey(layer.id))}
+                className={`flex items-center gap-3 p-2 border rounded-lg cursor-pointer ${
+                  layer.id === selectedLayerId
+                    ? 'border-sky-500 bg-sky-50 dark:bg-sky-950/20'
+                    : 'border-gray-200 dark:border-gray-700'
+                }`}
+              >
+                <Image
+                  src={getImageLayerDataUrl(layer)}
+                  alt={layer.label}
+                  width={32}
+                  height={32}
+                  unoptimized
+                  className="h-8 w-8 object-contain"
+                />
+                <div className="flex-1 min-w-0 text-sm font-medium truncate">
+                  {layer.label}
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    handleMove(index, -1);
+                  }}
+                  disabled={index === 0}
+                  className="h-8 w-8 p-0"
+                  aria-label="Move layer down"
+                >
+                  <ArrowDown className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    handleMove(index, 1);
+                  }}
+                  disabled={index === layers.length - 1}
+                  className="h-8 w-8 p-0"
+                  aria-label="Move layer up"
+                >
+                  <ArrowUp className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onRemove(layer.id);
+                  }}
+                  className="h-8 w-8 p-0 text-red-600 dark:text-red-400"
+                  aria-label="Remove layer"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {selectedLayer && (
+          <div className="space-y-4 pt-2 border-t border-gray-200 dark:border-gray-700">
+            <div className="space-y-2">
+              <Label htmlFor="layer-label" className="text-sm font-medium">
+                Label
+              </Label>
+              <Input
+                id="layer-label"
+                value={selectedLayer.label}
+                onChange={(e) =>
+                  onChange(selectedLayer.id, { label: e.target.value })
+                }
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="layer-width" className="text-sm font-medium">
+                  Width (px)
+                </Label>
+                <Input
+                  id="layer-width"
+                  type="number"
+                  min={MIN_IMAGE_LAYER_SIZE}
+                  value={Math.round(selectedLayer.width)}
+                  onChange={(e) =>
+                    handleSizeChange(
+                      selectedLayer,
+                      'width',
+                      parseInt(e.target.value)
+                    )
+                  }
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="layer-height" className="text-sm font-medium">
+                  Height (px)
+                </Label>
+                <Input
+                  id="layer-height"
+                  type="number"
+                  min={MIN_IMAGE_LAYER_SIZE}
+                  value={Math.round(selectedLayer.height)}
+                  onChange={(e) =>
+                    handleSizeChange(
+                      selectedLayer,
+                      'height',
+                      parseInt(e.target.value)
+                    )
+                  }
+                />
+              </div>
+            </div>
+
+            <div className="space-y-3">
+              <div className="flex items-center justify-between">
+                <Label htmlFor="layer-opacity" className="text-sm font-medium">
+                  Opacity
+                </Label>
+                <span className="text-sm text-gray-600 dark:text-gray-400">
+                  {Math.round(selectedLayer.opacity * 100)}%
+                </span>
+              </div>
+              <Slider
+                id="layer-opacity"
+                min={0}
+                max={100}
+                step={1}
+                value={[Math.round(selectedLayer.opacity * 100)]}
+                onValueChange={(value) =>
+                  onChange(selectedLayer.id, { opacity: value[0] / 100 })
+                }
+                className="w-full"
+              />
+            </div>
+
+            <div className="space-y-3">
+              <div className="flex items-center justify-between">
+                <Label htmlFor="layer-rotation" className="text-sm font-medium">
+                  Rotation
+                </Label>
+                <span className="text-sm text-gray-600 dark:text-gray-400">
+                  {selectedLayer.rotation}°
+                </span>
+              </div>
+              <Slider
+                id="layer-rotation"
+                min={-180}
+                max={180}
+                step={1}
+                value={[selectedLayer.rotation]}
+                onValueChange={(value) =>
+                  onChange(selectedLayer.id, { rotation: value[0] })
+                }
+                className="w-full"
+              />
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
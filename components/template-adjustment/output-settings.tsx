@@ -0,0 +1,202 @@
+'use client';
+
+import {
+  ArchiveGrouping,
+  CertificateOutputFormat,
+  OUTPUT_FORMATS,
+  RENDER_SCALES,
+  RenderScale,
+} from '@/lib/types';
+import { DEFAULT_FILENAME_PATTERN } from '@/lib/filename-pattern';
+import { TEXT_PLACEHOLDERS } from '@/lib/text-template';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+
+interface OutputSettingsProps {
+  outputFormat: CertificateOutputFormat;
+  onOutputFormatChange: (format: CertificateOutputFormat) => void;
+  renderScale: RenderScale;
+  onRenderScaleChange: (scale: RenderScale) => void;
+  filenamePattern: string;
+  onFilenamePatternChange: (pattern: string) => void;
+  filenamePreview: string; // The pattern applied to a sample participant
+  archiveGrouping?: ArchiveGrouping;
+  onArchiveGroupingChange: (grouping: ArchiveGrouping | null) => void;
+  fieldNames: string[]; // Custom participant fields to group by
+  hasTemplateVariants: boolean;
+}
+
+const NO_GROUPING = 'none';
+const TEMPLATE_GROUPING = 'template';
+const FIELD_GROUPING_PREFIX = 'field:';
+
+function getGroupingValue(grouping?: ArchiveGrouping): string {
+  if (!grouping) return NO_GROUPING;
+  return grouping.by === 'template'
+    ? TEMPLATE_GROUPING
+    : `${FIELD_GROUPING_PREFIX}${grouping.field}`;
+}
+
+function parseGroupingValue(value: string): ArchiveGrouping | null {
+  if (value === TEMPLATE_GROUPING) return { by: 'template' };
+  if (value.startsWith(FIELD_GROUPING_PREFIX)) {
+    return { by: 'field', field: value.slice(FIELD_GROUPING_PREFIX.length) };
+  }
+  return null;
+}
+
+export function OutputSettings({
+  outputFormat,
+  onOutputFormatChange,
+  renderScale,
+  onRenderScaleChange,
+  filenamePattern,
+  onFilenamePatternChange,
+  filenamePreview,
+  archiveGrouping,
+  onArchiveGroupingChange,
+  fieldNames,
+  hasTemplateVariants,
+}: OutputSettingsProps) {
+  // A field that is no longer in the participant data stays selectable
+  const groupingFields =
+    archiveGrouping?.by === 'field' &&
+    !fieldNames.includes(archiveGrouping.field)
+      ? [...fieldNames, archiveGrouping.field]
+      : fieldNames;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">Output Settings</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {/* Output Format */}
+        <div className="space-y-2">
+          <Label htmlFor="output-format" className="text-sm font-medium">
+            File Format
+          </Label>
+          <Select
+            value={outputFormat}
+            onValueChange={(value) =>
+              onOutputFormatChange(value as CertificateOutputFormat)
+            }
+          >
+            <SelectTrigger id="output-format">
+              <SelectValue placeholder="Select file format" />
+            </SelectTrigger>
+            <SelectContent>
+              {OUTPUT_FORMATS.map((format) => (
+                <SelectItem key={format.value} value={format.value}>
+                  {format.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            Used for downloads and email attachments. PDF pages match the
+            template dimensions.
+          </p>
+        </div>
+
+        {/* Resolution */}
+        <div className="space-y-2">
+          <Label htmlFor="render-scale" className="text-sm font-medium">
+            Resolution
+          </Label>
+          <Select
+            value={renderScale.toString()}
+            onValueChange={(value) =>
+              onRenderScaleChange(Number(value) as RenderScale)
+            }
+          >
+            <SelectTrigger id="render-scale">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {RENDER_SCALES.map((scale) => (
+                <SelectItem key={scale.value} value={scale.value.toString()}>
+                  {scale.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            Renders certificates with more pixels for sharp text in print. DPI
+            values assume a 96 DPI template; other templates scale by the same
+            factor. Positions and font sizes scale along. Higher resolutions
+            take longer to generate; vector PDFs are always sharp and ignore
+            this setting.
+          </p>
+        </div>
+
+        {/* File Names */}
+        <div className="space-y-2">
+          <Label htmlFor="filename-pattern" className="text-sm font-medium">
+            File Name
+          </Label>
+          <Input
+            id="filename-pattern"
+            value={filenamePattern}
+            onChange={(e) => onFilenamePatternChange(e.target.value)}
+            placeholder={DEFAULT_FILENAME_PATTERN}
+          />
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            Placeholders:{' '}
+            {TEXT_PLACEHOLDERS.map((placeholder) => `{${placeholder}}`).join(
+              ', '
+            )}{' '}
+            and custom CSV columns. Example:{' '}
+            <span className="font-mono">{filenamePreview}</span>
+          </p>
+        </div>
+
+        {/* ZIP Folders */}
+        <div className="space-y-2">
+          <Label htmlFor="archive-grouping" className="text-sm font-medium">
+            ZIP Folders
+          </Label>
+          <Select
+            value={getGroupingValue(archiveGrouping)}
+            onValueChange={(value) =>
+              onArchiveGroupingChange(parseGroupingValue(value))
+            }
+          >
+            <SelectTrigger id="archive-grouping">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NO_GROUPING}>No folders</SelectItem>
+              {hasTemplateVariants && (
+                <SelectItem value={TEMPLATE_GROUPING}>
+                  One folder per template
+                </SelectItem>
+              )}
+              {groupingFields.map((field) => (
+                <SelectItem
+                  key={field}
+                  value={`${FIELD_GROUPING_PREFIX}${field}`}
+                >
+                  One folder per {field}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            Every ZIP download includes manifest.csv with the file and SHA-256
+            hash of each certificate, and errors.txt if any could not be
+            generated.
+          </p>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
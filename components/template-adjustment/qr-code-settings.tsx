@@ -0,0 +1,124 @@
+'use client';
+
+import { IQRCodeConfig } from '@/lib/types';
+import { buildVerificationUrl } from '@/lib/qr-code';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+
+interface QRCodeSettingsProps {
+  config: IQRCodeConfig;
+  verificationBaseUrl: string;
+  onConfigChange: (config: IQRCodeConfig) => void;
+  onVerificationBaseUrlChange: (url: string) => void;
+}
+
+export function QRCodeSettings({
+  config,
+  verificationBaseUrl,
+  onConfigChange,
+  onVerificationBaseUrlChange,
+}: QRCodeSettingsProps) {
+  const handleConfigChange = (updates: Partial<IQRCodeConfig>) => {
+    onConfigChange({ ...config, ...updates });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-lg">QR Code</CardTitle>
+          <Switch
+            checked={config.enabled}
+            onCheckedChange={(enabled) => handleConfigChange({ enabled })}
+            aria-label="Show QR code"
+          />
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          Adds a QR code linking to the certificate&apos;s verification page.
+        </p>
+
+        {config.enabled && (
+          <>
+            {/* Verification URL */}
+            <div className="space-y-2">
+              <Label htmlFor="verification-url" className="text-sm font-medium">
+                Verification Base URL
+              </Label>
+              <Input
+                id="verification-url"
+                type="url"
+                value={verificationBaseUrl}
+                onChange={(e) => onVerificationBaseUrlChange(e.target.value)}
+                placeholder={process.env.NEXT_PUBLIC_BASE_URL}
+              />
+              <p className="text-xs text-gray-500 dark:text-gray-400 break-all">
+                Example:{' '}
+                {buildVerificationUrl(verificationBaseUrl, 'CERT-2025-001')}
+              </p>
+            </div>
+
+            {/* Size */}
+            <div className="space-y-3">
+              <div className="flex items-center justify-between">
+                <Label htmlFor="qr-size" className="text-sm font-medium">
+                  Size
+                </Label>
+                <span className="text-sm text-gray-600 dark:text-gray-400">
+                  {config.size}px
+                </span>
+              </div>
+              <Slider
+                id="qr-size"
+                min={40}
+                max={400}
+                step={4}
+                value={[config.size]}
+                onValueChange={(value) =>
+                  handleConfigChange({ size: value[0] })
+                }
+                className="w-full"
+              />
+            </div>
+
+            {/* Colors */}
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="qr-color" className="text-sm font-medium">
+                  Code Color
+                </Label>
+                <input
+                  type="color"
+                  id="qr-color"
+                  value={config.color}
+                  onChange={(e) =>
+                    handleConfigChange({ color: e.target.value })
+                  }
+                  className="w-12 h-10 rounded border border-gray-300 dark:border-gray-600 cursor-pointer"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="qr-background" className="text-sm font-medium">
+                  Background
+                </Label>
+                <input
+                  type="color"
+                  id="qr-background"
+                  value={config.backgroundColor}
+                  onChange={(e) =>
+                    handleConfigChange({ backgroundColor: e.target.value })
+                  }
+                  className="w-12 h-10 rounded border border-gray-300 dark:border-gray-600 cursor-pointer"
+                />
+              </div>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,10 +1,87 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { CertificatePreview } from './certificate-preview';
 import { FontControls } from './font-controls';
-import { ITextConfig, IEvent } from '@/lib/types';
-import { updateLayoutConfig } from '@/lib/actions';
+import { OutputSettings } from './output-settings';
+import { CustomFonts } from './custom-fonts';
+import { QRCodeSettings } from './qr-code-settings';
+import { ImageLayers } from './image-layers';
+import { TemplateVariants } from './template-variants';
+import {
+  ITextConfig,
+  ITextElement,
+  ICustomFont,
+  IQRCodeConfig,
+  IImageLayer,
+  ITemplateVariant,
+  ICertificateLayout,
+  IEvent,
+  IRecipientData,
+  LayoutElementKey,
+  CertificateOutputFormat,
+  RenderScale,
+  ArchiveGrouping,
+} from '@/lib/types';
+import {
+  updateLayoutConfig,
+  updateEventOutputFormat,
+  updateEventRenderScale,
+  updateEventFilenamePattern,
+  updateEventArchiveGrouping,
+  updateQRCodeConfig,
+  addEventFont,
+  removeEventFont,
+  addImageLayer,
+  updateImageLayer,
+  reorderImageLayers,
+  removeImageLayer,
+  addTemplateVariant,
+  updateTemplateVariant,
+  removeTemplateVariant,
+  updateTemplateField,
+  getParticipantPage,
+  getParticipantSummary,
+} from '@/lib/actions';
+import { buildCertificateVariables } from '@/lib/text-template';
+import { buildCertificateFilename } from '@/lib/filename-pattern';
+import { getCertificateFileInfo } from '@/lib/certificate-utils';
+import {
+  createFontFamilyName,
+  getFontFormat,
+  MAX_FONT_FILE_SIZE,
+} from '@/lib/font-utils';
+import { DEFAULT_QR_CODE_CONFIG } from '@/lib/qr-code';
+import {
+  MAX_IMAGE_LAYER_FILE_SIZE,
+  getImageLayerKey,
+  parseImageLayerKey,
+} from '@/lib/image-layers';
+import {
+  DEFAULT_TEMPLATE_VARIANT_ID,
+  validateTemplateVariantName,
+} from '@/lib/template-variants';
+import { getTemplateImageUrl, uploadAsset } from '@/lib/template-images';
+
+type TextLayout = Omit<ICertificateLayout, 'template'>;
+
+// Default width for newly added image layers, in template pixels
+const NEW_IMAGE_LAYER_WIDTH = 200;
+
+/**
+ * Reads the natural dimensions of an image data URL
+ */
+function loadImageSize(
+  src: string
+): Promise<{ width: number; height: number }> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () =>
+      resolve({ width: img.naturalWidth, height: img.naturalHeight });
+    img.onerror = reject;
+    img.src = src;
+  });
+}
 
 interface TemplateAdjustmentSectionProps {
   event: IEvent | null;
@@ -17,9 +94,8 @@ export function TemplateAdjustmentSection({
   onContinue,
   onBack,
 }: TemplateAdjustmentSectionProps) {
-  const [selectedTextType, setSelectedTextType] = useState<'name' | 'id'>(
-    'name'
-  );
+  const [selectedTextType, setSelectedTextType] =
+    useState<LayoutElementKey>('name');
   const [nameConfig, setNameConfig] = useState<ITextConfig>({
     x: 0,
     y: 0,
@@ -36,77 +112,618 @@ export function TemplateAdjustmentSection({
     color: '#000000',
     textAlign: 'center',
   });
+  const [textElements, setTextElements] = useState<ITextElement[]>([]);
+  const [outputFormat, setOutputFormat] =
+    useState<CertificateOutputFormat>('png');
+  const [renderScale, setRenderScale] = useState<RenderScale>(1);
+  const [fonts, setFonts] = useState<ICustomFont[]>([]);
+  const [qrCodeConfig, setQRCodeConfig] = useState<IQRCodeConfig>(
+    DEFAULT_QR_CODE_CONFIG
+  );
+  const [verificationBaseUrl, setVerificationBaseUrl] = useState('');
+  const [filenamePattern, setFilenamePattern] = useState('');
+  const [archiveGrouping, setArchiveGrouping] = useState<ArchiveGrouping>();
+  const [imageLayers, setImageLayers] = useState<IImageLayer[]>([]);
+  const [isUploadingLayer, setIsUploadingLayer] = useState(false);
+  const [layerError, setLayerError] = useState<string | null>(null);
+  const [templateVariants, setTemplateVariants] = useState<ITemplateVariant[]>(
+    []
+  );
+  const [templateField, setTemplateField] = useState('');
+  const [activeTemplateId, setActiveTemplateId] = useState(
+    DEFAULT_TEMPLATE_VARIANT_ID
+  );
+  // Layout of the default template while a variant is being edited
+  const [defaultLayout, setDefaultLayout] = useState<TextLayout | null>(null);
+  const [isUploadingVariant, setIsUploadingVariant] = useState(false);
+  const [variantError, setVariantError] = useState<string | null>(null);
+  const [isUploadingFont, setIsUploadingFont] = useState(false);
+  const [fontError, setFontError] = useState<string | null>(null);
   const [isSaving, setIsSaving] = useState(false);
+  const [firstParticipant, setFirstParticipant] = useState<IRecipientData>();
+  const [fieldNames, setFieldNames] = useState<string[]>([]);
 
   // Initialize configs from event
   useEffect(() => {
     if (event) {
       setNameConfig(event.nameConfig);
       setIdConfig(event.idConfig);
+      setTextElements(event.textElements || []);
+      setOutputFormat(event.outputFormat || 'png');
+      setRenderScale(event.renderScale || 1);
+      setFonts(event.fonts || []);
+      setQRCodeConfig(event.qrCodeConfig || DEFAULT_QR_CODE_CONFIG);
+      setVerificationBaseUrl(event.verificationBaseUrl || '');
+      setFilenamePattern(event.filenamePattern || '');
+      setArchiveGrouping(event.archiveGrouping || undefined);
+      setImageLayers(event.imageLayers || []);
+      setTemplateVariants(event.templateVariants || []);
+      setTemplateField(event.templateField || '');
+      setActiveTemplateId(DEFAULT_TEMPLATE_VARIANT_ID);
+      setDefaultLayout({
+        nameConfig: event.nameConfig,
+        idConfig: event.idConfig,
+        textElements: event.textElements || [],
+      });
     }
   }, [event]);
 
+  // Participants are not loaded with the event, so the first one and the
+  // custom field names are loaded for previews
+  useEffect(() => {
+    if (!event?._id) return;
+
+    const eventId = event._id.toString();
+    Promise.all([
+      getParticipantPage(eventId, {}, 0, 1),
+      getParticipantSummary(eventId),
+    ])
+      .then(([page, summary]) => {
+        setFirstParticipant(page.participants[0]);
+        setFieldNames(summary.fieldNames);
+      })
+      .catch((error) => {
+        console.error('Error loading participant fields:', error);
+      });
+  }, [event?._id]);
+
+  // Sample values used to preview placeholders in text elements; custom
+  // fields come from the first participant
+  const sampleParticipant = useMemo<IRecipientData>(
+    () => ({
+      name: 'John Doe',
+      certification_id: 'CERT-2025-001',
+      email: 'john.doe@example.com',
+      fields: firstParticipant?.fields,
+    }),
+    [firstParticipant]
+  );
+
+  const sampleVariables = useMemo(
+    () => (event ? buildCertificateVariables(event, sampleParticipant) : {}),
+    [event, sampleParticipant]
+  );
+
+  const saveLayout = async (
+    newNameConfig: ITextConfig,
+    newIdConfig: ITextConfig,
+    newTextElements: ITextElement[]
+  ) => {
+    setNameConfig(newNameConfig);
+    setIdConfig(newIdConfig);
+    setTextElements(newTextElements);
+
+    const layout: TextLayout = {
+      nameConfig: newNameConfig,
+      idConfig: newIdConfig,
+      textElements: newTextElements,
+    };
+    const variantId =
+      activeTemplateId === DEFAULT_TEMPLATE_VARIANT_ID
+        ? null
+        : activeTemplateId;
+
+    if (variantId) {
+      setTemplateVariants((prev) =>
+        prev.map((variant) =>
+          variant.id === variantId ? { ...variant, ...layout } : variant
+        )
+      );
+    } else {
+      setDefaultLayout(layout);
+    }
+
+    if (!event?._id) return;
+
+    // Auto-save layout changes
+    setIsSaving(true);
+    try {
+      if (variantId) {
+        await updateTemplateVariant(event._id.toString(), variantId, layout);
+      } else {
+        await updateLayoutConfig(
+          event._id.toString(),
+          newNameConfig,
+          newIdConfig,
+          newTextElements
+        );
+      }
+    } catch (error) {
+      console.error('Error saving layout config:', error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
   const handlePositionChange = async (
-    type: 'name' | 'id',
+    type: LayoutElementKey,
     position: Partial<ITextConfig>
   ) => {
     if (!event?._id) return;
 
+    if (type === 'qr') {
+      await saveQRCode(
+        {
+          ...qrCodeConfig,
+          x: position.x ?? qrCodeConfig.x,
+          y: position.y ?? qrCodeConfig.y,
+        },
+        verificationBaseUrl
+      );
+      return;
+    }
+
+    const layerId = parseImageLayerKey(type);
+    if (layerId) {
+      const layer = imageLayers.find((l) => l.id === layerId);
+      if (layer) {
+        await handleImageLayerChange(layerId, {
+          x: position.x ?? layer.x,
+          y: position.y ?? layer.y,
+        });
+      }
+      return;
+    }
+
     const newNameConfig =
       type === 'name' ? { ...nameConfig, ...position } : nameConfig;
     const newIdConfig = type === 'id' ? { ...idConfig, ...position } : idConfig;
+    const newTextElements = textElements.map((element) =>
+      element.id === type
+        ? { ...element, config: { ...element.config, ...position } }
+        : element
+    );
 
-    setNameConfig(newNameConfig);
-    setIdConfig(newIdConfig);
+    await saveLayout(newNameConfig, newIdConfig, newTextElements);
+  };
+
+  const saveQRCode = async (
+    newQRCodeConfig: IQRCodeConfig,
+    newVerificationBaseUrl: string
+  ) => {
+    setQRCodeConfig(newQRCodeConfig);
+    setVerificationBaseUrl(newVerificationBaseUrl);
+
+    if (!event?._id) return;
 
-    // Auto-save layout changes
     setIsSaving(true);
     try {
-      await updateLayoutConfig(
+      await updateQRCodeConfig(
         event._id.toString(),
-        newNameConfig,
-        newIdConfig
+        newQRCodeConfig,
+        newVerificationBaseUrl
       );
     } catch (error) {
-      console.error('Error saving layout config:', error);
+      console.error('Error saving QR code config:', error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleQRCodeConfigChange = async (config: IQRCodeConfig) => {
+    // Place a newly enabled code below the certificate ID
+    if (config.enabled && !qrCodeConfig.enabled && !event?.qrCodeConfig) {
+      config = {
+        ...config,
+        x: idConfig.x,
+        y: idConfig.y + idConfig.fontSize + config.size / 2,
+      };
+    }
+
+    if (!config.enabled && selectedTextType === 'qr') {
+      setSelectedTextType('name');
+    }
+
+    await saveQRCode(config, verificationBaseUrl);
+  };
+
+  const handleConfigChange = async (config: ITextConfig) => {
+    await saveLayout(
+      selectedTextType === 'name' ? config : nameConfig,
+      selectedTextType === 'id' ? config : idConfig,
+      textElements.map((element) =>
+        element.id === selectedTextType ? { ...element, config } : element
+      )
+    );
+  };
+
+  const handleAddTextElement = async () => {
+    const newElement: ITextElement = {
+      id: `text-${Date.now()}`,
+      label: `Text ${textElements.length + 1}`,
+      content: 'Completed on {eventDate}',
+      config: {
+        ...idConfig,
+        y: idConfig.y + idConfig.fontSize * 2,
+      },
+    };
+
+    setSelectedTextType(newElement.id);
+    await saveLayout(nameConfig, idConfig, [...textElements, newElement]);
+  };
+
+  const handleTextElementChange = async (
+    id: string,
+    updates: Partial<Pick<ITextElement, 'label' | 'content'>>
+  ) => {
+    await saveLayout(
+      nameConfig,
+      idConfig,
+      textElements.map((element) =>
+        element.id === id ? { ...element, ...updates } : element
+      )
+    );
+  };
+
+  const handleRemoveTextElement = async (id: string) => {
+    if (selectedTextType === id) {
+      setSelectedTextType('name');
+    }
+
+    await saveLayout(
+      nameConfig,
+      idConfig,
+      textElements.filter((element) => element.id !== id)
+    );
+  };
+
+  const handleOutputFormatChange = async (format: CertificateOutputFormat) => {
+    setOutputFormat(format);
+
+    if (!event?._id) return;
+
+    setIsSaving(true);
+    try {
+      await updateEventOutputFormat(event._id.toString(), format);
+    } catch (error) {
+      console.error('Error saving output format:', error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRenderScaleChange = async (scale: RenderScale) => {
+    setRenderScale(scale);
+
+    if (!event?._id) return;
+
+    setIsSaving(true);
+    try {
+      await updateEventRenderScale(event._id.toString(), scale);
+    } catch (error) {
+      console.error('Error saving render scale:', error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleFilenamePatternChange = async (pattern: string) => {
+    setFilenamePattern(pattern);
+
+    if (!event?._id) return;
+
+    setIsSaving(true);
+    try {
+      await updateEventFilenamePattern(event._id.toString(), pattern);
+    } catch (error) {
+      console.error('Error saving filename pattern:', error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleArchiveGroupingChange = async (
+    grouping: ArchiveGrouping | null
+  ) => {
+    setArchiveGrouping(grouping || undefined);
+
+    if (!event?._id) return;
+
+    setIsSaving(true);
+    try {
+      await updateEventArchiveGrouping(event._id.toString(), grouping);
+    } catch (error) {
+      console.error('Error saving archive grouping:', error);
     } finally {
       setIsSaving(false);
     }
   };
 
-  const handleNameConfigChange = async (config: ITextConfig) => {
-    setNameConfig(config);
+  const handleFontUpload = async (file: File) => {
+    if (!event?._id) return;
+
+    setFontError(null);
+
+    if (!getFontFormat(file.name)) {
+      setFontError('Font must be a TTF, OTF or WOFF file');
+      return;
+    }
+
+    if (file.size > MAX_FONT_FILE_SIZE) {
+      setFontError('Font file must be smaller than 5MB');
+      return;
+    }
+
+    setIsUploadingFont(true);
+    try {
+      const arrayBuffer = await file.arrayBuffer();
+      const base64 = Buffer.from(arrayBuffer).toString('base64');
+
+      const font = await addEventFont(event._id.toString(), {
+        family: createFontFamilyName(
+          file.name,
+          fonts.map((f) => f.family)
+        ),
+        originalName: file.name,
+        base64,
+        uploadedAt: new Date().toISOString(),
+      });
+
+      setFonts((prev) => [...prev, font]);
+    } catch (error) {
+      console.error('Error uploading font:', error);
+      setFontError('Failed to upload font. Please try again.');
+    } finally {
+      setIsUploadingFont(false);
+    }
+  };
+
+  const handleFontRemove = async (fontId: string) => {
+    if (!event?._id) return;
+
+    setFontError(null);
+    try {
+      await removeEventFont(event._id.toString(), fontId);
+      setFonts((prev) => prev.filter((font) => font.id !== fontId));
+    } catch (error) {
+      console.error('Error removing font:', error);
+      setFontError('Failed to remove font. Please try again.');
+    }
+  };
+
+  const handleImageLayerUpload = async (file: File) => {
+    if (!event?._id) return;
+
+    setLayerError(null);
+
+    if (file.type !== 'image/png') {
+      setLayerError('Image layers must be PNG files');
+      return;
+    }
+
+    if (file.size > MAX_IMAGE_LAYER_FILE_SIZE) {
+      setLayerError('Image file must be smaller than 5MB');
+      return;
+    }
+
+    setIsUploadingLayer(true);
+    try {
+      const arrayBuffer = await file.arrayBuffer();
+      const base64 = Buffer.from(arrayBuffer).toString('base64');
+      const size = await loadImageSize(`data:image/png;base64,${base64}`);
+      const width = Math.min(size.width, NEW_IMAGE_LAYER_WIDTH);
+
+      // Place new layers below the certificate ID
+      const layer = await addImageLayer(event._id.toString(), {
+        label: file.name.replace(/\.png$/i, ''),
+        base64,
+        x: idConfig.x,
+        y: idConfig.y + idConfig.fontSize * 2,
+        width,
+        height: (size.height / size.width) * width,
+        opacity: 1,
+        rotation: 0,
+      });
+
+      setImageLayers((prev) => [...prev, layer]);
+      setSelectedTextType(getImageLayerKey(layer.id));
+    } catch (error) {
+      console.error('Error uploading image layer:', error);
+      setLayerError('Failed to add image layer. Please try again.');
+    } finally {
+      setIsUploadingLayer(false);
+    }
+  };
+
+  const handleImageLayerChange = async (
+    layerId: string,
+    updates: Partial<Omit<IImageLayer, 'id' | 'base64'>>
+  ) => {
+    setImageLayers((prev) =>
+      prev.map((layer) =>
+        layer.id === layerId ? { ...layer, ...updates } : layer
+      )
+    );
 
     if (!event?._id) return;
 
     setIsSaving(true);
     try {
-      await updateLayoutConfig(event._id.toString(), config, idConfig);
+      await updateImageLayer(event._id.toString(), layerId, updates);
     } catch (error) {
-      console.error('Error saving name config:', error);
+      console.error('Error saving image layer:', error);
     } finally {
       setIsSaving(false);
     }
   };
 
-  const handleIdConfigChange = async (config: ITextConfig) => {
-    setIdConfig(config);
+  const handleImageLayerReorder = async (layerIds: string[]) => {
+    if (!event?._id) return;
+
+    setLayerError(null);
+    const previousLayers = imageLayers;
+    setImageLayers(
+      layerIds
+        .map((id) => imageLayers.find((layer) => layer.id === id))
+        .filter((layer): layer is IImageLayer => !!layer)
+    );
+
+    try {
+      await reorderImageLayers(event._id.toString(), layerIds);
+    } catch (error) {
+      console.error('Error reordering image layers:', error);
+      setImageLayers(previousLayers);
+      setLayerError('Failed to reorder image layers. Please try again.');
+    }
+  };
+
+  const handleImageLayerRemove = async (layerId: string) => {
+    if (!event?._id) return;
+
+    setLayerError(null);
+    try {
+      await removeImageLayer(event._id.toString(), layerId);
+      setImageLayers((prev) => prev.filter((layer) => layer.id !== layerId));
+      if (selectedTextType === getImageLayerKey(layerId)) {
+        setSelectedTextType('name');
+      }
+    } catch (error) {
+      console.error('Error removing image layer:', error);
+      setLayerError('Failed to remove image layer. Please try again.');
+    }
+  };
+
+  const handleSelectTemplate = (templateId: string) => {
+    const variant = templateVariants.find((v) => v.id === templateId);
+    const layout =
+      variant || (templateId === DEFAULT_TEMPLATE_VARIANT_ID && defaultLayout);
+    if (!layout) return;
+
+    setActiveTemplateId(templateId);
+    setNameConfig(layout.nameConfig);
+    setIdConfig(layout.idConfig);
+    setTextElements(layout.textElements || []);
+
+    // Text elements belong to a single layout
+    if (
+      !['name', 'id', 'qr'].includes(selectedTextType) &&
+      !parseImageLayerKey(selectedTextType)
+    ) {
+      setSelectedTextType('name');
+    }
+  };
+
+  const handleTemplateVariantUpload = async (
+    name: string,
+    file: File
+  ): Promise<boolean> => {
+    if (!event?._id) return false;
+
+    setVariantError(null);
+
+    if (file.type !== 'image/png') {
+      setVariantError('Templates must be PNG files');
+      return false;
+    }
+
+    setIsUploadingVariant(true);
+    try {
+      const assetId = await uploadAsset(file);
+
+      const variant = await addTemplateVariant(event._id.toString(), {
+        name,
+        assetId,
+        originalName: file.name,
+        uploadedAt: new Date().toISOString(),
+      });
+
+      setTemplateVariants((prev) => [...prev, variant]);
+      return true;
+    } catch (error) {
+      console.error('Error uploading template variant:', error);
+      setVariantError('Failed to add template. Please try again.');
+      return false;
+    } finally {
+      setIsUploadingVariant(false);
+    }
+  };
+
+  const handleTemplateVariantRename = async (
+    variantId: string,
+    name: string
+  ) => {
+    setTemplateVariants((prev) =>
+      prev.map((variant) =>
+        variant.id === variantId ? { ...variant, name } : variant
+      )
+    );
+
+    // Only save names that are valid, so typing can pass through duplicates
+    if (
+      !event?._id ||
+      validateTemplateVariantName(name, templateVariants, variantId)
+    ) {
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await updateTemplateVariant(event._id.toString(), variantId, { name });
+    } catch (error) {
+      console.error('Error renaming template variant:', error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleTemplateVariantRemove = async (variantId: string) => {
+    if (!event?._id) return;
+
+    setVariantError(null);
+    try {
+      await removeTemplateVariant(event._id.toString(), variantId);
+      if (activeTemplateId === variantId) {
+        handleSelectTemplate(DEFAULT_TEMPLATE_VARIANT_ID);
+      }
+      setTemplateVariants((prev) =>
+        prev.filter((variant) => variant.id !== variantId)
+      );
+    } catch (error) {
+      console.error('Error removing template variant:', error);
+      setVariantError('Failed to remove template. Please try again.');
+    }
+  };
+
+  const handleTemplateFieldChange = async (field: string) => {
+    setTemplateField(field);
 
     if (!event?._id) return;
 
     setIsSaving(true);
     try {
-      await updateLayoutConfig(event._id.toString(), nameConfig, config);
+      await updateTemplateField(event._id.toString(), field);
     } catch (error) {
-      console.error('Error saving ID config:', error);
+      console.error('Error saving template field:', error);
     } finally {
       setIsSaving(false);
     }
   };
 
-  const templateUrl = event?.template.base64
-    ? `data:image/png;base64,${event.template.base64}`
-    : '';
+  const activeVariant = templateVariants.find(
+    (variant) => variant.id === activeTemplateId
+  );
+  const activeTemplate = activeVariant?.template || event?.template;
+  const templateUrl = getTemplateImageUrl(activeTemplate);
 
   if (!event) {
     return (
@@ -192,6 +809,13 @@ export function TemplateAdjustmentSection({
             templateUrl={templateUrl}
             nameConfig={nameConfig}
             idConfig={idConfig}
+            textElements={textElements}
+            sampleVariables={sampleVariables}
+            fonts={fonts}
+            qrCodeConfig={qrCodeConfig}
+            verificationBaseUrl={verificationBaseUrl}
+            imageLayers={imageLayers}
+            onImageLayerResize={handleImageLayerChange}
             onPositionChange={handlePositionChange}
             selectedTextType={selectedTextType}
             onTextTypeChange={setSelectedTextType}
@@ -200,16 +824,78 @@ export function TemplateAdjustmentSection({
 
         {/* Font Controls */}
         <div className="space-y-4">
+          <TemplateVariants
+            defaultTemplateName={event.template.originalName}
+            variants={templateVariants}
+            activeTemplateId={activeTemplateId}
+            templateField={templateField}
+            onSelect={handleSelectTemplate}
+            onUpload={handleTemplateVariantUpload}
+            onRename={handleTemplateVariantRename}
+            onRemove={handleTemplateVariantRemove}
+            onTemplateFieldChange={handleTemplateFieldChange}
+            isUploading={isUploadingVariant}
+            error={variantError}
+          />
           <FontControls
             selectedTextType={selectedTextType}
             onTextTypeChange={setSelectedTextType}
             nameConfig={nameConfig}
             idConfig={idConfig}
-            onConfigChange={
-              selectedTextType === 'name'
-                ? handleNameConfigChange
-                : handleIdConfigChange
-            }
+            textElements={textElements}
+            customFonts={fonts}
+            qrCodeConfig={qrCodeConfig}
+            imageLayers={imageLayers}
+            fieldNames={fieldNames}
+            onConfigChange={handleConfigChange}
+            onAddTextElement={handleAddTextElement}
+            onTextElementChange={handleTextElementChange}
+            onRemoveTextElement={handleRemoveTextElement}
+          />
+          <CustomFonts
+            fonts={fonts}
+            onUpload={handleFontUpload}
+            onRemove={handleFontRemove}
+            isUploading={isUploadingFont}
+            error={fontError}
+          />
+          <ImageLayers
+            layers={imageLayers}
+            selectedTextType={selectedTextType}
+            onSelect={setSelectedTextType}
+            onUpload={handleImageLayerUpload}
+            onChange={handleImageLayerChange}
+            onReorder={handleImageLayerReorder}
+            onRemove={handleImageLayerRemove}
+            isUploading={isUploadingLayer}
+            error={layerError}
+          />
+          <QRCodeSettings
+            config={qrCodeConfig}
+            verificationBaseUrl={verificationBaseUrl}
+            onConfigChange={handleQRCodeConfigChange}
+            onVerificationBaseUrlChange={(url) => saveQRCode(qrCodeConfig, url)}
+          />
+          <OutputSettings
+            outputFormat={outputFormat}
+            onOutputFormatChange={handleOutputFormatChange}
+            renderScale={renderScale}
+            onRenderScaleChange={handleRenderScaleChange}
+            filenamePattern={filenamePattern}
+            onFilenamePatternChange={handleFilenamePatternChange}
+            filenamePreview={buildCertificateFilename(
+              {
+                title: event?.title || '',
+                eventDate: event?.eventDate,
+                filenamePattern,
+              },
+              sampleParticipant,
+              getCertificateFileInfo(outputFormat).extension
+            )}
+            archiveGrouping={archiveGrouping}
+            onArchiveGroupingChange={handleArchiveGroupingChange}
+            fieldNames={fieldNames}
+            hasTemplateVariants={templateVariants.length > 0}
           />
         </div>
       </div>
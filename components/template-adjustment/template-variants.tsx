@@ -0,0 +1,230 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import { ITemplateVariant } from '@/lib/types';
+import {
+  DEFAULT_TEMPLATE_NAME,
+  DEFAULT_TEMPLATE_VARIANT_ID,
+  validateTemplateVariantName,
+} from '@/lib/template-variants';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { FileImage, Loader2, Trash2, Upload } from 'lucide-react';
+
+interface TemplateVariantsProps {
+  defaultTemplateName: string;
+  variants: ITemplateVariant[];
+  activeTemplateId: string;
+  templateField: string;
+  onSelect: (templateId: string) => void;
+  onUpload: (name: string, file: File) => Promise<boolean>;
+  onRename: (variantId: string, name: string) => void;
+  onRemove: (variantId: string) => void;
+  onTemplateFieldChange: (templateField: string) => void;
+  isUploading?: boolean;
+  error?: string | null;
+}
+
+export function TemplateVariants({
+  defaultTemplateName,
+  variants,
+  activeTemplateId,
+  templateField,
+  onSelect,
+  onUpload,
+  onRename,
+  onRemove,
+  onTemplateFieldChange,
+  isUploading = false,
+  error,
+}: TemplateVariantsProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [newName, setNewName] = useState('');
+  const [nameError, setNameError] = useState<string | null>(null);
+  const [renameError, setRenameError] = useState<string | null>(null);
+  const activeVariant = variants.find(
+    (variant) => variant.id === activeTemplateId
+  );
+
+  const handleUploadClick = () => {
+    const validationError = validateTemplateVariantName(newName, variants);
+    setNameError(validationError);
+    if (!validationError) {
+      inputRef.current?.click();
+    }
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Allow selecting the same file again
+    e.target.value = '';
+
+    if (file && (await onUpload(newName.trim(), file))) {
+      setNewName('');
+    }
+  };
+
+  const handleRename = (variant: ITemplateVariant, name: string) => {
+    setRenameError(validateTemplateVariantName(name, variants, variant.id));
+    onRename(variant.id, name);
+  };
+
+  const renderTemplateRow = (
+    id: string,
+    name: string,
+    originalName: string,
+    variant?: ITemplateVariant
+  ) => (
+    <li
+      key={id}
+      onClick={() => onSelect(id)}
+      className={`flex items-center gap-3 p-2 border rounded-lg cursor-pointer ${
+        id === activeTemplateId
+          ? 'border-blue-500 bg-blue-50 dark:bg-blue-950/20'
+          : 'border-gray-200 dark:border-gray-700'
+      }`}
+    >
+      <FileImage className="h-4 w-4 text-gray-500" />
+      <div className="flex-1 min-w-0">
+        <div className="text-sm font-medium truncate">{name}</div>
+        <div className="text-xs text-gray-500 dark:text-gray-400 truncate">
+          {originalName}
+        </div>
+      </div>
+      {variant && (
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={(e) => {
+            e.stopPropagation();
+            onRemove(variant.id);
+          }}
+          className="h-8 w-8 p-0 text-red-600 dark:text-red-400"
+          aria-label={`Remove ${variant.name} template`}
+        >
+          <Trash2 className="h-4 w-4" />
+        </Button>
+      )}
+    </li>
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">Certificate Templates</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          Issue different certificates, e.g. to speakers and organizers. Each
+          template has its own layout; select one to edit it.
+        </p>
+
+        {error && (
+          <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+        )}
+
+        <ul className="space-y-2">
+          {renderTemplateRow(
+            DEFAULT_TEMPLATE_VARIANT_ID,
+            DEFAULT_TEMPLATE_NAME,
+            defaultTemplateName
+          )}
+          {variants.map((variant) =>
+            renderTemplateRow(
+              variant.id,
+              variant.name,
+              variant.template.originalName,
+              variant
+            )
+          )}
+        </ul>
+
+        {activeVariant && (
+          <div className="space-y-2">
+            <Label htmlFor="variant-name" className="text-sm font-medium">
+              Template Name
+            </Label>
+            <Input
+              id="variant-name"
+              value={activeVariant.name}
+              onChange={(e) => handleRename(activeVariant, e.target.value)}
+            />
+            {renameError && (
+              <p className="text-sm text-red-600 dark:text-red-400">
+                {renameError}
+              </p>
+            )}
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              Participants whose {templateField || 'template'} column matches
+              this name get this template.
+            </p>
+          </div>
+        )}
+
+        {/* Add Template */}
+        <div className="space-y-2 pt-2 border-t border-gray-200 dark:border-gray-700">
+          <Label htmlFor="new-variant-name" className="text-sm font-medium">
+            Add Template
+          </Label>
+          <div className="flex items-center gap-2">
+            <Input
+              id="new-variant-name"
+              value={newName}
+              onChange={(e) => {
+                setNewName(e.target.value);
+                setNameError(null);
+              }}
+              placeholder="e.g. Speaker"
+              disabled={isUploading}
+            />
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={handleUploadClick}
+              disabled={isUploading}
+              className="flex items-center gap-1 shrink-0"
+            >
+              {isUploading ? (
+                <Loader2 className="h-4 w-4 animate-spin" />
+              ) : (
+                <Upload className="h-4 w-4" />
+              )}
+              Upload PNG
+            </Button>
+            <input
+              ref={inputRef}
+              type="file"
+              accept="image/png"
+              onChange={handleFileChange}
+              className="hidden"
+            />
+          </div>
+          {nameError && (
+            <p className="text-sm text-red-600 dark:text-red-400">
+              {nameError}
+            </p>
+          )}
+        </div>
+
+        {/* Participant Field */}
+        <div className="space-y-2">
+          <Label htmlFor="template-field" className="text-sm font-medium">
+            Participant Column
+          </Label>
+          <Input
+            id="template-field"
+            value={templateField}
+            onChange={(e) => onTemplateFieldChange(e.target.value)}
+            placeholder="e.g. role"
+          />
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            CSV column whose value picks each participant&apos;s template.
+            Participants without a matching template get the default.
+          </p>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -13,6 +13,11 @@ import { Progress } from '@/components/ui/progress';
 import { FileImage, CheckCircle } from 'lucide-react';
 import { saveTemplate } from '@/lib/actions';
 import { IEvent } from '@/lib/types';
+import {
+  getTemplateImageUrl,
+  hasTemplateImage,
+  uploadAsset,
+} from '@/lib/template-images';
 
 interface TemplateUploadSectionProps {
   event: IEvent | null;
@@ -50,13 +55,12 @@ export function TemplateUploadSection({
         });
       }, 100);
 
-      // Convert file to base64 on client side
-      const arrayBuffer = await file.arrayBuffer();
-      const base64 = Buffer.from(arrayBuffer).toString('base64');
+      // Upload to asset storage; the event only keeps the asset ID
+      const assetId = await uploadAsset(file);
 
       // Create a simple object to pass to server action
       const templateData = {
-        base64,
+        assetId,
         originalName: file.name,
         uploadedAt: new Date().toISOString(),
       };
@@ -87,12 +91,9 @@ export function TemplateUploadSection({
     setUploadProgress(0);
   };
 
-  const hasTemplate =
-    event?.template.base64 && event.template.base64.length > 0;
+  const hasTemplate = hasTemplateImage(event?.template);
 
-  const templateUrl = event?.template.base64
-    ? `data:image/png;base64,${event.template.base64}`
-    : '';
+  const templateUrl = getTemplateImageUrl(event?.template);
 
   if (!event) {
     return (
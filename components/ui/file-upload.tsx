@@ -50,8 +50,16 @@ export function FileUpload({
       return;
     }
 
-    // Check file type
-    if (accept && !file.type.match(accept.replace('*', '.*'))) {
+    // Check file type against each accepted extension or MIME type
+    const isAccepted = accept
+      .split(',')
+      .map((type) => type.trim())
+      .some((type) =>
+        type.startsWith('.')
+          ? file.name.toLowerCase().endsWith(type.toLowerCase())
+          : file.type.match(type.replace('*', '.*'))
+      );
+    if (accept && !isAccepted) {
       setError('Invalid file type');
       return;
     }
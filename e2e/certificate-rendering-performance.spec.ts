@@ -0,0 +1,91 @@
+import { test, expect } from '@playwright/test';
+import { createCanvas } from 'canvas';
+
+const CERTIFICATE_COUNT = 1000;
+
+// An A4 landscape template at 150 DPI, about the size users upload
+function createTemplatePng(): Buffer {
+  const canvas = createCanvas(1754, 1240);
+  const ctx = canvas.getContext('2d');
+  const gradient = ctx.createLinearGradient(0, 0, 1754, 1240);
+  gradient.addColorStop(0, '#fdfbf7');
+  gradient.addColorStop(1, '#e8e0cf');
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, 0, 1754, 1240);
+  ctx.strokeStyle = '#8a6d3b';
+  ctx.lineWidth = 24;
+  ctx.strokeRect(40, 40, 1674, 1160);
+  return canvas.toBuffer('image/png');
+}
+
+const textConfig = (y: number, fontSize: number) => ({
+  x: 877,
+  y,
+  fontFamily: 'Arial',
+  fontSize,
+  color: '#222222',
+  textAlign: 'center',
+});
+
+test.describe('Certificate Rendering Performance @performance', () => {
+  test('should render 1,000 certificates', async ({ request }, testInfo) => {
+    // Rendering happens on the server, so one browser project is enough
+    test.skip(testInfo.project.name !== 'chromium');
+    test.setTimeout(15 * 60 * 1000);
+
+    // Relative URLs go to the dev server the Playwright config starts
+    const upload = await request.post('/api/upload', {
+      multipart: {
+        file: {
+          name: 'template.png',
+          mimeType: 'image/png',
+          buffer: createTemplatePng(),
+        },
+      },
+    });
+    expect(upload.ok()).toBeTruthy();
+    const { url: templateUrl } = await upload.json();
+
+    const csvData = [
+      'name,certification_id,email',
+      ...Array.from({ length: CERTIFICATE_COUNT }, (_, i) => {
+        const id = (i + 1).toString().padStart(4, '0');
+        return `Participant ${i + 1},CERT-${id},participant${id}@example.com`;
+      }),
+    ].join('\n');
+
+    const startTime = Date.now();
+    const response = await request.post('/api/generate-certificates', {
+      data: {
+        templateUrl,
+        csvData,
+        nameConfig: { ...textConfig(560, 72), fontWeight: 700 },
+        idConfig: textConfig(760, 28),
+        format: 'png',
+      },
+      timeout: 15 * 60 * 1000,
+    });
+    const duration = Date.now() - startTime;
+
+    expect(response.ok()).toBeTruthy();
+    const archive = await response.body();
+
+    const perSecond = (CERTIFICATE_COUNT / duration) * 1000;
+    console.log(
+      `Rendered ${CERTIFICATE_COUNT} certificates in ${(
+        duration / 1000
+      ).toFixed(1)}s (${perSecond.toFixed(1)} certificates/s, ${(
+        archive.length /
+        1024 /
+        1024
+      ).toFixed(1)} MB archive)`
+    );
+    test.info().annotations.push({
+      type: 'throughput',
+      description: `${perSecond.toFixed(1)} certificates/s`,
+    });
+
+    // Every certificate made it into the archive
+    expect(archive.length).toBeGreaterThan(CERTIFICATE_COUNT * 1000);
+  });
+});
@@ -0,0 +1,44 @@
+import { useState, useEffect } from 'react';
+import { ICustomFont } from '@/lib/types';
+import { getFontDataUrl } from '@/lib/font-utils';
+
+/**
+ * Loads event fonts into the document with the FontFace API.
+ * Returns a counter that changes once the fonts are ready, so canvases
+ * can redraw with the uploaded glyphs.
+ */
+export function useCustomFonts(fonts: ICustomFont[]): number {
+  const [loadedVersion, setLoadedVersion] = useState(0);
+
+  useEffect(() => {
+    const loadableFonts = fonts.filter((font) => font.base64);
+    if (loadableFonts.length === 0) return;
+
+    let cancelled = false;
+    const faces = loadableFonts.map(
+      (font) => new FontFace(font.family, `url(${getFontDataUrl(font)})`)
+    );
+
+    Promise.all(
+      faces.map(async (face) => {
+        try {
+          await face.load();
+          document.fonts.add(face);
+        } catch (error) {
+          console.error(`Error loading font ${face.family}:`, error);
+        }
+      })
+    ).then(() => {
+      if (!cancelled) {
+        setLoadedVersion((version) => version + 1);
+      }
+    });
+
+    return () => {
+      cancelled = true;
+      faces.forEach((face) => document.fonts.delete(face));
+    };
+  }, [fonts]);
+
+  return loadedVersion;
+}
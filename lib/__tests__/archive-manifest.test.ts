@@ -0,0 +1,125 @@
+import {
+  buildArchiveErrors,
+  buildArchiveManifest,
+  getArchiveFolder,
+  getArchivePath,
+  UNGROUPED_FOLDER,
+} from '../archive-manifest';
+import { DEFAULT_TEMPLATE_NAME } from '../template-variants';
+import { ITemplateVariant } from '../types';
+
+const textConfig = {
+  x: 400,
+  y: 300,
+  fontFamily: 'Arial',
+  fontSize: 24,
+  color: '#000000',
+  textAlign: 'center' as const,
+};
+
+const speakerVariant: ITemplateVariant = {
+  id: 'speaker',
+  name: 'Speaker',
+  template: {
+    assetId: 'a'.repeat(32),
+    originalName: 'speaker.png',
+    uploadedAt: new Date('2025-01-01'),
+  },
+  nameConfig: textConfig,
+  idConfig: textConfig,
+};
+
+const event = { templateVariants: [speakerVariant] };
+
+const jane = {
+  name: 'Jane Doe',
+  certification_id: 'CERT-001',
+  email: 'jane@example.com',
+  templateKey: 'speaker',
+  fields: { company: 'Acme, Inc.' },
+};
+
+const john = {
+  name: 'John "JD" Smith',
+  certification_id: 'CERT-002',
+};
+
+describe('getArchiveFolder', () => {
+  it('should not group without a grouping', () => {
+    expect(getArchiveFolder(undefined, event, jane)).toBeNull();
+  });
+
+  it('should group by template variant', () => {
+    const grouping = { by: 'template' as const };
+    expect(getArchiveFolder(grouping, event, jane)).toBe('Speaker');
+    expect(getArchiveFolder(grouping, event, john)).toBe(
+      DEFAULT_TEMPLATE_NAME.replace(/\s+/g, '_')
+    );
+  });
+
+  it('should group by a sanitized field value', () => {
+    const grouping = { by: 'field' as const, field: 'company' };
+    expect(getArchiveFolder(grouping, event, jane)).toBe('Acme,_Inc');
+    expect(getArchiveFolder(grouping, event, john)).toBe(UNGROUPED_FOLDER);
+  });
+});
+
+describe('getArchivePath', () => {
+  it('should put files into folders', () => {
+    expect(getArchivePath('Speaker', 'jane.png')).toBe('Speaker/jane.png');
+    expect(getArchivePath(null, 'jane.png')).toBe('jane.png');
+  });
+});
+
+describe('buildArchiveManifest', () => {
+  it('should list rendered and failed certificates', () => {
+    const manifest = buildArchiveManifest([
+      { participant: jane, path: 'Speaker/jane.png', sha256: 'abc123' },
+      { participant: john, error: 'Failed to generate certificate' },
+    ]);
+
+    expect(manifest.split('\r\n')).toEqual([
+      '\ufeffname,certification_id,email,file,sha256,status,error',
+      'Jane Doe,CERT-001,jane@example.com,Speaker/jane.png,abc123,rendered,',
+      '"John ""JD"" Smith",CERT-002,,,,failed,Failed to generate certificate',
+    ]);
+  });
+
+  it('should keep spreadsheets from reading values as formulas', () => {
+    const manifest = buildArchiveManifest([
+      {
+        participant: {
+          name: '=HYPERLINK("http://example.com")',
+          certification_id: '+CERT-003',
+          email: '@example.com',
+        },
+        error: '-1',
+      },
+    ]);
+
+    expect(manifest.split('\r\n')[1]).toBe(
+      `"'=HYPERLINK(""http://example.com"")",'+CERT-003,'@example.com,,,failed,'-1`
+    );
+  });
+});
+
+describe('buildArchiveErrors', () => {
+  it('should return null when nothing failed', () => {
+    expect(
+      buildArchiveErrors([{ participant: jane, path: 'jane.png' }])
+    ).toBeNull();
+  });
+
+  it('should list failed participants', () => {
+    const errors = buildArchiveErrors([
+      { participant: jane, path: 'jane.png' },
+      { participant: john, error: 'Template image not found' },
+    ]);
+
+    expect(errors).toContain('1 certificate could not be generated');
+    expect(errors).toContain(
+      'John "JD" Smith (CERT-002): Template image not found'
+    );
+    expect(errors).not.toContain('Jane Doe');
+  });
+});
@@ -0,0 +1,75 @@
+import { NextRequest } from 'next/server';
+import { GET } from '../../app/api/assets/[assetId]/route';
+import { readAsset } from '../asset-storage';
+
+jest.mock('../asset-storage', () => ({
+  readAsset: jest.fn(),
+}));
+
+const getAsset = (assetId: string, headers: Record<string, string> = {}) =>
+  GET(new NextRequest(`http://localhost/api/assets/${assetId}`, { headers }), {
+    params: { assetId },
+  });
+
+describe('GET /api/assets/[assetId]', () => {
+  it('should serve template images with long-lived caching', async () => {
+    (readAsset as jest.Mock).mockResolvedValue({
+      data: Buffer.from('png'),
+      contentType: 'image/png',
+    });
+
+    const response = await getAsset('template');
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('Content-Type')).toBe('image/png');
+    expect(response.headers.get('Cache-Control')).toContain('immutable');
+  });
+
+  it('should not serve certificate job archives', async () => {
+    (readAsset as jest.Mock).mockResolvedValue({
+      data: Buffer.from('zip'),
+      contentType: 'application/zip',
+    });
+
+    const response = await getAsset('archive');
+
+    expect(response.status).toBe(404);
+  });
+
+  it('should answer revalidations of template images', async () => {
+    (readAsset as jest.Mock).mockResolvedValue({
+      data: Buffer.from('png'),
+      contentType: 'image/png',
+    });
+
+    const response = await getAsset('template', {
+      'If-None-Match': '"template"',
+    });
+
+    expect(response.status).toBe(304);
+  });
+
+  it('should not answer revalidations of certificate job archives', async () => {
+    (readAsset as jest.Mock).mockResolvedValue({
+      data: Buffer.from('zip'),
+      contentType: 'application/zip',
+    });
+
+    const response = await getAsset('archive', {
+      'If-None-Match': '"archive"',
+    });
+
+    expect(response.status).toBe(404);
+  });
+
+  it('should not serve SVG images', async () => {
+    (readAsset as jest.Mock).mockResolvedValue({
+      data: Buffer.from('<svg onload="alert(1)"/>'),
+      contentType: 'image/svg+xml',
+    });
+
+    const response = await getAsset('image');
+
+    expect(response.status).toBe(404);
+  });
+});
@@ -0,0 +1,40 @@
+import {
+  createReissuedCertificationId,
+  isCertificateRevoked,
+} from '../certificate-utils';
+
+describe('certificate-utils', () => {
+  describe('isCertificateRevoked', () => {
+    it('should detect revoked certificates', () => {
+      expect(isCertificateRevoked({ revokedAt: new Date() })).toBe(true);
+      expect(isCertificateRevoked({})).toBe(false);
+    });
+  });
+
+  describe('createReissuedCertificationId', () => {
+    it('should append a revision suffix', () => {
+      expect(createReissuedCertificationId('CERT-001', ['CERT-001'])).toBe(
+        'CERT-001-R1'
+      );
+    });
+
+    it('should skip IDs that are already used', () => {
+      expect(
+        createReissuedCertificationId('CERT-001', [
+          'CERT-001',
+          'CERT-001-R1',
+          'CERT-001-R2',
+        ])
+      ).toBe('CERT-001-R3');
+    });
+
+    it('should continue the sequence when reissuing a reissue', () => {
+      expect(
+        createReissuedCertificationId('CERT-001-R1', [
+          'CERT-001',
+          'CERT-001-R1',
+        ])
+      ).toBe('CERT-001-R2');
+    });
+  });
+});
@@ -0,0 +1,87 @@
+import { ObjectId } from 'mongodb';
+import { verifyCertificate } from '../certificate-verification';
+import { IEvent, IParticipantDocument } from '../types';
+
+// Events and participants kept in memory, with just enough query support for
+// the lookups verification makes
+let events: IEvent[] = [];
+let participants: IParticipantDocument[] = [];
+
+const eventsCollection = {
+  findOne: async (filter: any) =>
+    events.find(
+      (event) =>
+        filter._id.$in.some((id: ObjectId) => id.equals(event._id!)) &&
+        !event.isDeleted
+    ) || null,
+};
+
+const participantsCollection = {
+  find: (filter: any) => ({
+    toArray: async () =>
+      participants.filter(
+        (p) => p.certification_id === filter.certification_id
+      ),
+  }),
+};
+
+jest.mock('../mongodb', () => ({
+  getDatabase: async () => ({
+    collection: (name: string) =>
+      name === 'events' ? eventsCollection : participantsCollection,
+  }),
+}));
+jest.mock('../canvas-utils', () => ({}));
+jest.mock('../certificate-renderer', () => ({}));
+
+const createEvent = (changes: Partial<IEvent> = {}): IEvent =>
+  ({
+    _id: new ObjectId(),
+    title: 'Annual Conference',
+    eventDate: new Date('2025-03-01'),
+    status: 'completed',
+    ...changes,
+  } as IEvent);
+
+describe('verifyCertificate', () => {
+  beforeEach(() => {
+    events = [];
+    participants = [];
+  });
+
+  it('should find participants in the participants collection', async () => {
+    const event = createEvent();
+    events.push(event);
+    participants.push({
+      eventId: event._id!,
+      position: 0,
+      name: 'Jane Doe',
+      certification_id: 'CERT-001',
+    });
+
+    await expect(verifyCertificate('CERT-001')).resolves.toMatchObject({
+      holderName: 'Jane Doe',
+      eventTitle: 'Annual Conference',
+      status: 'valid',
+    });
+  });
+
+  it('should not verify certificates of deleted events', async () => {
+    const event = createEvent({ isDeleted: true });
+    events.push(event);
+    participants.push({
+      eventId: event._id!,
+      position: 0,
+      name: 'Jane Doe',
+      certification_id: 'CERT-001',
+    });
+
+    await expect(verifyCertificate('CERT-001')).resolves.toBeNull();
+  });
+
+  it('should return null for unknown certificates', async () => {
+    events.push(createEvent());
+
+    await expect(verifyCertificate('CERT-404')).resolves.toBeNull();
+  });
+});
@@ -0,0 +1,95 @@
+import { NextRequest } from 'next/server';
+import { ObjectId } from 'mongodb';
+import { POST } from '../../app/api/events/[eventId]/certificates/route';
+import { findAllParticipants } from '../participant-store';
+import { appendCertificates } from '../certificate-archive';
+
+const eventId = new ObjectId().toString();
+const event = {
+  _id: new ObjectId(eventId),
+  title: 'Annual Conference',
+  template: { assetId: 'template' },
+  templateVariants: [],
+};
+
+jest.mock('../mongodb', () => ({
+  getDatabase: async () => ({
+    collection: () => ({ findOne: async () => event }),
+  }),
+}));
+jest.mock('../participant-store', () => ({
+  findAllParticipants: jest.fn(),
+}));
+jest.mock('../certificate-archive', () => {
+  const { PassThrough } = jest.requireActual('stream');
+  return {
+    createCertificateArchive: () =>
+      Object.assign(new PassThrough(), { finalize: jest.fn() }),
+    appendCertificates: jest.fn(),
+  };
+});
+
+const download = (fields: [string, string][]) => {
+  const form = new FormData();
+  fields.forEach(([name, value]) => form.append(name, value));
+  return POST(
+    new NextRequest(`http://localhost/api/events/${eventId}/certificates`, {
+      method: 'POST',
+      body: form,
+    }),
+    { params: { eventId } }
+  );
+};
+
+describe('POST /api/events/[eventId]/certificates', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (findAllParticipants as jest.Mock).mockResolvedValue([
+      { name: 'Jane Doe', certification_id: 'CERT-001' },
+    ]);
+    (appendCertificates as jest.Mock).mockResolvedValue(1);
+  });
+
+  it('should apply the search and filters of the participant table', async () => {
+    const response = await download([
+      ['search', 'jane'],
+      ['emailStatus', 'sent'],
+      ['templateVariantId', 'default'],
+    ]);
+
+    expect(response.status).toBe(200);
+    expect(findAllParticipants).toHaveBeenCalledWith(
+      eventId,
+      {
+        search: 'jane',
+        emailStatus: 'sent',
+        missingEmail: false,
+        templateVariantId: 'default',
+      },
+      [],
+      undefined
+    );
+  });
+
+  it('should only include the selected participants', async () => {
+    await download([
+      ['ids', 'CERT-001'],
+      ['ids', 'CERT-002'],
+      ['missingEmail', 'true'],
+    ]);
+
+    expect(findAllParticipants).toHaveBeenCalledWith(
+      eventId,
+      expect.objectContaining({ missingEmail: true }),
+      [],
+      ['CERT-001', 'CERT-002']
+    );
+  });
+
+  it('should reject unknown email statuses', async () => {
+    const response = await download([['emailStatus', 'opened']]);
+
+    expect(response.status).toBe(400);
+    expect(findAllParticipants).not.toHaveBeenCalled();
+  });
+});
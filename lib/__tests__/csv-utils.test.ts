@@ -0,0 +1,169 @@
+import {
+  decodeCSVBuffer,
+  detectDelimiter,
+  getMappingErrors,
+  mapCSVRecipients,
+  parseCSV,
+  readCSVTable,
+  suggestColumnMapping,
+} from '../csv-utils';
+
+describe('parseCSV', () => {
+  it('should keep extra columns as custom fields', () => {
+    const recipients = parseCSV(
+      'Name,certification_id,email,Company,Hours\n' +
+        'John Doe,CERT-001,john@example.com,"Acme, Inc.",12\n' +
+        'Jane Smith,CERT-002,jane@example.com,,8'
+    );
+
+    expect(recipients[0]).toEqual({
+      name: 'John Doe',
+      certification_id: 'CERT-001',
+      email: 'john@example.com',
+      fields: { Company: 'Acme, Inc.', Hours: '12' },
+    });
+    expect(recipients[1].fields).toEqual({ Company: '', Hours: '8' });
+  });
+
+  it('should report every invalid row instead of skipping it', () => {
+    expect(() =>
+      parseCSV(
+        'name,certification_id,email\n' +
+          ',CERT-001,\n' +
+          'Jane Smith,CERT-002,\n' +
+          'John Doe,CERT-002,'
+      )
+    ).toThrow(
+      'Invalid participant data: Row 2: Name is required; Row 4: Duplicate certification ID "CERT-002" (first used in row 3)'
+    );
+  });
+
+  it('should skip invalid rows when asked to', () => {
+    const recipients = parseCSV(
+      'name,certification_id,email\n' +
+        ',CERT-001,\n' +
+        'Jane Smith,CERT-002,\n' +
+        'John Doe,CERT-002,\n' +
+        'Ana Lima,CERT-003,',
+      { invalidRows: 'skip' }
+    );
+
+    expect(recipients.map((r) => r.certification_id)).toEqual([
+      'CERT-002',
+      'CERT-003',
+    ]);
+  });
+
+  it('should still fail when every row is skipped', () => {
+    expect(() =>
+      parseCSV('name,certification_id,email\n,CERT-001,', {
+        invalidRows: 'skip',
+      })
+    ).toThrow('No valid recipient data found in CSV file');
+  });
+
+  it('should read the template column into the template key', () => {
+    const [recipient] = parseCSV(
+      'name,certification_id,email,Role\nJohn Doe,CERT-001,,Speaker',
+      { templateField: 'role' }
+    );
+
+    expect(recipient.templateKey).toBe('Speaker');
+    expect(recipient.fields).toBeUndefined();
+  });
+});
+
+describe('CSV dialect detection', () => {
+  it('should detect semicolon and tab delimiters', () => {
+    expect(detectDelimiter('name;certification_id;email\nJohn;C1;"a;b"')).toBe(
+      ';'
+    );
+    expect(detectDelimiter('name\tcertification_id\nJohn, Jr.\tC1')).toBe('\t');
+    expect(detectDelimiter('name')).toBe(',');
+  });
+
+  it('should read files with a BOM and CRLF line endings', () => {
+    const table = readCSVTable(
+      '\uFEFFname;certification_id;email\r\nJohn Doe;CERT-001;john@example.com\r\n'
+    );
+
+    expect(table.delimiter).toBe(';');
+    expect(table.headers).toEqual(['name', 'certification_id', 'email']);
+    expect(table.rows).toEqual([['John Doe', 'CERT-001', 'john@example.com']]);
+  });
+
+  it('should decode UTF-16 and fall back to Windows-1252', () => {
+    const utf16 = new Uint8Array([0xff, 0xfe, 0x61, 0x00, 0xe9, 0x00]);
+    expect(decodeCSVBuffer(utf16)).toEqual({
+      content: 'a\u00e9',
+      encoding: 'utf-16le',
+    });
+
+    const latin1 = new Uint8Array([0x52, 0x65, 0x6e, 0xe9]);
+    expect(decodeCSVBuffer(latin1)).toEqual({
+      content: 'Ren\u00e9',
+      encoding: 'windows-1252',
+    });
+  });
+});
+
+describe('CSV column mapping', () => {
+  it('should suggest targets from header names and the saved mapping', () => {
+    const columns = suggestColumnMapping(
+      ['Full Name', 'ID', 'Mail', 'Ticket', 'Company'],
+      {
+        savedMapping: {
+          columns: [{ source: 'ticket', target: 'ignore' }],
+        },
+      }
+    );
+
+    expect(columns.map((column) => column.target)).toEqual([
+      'name',
+      'certification_id',
+      'email',
+      'ignore',
+      'field',
+    ]);
+  });
+
+  it('should report unmapped and duplicate targets', () => {
+    expect(
+      getMappingErrors([
+        { source: 'A', target: 'name' },
+        { source: 'B', target: 'name' },
+      ])
+    ).toEqual([
+      'Map a column to Certification ID',
+      'Map a column to Email',
+      'Only one column can be mapped to Name',
+    ]);
+  });
+
+  it('should build participants from a custom mapping', () => {
+    const [recipient] = mapCSVRecipients(
+      { rows: [['CERT-001', 'John Doe', 'Speaker', 'x', 'Acme']] },
+      [
+        { source: 'Code', target: 'certification_id' },
+        { source: 'Attendee', target: 'name' },
+        { source: 'Role', target: 'template' },
+        { source: 'Notes', target: 'ignore' },
+        { source: 'Company', target: 'field' },
+      ]
+    );
+
+    expect(recipient).toEqual({
+      name: 'John Doe',
+      certification_id: 'CERT-001',
+      email: '',
+      templateKey: 'Speaker',
+      fields: { Company: 'Acme' },
+    });
+  });
+
+  it('should keep requiring the built-in column names in parseCSV', () => {
+    expect(() => parseCSV('Full Name,ID,Mail\nJohn,C1,j@example.com')).toThrow(
+      'CSV file must contain "name", "certification_id" and "email" columns'
+    );
+  });
+});
@@ -153,7 +153,7 @@ describe('EmailService', () => {
           text: expect.stringContaining('Hello John Doe'),
           attachments: [
             expect.objectContaining({
-              filename: 'CERT-001-certificate.png',
+              filename: 'certificate_John_Doe_CERT-001.png',
               content: certificateBuffer,
               contentType: 'image/png',
             }),
@@ -161,6 +161,77 @@ describe('EmailService', () => {
         })
       );
     });
+
+    it('should attach a PDF when the output format is PDF', async () => {
+      const template: IEmailTemplate = {
+        subject: 'Your Certificate - {eventTitle}',
+        html: '<p>Hello {participantName}</p>',
+        text: 'Hello {participantName}',
+      };
+
+      const certificateBuffer = Buffer.from('fake-pdf-data');
+
+      mockTransporter.sendMail.mockResolvedValue({
+        messageId: 'test-message-id',
+      });
+
+      await emailService.sendCertificateEmail(
+        'recipient@test.com',
+        'John Doe',
+        'Test Event',
+        'CERT-001',
+        certificateBuffer,
+        template,
+        'pdf-vector'
+      );
+
+      expect(mockTransporter.sendMail).toHaveBeenCalledWith(
+        expect.objectContaining({
+          attachments: [
+            expect.objectContaining({
+              filename: 'certificate_John_Doe_CERT-001.pdf',
+              contentType: 'application/pdf',
+            }),
+          ],
+        })
+      );
+    });
+
+    it('should fill custom participant fields', async () => {
+      const template: IEmailTemplate = {
+        subject: '{course} certificate for {participantName}',
+        html: '<p>Issued to {company}</p>',
+        text: 'Issued to {company} for {hours (total)} hours',
+      };
+
+      mockTransporter.sendMail.mockResolvedValue({
+        messageId: 'test-message-id',
+      });
+
+      await emailService.sendCertificateEmail(
+        'recipient@test.com',
+        'John Doe',
+        'Test Event',
+        'CERT-001',
+        Buffer.from('fake-certificate-data'),
+        template,
+        'png',
+        {
+          course: 'Advanced TypeScript',
+          company: 'Smith & Sons',
+          'hours (total)': '12',
+          participantName: 'Not John',
+        }
+      );
+
+      expect(mockTransporter.sendMail).toHaveBeenCalledWith(
+        expect.objectContaining({
+          subject: 'Advanced TypeScript certificate for John Doe',
+          html: '<p>Issued to Smith &amp; Sons</p>',
+          text: 'Issued to Smith & Sons for 12 hours',
+        })
+      );
+    });
   });
 
   describe('testConnection', () => {
@@ -0,0 +1,114 @@
+import {
+  buildCertificateFilename,
+  createFilenameDeduplicator,
+  sanitizeFilename,
+} from '../filename-pattern';
+
+const event = {
+  title: 'Data Science Bootcamp',
+  eventDate: new Date('2025-03-15T12:00:00Z'),
+};
+
+const recipient = {
+  name: 'Jane Doe',
+  certification_id: 'CERT-001',
+  fields: { company: 'Acme' },
+};
+
+describe('sanitizeFilename', () => {
+  it('should keep letters of every script', () => {
+    expect(sanitizeFilename('Иван Петров')).toBe('Иван_Петров');
+    expect(sanitizeFilename('王小明')).toBe('王小明');
+    expect(sanitizeFilename('José Müller')).toBe('José_Müller');
+  });
+
+  it('should remove reserved characters', () => {
+    expect(sanitizeFilename('a/b\\c:d*e?f"g<h>i|j')).toBe('abcdefghij');
+  });
+
+  it('should not start with a dot', () => {
+    expect(sanitizeFilename('../secret')).toBe('secret');
+  });
+
+  it('should avoid Windows device names', () => {
+    expect(sanitizeFilename('CON')).toBe('CON_');
+    expect(sanitizeFilename('Connor')).toBe('Connor');
+  });
+});
+
+describe('buildCertificateFilename', () => {
+  it('should use the default pattern', () => {
+    expect(buildCertificateFilename(event, recipient, 'png')).toBe(
+      'certificate_Jane_Doe_CERT-001.png'
+    );
+  });
+
+  it('should fill event and custom field placeholders', () => {
+    expect(
+      buildCertificateFilename(
+        { ...event, filenamePattern: '{eventTitle} - {company} - {name}' },
+        recipient,
+        'pdf'
+      )
+    ).toBe('Data_Science_Bootcamp_-_Acme_-_Jane_Doe.pdf');
+  });
+
+  it('should keep non-ASCII names', () => {
+    expect(
+      buildCertificateFilename(
+        { ...event, filenamePattern: '{name}' },
+        { ...recipient, name: '李雷' },
+        'png'
+      )
+    ).toBe('李雷.png');
+  });
+
+  it('should not let values add folders', () => {
+    expect(
+      buildCertificateFilename(
+        { ...event, filenamePattern: '{name}' },
+        { ...recipient, name: '../../etc/passwd' },
+        'png'
+      )
+    ).toBe('etcpasswd.png');
+  });
+
+  it('should drop unknown placeholders', () => {
+    expect(
+      buildCertificateFilename(
+        { ...event, filenamePattern: '{certification_id}{missing}' },
+        recipient,
+        'png'
+      )
+    ).toBe('CERT-001.png');
+  });
+
+  it('should fall back to the certification ID when the name is empty', () => {
+    expect(
+      buildCertificateFilename(
+        { ...event, filenamePattern: '{name}' },
+        { ...recipient, name: '***' },
+        'png'
+      )
+    ).toBe('CERT-001.png');
+  });
+
+  it('should limit the length without splitting characters', () => {
+    const filename = buildCertificateFilename(
+      { ...event, filenamePattern: '{name}' },
+      { ...recipient, name: '😀'.repeat(200) },
+      'png'
+    );
+    expect(filename).toBe(`${'😀'.repeat(120)}.png`);
+  });
+});
+
+describe('createFilenameDeduplicator', () => {
+  it('should number repeated names', () => {
+    const uniqueFilename = createFilenameDeduplicator();
+    expect(uniqueFilename('jane.png')).toBe('jane.png');
+    expect(uniqueFilename('jane.png')).toBe('jane_2.png');
+    expect(uniqueFilename('Jane.png')).toBe('Jane_3.png');
+    expect(uniqueFilename('john.png')).toBe('john.png');
+  });
+});
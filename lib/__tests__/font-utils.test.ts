@@ -0,0 +1,47 @@
+import {
+  createFontFamilyName,
+  getFontExtension,
+  getFontFormat,
+} from '../font-utils';
+
+describe('font-utils', () => {
+  describe('getFontFormat', () => {
+    it('should detect supported font formats', () => {
+      expect(getFontFormat('Roboto-Regular.ttf')).toBe('truetype');
+      expect(getFontFormat('Garamond.OTF')).toBe('opentype');
+      expect(getFontFormat('script.woff')).toBe('woff');
+    });
+
+    it('should reject unsupported files', () => {
+      expect(getFontFormat('font.woff2')).toBeNull();
+      expect(getFontFormat('template.png')).toBeNull();
+    });
+  });
+
+  describe('getFontExtension', () => {
+    it('should map formats back to file extensions', () => {
+      expect(getFontExtension('truetype')).toBe('ttf');
+      expect(getFontExtension('opentype')).toBe('otf');
+      expect(getFontExtension('woff')).toBe('woff');
+    });
+  });
+
+  describe('createFontFamilyName', () => {
+    it('should derive the family from the file name', () => {
+      expect(createFontFamilyName('Great_Vibes-Regular.ttf', [])).toBe(
+        'Great_Vibes-Regular'
+      );
+    });
+
+    it('should avoid clashing with system and event fonts', () => {
+      expect(createFontFamilyName('Arial.ttf', [])).toBe('Arial 2');
+      expect(
+        createFontFamilyName('Signature.otf', ['Signature', 'Signature 2'])
+      ).toBe('Signature 3');
+    });
+
+    it('should strip quotes and keep non-ASCII letters', () => {
+      expect(createFontFamilyName('"Ünïcode".woff', [])).toBe('Ünïcode');
+    });
+  });
+});
@@ -0,0 +1,71 @@
+import { NextRequest } from 'next/server';
+import { POST } from '../../app/api/generate-certificates/route';
+import { appendCertificates } from '../certificate-archive';
+
+jest.mock('../certificate-archive', () => {
+  const { PassThrough } = jest.requireActual('stream');
+  return {
+    createCertificateArchive: () =>
+      Object.assign(new PassThrough(), { finalize: jest.fn() }),
+    appendCertificates: jest.fn(),
+  };
+});
+
+const generate = (body: Record<string, unknown>) =>
+  POST(
+    new NextRequest('http://localhost/api/generate-certificates', {
+      method: 'POST',
+      body: JSON.stringify(body),
+    })
+  );
+
+describe('POST /api/generate-certificates', () => {
+  const template = Buffer.from('template');
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (appendCertificates as jest.Mock).mockResolvedValue(2);
+    global.fetch = jest.fn(async () => new Response(template)) as any;
+  });
+
+  it('should stream the certificates of every recipient', async () => {
+    const response = await generate({
+      templateUrl: '/api/assets/template',
+      csvData: [
+        'name,certification_id,email',
+        'Jane Doe,CERT-001,jane@example.com',
+        'John Smith,CERT-002,john@example.com',
+      ].join('\n'),
+      nameConfig: { x: 0, y: 0 },
+      idConfig: { x: 0, y: 0 },
+      eventTitle: 'Annual Conference',
+    });
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('Content-Type')).toBe('application/zip');
+    expect(response.headers.get('Content-Length')).toBeNull();
+
+    const [, event, recipients] = (appendCertificates as jest.Mock).mock
+      .calls[0];
+    expect(event).toMatchObject({
+      title: 'Annual Conference',
+      outputFormat: 'png',
+      template: { base64: template.toString('base64') },
+    });
+    expect(recipients.map((r: any) => r.certification_id)).toEqual([
+      'CERT-001',
+      'CERT-002',
+    ]);
+  });
+
+  it('should reject requests without recipients', async () => {
+    const response = await generate({
+      templateUrl: '/api/assets/template',
+      nameConfig: { x: 0, y: 0 },
+      idConfig: { x: 0, y: 0 },
+    });
+
+    expect(response.status).toBe(400);
+    expect(appendCertificates).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,60 @@
+import {
+  getImageLayerKey,
+  isPngData,
+  isPointInImageLayer,
+  parseImageLayerKey,
+  resizeImageLayerToPoint,
+} from '../image-layers';
+import { IImageLayer } from '../types';
+
+const layer: IImageLayer = {
+  id: 'abc',
+  label: 'Signature',
+  base64: '',
+  x: 100,
+  y: 100,
+  width: 80,
+  height: 40,
+  opacity: 1,
+  rotation: 0,
+};
+
+describe('image-layers', () => {
+  describe('layer keys', () => {
+    it('should round-trip layer ids through selection keys', () => {
+      expect(parseImageLayerKey(getImageLayerKey('abc'))).toBe('abc');
+      expect(parseImageLayerKey('name')).toBeNull();
+    });
+  });
+
+  describe('isPointInImageLayer', () => {
+    it('should hit-test against the rotated layer', () => {
+      expect(isPointInImageLayer(layer, 135, 100)).toBe(true);
+      expect(isPointInImageLayer(layer, 100, 125)).toBe(false);
+
+      const rotated = { ...layer, rotation: 90 };
+      expect(isPointInImageLayer(rotated, 100, 135)).toBe(true);
+      expect(isPointInImageLayer(rotated, 135, 100)).toBe(false);
+    });
+  });
+
+  describe('resizeImageLayerToPoint', () => {
+    it('should keep the aspect ratio', () => {
+      expect(resizeImageLayerToPoint(layer, 160, 110)).toEqual({
+        width: 120,
+        height: 60,
+      });
+    });
+  });
+
+  describe('isPngData', () => {
+    it('should only accept data with the PNG signature', () => {
+      const png = Buffer.from([
+        0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0, 0,
+      ]).toString('base64');
+
+      expect(isPngData(png)).toBe(true);
+      expect(isPngData(Buffer.from('GIF89a').toString('base64'))).toBe(false);
+    });
+  });
+});
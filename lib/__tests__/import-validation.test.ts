@@ -0,0 +1,115 @@
+import {
+  createNameFitCheck,
+  formatImportIssues,
+  getRowsWithErrors,
+  IImportRow,
+  validateImportRows,
+} from '../import-validation';
+import { IEvent, ITextConfig } from '../types';
+
+const createRow = (
+  row: number,
+  name: string,
+  certification_id: string,
+  email = ''
+): IImportRow => ({ row, participant: { name, certification_id, email } });
+
+describe('validateImportRows', () => {
+  it('should report every problem with its row number', () => {
+    const issues = validateImportRows(
+      [
+        createRow(2, 'John Doe', 'CERT-001', 'john@example.com'),
+        createRow(3, ' ', 'CERT-002'),
+        createRow(4, 'Jane Smith', 'CERT-001', 'jane@example'),
+        createRow(5, 'Bob Johnson', 'CERT-003', 'bob@mailinator.com'),
+      ],
+      { checkEmails: true }
+    );
+
+    expect(issues).toEqual([
+      {
+        row: 3,
+        field: 'name',
+        severity: 'error',
+        message: 'Name is required',
+      },
+      {
+        row: 4,
+        field: 'certification_id',
+        severity: 'error',
+        message: 'Duplicate certification ID "CERT-001" (first used in row 2)',
+      },
+      {
+        row: 4,
+        field: 'email',
+        severity: 'error',
+        message: 'Invalid email format',
+      },
+      {
+        row: 5,
+        field: 'email',
+        severity: 'warning',
+        message:
+          'Email address uses a disposable email service: mailinator.com',
+      },
+    ]);
+    expect(Array.from(getRowsWithErrors(issues))).toEqual([3, 4]);
+    expect(formatImportIssues(issues, 2)).toBe(
+      'Row 3: Name is required; Row 4: Duplicate certification ID "CERT-001" (first used in row 2); and 2 more'
+    );
+  });
+});
+
+describe('createNameFitCheck', () => {
+  // Every character is half the font size wide
+  const ctx = {
+    font: '20px "Arial"',
+    measureText(text: string) {
+      return { width: text.length * parseFloat(this.font) * 0.5 };
+    },
+  };
+  const nameConfig: ITextConfig = {
+    x: 0,
+    y: 0,
+    fontFamily: 'Arial',
+    fontSize: 20,
+    color: '#000000',
+    textAlign: 'center',
+    maxWidth: 100,
+    overflow: 'truncate',
+  };
+  const event = {
+    template: { base64: '', originalName: '', uploadedAt: '' },
+    nameConfig,
+    idConfig: nameConfig,
+    templateVariants: [],
+  } as unknown as IEvent;
+
+  it('should flag names the name box would cut off', () => {
+    const nameFits = createNameFitCheck(event, ctx);
+    const participant = { certification_id: 'CERT-001', email: '' };
+
+    expect(nameFits({ ...participant, name: 'Ann Lee' })).toBe(true);
+    expect(
+      nameFits({ ...participant, name: 'Maximilian Alexander Fitzgerald' })
+    ).toBe(false);
+  });
+
+  it('should accept names that shrink or wrap to fit', () => {
+    const shrinkEvent = {
+      ...event,
+      nameConfig: { ...nameConfig, overflow: 'shrink', minFontSize: 8 },
+    } as IEvent;
+    const wrapEvent = {
+      ...event,
+      nameConfig: { ...nameConfig, overflow: 'wrap' },
+    } as IEvent;
+    const participant = {
+      name: 'Maximilian Fitzgerald',
+      certification_id: 'CERT-001',
+    };
+
+    expect(createNameFitCheck(shrinkEvent, ctx)(participant)).toBe(true);
+    expect(createNameFitCheck(wrapEvent, ctx)(participant)).toBe(true);
+  });
+});
@@ -0,0 +1,54 @@
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Readable } from 'stream';
+import { createLocalAssetStorage } from '../local-asset-storage';
+
+describe('createLocalAssetStorage', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'assets-'));
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('should store, read and delete assets', async () => {
+    const storage = createLocalAssetStorage(join(directory, 'nested'));
+    const asset = { data: Buffer.from('png-data'), contentType: 'image/png' };
+
+    await storage.put('a1b2c3', asset);
+    expect(await storage.get('a1b2c3')).toEqual(asset);
+
+    await storage.delete('a1b2c3');
+    expect(await storage.get('a1b2c3')).toBeNull();
+    // Deleting a missing asset is not an error
+    await expect(storage.delete('a1b2c3')).resolves.toBeUndefined();
+  });
+
+  it('should stream assets in and out', async () => {
+    const storage = createLocalAssetStorage(directory);
+
+    await storage.putStream(
+      'archive',
+      Readable.from([Buffer.from('zip-'), Buffer.from('data')]),
+      'application/zip'
+    );
+    const asset = await storage.getStream('archive');
+    expect(asset).toMatchObject({ contentType: 'application/zip', size: 8 });
+
+    const chunks: Buffer[] = [];
+    for await (const chunk of asset!.stream) {
+      chunks.push(chunk);
+    }
+    expect(Buffer.concat(chunks).toString()).toBe('zip-data');
+  });
+
+  it('should refuse IDs that leave the directory', async () => {
+    const storage = createLocalAssetStorage(directory);
+
+    await expect(storage.get('../secrets')).rejects.toThrow('Invalid asset ID');
+  });
+});
@@ -0,0 +1,28 @@
+import {
+  getParticipantFieldNames,
+  validateFieldName,
+} from '../participant-fields';
+
+describe('participant-fields', () => {
+  describe('getParticipantFieldNames', () => {
+    it('should list field names in first-seen order', () => {
+      expect(
+        getParticipantFieldNames([
+          { fields: { company: 'Acme', hours: '12' } },
+          {},
+          { fields: { course: 'TypeScript', company: 'Globex' } },
+        ])
+      ).toEqual(['company', 'hours', 'course']);
+    });
+  });
+
+  describe('validateFieldName', () => {
+    it('should reject empty, reserved, braced and duplicate names', () => {
+      expect(validateFieldName('  ', [])).not.toBeNull();
+      expect(validateFieldName('Email', [])).not.toBeNull();
+      expect(validateFieldName('{score}', [])).not.toBeNull();
+      expect(validateFieldName('Company', ['company'])).not.toBeNull();
+      expect(validateFieldName('score', ['company'])).toBeNull();
+    });
+  });
+});
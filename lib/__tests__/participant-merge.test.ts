@@ -0,0 +1,99 @@
+import { diffParticipants, mergeParticipants } from '../participant-merge';
+import { IRecipientData } from '../types';
+
+describe('participant merge', () => {
+  const sentAt = new Date('2024-01-01T10:00:00Z');
+  const existing: IRecipientData[] = [
+    {
+      name: 'Jon Doe',
+      certification_id: 'CERT-001',
+      email: 'john@example.com',
+      fields: { Company: 'Acme' },
+      emailStatus: 'sent',
+      lastEmailSent: sentAt,
+      emailRetryCount: 1,
+    },
+    {
+      name: 'Jane Smith',
+      certification_id: 'CERT-002',
+      email: 'jane@example.com',
+    },
+    { name: 'Bob Johnson', certification_id: 'CERT-003', email: '' },
+  ];
+
+  it('should classify added, updated, unchanged and missing rows', () => {
+    const diff = diffParticipants(
+      existing,
+      [
+        {
+          name: 'John Doe',
+          certification_id: 'CERT-001',
+          email: 'john@example.com',
+          fields: { Company: '' },
+        },
+        {
+          name: 'Jane Smith',
+          certification_id: 'CERT-002',
+          email: 'jane@example.com',
+        },
+        { name: 'Ann Lee', certification_id: 'CERT-004', email: '' },
+      ],
+      'certification_id'
+    );
+
+    expect(diff.added.map((p) => p.certification_id)).toEqual(['CERT-004']);
+    expect(diff.unchanged.map((p) => p.certification_id)).toEqual(['CERT-002']);
+    expect(diff.missing.map((p) => p.certification_id)).toEqual(['CERT-003']);
+    expect(diff.updated).toHaveLength(1);
+    // Empty cells keep the existing value
+    expect(diff.updated[0].changes).toEqual([
+      { field: 'name', before: 'Jon Doe', after: 'John Doe' },
+    ]);
+  });
+
+  it('should keep delivery history and optionally remove missing rows', () => {
+    const incoming: IRecipientData[] = [
+      {
+        name: 'John Doe',
+        certification_id: 'CERT-101',
+        email: 'JOHN@example.com',
+        fields: { Hours: '8' },
+      },
+      { name: 'Ann Lee', certification_id: 'CERT-004', email: '' },
+    ];
+
+    const merged = mergeParticipants(existing, incoming, {
+      matchBy: 'email',
+      removeMissing: true,
+    });
+
+    expect(merged).toEqual([
+      {
+        name: 'John Doe',
+        certification_id: 'CERT-101',
+        email: 'JOHN@example.com',
+        fields: { Company: 'Acme', Hours: '8' },
+        emailStatus: 'sent',
+        lastEmailSent: sentAt,
+        emailRetryCount: 1,
+      },
+      { name: 'Ann Lee', certification_id: 'CERT-004', email: '' },
+    ]);
+    expect(
+      mergeParticipants(existing, incoming, {
+        matchBy: 'email',
+        removeMissing: false,
+      })
+    ).toHaveLength(4);
+  });
+
+  it('should reject merges that duplicate a certification ID', () => {
+    expect(() =>
+      mergeParticipants(
+        existing,
+        [{ name: 'Someone Else', certification_id: 'CERT-002', email: '' }],
+        { matchBy: 'email', removeMissing: false }
+      )
+    ).toThrow('Duplicate certification_id found: "CERT-002"');
+  });
+});
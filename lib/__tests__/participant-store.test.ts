@@ -0,0 +1,155 @@
+import { ObjectId } from 'mongodb';
+import {
+  assertUniqueCertificationIds,
+  copyEventParticipants,
+  replaceParticipants,
+} from '../participant-store';
+import { IParticipantDocument } from '../types';
+
+// A participants collection with the unique index on event and
+// certification ID, kept in memory
+let documents: IParticipantDocument[] = [];
+
+const matches = (document: IParticipantDocument, filter: any) =>
+  document.eventId.equals(filter.eventId);
+
+const collection = {
+  find: jest.fn((filter: any) => {
+    const found = documents
+      .filter((document) => matches(document, filter))
+      .sort((a, b) => a.position - b.position);
+    return {
+      hasNext: async () => found.length > 0,
+      next: async () => {
+        const { _id, ...document } = found.shift() as any;
+        return document;
+      },
+    };
+  }),
+  insertMany: jest.fn(async (inserted: IParticipantDocument[]) => {
+    for (const document of inserted) {
+      if (
+        documents.some(
+          (existing) =>
+            existing.eventId.equals(document.eventId) &&
+            existing.certification_id === document.certification_id
+        )
+      ) {
+        throw new Error('E11000 duplicate key error');
+      }
+      documents.push({ ...document });
+    }
+  }),
+  deleteMany: jest.fn(async (filter: any) => {
+    documents = documents.filter((document) => !matches(document, filter));
+  }),
+  updateMany: jest.fn(async (filter: any, update: any) => {
+    documents
+      .filter((document) => matches(document, filter))
+      .forEach((document) => Object.assign(document, update.$set));
+  }),
+};
+
+jest.mock('../mongodb', () => ({
+  getDatabase: async () => ({ collection: () => collection }),
+}));
+
+describe('replaceParticipants', () => {
+  const eventId = new ObjectId();
+  const existing = [
+    { name: 'Jane Doe', certification_id: 'CERT-001' },
+    { name: 'John Smith', certification_id: 'CERT-002' },
+  ];
+
+  const eventParticipants = () =>
+    documents
+      .filter((document) => document.eventId.equals(eventId))
+      .map(({ name, certification_id }) => ({ name, certification_id }));
+
+  beforeEach(async () => {
+    documents = [];
+    await replaceParticipants(eventId.toString(), existing);
+    jest.clearAllMocks();
+  });
+
+  it('should replace the participants of the event', async () => {
+    await replaceParticipants(eventId.toString(), [
+      { name: 'Ana Lima', certification_id: 'CERT-001' },
+    ]);
+
+    expect(eventParticipants()).toEqual([
+      { name: 'Ana Lima', certification_id: 'CERT-001' },
+    ]);
+    expect(documents).toHaveLength(1);
+  });
+
+  it('should reject duplicate IDs without deleting anything', async () => {
+    await expect(
+      replaceParticipants(eventId.toString(), [
+        { name: 'Ana Lima', certification_id: 'CERT-003' },
+        { name: 'Bo Chen', certification_id: 'CERT-003' },
+      ])
+    ).rejects.toThrow('Duplicate certification ID: CERT-003');
+
+    expect(collection.deleteMany).not.toHaveBeenCalled();
+    expect(eventParticipants()).toEqual(existing);
+  });
+
+  it('should keep the current participants when the insert fails', async () => {
+    collection.insertMany.mockRejectedValueOnce(new Error('Insert failed'));
+
+    await expect(
+      replaceParticipants(eventId.toString(), [
+        { name: 'Ana Lima', certification_id: 'CERT-003' },
+      ])
+    ).rejects.toThrow('Insert failed');
+
+    expect(eventParticipants()).toEqual(existing);
+    expect(documents).toHaveLength(2);
+  });
+});
+
+describe('copyEventParticipants', () => {
+  it('should copy the participants in order and keep the originals', async () => {
+    const sourceId = new ObjectId();
+    const targetId = new ObjectId();
+    documents = [
+      {
+        eventId: sourceId,
+        position: 1,
+        name: 'John Smith',
+        certification_id: 'CERT-002',
+      },
+      {
+        eventId: sourceId,
+        position: 0,
+        name: 'Jane Doe',
+        certification_id: 'CERT-001',
+        emailStatus: 'sent',
+      },
+    ];
+
+    await copyEventParticipants(sourceId.toString(), targetId.toString());
+
+    const copies = documents.filter((document) =>
+      document.eventId.equals(targetId)
+    );
+    expect(copies.map((p) => [p.certification_id, p.position])).toEqual([
+      ['CERT-001', 0],
+      ['CERT-002', 1],
+    ]);
+    expect(copies[0].emailStatus).toBe('sent');
+    expect(documents).toHaveLength(4);
+  });
+});
+
+describe('assertUniqueCertificationIds', () => {
+  it('should accept distinct IDs', () => {
+    expect(() =>
+      assertUniqueCertificationIds([
+        { certification_id: 'A' },
+        { certification_id: 'B' },
+      ])
+    ).not.toThrow();
+  });
+});
@@ -0,0 +1,162 @@
+import {
+  computePrintLayout,
+  fitPrintSlot,
+  getCropMarks,
+  PRINT_PAPER_SIZES,
+  sortPrintParticipants,
+} from '../print-layout';
+import { IPrintOptions, IRecipientData } from '../types';
+
+const options: IPrintOptions = {
+  paperSize: 'a4',
+  perPage: 1,
+  cropMarks: false,
+  bleed: 0,
+};
+
+const participant = (
+  name: string,
+  certification_id: string,
+  fields?: Record<string, string>
+): IRecipientData => ({ name, certification_id, fields });
+
+describe('computePrintLayout', () => {
+  it('turns A4 to landscape for a landscape certificate', () => {
+    const layout = computePrintLayout(options, 1754, 1240);
+
+    expect(layout.pageWidth).toBe(PRINT_PAPER_SIZES.a4.height);
+    expect(layout.pageHeight).toBe(PRINT_PAPER_SIZES.a4.width);
+    expect(layout.slots).toHaveLength(1);
+  });
+
+  it('keeps the certificate proportions and centers it', () => {
+    const { pageWidth, pageHeight, slots } = computePrintLayout(
+      { ...options, paperSize: 'letter' },
+      1000,
+      700
+    );
+    const { trim } = slots[0];
+
+    expect(trim.width / trim.height).toBeCloseTo(1000 / 700);
+    expect(trim.x * 2 + trim.width).toBeCloseTo(pageWidth);
+    expect(trim.y * 2 + trim.height).toBeCloseTo(pageHeight);
+  });
+
+  it('stacks two landscape certificates on a portrait sheet', () => {
+    const layout = computePrintLayout({ ...options, perPage: 2 }, 1754, 1240);
+    const [top, bottom] = layout.slots;
+
+    expect(layout.pageHeight).toBeGreaterThan(layout.pageWidth);
+    expect(layout.slots).toHaveLength(2);
+    expect(bottom.trim.y).toBeGreaterThan(top.trim.y + top.trim.height);
+    expect(bottom.trim.x).toBeCloseTo(top.trim.x);
+  });
+
+  it('extends the bleed area past the trim edge', () => {
+    const { slots } = computePrintLayout({ ...options, bleed: 3 }, 1754, 1240);
+    const { trim, bleed } = slots[0];
+    const bleedPoints = (3 * 72) / 25.4;
+
+    expect(bleed.x).toBeCloseTo(trim.x - bleedPoints);
+    expect(bleed.width).toBeCloseTo(trim.width + 2 * bleedPoints);
+  });
+
+  it('leaves room for crop marks on the page', () => {
+    const plain = computePrintLayout(options, 1754, 1240);
+    const marked = computePrintLayout(
+      { ...options, cropMarks: true, bleed: 3 },
+      1754,
+      1240
+    );
+    const lines = getCropMarks(marked.slots[0], {
+      ...options,
+      cropMarks: true,
+      bleed: 3,
+    });
+
+    expect(marked.slots[0].trim.width).toBeLessThan(plain.slots[0].trim.width);
+    expect(lines).toHaveLength(8);
+    lines.forEach(({ x1, y1, x2, y2 }) => {
+      [x1, x2].forEach((x) => {
+        expect(x).toBeGreaterThanOrEqual(0);
+        expect(x).toBeLessThanOrEqual(marked.pageWidth);
+      });
+      [y1, y2].forEach((y) => {
+        expect(y).toBeGreaterThanOrEqual(0);
+        expect(y).toBeLessThanOrEqual(marked.pageHeight);
+      });
+    });
+  });
+});
+
+describe('getCropMarks', () => {
+  it('lines marks up with the trim edges outside the bleed', () => {
+    const slot = {
+      trim: { x: 100, y: 100, width: 200, height: 100 },
+      bleed: { x: 100, y: 100, width: 200, height: 100 },
+    };
+    const lines = getCropMarks(slot, options);
+
+    // Top left corner: a horizontal mark left of the corner and a vertical
+    // one above it
+    expect(lines[0].y1).toBe(100);
+    expect(lines[0].y2).toBe(100);
+    expect(lines[0].x1).toBeLessThan(100);
+    expect(lines[0].x2).toBeLessThan(lines[0].x1);
+    expect(lines[1].x1).toBe(100);
+    expect(lines[1].y2).toBeLessThan(lines[1].y1);
+  });
+});
+
+describe('sortPrintParticipants', () => {
+  const participants = [
+    participant('Zoë Adams', 'CERT-10', { team: 'Blue' }),
+    participant('anna Zimmer', 'CERT-9'),
+    participant('Bob Ángel', 'CERT-2', { team: 'Red' }),
+  ];
+
+  it('keeps the original order without a sort order', () => {
+    expect(sortPrintParticipants(participants)).toBe(participants);
+  });
+
+  it('sorts by name ignoring case', () => {
+    expect(
+      sortPrintParticipants(participants, { by: 'name' }).map((p) => p.name)
+    ).toEqual(['anna Zimmer', 'Bob Ángel', 'Zoë Adams']);
+  });
+
+  it('sorts by surname ignoring accents', () => {
+    expect(
+      sortPrintParticipants(participants, { by: 'surname' }).map((p) => p.name)
+    ).toEqual(['Zoë Adams', 'Bob Ángel', 'anna Zimmer']);
+  });
+
+  it('sorts certification IDs by their numbers', () => {
+    expect(
+      sortPrintParticipants(participants, { by: 'certification_id' }).map(
+        (p) => p.certification_id
+      )
+    ).toEqual(['CERT-2', 'CERT-9', 'CERT-10']);
+  });
+
+  it('puts participants without the field last', () => {
+    expect(
+      sortPrintParticipants(participants, { by: 'field', field: 'team' }).map(
+        (p) => p.name
+      )
+    ).toEqual(['Zoë Adams', 'Bob Ángel', 'anna Zimmer']);
+  });
+});
+
+describe('fitPrintSlot', () => {
+  it('centers a certificate of other proportions within the slot', () => {
+    const { slots } = computePrintLayout(options, 1754, 1240);
+    const fitted = fitPrintSlot(slots[0], options, 1240, 1754);
+
+    expect(fitted.trim.height).toBeCloseTo(slots[0].trim.height);
+    expect(fitted.trim.width).toBeLessThan(slots[0].trim.width);
+    expect(fitted.trim.x * 2 + fitted.trim.width).toBeCloseTo(
+      slots[0].trim.x * 2 + slots[0].trim.width
+    );
+  });
+});
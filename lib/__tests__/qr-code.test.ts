@@ -0,0 +1,52 @@
+import {
+  buildVerificationUrl,
+  DEFAULT_QR_CODE_CONFIG,
+  drawQRCode,
+  getQRCodeBounds,
+} from '../qr-code';
+
+describe('qr-code', () => {
+  describe('buildVerificationUrl', () => {
+    it('should append the encoded certificate ID to the base URL', () => {
+      expect(
+        buildVerificationUrl('https://certs.example.com/', 'CERT 2025/001')
+      ).toBe('https://certs.example.com/verify/CERT%202025%2F001');
+    });
+
+    it('should fall back to the application URL', () => {
+      const originalBaseUrl = process.env.NEXT_PUBLIC_BASE_URL;
+      process.env.NEXT_PUBLIC_BASE_URL = 'https://app.example.com';
+
+      expect(buildVerificationUrl('  ', 'CERT-1')).toBe(
+        'https://app.example.com/verify/CERT-1'
+      );
+
+      process.env.NEXT_PUBLIC_BASE_URL = originalBaseUrl;
+    });
+  });
+
+  describe('drawQRCode', () => {
+    it('should draw the background and modules inside the bounds', () => {
+      const rects: number[][] = [];
+      const ctx = {
+        fillStyle: '' as string | object,
+        fillRect: (x: number, y: number, width: number, height: number) => {
+          rects.push([x, y, width, height]);
+        },
+      };
+      const config = { ...DEFAULT_QR_CODE_CONFIG, x: 200, y: 150, size: 100 };
+
+      drawQRCode(ctx, 'https://certs.example.com/verify/CERT-1', config, 2);
+
+      const bounds = getQRCodeBounds(config);
+      expect(rects[0]).toEqual([bounds.x * 2, bounds.y * 2, 200, 200]);
+      expect(rects.length).toBeGreaterThan(1);
+      for (const [x, y, width, height] of rects.slice(1)) {
+        expect(x).toBeGreaterThanOrEqual(bounds.x * 2);
+        expect(y).toBeGreaterThanOrEqual(bounds.y * 2);
+        expect(x + width).toBeLessThanOrEqual((bounds.x + bounds.width) * 2);
+        expect(y + height).toBeLessThanOrEqual((bounds.y + bounds.height) * 2);
+      }
+    });
+  });
+});
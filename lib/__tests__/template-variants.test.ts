@@ -0,0 +1,90 @@
+import {
+  DEFAULT_TEMPLATE_NAME,
+  getParticipantTemplateName,
+  resolveCertificateLayout,
+  validateTemplateVariantName,
+} from '../template-variants';
+import { ITextConfig, ITemplateVariant } from '../types';
+
+const textConfig: ITextConfig = {
+  x: 400,
+  y: 300,
+  fontFamily: 'Arial',
+  fontSize: 24,
+  color: '#000000',
+  textAlign: 'center',
+};
+
+const speakerVariant: ITemplateVariant = {
+  id: 'speaker',
+  name: 'Speaker',
+  template: {
+    base64: 'speaker-template',
+    originalName: 'speaker.png',
+    uploadedAt: new Date('2025-01-01'),
+  },
+  nameConfig: { ...textConfig, y: 200 },
+  idConfig: textConfig,
+};
+
+const event = {
+  template: {
+    base64: 'default-template',
+    originalName: 'default.png',
+    uploadedAt: new Date('2025-01-01'),
+  },
+  nameConfig: textConfig,
+  idConfig: textConfig,
+  templateVariants: [speakerVariant],
+};
+
+describe('template-variants', () => {
+  describe('resolveCertificateLayout', () => {
+    it('should use the variant matching the template key', () => {
+      const layout = resolveCertificateLayout(event, {
+        templateKey: '  speaker ',
+      });
+
+      expect(layout.template.base64).toBe('speaker-template');
+      expect(layout.nameConfig.y).toBe(200);
+      expect(layout.textElements).toEqual([]);
+    });
+
+    it('should fall back to the default template', () => {
+      expect(
+        resolveCertificateLayout(event, { templateKey: 'organizer' }).template
+          .base64
+      ).toBe('default-template');
+      expect(resolveCertificateLayout(event, {}).template.base64).toBe(
+        'default-template'
+      );
+    });
+  });
+
+  describe('getParticipantTemplateName', () => {
+    it('should name the template that applies', () => {
+      expect(
+        getParticipantTemplateName(event, { templateKey: 'SPEAKER' })
+      ).toBe('Speaker');
+      expect(getParticipantTemplateName(event, { templateKey: 'guest' })).toBe(
+        DEFAULT_TEMPLATE_NAME
+      );
+    });
+  });
+
+  describe('validateTemplateVariantName', () => {
+    it('should reject empty, reserved and duplicate names', () => {
+      expect(validateTemplateVariantName(' ', [])).not.toBeNull();
+      expect(validateTemplateVariantName('default', [])).not.toBeNull();
+      expect(
+        validateTemplateVariantName('speaker', [speakerVariant])
+      ).not.toBeNull();
+      expect(
+        validateTemplateVariantName('speaker', [speakerVariant], 'speaker')
+      ).toBeNull();
+      expect(
+        validateTemplateVariantName('Organizer', [speakerVariant])
+      ).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,250 @@
+import {
+  drawTextElement,
+  getFontString,
+  getTextBoxBounds,
+  layoutText,
+  TextDrawingContext,
+} from '../text-rendering';
+import { ITextConfig } from '../types';
+
+// Every character is half the font size wide
+const measure = (text: string, fontSize: number) =>
+  Array.from(text).length * fontSize * 0.5;
+
+const baseConfig: ITextConfig = {
+  x: 400,
+  y: 300,
+  fontSize: 20,
+  fontFamily: 'Arial',
+  color: '#000000',
+  textAlign: 'center',
+};
+
+const longName = 'Maria Fernanda de los Santos Rodríguez'; // 38 characters
+
+interface DrawCall {
+  method: 'fill' | 'stroke';
+  text: string;
+  x: number;
+  y: number;
+  font: string;
+  shadowColor: string;
+}
+
+// Records draw calls and measures text with the same fake metrics
+function createRecordingContext() {
+  const calls: DrawCall[] = [];
+  const record =
+    (method: DrawCall['method']) => (text: string, x: number, y: number) =>
+      calls.push({
+        method,
+        text,
+        x,
+        y,
+        font: ctx.font,
+        shadowColor: ctx.shadowColor,
+      });
+
+  const ctx: TextDrawingContext = {
+    font: '',
+    fillStyle: '',
+    textAlign: 'left',
+    textBaseline: 'alphabetic',
+    shadowColor: 'transparent',
+    shadowBlur: 0,
+    shadowOffsetX: 0,
+    shadowOffsetY: 0,
+    strokeStyle: '',
+    lineWidth: 1,
+    lineJoin: 'miter',
+    fillText: record('fill'),
+    strokeText: record('stroke'),
+    measureText: (text) => ({
+      width: measure(text, parseFloat(ctx.font.match(/([\d.]+)px/)![1])),
+    }),
+  };
+
+  return { ctx, calls };
+}
+
+describe('text-rendering', () => {
+  describe('layoutText', () => {
+    it('should keep text unchanged without a max width', () => {
+      const layout = layoutText(longName, baseConfig, measure);
+
+      expect(layout.lines).toEqual([longName]);
+      expect(layout.fontSize).toBe(20);
+    });
+
+    it('should keep text unchanged when it fits the box', () => {
+      const layout = layoutText(
+        'John Doe',
+        { ...baseConfig, maxWidth: 200 },
+        measure
+      );
+
+      expect(layout.lines).toEqual(['John Doe']);
+      expect(layout.fontSize).toBe(20);
+    });
+
+    it('should shrink text to fit the box', () => {
+      const layout = layoutText(
+        longName,
+        { ...baseConfig, maxWidth: 200, overflow: 'shrink' },
+        measure
+      );
+
+      expect(layout.lines).toEqual([longName]);
+      expect(layout.fontSize).toBeLessThan(20);
+      expect(measure(longName, layout.fontSize)).toBeLessThanOrEqual(200);
+    });
+
+    it('should not shrink below the minimum font size', () => {
+      const layout = layoutText(
+        longName,
+        { ...baseConfig, maxWidth: 100, overflow: 'shrink', minFontSize: 8 },
+        measure
+      );
+
+      expect(layout.fontSize).toBe(8);
+      expect(layout.lines[0].endsWith('…')).toBe(true);
+      expect(measure(layout.lines[0], 8)).toBeLessThanOrEqual(100);
+    });
+
+    it('should wrap text onto multiple lines', () => {
+      const layout = layoutText(
+        longName,
+        { ...baseConfig, maxWidth: 200, overflow: 'wrap', lineHeight: 1.5 },
+        measure
+      );
+
+      expect(layout.lines).toEqual([
+        'Maria Fernanda de',
+        'los Santos Rodríguez',
+      ]);
+      expect(layout.fontSize).toBe(20);
+      expect(layout.lineHeight).toBe(30);
+    });
+
+    it('should break words that are wider than the box', () => {
+      const layout = layoutText(
+        'Supercalifragilistic',
+        { ...baseConfig, maxWidth: 100, overflow: 'wrap' },
+        measure
+      );
+
+      expect(layout.lines).toEqual(['Supercalif', 'ragilistic']);
+    });
+
+    it('should truncate text with an ellipsis', () => {
+      const layout = layoutText(
+        longName,
+        { ...baseConfig, maxWidth: 100, overflow: 'truncate' },
+        measure
+      );
+
+      expect(layout.lines).toEqual(['Maria Fer…']);
+      expect(layout.fontSize).toBe(20);
+    });
+  });
+
+  describe('getTextBoxBounds', () => {
+    it('should position the box according to the alignment', () => {
+      const config = {
+        ...baseConfig,
+        maxWidth: 200,
+        overflow: 'wrap' as const,
+      };
+      const layout = { lines: ['a', 'b'], fontSize: 20, lineHeight: 24 };
+
+      expect(getTextBoxBounds(config, layout)).toEqual({
+        x: 300,
+        y: 276,
+        width: 200,
+        height: 48,
+      });
+      expect(getTextBoxBounds({ ...config, textAlign: 'left' }, layout).x).toBe(
+        400
+      );
+      expect(
+        getTextBoxBounds({ ...config, textAlign: 'right' }, layout).x
+      ).toBe(200);
+    });
+  });
+
+  describe('getFontString', () => {
+    it('should include the weight and style when set', () => {
+      expect(getFontString(baseConfig, 20)).toBe('20px "Arial"');
+      expect(
+        getFontString(
+          { ...baseConfig, fontWeight: 700, fontStyle: 'italic' },
+          20
+        )
+      ).toBe('italic 700 20px "Arial"');
+    });
+  });
+
+  describe('drawTextElement', () => {
+    it('should apply letter spacing between characters', () => {
+      const { ctx, calls } = createRecordingContext();
+      drawTextElement(ctx, 'abc', { ...baseConfig, letterSpacing: 5 });
+
+      // 3 characters of 10px plus 2 gaps of 5px, centered on x
+      expect(calls.map((call) => [call.text, call.x])).toEqual([
+        ['a', 380],
+        ['b', 395],
+        ['c', 410],
+      ]);
+    });
+
+    it('should draw lowercase letters as smaller capitals in small caps', () => {
+      const { ctx, calls } = createRecordingContext();
+      drawTextElement(ctx, 'Ab', {
+        ...baseConfig,
+        textAlign: 'left',
+        textTransform: 'small-caps',
+      });
+
+      expect(calls.map((call) => [call.text, call.font])).toEqual([
+        ['A', '20px "Arial"'],
+        ['B', '15px "Arial"'],
+      ]);
+      expect(calls[1].x).toBe(410);
+      expect(calls[1].y).toBeGreaterThan(calls[0].y);
+    });
+
+    it('should draw the outline under the fill and cast one shadow', () => {
+      const { ctx, calls } = createRecordingContext();
+      drawTextElement(ctx, 'Hi', {
+        ...baseConfig,
+        strokeColor: '#ffffff',
+        strokeWidth: 2,
+      });
+
+      expect(calls.map((call) => call.method)).toEqual(['stroke', 'fill']);
+      expect(calls[0].shadowColor).toBe('rgba(0, 0, 0, 0.3)');
+      expect(calls[1].shadowColor).toBe('transparent');
+      expect(ctx.shadowColor).toBe('transparent');
+    });
+
+    it('should skip the shadow when disabled', () => {
+      const { ctx, calls } = createRecordingContext();
+      drawTextElement(ctx, 'Hi', {
+        ...baseConfig,
+        textTransform: 'uppercase',
+        shadow: {
+          enabled: false,
+          color: '#000000',
+          opacity: 0.3,
+          blur: 2,
+          offsetX: 1,
+          offsetY: 1,
+        },
+      });
+
+      expect(calls).toHaveLength(1);
+      expect(calls[0].text).toBe('HI');
+      expect(calls[0].shadowColor).toBe('transparent');
+    });
+  });
+});
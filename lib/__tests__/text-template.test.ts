@@ -0,0 +1,76 @@
+import {
+  renderTextTemplate,
+  buildCertificateVariables,
+} from '../text-template';
+
+describe('renderTextTemplate', () => {
+  it('should replace known placeholders', () => {
+    const result = renderTextTemplate('{course} – {hours} hours', {
+      course: 'Data Science',
+      hours: '40',
+    });
+
+    expect(result).toBe('Data Science – 40 hours');
+  });
+
+  it('should replace repeated placeholders', () => {
+    expect(renderTextTemplate('{name} / {name}', { name: 'Jane' })).toBe(
+      'Jane / Jane'
+    );
+  });
+
+  it('should leave unknown placeholders untouched', () => {
+    expect(renderTextTemplate('Score: {score}', { name: 'Jane' })).toBe(
+      'Score: {score}'
+    );
+  });
+
+  it('should allow empty values', () => {
+    expect(renderTextTemplate('Email: {email}', { email: '' })).toBe('Email: ');
+  });
+});
+
+describe('buildCertificateVariables', () => {
+  it('should include recipient and event values', () => {
+    const variables = buildCertificateVariables(
+      { title: 'Annual Summit', eventDate: new Date(2025, 2, 14) },
+      {
+        name: 'Jane Smith',
+        certification_id: 'CERT-002',
+        email: 'jane@example.com',
+      }
+    );
+
+    expect(variables).toEqual({
+      name: 'Jane Smith',
+      certification_id: 'CERT-002',
+      email: 'jane@example.com',
+      eventTitle: 'Annual Summit',
+      eventDate: 'March 14, 2025',
+    });
+  });
+
+  it('should handle missing email and invalid dates', () => {
+    const variables = buildCertificateVariables(
+      { title: 'Workshop', eventDate: new Date('invalid') },
+      { name: 'John Doe', certification_id: 'CERT-001' }
+    );
+
+    expect(variables.email).toBe('');
+    expect(variables.eventDate).toBe('');
+  });
+
+  it('should include custom fields without overriding built-in values', () => {
+    const variables = buildCertificateVariables(
+      { title: 'Workshop', eventDate: new Date('2025-03-14T12:00:00Z') },
+      {
+        name: 'John Doe',
+        certification_id: 'CERT-001',
+        fields: { company: 'Acme', name: 'Johnny' },
+      }
+    );
+
+    expect(variables.company).toBe('Acme');
+    expect(variables.name).toBe('John Doe');
+  });
+});
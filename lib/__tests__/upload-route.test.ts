@@ -0,0 +1,49 @@
+import { NextRequest } from 'next/server';
+import { POST } from '../../app/api/upload/route';
+import { storeAsset } from '../asset-storage';
+
+jest.mock('../asset-storage', () => ({
+  storeAsset: jest.fn(),
+}));
+
+const upload = (file: File) => {
+  const form = new FormData();
+  form.append('file', file);
+  return POST(
+    new NextRequest('http://localhost/api/upload', {
+      method: 'POST',
+      body: form,
+    })
+  );
+};
+
+describe('POST /api/upload', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (storeAsset as jest.Mock).mockResolvedValue('asset');
+  });
+
+  it('should store PNG images', async () => {
+    const response = await upload(
+      new File(['png'], 'template.png', { type: 'image/png' })
+    );
+
+    await expect(response.json()).resolves.toEqual({
+      success: true,
+      assetId: 'asset',
+      url: '/api/assets/asset',
+    });
+    expect(storeAsset).toHaveBeenCalledWith(expect.any(Buffer), 'image/png');
+  });
+
+  it('should reject SVG images', async () => {
+    const response = await upload(
+      new File(['<svg onload="alert(1)"/>'], 'template.svg', {
+        type: 'image/svg+xml',
+      })
+    );
+
+    await expect(response.json()).resolves.toMatchObject({ success: false });
+    expect(storeAsset).not.toHaveBeenCalled();
+  });
+});
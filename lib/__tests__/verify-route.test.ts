@@ -0,0 +1,62 @@
+import { NextRequest } from 'next/server';
+import { GET } from '../../app/api/verify/[certificationId]/route';
+import { verifyCertificate } from '../certificate-verification';
+import { ICertificateVerification } from '../types';
+
+jest.mock('../certificate-verification', () => ({
+  normalizeCertificationId: (id: string) => id.trim(),
+  verifyCertificate: jest.fn(),
+}));
+
+const certificate: ICertificateVerification = {
+  certificationId: 'CERT-001',
+  holderName: 'Jane Doe',
+  eventTitle: 'Annual Conference',
+  eventDate: new Date('2025-03-01'),
+  eventStatus: 'completed',
+  status: 'valid',
+};
+
+const verify = (certificationId: string) =>
+  GET(new NextRequest(`http://localhost/api/verify/${certificationId}`), {
+    params: { certificationId },
+  });
+
+describe('GET /api/verify/[certificationId]', () => {
+  it('should report a valid certificate as valid', async () => {
+    (verifyCertificate as jest.Mock).mockResolvedValue(certificate);
+
+    const response = await verify('CERT-001');
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({
+      valid: true,
+      certificate: { status: 'valid' },
+    });
+  });
+
+  it('should report a revoked certificate as not valid', async () => {
+    (verifyCertificate as jest.Mock).mockResolvedValue({
+      ...certificate,
+      status: 'revoked',
+      revocationReason: 'Issued in error',
+    });
+
+    const response = await verify('CERT-001');
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({
+      valid: false,
+      certificate: { status: 'revoked', revocationReason: 'Issued in error' },
+    });
+  });
+
+  it('should return 404 for unknown certificates', async () => {
+    (verifyCertificate as jest.Mock).mockResolvedValue(null);
+
+    const response = await verify('CERT-404');
+
+    expect(response.status).toBe(404);
+    expect(await response.json()).toMatchObject({ valid: false });
+  });
+});
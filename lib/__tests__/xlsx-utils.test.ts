@@ -0,0 +1,112 @@
+import JSZip from 'jszip';
+import { isXLSXFile, readXLSXWorkbook, writeXLSXWorkbook } from '../xlsx-utils';
+import { parseXLSX } from '../csv-utils';
+
+/**
+ * Builds a workbook the way Excel stores it: shared strings, styles and
+ * cell references with gaps
+ */
+async function createExcelWorkbook(): Promise<Uint8Array> {
+  const zip = new JSZip();
+  zip.file(
+    'xl/workbook.xml',
+    '<workbook xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">' +
+      '<workbookPr/><sheets>' +
+      '<sheet name="Notes" sheetId="1" r:id="rId2"/>' +
+      '<sheet name="Attendees &amp; Speakers" sheetId="2" r:id="rId1"/>' +
+      '</sheets></workbook>'
+  );
+  zip.file(
+    'xl/_rels/workbook.xml.rels',
+    '<Relationships>' +
+      '<Relationship Id="rId1" Target="worksheets/sheet1.xml"/>' +
+      '<Relationship Id="rId2" Target="/xl/worksheets/sheet2.xml"/>' +
+      '</Relationships>'
+  );
+  zip.file(
+    'xl/sharedStrings.xml',
+    '<sst><si><t>name</t></si><si><t>certification_id</t></si>' +
+      '<si><t>email</t></si><si><t>Completed</t></si>' +
+      '<si><r><t>Jos</t></r><r><t>é</t></r></si><si><t>a&lt;b</t></si></sst>'
+  );
+  zip.file(
+    'xl/styles.xml',
+    '<styleSheet><numFmts><numFmt numFmtId="164" formatCode="dd/mm/yyyy"/></numFmts>' +
+      '<cellXfs><xf numFmtId="0"/><xf numFmtId="164"/></cellXfs></styleSheet>'
+  );
+  zip.file(
+    'xl/worksheets/sheet1.xml',
+    '<worksheet><sheetData>' +
+      '<row r="1"><c r="A1" t="s"><v>0</v></c><c r="B1" t="s"><v>1</v></c>' +
+      '<c r="C1" t="s"><v>2</v></c><c r="E1" t="s"><v>3</v></c></row>' +
+      '<row r="3"><c r="A3" t="s"><v>4</v></c><c r="B3"><v>1001</v></c>' +
+      '<c r="C3" t="inlineStr"><is><t>jose@example.com</t></is></c>' +
+      '<c r="D3" t="b"><v>1</v></c><c r="E3" s="1"><v>45292</v></c></row>' +
+      '</sheetData></worksheet>'
+  );
+  zip.file(
+    'xl/worksheets/sheet2.xml',
+    '<worksheet><sheetData><row r="1"><c r="A1" t="s"><v>5</v></c></row>' +
+      '</sheetData></worksheet>'
+  );
+  return zip.generateAsync({ type: 'uint8array' });
+}
+
+describe('XLSX utilities', () => {
+  it('should recognize XLSX files by extension or MIME type', () => {
+    expect(isXLSXFile({ name: 'Participants.XLSX' })).toBe(true);
+    expect(isXLSXFile({ name: 'participants.csv', type: 'text/csv' })).toBe(
+      false
+    );
+  });
+
+  it('should read sheets, shared strings, dates and empty cells', async () => {
+    const sheets = await readXLSXWorkbook(await createExcelWorkbook());
+
+    expect(sheets.map((sheet) => sheet.name)).toEqual([
+      'Notes',
+      'Attendees & Speakers',
+    ]);
+    expect(sheets[0].rows).toEqual([['a<b']]);
+    expect(sheets[1].rows).toEqual([
+      ['name', 'certification_id', 'email', '', 'Completed'],
+      [],
+      ['José', '1001', 'jose@example.com', 'TRUE', '2024-01-01'],
+    ]);
+  });
+
+  it('should read back a written workbook', async () => {
+    const rows = [
+      ['name', 'certification_id', 'email'],
+      ['Ann "A" & Co <x>', 'CERT-001', ''],
+    ];
+    const buffer = await writeXLSXWorkbook('Participants: 2024', rows);
+    const [sheet] = await readXLSXWorkbook(buffer);
+
+    expect(sheet.name).toBe('Participants 2024');
+    expect(sheet.rows).toEqual(rows);
+  });
+
+  it('should reject files that are not workbooks', async () => {
+    await expect(
+      readXLSXWorkbook(new TextEncoder().encode('name,certification_id'))
+    ).rejects.toThrow('File is not a valid XLSX workbook');
+  });
+});
+
+describe('parseXLSX', () => {
+  it('should parse participants from the selected sheet', async () => {
+    const recipients = await parseXLSX(await createExcelWorkbook(), {
+      sheetName: 'Attendees & Speakers',
+    });
+
+    expect(recipients).toEqual([
+      {
+        name: 'José',
+        certification_id: '1001',
+        email: 'jose@example.com',
+        fields: { Completed: '2024-01-01' },
+      },
+    ]);
+  });
+});
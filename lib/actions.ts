@@ -4,16 +4,41 @@ import { getDatabase } from './mongodb';
 import {
   IEvent,
   ITextConfig,
+  ITextElement,
   IRecipientData,
   IEmailConfig,
   IEmailLog,
   EmailStatus,
   IEmailTemplate,
+  CertificateOutputFormat,
+  ICustomFont,
+  IQRCodeConfig,
+  IReissueCertificateOptions,
+  IImageLayer,
+  ITemplateImage,
+  ITemplateVariant,
+  ICSVImportMapping,
+  IParticipantImportOptions,
+  IParticipantImportPreview,
+  IParticipantMergeResult,
+  IParticipantPage,
+  IParticipantQuery,
+  IParticipantSummary,
+  ICertificateJob,
+  ArchiveGrouping,
+  IPrintOptions,
+  RenderScale,
+  RENDER_SCALES,
 } from './types';
-import { ObjectId } from 'mongodb';
-import { generateCertificate } from './canvas-utils';
-import { generateCertificateFilename } from './certificate-utils';
-import archiver from 'archiver';
+import { Db, ObjectId } from 'mongodb';
+import { renderParticipantCertificate } from './certificate-renderer';
+import {
+  generatePrintFilename,
+  generateZipFilename,
+  getCertificateFileInfo,
+  isCertificateRevoked,
+  createReissuedCertificationId,
+} from './certificate-utils';
 import { Readable } from 'stream';
 import { EmailService, initializeEmailService } from './email-service';
 import {
@@ -31,6 +56,44 @@ import {
   optimizeDatabase,
 } from './database-management';
 import { EmailValidationService } from './email-validation-service';
+import { buildCertificateFilename } from './filename-pattern';
+import { getFontFormat, MAX_FONT_FILE_SIZE } from './font-utils';
+import { isPngData, MAX_IMAGE_LAYER_FILE_SIZE } from './image-layers';
+import { validateTemplateVariantName } from './template-variants';
+import { hasTemplateImage } from './template-images';
+import { copyAsset, deleteAssets } from './asset-storage';
+import { getParticipantFieldNames } from './participant-fields';
+import { writeXLSXWorkbook } from './xlsx-utils';
+import { escapeCSVValue } from './csv-utils';
+import { diffParticipants, mergeParticipants } from './participant-merge';
+import {
+  applyParticipantDiff,
+  assertUniqueCertificationIds,
+  copyEventParticipants,
+  countParticipants,
+  countParticipantsByEmailStatus,
+  countParticipantsByEvent,
+  deleteEventParticipants,
+  deleteParticipantsByIds,
+  findParticipant,
+  findParticipantFieldNames,
+  findParticipantIds,
+  findParticipants,
+  findParticipantsByIds,
+  getCertificationIds,
+  getEventParticipants,
+  insertParticipantAfter,
+  insertParticipants,
+  replaceParticipants,
+  updateParticipantFields,
+} from './participant-store';
+import { moveEmbeddedParticipants } from './database-migrations';
+import {
+  createCertificateJob,
+  getCertificateJob,
+  processCertificateJobs,
+} from './certificate-jobs';
+import { MAX_BLEED_MM, PRINT_PAPER_SIZES } from './print-layout';
 
 // Utility function to serialize MongoDB documents for client components
 function serializeEvent(event: any): IEvent {
@@ -47,6 +110,24 @@ function serializeEvent(event: any): IEvent {
   } as IEvent;
 }
 
+// Events saved before participants had their own collection embed them
+async function migrateEmbeddedParticipants(db: Db, event: any): Promise<void> {
+  if (Array.isArray(event.participants)) {
+    await moveEmbeddedParticipants(db, event);
+  }
+}
+
+// Marks an event as changed after its participants were updated
+async function touchEvent(eventId: string): Promise<void> {
+  const db = await getDatabase();
+  await db
+    .collection('events')
+    .updateOne(
+      { _id: new ObjectId(eventId) },
+      { $set: { updatedAt: new Date() } }
+    );
+}
+
 // Database initialization functions
 export async function initializeDatabase(): Promise<{
   success: boolean;
@@ -85,9 +166,12 @@ export async function createEvent(
     const db = await getDatabase();
     const eventsCollection = db.collection('events');
 
+    // Participants are stored in their own collection
+    const { participants = [], ...eventFields } = data;
+
     const now = new Date();
     const eventData = {
-      ...data,
+      ...eventFields,
       // Add default email configuration if not provided
       emailConfig: data.emailConfig || {
         smtpHost: '',
@@ -111,10 +195,12 @@ export async function createEvent(
     };
 
     const result = await eventsCollection.insertOne(eventData);
+    await insertParticipants(result.insertedId.toString(), participants);
 
     return serializeEvent({
       ...eventData,
       _id: result.insertedId,
+      participants,
     });
   } catch (error) {
     console.error('Error creating event:', error);
@@ -130,14 +216,23 @@ export async function updateEvent(
     const db = await getDatabase();
     const eventsCollection = db.collection('events');
 
+    const { participants, ...eventFields } = data;
+    // Checked before the embedded participants are removed below
+    if (participants) {
+      assertUniqueCertificationIds(participants);
+    }
+
     const updateData = {
-      ...data,
+      ...eventFields,
       updatedAt: new Date(),
     };
 
+    // Replaced participants also replace any still embedded in the event
     const result = await eventsCollection.findOneAndUpdate(
       { _id: new ObjectId(eventId) },
-      { $set: updateData },
+      participants
+        ? { $set: updateData, $unset: { participants: '' } }
+        : { $set: updateData },
       { returnDocument: 'after' }
     );
 
@@ -145,28 +240,92 @@ export async function updateEvent(
       throw new Error('Event not found');
     }
 
-    return serializeEvent(result);
+    if (participants) {
+      await replaceParticipants(eventId, participants);
+    } else {
+      await migrateEmbeddedParticipants(db, result);
+    }
+
+    // Participants are only returned when they were replaced; others are
+    // loaded a page at a time where they are needed
+    return serializeEvent({
+      ...result,
+      participants: participants || [],
+    });
   } catch (error) {
     console.error('Error updating event:', error);
     throw new Error('Failed to update event');
   }
 }
 
+/**
+ * Deletes template images no event uses any more. Events duplicated before
+ * duplicates got their own copies still share template images.
+ */
+async function deleteUnusedTemplateImages(
+  db: Db,
+  assetIds: (string | undefined)[]
+): Promise<void> {
+  const candidates = assetIds.filter((assetId): assetId is string => !!assetId);
+  if (candidates.length === 0) return;
+
+  const usingEvents = await db
+    .collection<IEvent>('events')
+    .find(
+      {
+        $or: [
+          { 'template.assetId': { $in: candidates } },
+          { 'templateVariants.template.assetId': { $in: candidates } },
+        ],
+      },
+      { projection: { template: 1, templateVariants: 1 } }
+    )
+    .toArray();
+
+  const usedAssetIds = new Set<string | undefined>();
+  usingEvents.forEach((event) => {
+    usedAssetIds.add(event.template?.assetId);
+    (event.templateVariants || []).forEach((variant) =>
+      usedAssetIds.add(variant.template.assetId)
+    );
+  });
+
+  await deleteAssets(
+    candidates.filter((assetId) => !usedAssetIds.has(assetId))
+  );
+}
+
 export async function deleteEvent(eventId: string): Promise<boolean> {
   try {
     const db = await getDatabase();
     const eventsCollection = db.collection('events');
 
-    const result = await eventsCollection.deleteOne({
-      _id: new ObjectId(eventId),
-    });
-    return result.deletedCount > 0;
+    const event = await eventsCollection.findOneAndDelete(
+      { _id: new ObjectId(eventId) },
+      { projection: { template: 1, templateVariants: 1 } }
+    );
+    if (!event) {
+      return false;
+    }
+
+    await deleteEventParticipants(eventId);
+    await deleteUnusedTemplateImages(db, [
+      event.template?.assetId,
+      ...(event.templateVariants || []).map(
+        (variant: ITemplateVariant) => variant.template.assetId
+      ),
+    ]);
+    return true;
   } catch (error) {
     console.error('Error deleting event:', error);
     throw new Error('Failed to delete event');
   }
 }
 
+/**
+ * Loads an event with its participants. Participants are skipped when the
+ * projection excludes them or only includes other fields.
+ */
 export async function getEvent(
   eventId: string,
   projection?: Record<string, 0 | 1>
@@ -175,13 +334,38 @@ export async function getEvent(
     const db = await getDatabase();
     const eventsCollection = db.collection('events');
 
-    const options = projection ? { projection } : {};
+    const { participants: participantsProjection, ...eventProjection } =
+      projection || {};
+    const isInclusion = Object.values(projection || {}).includes(1);
+    const includeParticipants =
+      participantsProjection !== undefined
+        ? participantsProjection === 1
+        : !isInclusion;
+
+    // Embedded participants of older events are always read so they can be
+    // moved to the participants collection
+    const options = projection
+      ? {
+          projection: isInclusion
+            ? { ...eventProjection, participants: 1 }
+            : eventProjection,
+        }
+      : {};
     const event = await eventsCollection.findOne(
       { _id: new ObjectId(eventId) },
       options
     );
+    if (!event) {
+      return null;
+    }
 
-    return event ? serializeEvent(event) : null;
+    await migrateEmbeddedParticipants(db, event);
+    return serializeEvent({
+      ...event,
+      participants: includeParticipants
+        ? await getEventParticipants(eventId)
+        : [],
+    });
   } catch (error) {
     console.error('Error getting event:', error);
     throw new Error('Failed to get event');
@@ -212,7 +396,7 @@ export async function getAllEvents(
   }
 }
 
-// Optimized function to get event summaries without large base64 data
+// Optimized function to get event summaries without large embedded data
 export async function getAllEventsSummary(
   includeDeleted: boolean = false
 ): Promise<IEvent[]> {
@@ -224,20 +408,26 @@ export async function getAllEventsSummary(
     const events = await eventsCollection
       .find(filter)
       .project({
-        // Exclude only the large fields we don't need
+        // Exclude only the large fields we don't need. Templates that were
+        // not moved to asset storage yet show as missing.
         'template.base64': 0,
+        'fonts.base64': 0,
+        'imageLayers.base64': 0,
+        'templateVariants.template.base64': 0,
         participants: 0,
       })
       .sort({ createdAt: -1 })
       .toArray();
 
+    const participantCounts = await countParticipantsByEvent(
+      events.map((event) => event._id.toString())
+    );
+
     return events.map((event) => ({
       ...serializeEvent(event),
-      template: {
-        ...event.template,
-        base64: '', // Empty string to maintain type compatibility
-      },
       participants: [], // Empty array to maintain type compatibility
+      participantCount: participantCounts[event._id.toString()] || 0,
+      isSummary: true,
     }));
   } catch (error) {
     console.error('Error getting event summaries:', error);
@@ -291,9 +481,26 @@ export async function restoreEvent(eventId: string): Promise<boolean> {
   }
 }
 
+// Gives a duplicated template its own copy of the image, as events delete
+// their template images when they are replaced or the event is deleted
+async function copyTemplateImage(
+  template: ITemplateImage,
+  copiedAssetIds: string[]
+): Promise<ITemplateImage> {
+  if (!template?.assetId) return template;
+
+  const assetId = await copyAsset(template.assetId);
+  if (!assetId) return template;
+  copiedAssetIds.push(assetId);
+  return { ...template, assetId };
+}
+
 export async function duplicateEvent(eventId: string): Promise<IEvent> {
+  const copiedAssetIds: string[] = [];
+  let duplicateId: string | undefined;
   try {
-    const originalEvent = await getEvent(eventId);
+    // Participants are copied between collections below
+    const originalEvent = await getEvent(eventId, { participants: 0 });
     if (!originalEvent) {
       throw new Error('Event not found');
     }
@@ -305,12 +512,37 @@ export async function duplicateEvent(eventId: string): Promise<IEvent> {
       status: 'draft' as const,
       isDeleted: false,
       deletedAt: undefined,
+      template: await copyTemplateImage(originalEvent.template, copiedAssetIds),
+      ...(originalEvent.templateVariants
+        ? {
+            templateVariants: await Promise.all(
+              originalEvent.templateVariants.map(async (variant) => ({
+                ...variant,
+                template: await copyTemplateImage(
+                  variant.template,
+                  copiedAssetIds
+                ),
+              }))
+            ),
+          }
+        : {}),
       createdAt: new Date(),
       updatedAt: new Date(),
     };
 
-    return await createEvent(duplicatedEvent);
+    const duplicate = await createEvent(duplicatedEvent);
+    duplicateId = duplicate._id!.toString();
+    await copyEventParticipants(eventId, duplicateId);
+    return duplicate;
   } catch (error) {
+    if (duplicateId) {
+      const db = await getDatabase();
+      await db
+        .collection('events')
+        .deleteOne({ _id: new ObjectId(duplicateId) });
+      await deleteEventParticipants(duplicateId);
+    }
+    await deleteAssets(copiedAssetIds);
     console.error('Error duplicating event:', error);
     throw new Error('Failed to duplicate event');
   }
@@ -339,74 +571,714 @@ export async function unarchiveEvent(eventId: string): Promise<boolean> {
       })) !== null
     );
   } catch (error) {
-    console.error('Error unarchiving event:', error);
-    throw new Error('Failed to unarchive event');
+    console.error('Error unarchiving event:', error);
+    throw new Error('Failed to unarchive event');
+  }
+}
+
+// Template Management
+export async function saveTemplate(
+  eventId: string,
+  templateData: {
+    assetId: string; // Uploaded through /api/upload
+    originalName: string;
+    uploadedAt: string;
+  }
+): Promise<boolean> {
+  try {
+    const db = await getDatabase();
+    const eventsCollection = db.collection<IEvent>('events');
+
+    const previous = await eventsCollection.findOneAndUpdate(
+      { _id: new ObjectId(eventId) },
+      {
+        $set: {
+          template: {
+            assetId: templateData.assetId,
+            originalName: templateData.originalName,
+            uploadedAt: new Date(templateData.uploadedAt),
+          },
+          updatedAt: new Date(),
+        },
+      },
+      { projection: { 'template.assetId': 1 } }
+    );
+    if (!previous) {
+      throw new Error('Event not found');
+    }
+
+    // The replaced template is no longer referenced
+    if (previous.template?.assetId !== templateData.assetId) {
+      await deleteUnusedTemplateImages(db, [previous.template?.assetId]);
+    }
+    return true;
+  } catch (error) {
+    console.error('Error saving template:', error);
+    throw new Error('Failed to save template');
+  }
+}
+
+// Template Variants
+export async function addTemplateVariant(
+  eventId: string,
+  variantData: {
+    name: string;
+    assetId: string; // Uploaded through /api/upload
+    originalName: string;
+    uploadedAt: string;
+  }
+): Promise<ITemplateVariant> {
+  try {
+    const event = await getEvent(eventId, {
+      templateVariants: 1,
+      nameConfig: 1,
+      idConfig: 1,
+      textElements: 1,
+    });
+    if (!event) {
+      throw new Error('Event not found');
+    }
+
+    const nameError = validateTemplateVariantName(
+      variantData.name,
+      event.templateVariants || []
+    );
+    if (nameError) {
+      throw new Error(nameError);
+    }
+
+    // Start from the default layout so only the differences need adjusting
+    const variant: ITemplateVariant = {
+      id: new ObjectId().toString(),
+      name: variantData.name.trim(),
+      template: {
+        assetId: variantData.assetId,
+        originalName: variantData.originalName,
+        uploadedAt: new Date(variantData.uploadedAt),
+      },
+      nameConfig: event.nameConfig,
+      idConfig: event.idConfig,
+      textElements: event.textElements || [],
+    };
+
+    const db = await getDatabase();
+    const eventsCollection = db.collection<IEvent>('events');
+
+    await eventsCollection.updateOne(
+      { _id: new ObjectId(eventId) },
+      {
+        $push: { templateVariants: variant },
+        $set: { updatedAt: new Date() },
+      }
+    );
+
+    return variant;
+  } catch (error) {
+    console.error('Error adding template variant:', error);
+    throw new Error('Failed to add template variant');
+  }
+}
+
+export async function updateTemplateVariant(
+  eventId: string,
+  variantId: string,
+  updates: Partial<
+    Pick<ITemplateVariant, 'name' | 'nameConfig' | 'idConfig' | 'textElements'>
+  >
+): Promise<boolean> {
+  try {
+    if (updates.name !== undefined) {
+      const event = await getEvent(eventId, { templateVariants: 1 });
+      const nameError = validateTemplateVariantName(
+        updates.name,
+        event?.templateVariants || [],
+        variantId
+      );
+      if (nameError) {
+        throw new Error(nameError);
+      }
+      updates = { ...updates, name: updates.name.trim() };
+    }
+
+    const db = await getDatabase();
+    const eventsCollection = db.collection<IEvent>('events');
+
+    // Update only the changed fields so the template image is not resent
+    const setFields: Record<string, unknown> = { updatedAt: new Date() };
+    for (const [key, value] of Object.entries(updates)) {
+      if (value !== undefined) {
+        setFields[`templateVariants.$.${key}`] = value;
+      }
+    }
+
+    const result = await eventsCollection.updateOne(
+      { _id: new ObjectId(eventId), 'templateVariants.id': variantId },
+      { $set: setFields }
+    );
+
+    if (result.matchedCount === 0) {
+      throw new Error('Template variant not found');
+    }
+
+    return true;
+  } catch (error) {
+    console.error('Error updating template variant:', error);
+    throw new Error('Failed to update template variant');
+  }
+}
+
+export async function removeTemplateVariant(
+  eventId: string,
+  variantId: string
+): Promise<boolean> {
+  try {
+    const db = await getDatabase();
+    const eventsCollection = db.collection<IEvent>('events');
+
+    // Participants using this variant fall back to the default template
+    const event = await eventsCollection.findOneAndUpdate(
+      { _id: new ObjectId(eventId), 'templateVariants.id': variantId },
+      {
+        $pull: { templateVariants: { id: variantId } },
+        $set: { updatedAt: new Date() },
+      },
+      { projection: { templateVariants: 1 } }
+    );
+    if (!event) {
+      return false;
+    }
+
+    const variant = event.templateVariants?.find((v) => v.id === variantId);
+    await deleteUnusedTemplateImages(db, [variant?.template.assetId]);
+    return true;
+  } catch (error) {
+    console.error('Error removing template variant:', error);
+    throw new Error('Failed to remove template variant');
+  }
+}
+
+export async function updateTemplateField(
+  eventId: string,
+  templateField: string
+): Promise<boolean> {
+  try {
+    const updateData = {
+      templateField: templateField.trim().toLowerCase(),
+      updatedAt: new Date(),
+    };
+
+    await updateEvent(eventId, updateData);
+    return true;
+  } catch (error) {
+    console.error('Error updating template field:', error);
+    throw new Error('Failed to update template field');
+  }
+}
+
+// Font Management
+export async function addEventFont(
+  eventId: string,
+  fontData: {
+    family: string;
+    originalName: string;
+    base64: string;
+    uploadedAt: string;
+  }
+): Promise<ICustomFont> {
+  try {
+    const format = getFontFormat(fontData.originalName);
+    if (!format) {
+      throw new Error('Font must be a TTF, OTF or WOFF file');
+    }
+
+    // Base64 is ~4/3 of the original file size
+    if ((fontData.base64.length * 3) / 4 > MAX_FONT_FILE_SIZE) {
+      throw new Error('Font file is too large');
+    }
+
+    const font: ICustomFont = {
+      id: new ObjectId().toString(),
+      family: fontData.family.trim(),
+      originalName: fontData.originalName,
+      format,
+      base64: fontData.base64,
+      uploadedAt: new Date(fontData.uploadedAt),
+    };
+
+    const db = await getDatabase();
+    const eventsCollection = db.collection<IEvent>('events');
+
+    const result = await eventsCollection.updateOne(
+      { _id: new ObjectId(eventId) },
+      {
+        $push: { fonts: font },
+        $set: { updatedAt: new Date() },
+      }
+    );
+
+    if (result.matchedCount === 0) {
+      throw new Error('Event not found');
+    }
+
+    return font;
+  } catch (error) {
+    console.error('Error adding event font:', error);
+    throw new Error('Failed to add font');
+  }
+}
+
+export async function removeEventFont(
+  eventId: string,
+  fontId: string
+): Promise<boolean> {
+  try {
+    const db = await getDatabase();
+    const eventsCollection = db.collection<IEvent>('events');
+
+    const result = await eventsCollection.updateOne(
+      { _id: new ObjectId(eventId) },
+      {
+        $pull: { fonts: { id: fontId } },
+        $set: { updatedAt: new Date() },
+      }
+    );
+    return result.modifiedCount > 0;
+  } catch (error) {
+    console.error('Error removing event font:', error);
+    throw new Error('Failed to remove font');
+  }
+}
+
+export async function addImageLayer(
+  eventId: string,
+  layerData: Omit<IImageLayer, 'id'>
+): Promise<IImageLayer> {
+  try {
+    if (!isPngData(layerData.base64)) {
+      throw new Error('Image layer must be a PNG file');
+    }
+
+    // Base64 is ~4/3 of the original file size
+    if ((layerData.base64.length * 3) / 4 > MAX_IMAGE_LAYER_FILE_SIZE) {
+      throw new Error('Image layer file is too large');
+    }
+
+    const layer: IImageLayer = {
+      ...layerData,
+      id: new ObjectId().toString(),
+      label: layerData.label.trim(),
+    };
+
+    const db = await getDatabase();
+    const eventsCollection = db.collection<IEvent>('events');
+
+    const result = await eventsCollection.updateOne(
+      { _id: new ObjectId(eventId) },
+      {
+        $push: { imageLayers: layer },
+        $set: { updatedAt: new Date() },
+      }
+    );
+
+    if (result.matchedCount === 0) {
+      throw new Error('Event not found');
+    }
+
+    return layer;
+  } catch (error) {
+    console.error('Error adding image layer:', error);
+    throw new Error('Failed to add image layer');
+  }
+}
+
+export async function updateImageLayer(
+  eventId: string,
+  layerId: string,
+  updates: Partial<Omit<IImageLayer, 'id' | 'base64'>>
+): Promise<boolean> {
+  try {
+    const db = await getDatabase();
+    const eventsCollection = db.collection<IEvent>('events');
+
+    // Update only the changed fields so the image data is not resent
+    const setFields: Record<string, unknown> = { updatedAt: new Date() };
+    for (const [key, value] of Object.entries(updates)) {
+      if (key !== 'id' && key !== 'base64') {
+        setFields[`imageLayers.$.${key}`] = value;
+      }
+    }
+
+    const result = await eventsCollection.updateOne(
+      { _id: new ObjectId(eventId), 'imageLayers.id': layerId },
+      { $set: setFields }
+    );
+
+    if (result.matchedCount === 0) {
+      throw new Error('Image layer not found');
+    }
+
+    return true;
+  } catch (error) {
+    console.error('Error updating image layer:', error);
+    throw new Error('Failed to update image layer');
+  }
+}
+
+export async function reorderImageLayers(
+  eventId: string,
+  layerIds: string[]
+): Promise<boolean> {
+  try {
+    const event = await getEvent(eventId, { imageLayers: 1 });
+    if (!event) {
+      throw new Error('Event not found');
+    }
+
+    const layers = event.imageLayers || [];
+    const order = (layer: IImageLayer) => {
+      const index = layerIds.indexOf(layer.id);
+      return index === -1 ? layerIds.length : index;
+    };
+
+    const updateData = {
+      imageLayers: [...layers].sort((a, b) => order(a) - order(b)),
+      updatedAt: new Date(),
+    };
+
+    await updateEvent(eventId, updateData);
+    return true;
+  } catch (error) {
+    console.error('Error reordering image layers:', error);
+    throw new Error('Failed to reorder image layers');
+  }
+}
+
+export async function removeImageLayer(
+  eventId: string,
+  layerId: string
+): Promise<boolean> {
+  try {
+    const db = await getDatabase();
+    const eventsCollection = db.collection<IEvent>('events');
+
+    const result = await eventsCollection.updateOne(
+      { _id: new ObjectId(eventId) },
+      {
+        $pull: { imageLayers: { id: layerId } },
+        $set: { updatedAt: new Date() },
+      }
+    );
+    return result.modifiedCount > 0;
+  } catch (error) {
+    console.error('Error removing image layer:', error);
+    throw new Error('Failed to remove image layer');
+  }
+}
+
+export async function updateEventOutputFormat(
+  eventId: string,
+  outputFormat: CertificateOutputFormat
+): Promise<boolean> {
+  try {
+    const updateData = {
+      outputFormat,
+      updatedAt: new Date(),
+    };
+
+    await updateEvent(eventId, updateData);
+    return true;
+  } catch (error) {
+    console.error('Error updating output format:', error);
+    throw new Error('Failed to update output format');
+  }
+}
+
+export async function updateEventRenderScale(
+  eventId: string,
+  renderScale: RenderScale
+): Promise<boolean> {
+  try {
+    if (!RENDER_SCALES.some((option) => option.value === renderScale)) {
+      throw new Error('Invalid render scale');
+    }
+
+    const updateData = {
+      renderScale,
+      updatedAt: new Date(),
+    };
+
+    await updateEvent(eventId, updateData);
+    return true;
+  } catch (error) {
+    console.error('Error updating render scale:', error);
+    throw new Error('Failed to update render scale');
+  }
+}
+
+export async function updateEventFilenamePattern(
+  eventId: string,
+  filenamePattern: string
+): Promise<boolean> {
+  try {
+    const updateData = {
+      filenamePattern: filenamePattern.trim(),
+      updatedAt: new Date(),
+    };
+
+    await updateEvent(eventId, updateData);
+    return true;
+  } catch (error) {
+    console.error('Error updating filename pattern:', error);
+    throw new Error('Failed to update filename pattern');
+  }
+}
+
+export async function updateEventArchiveGrouping(
+  eventId: string,
+  archiveGrouping: ArchiveGrouping | null
+): Promise<boolean> {
+  try {
+    const updateData = {
+      archiveGrouping: archiveGrouping || undefined,
+      updatedAt: new Date(),
+    };
+
+    await updateEvent(eventId, updateData);
+    return true;
+  } catch (error) {
+    console.error('Error updating archive grouping:', error);
+    throw new Error('Failed to update archive grouping');
+  }
+}
+
+export async function updateQRCodeConfig(
+  eventId: string,
+  qrCodeConfig: IQRCodeConfig,
+  verificationBaseUrl: string
+): Promise<boolean> {
+  try {
+    const updateData = {
+      qrCodeConfig,
+      verificationBaseUrl: verificationBaseUrl.trim(),
+      updatedAt: new Date(),
+    };
+
+    await updateEvent(eventId, updateData);
+    return true;
+  } catch (error) {
+    console.error('Error updating QR code config:', error);
+    throw new Error('Failed to update QR code config');
+  }
+}
+
+export async function updateLayoutConfig(
+  eventId: string,
+  nameConfig: ITextConfig,
+  idConfig: ITextConfig,
+  textElements?: ITextElement[]
+): Promise<boolean> {
+  try {
+    const updateData: Partial<IEvent> = {
+      nameConfig,
+      idConfig,
+      updatedAt: new Date(),
+    };
+
+    if (textElements) {
+      updateData.textElements = textElements;
+    }
+
+    await updateEvent(eventId, updateData);
+    return true;
+  } catch (error) {
+    console.error('Error updating layout config:', error);
+    throw new Error('Failed to update layout config');
+  }
+}
+
+// Participant Management
+const MAX_PARTICIPANT_PAGE_SIZE = 500;
+
+export async function getParticipantPage(
+  eventId: string,
+  query: IParticipantQuery,
+  page: number,
+  pageSize: number
+): Promise<IParticipantPage> {
+  try {
+    const event = await getEvent(eventId, { templateVariants: 1 });
+    if (!event) {
+      throw new Error('Event not found');
+    }
+
+    const limit = Math.min(Math.max(1, pageSize), MAX_PARTICIPANT_PAGE_SIZE);
+    const skip = Math.max(0, page) * limit;
+    const [result, eventTotal] = await Promise.all([
+      findParticipants(eventId, query, { skip, limit }, event.templateVariants),
+      countParticipants(eventId),
+    ]);
+
+    return {
+      ...result,
+      eventTotal,
+      page: Math.max(0, page),
+      pageSize: limit,
+    };
+  } catch (error) {
+    console.error('Error getting participant page:', error);
+    throw new Error('Failed to get participants');
+  }
+}
+
+// Resolves a "select all" selection to the participants it covers
+export async function getParticipantIds(
+  eventId: string,
+  query: IParticipantQuery
+): Promise<string[]> {
+  try {
+    const event = await getEvent(eventId, { templateVariants: 1 });
+    if (!event) {
+      throw new Error('Event not found');
+    }
+
+    return await findParticipantIds(eventId, query, event.templateVariants);
+  } catch (error) {
+    console.error('Error getting participant IDs:', error);
+    throw new Error('Failed to get participant IDs');
+  }
+}
+
+export async function getParticipantSummary(
+  eventId: string
+): Promise<IParticipantSummary> {
+  try {
+    const [total, fieldNames, emailStatusCounts] = await Promise.all([
+      countParticipants(eventId),
+      findParticipantFieldNames(eventId),
+      countParticipantsByEmailStatus(eventId),
+    ]);
+    return { total, fieldNames, emailStatusCounts };
+  } catch (error) {
+    console.error('Error getting participant summary:', error);
+    throw new Error('Failed to get participant summary');
+  }
+}
+
+export async function getParticipantsByIds(
+  eventId: string,
+  participantIds: string[]
+): Promise<IRecipientData[]> {
+  try {
+    return await findParticipantsByIds(eventId, participantIds);
+  } catch (error) {
+    console.error('Error getting participants:', error);
+    throw new Error('Failed to get participants');
   }
 }
 
-// Template Management
-export async function saveTemplate(
+export async function saveParticipants(
   eventId: string,
-  templateData: {
-    base64: string;
-    originalName: string;
-    uploadedAt: string;
-  }
+  participants: IRecipientData[]
 ): Promise<boolean> {
   try {
     const updateData = {
-      template: {
-        base64: templateData.base64,
-        originalName: templateData.originalName,
-        uploadedAt: new Date(templateData.uploadedAt),
-      },
+      participants,
       updatedAt: new Date(),
     };
 
     await updateEvent(eventId, updateData);
     return true;
   } catch (error) {
-    console.error('Error saving template:', error);
-    throw new Error('Failed to save template');
+    console.error('Error saving participants:', error);
+    throw new Error('Failed to save participants');
   }
 }
 
-export async function updateLayoutConfig(
+// Shows what a merge would change without saving it
+export async function previewParticipantImport(
   eventId: string,
-  nameConfig: ITextConfig,
-  idConfig: ITextConfig
-): Promise<boolean> {
+  participants: IRecipientData[],
+  options: Pick<IParticipantImportOptions, 'matchBy' | 'removeMissing'>
+): Promise<IParticipantImportPreview> {
+  let existing: IRecipientData[];
   try {
-    const updateData = {
-      nameConfig,
-      idConfig,
-      updatedAt: new Date(),
+    existing = await getEventParticipants(eventId);
+  } catch (error) {
+    console.error('Error previewing participant import:', error);
+    throw new Error('Failed to preview participant import');
+  }
+
+  try {
+    // Fails on certification IDs that would be duplicated
+    mergeParticipants(existing, participants, options);
+    return {
+      diff: diffParticipants(existing, participants, options.matchBy),
+    };
+  } catch (error) {
+    return {
+      error:
+        error instanceof Error ? error.message : 'Invalid participant data',
     };
+  }
+}
 
-    await updateEvent(eventId, updateData);
-    return true;
+export async function mergeParticipantImport(
+  eventId: string,
+  participants: IRecipientData[],
+  options: Pick<IParticipantImportOptions, 'matchBy' | 'removeMissing'>
+): Promise<IParticipantMergeResult> {
+  try {
+    const event = await getEvent(eventId, { participants: 1 });
+    if (!event) {
+      throw new Error('Event not found');
+    }
+
+    const diff = diffParticipants(
+      event.participants,
+      participants,
+      options.matchBy
+    );
+    // Rejects merges with duplicate certification IDs before anything is saved
+    mergeParticipants(event.participants, participants, options);
+
+    // Only imported values are written, so concurrent email updates are kept
+    await applyParticipantDiff(eventId, diff, options.removeMissing);
+    await touchEvent(eventId);
+
+    return {
+      added: diff.added.length,
+      updated: diff.updated.length,
+      removed: options.removeMissing ? diff.missing.length : 0,
+    };
   } catch (error) {
-    console.error('Error updating layout config:', error);
-    throw new Error('Failed to update layout config');
+    console.error('Error merging participants:', error);
+    throw new Error('Failed to merge participants');
   }
 }
 
-// Participant Management
-export async function saveParticipants(
+export async function updateCSVImportMapping(
   eventId: string,
-  participants: IRecipientData[]
+  mapping: ICSVImportMapping
 ): Promise<boolean> {
   try {
-    const updateData = {
-      participants,
+    const updateData: Partial<IEvent> = {
+      csvImportMapping: mapping,
       updatedAt: new Date(),
     };
 
+    // A mapped template column becomes the event's template column
+    const templateColumn = mapping.columns.find(
+      (column) => column.target === 'template'
+    );
+    if (templateColumn) {
+      updateData.templateField = templateColumn.source.trim().toLowerCase();
+    }
+
     await updateEvent(eventId, updateData);
     return true;
   } catch (error) {
-    console.error('Error saving participants:', error);
-    throw new Error('Failed to save participants');
+    console.error('Error updating CSV import mapping:', error);
+    throw new Error('Failed to update CSV import mapping');
   }
 }
 
@@ -416,46 +1288,31 @@ export async function updateParticipant(
   updates: Partial<IRecipientData>
 ): Promise<boolean> {
   try {
-    const event = await getEvent(eventId);
-    if (!event) {
-      throw new Error('Event not found');
-    }
-
-    // Find the participant to update
-    const participantIndex = event.participants.findIndex(
-      (p) => p.certification_id === participantId
-    );
-
-    if (participantIndex === -1) {
-      throw new Error('Participant not found');
-    }
-
     // Validate that certification_id is unique if it's being changed
     if (
       updates.certification_id &&
       updates.certification_id !== participantId
     ) {
-      const existingParticipant = event.participants.find(
-        (p) => p.certification_id === updates.certification_id
+      const existingParticipant = await findParticipant(
+        eventId,
+        updates.certification_id
       );
       if (existingParticipant) {
         throw new Error('Certificate ID already exists');
       }
     }
 
-    // Update the participant
-    const updatedParticipants = [...event.participants];
-    updatedParticipants[participantIndex] = {
-      ...updatedParticipants[participantIndex],
-      ...updates,
-    };
-
-    const updateData = {
-      participants: updatedParticipants,
-      updatedAt: new Date(),
-    };
+    // Update only this participant's document
+    const found = await updateParticipantFields(
+      eventId,
+      participantId,
+      updates
+    );
+    if (!found) {
+      throw new Error('Participant not found');
+    }
 
-    await updateEvent(eventId, updateData);
+    await touchEvent(eventId);
     return true;
   } catch (error) {
     console.error('Error updating participant:', error);
@@ -468,31 +1325,14 @@ export async function deleteParticipant(
   participantId: string
 ): Promise<boolean> {
   try {
-    const event = await getEvent(eventId);
-    if (!event) {
-      throw new Error('Event not found');
-    }
-
-    // Find the participant to delete
-    const participantIndex = event.participants.findIndex(
-      (p) => p.certification_id === participantId
-    );
-
-    if (participantIndex === -1) {
+    const deletedCount = await deleteParticipantsByIds(eventId, [
+      participantId,
+    ]);
+    if (deletedCount === 0) {
       throw new Error('Participant not found');
     }
 
-    // Remove the participant
-    const updatedParticipants = event.participants.filter(
-      (p) => p.certification_id !== participantId
-    );
-
-    const updateData = {
-      participants: updatedParticipants,
-      updatedAt: new Date(),
-    };
-
-    await updateEvent(eventId, updateData);
+    await touchEvent(eventId);
     return true;
   } catch (error) {
     console.error('Error deleting participant:', error);
@@ -505,31 +1345,19 @@ export async function deleteParticipants(
   participantIds: string[]
 ): Promise<boolean> {
   try {
-    const event = await getEvent(eventId);
-    if (!event) {
-      throw new Error('Event not found');
-    }
-
     if (participantIds.length === 0) {
       throw new Error('No participants to delete');
     }
 
     // Remove all specified participants
-    const updatedParticipants = event.participants.filter(
-      (p) => !participantIds.includes(p.certification_id)
-    );
+    const deletedCount = await deleteParticipantsByIds(eventId, participantIds);
 
     // Check if any participants were actually removed
-    if (updatedParticipants.length === event.participants.length) {
+    if (deletedCount === 0) {
       throw new Error('None of the specified participants were found');
     }
 
-    const updateData = {
-      participants: updatedParticipants,
-      updatedAt: new Date(),
-    };
-
-    await updateEvent(eventId, updateData);
+    await touchEvent(eventId);
     return true;
   } catch (error) {
     console.error('Error deleting participants:', error);
@@ -537,38 +1365,173 @@ export async function deleteParticipants(
   }
 }
 
+// Certificate Revocation
+export async function revokeCertificate(
+  eventId: string,
+  participantId: string,
+  reason: string
+): Promise<IRecipientData> {
+  try {
+    if (!reason.trim()) {
+      throw new Error('A revocation reason is required');
+    }
+
+    const participant = await findParticipant(eventId, participantId);
+    if (!participant) {
+      throw new Error('Participant not found');
+    }
+
+    if (isCertificateRevoked(participant)) {
+      throw new Error('Certificate is already revoked');
+    }
+
+    const updates = {
+      revokedAt: new Date(),
+      revocationReason: reason.trim(),
+    };
+
+    await updateParticipant(eventId, participantId, updates);
+    return { ...participant, ...updates };
+  } catch (error) {
+    console.error('Error revoking certificate:', error);
+    throw new Error('Failed to revoke certificate');
+  }
+}
+
+export async function reissueCertificate(
+  eventId: string,
+  participantId: string,
+  options: IReissueCertificateOptions
+): Promise<{
+  revoked: IRecipientData;
+  reissued: IRecipientData;
+  email?: { success: boolean; error?: string };
+}> {
+  let result: { revoked: IRecipientData; reissued: IRecipientData };
+
+  try {
+    const original = await findParticipant(eventId, participantId);
+    if (!original) {
+      throw new Error('Participant not found');
+    }
+
+    if (original.replacedBy) {
+      throw new Error('Certificate has already been reissued');
+    }
+
+    const existingIds = await getCertificationIds(eventId);
+    const newCertificationId =
+      options.certificationId?.trim() ||
+      createReissuedCertificationId(participantId, existingIds);
+    if (existingIds.includes(newCertificationId)) {
+      throw new Error('Certificate ID already exists');
+    }
+
+    // The old certificate stays on record as revoked and points to the new one
+    const revocation = {
+      revokedAt: original.revokedAt || new Date(),
+      revocationReason:
+        options.reason.trim() || original.revocationReason || 'Reissued',
+      replacedBy: newCertificationId,
+    };
+    const revoked: IRecipientData = { ...original, ...revocation };
+
+    const reissued: IRecipientData = {
+      name: options.name?.trim() || original.name,
+      certification_id: newCertificationId,
+      email:
+        options.email !== undefined ? options.email.trim() : original.email,
+      templateKey: original.templateKey,
+      fields: original.fields,
+      emailStatus: 'not_sent',
+      replaces: participantId,
+    };
+
+    // Only one concurrent reissue can claim the original certificate
+    const claimed = await updateParticipantFields(
+      eventId,
+      participantId,
+      revocation,
+      { replacedBy: { $exists: false } }
+    );
+    if (!claimed) {
+      throw new Error('Certificate has already been reissued');
+    }
+
+    // Keep the reissued certificate next to the one it replaces
+    try {
+      await insertParticipantAfter(eventId, participantId, reissued);
+    } catch (error) {
+      await updateParticipantFields(eventId, participantId, {
+        revokedAt: original.revokedAt,
+        revocationReason: original.revocationReason,
+        replacedBy: undefined,
+      });
+      throw error;
+    }
+
+    await touchEvent(eventId);
+    result = { revoked, reissued };
+  } catch (error) {
+    console.error('Error reissuing certificate:', error);
+    throw new Error('Failed to reissue certificate');
+  }
+
+  if (!options.sendEmail || !result.reissued.email) {
+    return result;
+  }
+
+  // Email failures are reported without undoing the reissue
+  const emailResult = await sendParticipantEmail(
+    eventId,
+    result.reissued.certification_id
+  );
+
+  return {
+    ...result,
+    reissued: emailResult.success
+      ? {
+          ...result.reissued,
+          emailStatus: 'sent',
+          lastEmailSent: new Date(),
+        }
+      : {
+          ...result.reissued,
+          emailStatus: 'failed',
+          emailError: emailResult.error,
+        },
+    email: {
+      success: emailResult.success,
+      error: emailResult.validationErrors?.join(', ') || emailResult.error,
+    },
+  };
+}
+
 // Certificate Generation
 export async function generateIndividualCertificate(
   eventId: string,
   participantId: string
 ): Promise<ArrayBuffer> {
   try {
-    const event = await getEvent(eventId);
+    const event = await getEvent(eventId, { participants: 0 });
     if (!event) {
       throw new Error('Event not found');
     }
 
-    if (!event.template.base64 || event.participants.length === 0) {
-      throw new Error('Event missing template or participants');
+    if (!hasTemplateImage(event.template)) {
+      throw new Error('Event missing template');
     }
 
     // Find the specific participant
-    const participant = event.participants.find(
-      (p) => p.certification_id === participantId
-    );
+    const participant = await findParticipant(eventId, participantId);
     if (!participant) {
       throw new Error('Participant not found');
     }
 
-    // Convert base64 template to data URL
-    const templateDataUrl = `data:image/png;base64,${event.template.base64}`;
-
     // Generate certificate for the specific participant
-    const certificateBuffer = await generateCertificate(
-      templateDataUrl,
-      participant,
-      event.nameConfig,
-      event.idConfig
+    const certificateBuffer = await renderParticipantCertificate(
+      event,
+      participant
     );
 
     // Convert Buffer to ArrayBuffer
@@ -583,98 +1546,154 @@ export async function generateIndividualCertificate(
   }
 }
 
-export async function generateSelectedCertificates(
+// Utility function to serialize certificate jobs for client components
+function serializeCertificateJob(job: ICertificateJob): ICertificateJob {
+  return {
+    ...job,
+    _id: job._id?.toString(),
+    eventId: job.eventId.toString(),
+  } as unknown as ICertificateJob;
+}
+
+/**
+ * Queues a background job that renders certificates into a ZIP archive, or
+ * into one print PDF when print options are given. Poll
+ * getCertificateJobStatus for progress and download the result from
+ * /api/certificate-jobs/<jobId>/download once it has completed.
+ * @param participantIds - Certification IDs to include, or all participants
+ * @param printOptions - Paper, imposition and page order of a print PDF
+ */
+export async function startCertificateJob(
   eventId: string,
-  participantIds: string[]
-): Promise<ArrayBuffer> {
+  participantIds?: string[],
+  printOptions?: IPrintOptions
+): Promise<ICertificateJob> {
   try {
-    const event = await getEvent(eventId);
+    const event = await getEvent(eventId, { participants: 0 });
     if (!event) {
       throw new Error('Event not found');
     }
 
-    if (!event.template.base64 || event.participants.length === 0) {
-      throw new Error('Event missing template or participants');
+    if (!hasTemplateImage(event.template)) {
+      throw new Error('Event missing template');
     }
 
-    if (participantIds.length === 0) {
+    const participantCount = participantIds
+      ? participantIds.length
+      : await countParticipants(eventId);
+    if (participantCount === 0) {
       throw new Error('No participants selected for certificate generation');
     }
 
-    // Filter participants to only include selected ones
-    const selectedParticipants = event.participants.filter((p) =>
-      participantIds.includes(p.certification_id)
+    if (
+      printOptions &&
+      (!PRINT_PAPER_SIZES[printOptions.paperSize] ||
+        ![1, 2].includes(printOptions.perPage) ||
+        !(printOptions.bleed >= 0 && printOptions.bleed <= MAX_BLEED_MM))
+    ) {
+      throw new Error('Invalid print options');
+    }
+
+    const job = await createCertificateJob(
+      eventId,
+      printOptions
+        ? generatePrintFilename(event.title, participantCount)
+        : generateZipFilename(event.title, participantCount),
+      participantIds,
+      printOptions
     );
+    processCertificateJobs();
+
+    return serializeCertificateJob(job);
+  } catch (error) {
+    console.error('Error starting certificate job:', error);
+    throw new Error('Failed to start certificate generation');
+  }
+}
+
+export async function getCertificateJobStatus(
+  jobId: string
+): Promise<ICertificateJob | null> {
+  try {
+    const job = await getCertificateJob(jobId);
 
-    if (selectedParticipants.length === 0) {
-      throw new Error('None of the selected participants were found');
+    // Resumes queued jobs after a server restart
+    if (job?.status === 'queued' || job?.status === 'running') {
+      processCertificateJobs();
     }
 
-    // Convert base64 template to data URL
-    const templateDataUrl = `data:image/png;base64,${event.template.base64}`;
+    return job ? serializeCertificateJob(job) : null;
+  } catch (error) {
+    console.error('Error getting certificate job:', error);
+    throw new Error('Failed to get certificate job');
+  }
+}
+
+/**
+ * Builds the header and rows of a participant export. The template and custom
+ * field columns are included so the export can be imported again.
+ */
+async function getParticipantExportRows(
+  eventId: string,
+  participantIds: string[],
+  options: { includeEmailStatus?: boolean } = {}
+): Promise<string[][]> {
+  if (participantIds.length === 0) {
+    throw new Error('No participants selected for export');
+  }
 
-    // Create ZIP archive
-    const archive = archiver('zip', { zlib: { level: 9 } });
-    const chunks: Buffer[] = [];
+  const event = await getEvent(eventId, { templateField: 1 });
+  if (!event) {
+    throw new Error('Event not found');
+  }
 
-    // Set up event listeners
-    archive.on('data', (chunk) => chunks.push(chunk));
-    archive.on('error', (err) => {
-      console.error('Archive error:', err);
-      throw err;
-    });
+  // Only the selected participants are loaded
+  const selectedParticipants = await findParticipantsByIds(
+    eventId,
+    participantIds
+  );
 
-    // Generate certificates for selected participants only
-    for (const participant of selectedParticipants) {
-      try {
-        const certificateBuffer = await generateCertificate(
-          templateDataUrl,
-          participant,
-          event.nameConfig,
-          event.idConfig
-        );
-
-        // Generate filename for the certificate
-        const filename = generateCertificateFilename(
-          participant.name,
-          participant.certification_id
-        );
-
-        // Add certificate to ZIP
-        archive.append(certificateBuffer, { name: filename });
-      } catch (error) {
-        console.error(
-          `Error generating certificate for ${participant.name}:`,
-          error
-        );
-        // Continue with other participants even if one fails
-      }
-    }
+  if (selectedParticipants.length === 0) {
+    throw new Error('None of the selected participants were found');
+  }
 
-    // Finalize the archive
-    await archive.finalize();
+  const templateField = event.templateField;
+  const fieldNames = getParticipantFieldNames(selectedParticipants);
 
-    // Convert chunks to single buffer
-    const totalLength = chunks.reduce((sum, chunk) => sum + chunk.length, 0);
-    const arrayBuffer = new ArrayBuffer(totalLength);
-    const view = new Uint8Array(arrayBuffer);
-    let offset = 0;
+  const headerColumns = ['name', 'certification_id', 'email'];
+  if (templateField) {
+    headerColumns.push(templateField);
+  }
+  headerColumns.push(...fieldNames);
+  if (options.includeEmailStatus) {
+    headerColumns.push('email_status', 'last_email_sent', 'email_error');
+  }
 
-    for (const chunk of chunks) {
-      const chunkView = new Uint8Array(
-        chunk.buffer,
-        chunk.byteOffset,
-        chunk.byteLength
+  const rows = selectedParticipants.map((participant) => {
+    const values = [
+      participant.name,
+      participant.certification_id,
+      participant.email || '',
+    ];
+    if (templateField) {
+      values.push(participant.templateKey || '');
+    }
+    fieldNames.forEach((fieldName) =>
+      values.push(participant.fields?.[fieldName] || '')
+    );
+    if (options.includeEmailStatus) {
+      values.push(
+        participant.emailStatus || 'not_sent',
+        participant.lastEmailSent
+          ? new Date(participant.lastEmailSent).toISOString()
+          : '',
+        participant.emailError || ''
       );
-      view.set(chunkView, offset);
-      offset += chunk.length;
     }
+    return values;
+  });
 
-    return arrayBuffer;
-  } catch (error) {
-    console.error('Error generating selected certificates:', error);
-    throw new Error('Failed to generate selected certificates');
-  }
+  return [headerColumns, ...rows];
 }
 
 export async function exportParticipantsCSV(
@@ -682,127 +1701,29 @@ export async function exportParticipantsCSV(
   participantIds: string[]
 ): Promise<string> {
   try {
-    const event = await getEvent(eventId);
-    if (!event) {
-      throw new Error('Event not found');
-    }
-
-    if (participantIds.length === 0) {
-      throw new Error('No participants selected for export');
-    }
-
-    // Filter participants to only include selected ones
-    const selectedParticipants = event.participants.filter((p) =>
-      participantIds.includes(p.certification_id)
-    );
-
-    if (selectedParticipants.length === 0) {
-      throw new Error('None of the selected participants were found');
-    }
-
     // Generate CSV content
-    const csvHeader = 'name,certification_id,email\n';
-    const csvRows = selectedParticipants
-      .map((participant) => {
-        // Escape CSV values (handle commas, quotes, newlines)
-        const escapeCsvValue = (value: string) => {
-          if (
-            value.includes(',') ||
-            value.includes('"') ||
-            value.includes('\n')
-          ) {
-            return `"${value.replace(/"/g, '""')}"`;
-          }
-          return value;
-        };
-
-        return [
-          escapeCsvValue(participant.name),
-          escapeCsvValue(participant.certification_id),
-          escapeCsvValue(participant.email || ''),
-        ].join(',');
-      })
+    const rows = await getParticipantExportRows(eventId, participantIds);
+    return rows
+      .map((values) => values.map(escapeCSVValue).join(','))
       .join('\n');
-
-    return csvHeader + csvRows;
   } catch (error) {
     console.error('Error exporting participants CSV:', error);
     throw new Error('Failed to export participants CSV');
   }
 }
 
-export async function generateCertificates(
-  eventId: string
+export async function exportParticipantsXLSX(
+  eventId: string,
+  participantIds: string[]
 ): Promise<ArrayBuffer> {
   try {
-    const event = await getEvent(eventId);
-    if (!event) {
-      throw new Error('Event not found');
-    }
-
-    if (!event.template.base64 || event.participants.length === 0) {
-      throw new Error('Event missing template or participants');
-    }
-
-    // Convert base64 template to buffer
-    const templateBuffer = Buffer.from(event.template.base64, 'base64');
-    const templateDataUrl = `data:image/png;base64,${event.template.base64}`;
-
-    // Create ZIP archive
-    const archive = archiver('zip', { zlib: { level: 9 } });
-    const chunks: Buffer[] = [];
-
-    // Set up event listeners
-    archive.on('data', (chunk) => chunks.push(chunk));
-    archive.on('error', (err) => {
-      console.error('Archive error:', err);
-      throw err;
-    });
-
-    // Generate certificates for each participant
-    for (const participant of event.participants) {
-      try {
-        const certificateBuffer = await generateCertificate(
-          templateDataUrl,
-          participant,
-          event.nameConfig,
-          event.idConfig
-        );
-
-        const filename = `certificate_${participant.certification_id}.png`;
-        archive.append(certificateBuffer, { name: filename });
-      } catch (error) {
-        console.error(
-          `Error generating certificate for ${participant.name}:`,
-          error
-        );
-        // Continue with other certificates even if one fails
-      }
-    }
-
-    // Finalize the archive
-    await new Promise<void>((resolve, reject) => {
-      archive.on('end', () => {
-        console.log('Archive finalized successfully');
-        resolve();
-      });
-
-      archive.on('error', (err) => {
-        console.error('Archive finalization error:', err);
-        reject(err);
-      });
-
-      archive.finalize();
+    const rows = await getParticipantExportRows(eventId, participantIds, {
+      includeEmailStatus: true,
     });
-
-    const zipBuffer = Buffer.concat(chunks as unknown as Uint8Array[]);
-    return zipBuffer.buffer.slice(
-      zipBuffer.byteOffset,
-      zipBuffer.byteOffset + zipBuffer.byteLength
-    ) as ArrayBuffer;
+    return await writeXLSXWorkbook('Participants', rows);
   } catch (error) {
-    console.error('Error generating certificates:', error);
-    throw new Error('Failed to generate certificates');
+    console.error('Error exporting participants XLSX:', error);
+    throw new Error('Failed to export participants XLSX');
   }
 }
 
@@ -817,18 +1738,20 @@ export async function sendParticipantEmail(
   validationErrors?: string[];
 }> {
   try {
-    const event = await getEvent(eventId);
+    const event = await getEvent(eventId, { participants: 0 });
     if (!event) {
       return { success: false, error: 'Event not found' };
     }
 
-    const participant = event.participants.find(
-      (p) => p.certification_id === participantId
-    );
+    const participant = await findParticipant(eventId, participantId);
     if (!participant) {
       return { success: false, error: 'Participant not found' };
     }
 
+    if (isCertificateRevoked(participant)) {
+      return { success: false, error: 'Certificate has been revoked' };
+    }
+
     console.log('participant', participant);
     console.log('event', event);
     console.log('eventId', eventId);
@@ -883,7 +1806,14 @@ export async function sendParticipantEmail(
       event.title,
       participant.certification_id,
       certificateArrayBuffer,
-      emailTemplate
+      emailTemplate,
+      event.outputFormat,
+      participant.fields,
+      buildCertificateFilename(
+        event,
+        participant,
+        getCertificateFileInfo(event.outputFormat).extension
+      )
     );
 
     // Update participant email status
@@ -945,7 +1875,7 @@ export async function sendBulkEmails(
   errors: string[];
 }> {
   try {
-    const event = await getEvent(eventId);
+    const event = await getEvent(eventId, { participants: 0 });
     if (!event) {
       return {
         success: false,
@@ -1046,31 +1976,17 @@ export async function updateParticipantEmailStatus(
   }
 ): Promise<boolean> {
   try {
-    const event = await getEvent(eventId);
-    if (!event) {
-      throw new Error('Event not found');
-    }
-
-    const participantIndex = event.participants.findIndex(
-      (p) => p.certification_id === participantId
+    // A single atomic update, so concurrent sends don't overwrite each other
+    const found = await updateParticipantFields(
+      eventId,
+      participantId,
+      updates
     );
-
-    if (participantIndex === -1) {
+    if (!found) {
       throw new Error('Participant not found');
     }
 
-    const updatedParticipants = [...event.participants];
-    updatedParticipants[participantIndex] = {
-      ...updatedParticipants[participantIndex],
-      ...updates,
-    };
-
-    const updateData = {
-      participants: updatedParticipants,
-      updatedAt: new Date(),
-    };
-
-    await updateEvent(eventId, updateData);
+    await touchEvent(eventId);
     return true;
   } catch (error) {
     console.error('Error updating participant email status:', error);
@@ -1103,15 +2019,7 @@ export async function getEmailStatus(
   emailRetryCount?: number;
 } | null> {
   try {
-    const event = await getEvent(eventId);
-    if (!event) {
-      return null;
-    }
-
-    const participant = event.participants.find(
-      (p) => p.certification_id === participantId
-    );
-
+    const participant = await findParticipant(eventId, participantId);
     if (!participant) {
       return null;
     }
@@ -0,0 +1,110 @@
+import { escapeCSVValue } from './csv-utils';
+import { sanitizeFilename } from './filename-pattern';
+import { getParticipantTemplateName } from './template-variants';
+import { ArchiveGrouping, IEvent, IRecipientData } from './types';
+
+/**
+ * Certificate archives list their contents in manifest.csv, so whoever
+ * receives one can tell which file belongs to whom and check it against its
+ * hash. Certificates that could not be generated are explained in
+ * errors.txt. Entries can be grouped into folders by template variant or by
+ * a participant field.
+ */
+
+export const MANIFEST_FILENAME = 'manifest.csv';
+export const ERRORS_FILENAME = 'errors.txt';
+
+// Folder for participants without a value in the grouping field
+export const UNGROUPED_FOLDER = 'Ungrouped';
+
+const MANIFEST_HEADERS = [
+  'name',
+  'certification_id',
+  'email',
+  'file',
+  'sha256',
+  'status',
+  'error',
+];
+
+export interface ArchiveManifestEntry {
+  participant: IRecipientData;
+  path?: string; // Path within the archive; unset when rendering failed
+  sha256?: string; // Hex hash of the certificate file
+  error?: string;
+}
+
+/**
+ * Returns the folder a participant's certificate goes into, or null when
+ * the archive isn't grouped
+ */
+export function getArchiveFolder(
+  grouping: ArchiveGrouping | undefined,
+  event: Pick<IEvent, 'templateVariants'>,
+  participant: IRecipientData
+): string | null {
+  if (!grouping) return null;
+
+  const value =
+    grouping.by === 'template'
+      ? getParticipantTemplateName(event, participant)
+      : participant.fields?.[grouping.field] || '';
+  return sanitizeFilename(value) || UNGROUPED_FOLDER;
+}
+
+/**
+ * Joins a folder and file name into a path within an archive
+ */
+export function getArchivePath(folder: string | null, filename: string) {
+  return folder ? `${folder}/${filename}` : filename;
+}
+
+/**
+ * Builds manifest.csv with one row per participant, in archive order
+ */
+export function buildArchiveManifest(entries: ArchiveManifestEntry[]): string {
+  const rows = entries.map(({ participant, path, sha256, error }) => [
+    participant.name,
+    participant.certification_id,
+    participant.email || '',
+    path || '',
+    sha256 || '',
+    path ? 'rendered' : 'failed',
+    error || '',
+  ]);
+
+  // The byte order mark makes Excel read names in any script correctly
+  return (
+    '\ufeff' +
+    [MANIFEST_HEADERS, ...rows]
+      .map((values) => values.map(escapeCSVValue).join(','))
+      .join('\r\n')
+  );
+}
+
+/**
+ * Builds errors.txt for the certificates that could not be generated
+ * @returns The file content, or null if every certificate was generated
+ */
+export function buildArchiveErrors(
+  entries: ArchiveManifestEntry[]
+): string | null {
+  const failed = entries.filter((entry) => !entry.path);
+  if (failed.length === 0) return null;
+
+  return [
+    `${failed.length} certificate${
+      failed.length === 1 ? '' : 's'
+    } could not be generated and ${
+      failed.length === 1 ? 'is' : 'are'
+    } missing from this archive:`,
+    '',
+    ...failed.map(
+      ({ participant, error }) =>
+        `${participant.name} (${participant.certification_id}): ${
+          error || 'Unknown error'
+        }`
+    ),
+    '',
+  ].join('\r\n');
+}
@@ -0,0 +1,197 @@
+import { randomBytes } from 'crypto';
+import { join } from 'path';
+import { Readable } from 'stream';
+import { getDatabase } from './mongodb';
+import { createGridFSAssetStorage } from './gridfs-asset-storage';
+import { createLocalAssetStorage } from './local-asset-storage';
+import { createS3AssetStorage } from './s3-asset-storage';
+import {
+  IAssetStorage,
+  IAssetStream,
+  IStoredAsset,
+  ITemplateImage,
+} from './types';
+
+/**
+ * Uploaded files such as template images are kept in asset storage instead of
+ * event documents. ASSET_STORAGE selects the backend:
+ * - gridfs (default): the app's MongoDB database
+ * - local: the directory in ASSET_STORAGE_DIR
+ * - s3: the bucket in S3_BUCKET at S3_ENDPOINT, e.g. a local MinIO
+ *
+ * Assets never change after they are stored; a new upload gets a new ID, so
+ * assets can be cached forever.
+ */
+
+const ASSET_ID_PATTERN = /^[0-9a-f]{32}$/;
+
+// Template images kept in memory for rendering many certificates in a row
+const MAX_CACHED_TEMPLATE_IMAGES = 20;
+
+let assetStorage: IAssetStorage | undefined;
+const templateImageCache = new Map<string, Promise<Buffer>>();
+// Embedded templates are decoded once per template, so every certificate
+// renders from the same Buffer
+const embeddedTemplateImages = new WeakMap<ITemplateImage, Buffer>();
+
+function createAssetStorage(): IAssetStorage {
+  const backend = process.env.ASSET_STORAGE || 'gridfs';
+
+  switch (backend) {
+    case 'gridfs':
+      return createGridFSAssetStorage(getDatabase);
+    case 'local':
+      return createLocalAssetStorage(
+        process.env.ASSET_STORAGE_DIR ||
+          join(process.cwd(), 'storage', 'assets')
+      );
+    case 's3': {
+      const region = process.env.S3_REGION || 'us-east-1';
+      if (!process.env.S3_BUCKET) {
+        throw new Error('S3_BUCKET is required for S3 asset storage');
+      }
+      return createS3AssetStorage({
+        endpoint:
+          process.env.S3_ENDPOINT || `https://s3.${region}.amazonaws.com`,
+        region,
+        bucket: process.env.S3_BUCKET,
+        accessKeyId: process.env.S3_ACCESS_KEY_ID || '',
+        secretAccessKey: process.env.S3_SECRET_ACCESS_KEY || '',
+      });
+    }
+    default:
+      throw new Error(`Unknown asset storage backend: ${backend}`);
+  }
+}
+
+export function getAssetStorage(): IAssetStorage {
+  if (!assetStorage) {
+    assetStorage = createAssetStorage();
+  }
+  return assetStorage;
+}
+
+export function isAssetId(value: string): boolean {
+  return ASSET_ID_PATTERN.test(value);
+}
+
+/**
+ * Stores a file under a new asset ID
+ * @returns The asset ID
+ */
+export async function storeAsset(
+  data: Buffer,
+  contentType: string
+): Promise<string> {
+  const assetId = randomBytes(16).toString('hex');
+  await getAssetStorage().put(assetId, { data, contentType });
+  return assetId;
+}
+
+/**
+ * Stores a stream under a new asset ID without holding it in memory
+ * @returns The asset ID
+ */
+export async function storeAssetStream(
+  stream: Readable,
+  contentType: string
+): Promise<string> {
+  const assetId = randomBytes(16).toString('hex');
+  try {
+    await getAssetStorage().putStream(assetId, stream, contentType);
+  } catch (error) {
+    // Remove whatever was written before the stream failed
+    await deleteAssets([assetId]);
+    throw error;
+  }
+  return assetId;
+}
+
+/**
+ * Stores a copy of an asset under a new asset ID, so the copy can be replaced
+ * or deleted without affecting the original
+ * @returns The new asset ID, or null when the asset doesn't exist
+ */
+export async function copyAsset(assetId: string): Promise<string | null> {
+  const asset = await openAsset(assetId);
+  if (!asset) return null;
+  return storeAssetStream(asset.stream, asset.contentType);
+}
+
+/**
+ * Returns a stored asset as a stream, or null when the ID is unknown or
+ * malformed
+ */
+export async function openAsset(assetId: string): Promise<IAssetStream | null> {
+  if (!isAssetId(assetId)) return null;
+  return getAssetStorage().getStream(assetId);
+}
+
+/**
+ * Returns a stored asset, or null when the ID is unknown or malformed
+ */
+export async function readAsset(assetId: string): Promise<IStoredAsset | null> {
+  if (!isAssetId(assetId)) return null;
+  return getAssetStorage().get(assetId);
+}
+
+/**
+ * Deletes assets that are no longer referenced. Failures are logged rather
+ * than thrown because the change that released the assets already succeeded.
+ */
+export async function deleteAssets(
+  assetIds: (string | undefined)[]
+): Promise<void> {
+  await Promise.all(
+    assetIds.map(async (assetId) => {
+      if (!assetId || !isAssetId(assetId)) return;
+      try {
+        templateImageCache.delete(assetId);
+        await getAssetStorage().delete(assetId);
+      } catch (error) {
+        console.error('Error deleting asset:', error);
+      }
+    })
+  );
+}
+
+/**
+ * Returns the PNG of a template, reading legacy templates from their
+ * embedded base64 data
+ */
+export async function readTemplateImage(
+  template: ITemplateImage
+): Promise<Buffer> {
+  const { assetId } = template;
+  if (!assetId) {
+    if (!template.base64) {
+      throw new Error('Template image missing');
+    }
+    let embedded = embeddedTemplateImages.get(template);
+    if (!embedded) {
+      embedded = Buffer.from(template.base64, 'base64');
+      embeddedTemplateImages.set(template, embedded);
+    }
+    return embedded;
+  }
+
+  let image = templateImageCache.get(assetId);
+  if (!image) {
+    image = readAsset(assetId).then((asset) => {
+      if (!asset) {
+        throw new Error('Template image not found');
+      }
+      return asset.data;
+    });
+
+    const oldest = templateImageCache.keys().next();
+    if (templateImageCache.size >= MAX_CACHED_TEMPLATE_IMAGES && !oldest.done) {
+      templateImageCache.delete(oldest.value);
+    }
+    templateImageCache.set(assetId, image);
+    // Failed reads are retried next time
+    image.catch(() => templateImageCache.delete(assetId));
+  }
+
+  return image;
+}
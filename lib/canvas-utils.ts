@@ -3,62 +3,390 @@ import {
   loadImage,
   Canvas,
   CanvasRenderingContext2D,
+  Image,
+  registerFont,
 } from 'canvas';
-import { ITextConfig, IRecipientData } from './types';
+import { existsSync, mkdirSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  ITextConfig,
+  IRecipientData,
+  ITextElement,
+  ICustomFont,
+  IQRCodeConfig,
+  IImageLayer,
+  CertificateOutputFormat,
+  IPrintOptions,
+} from './types';
+import { renderTextTemplate } from './text-template';
+import { getFontExtension } from './font-utils';
+import { drawTextElement, getFontString } from './text-rendering';
+import { buildVerificationUrl, drawQRCode } from './qr-code';
+import { drawImageLayer, getImageLayerDataUrl } from './image-layers';
+import {
+  computePrintLayout,
+  fitPrintSlot,
+  getCropMarks,
+  PrintLayout,
+} from './print-layout';
+
+export interface CertificateRenderOptions {
+  textElements?: ITextElement[];
+  variables?: Record<string, string>; // Values for {placeholders} in text elements
+  format?: CertificateOutputFormat; // Defaults to 'png'
+  scale?: number; // Multiple of the template's pixel size; defaults to 1
+  fonts?: ICustomFont[]; // Event fonts to register before rendering
+  qrCodeConfig?: IQRCodeConfig;
+  verificationBaseUrl?: string; // Base URL encoded in the QR code
+  imageLayers?: IImageLayer[]; // Drawn in order between template and text
+}
+
+interface LoadedImageLayer {
+  layer: IImageLayer;
+  image: Image;
+}
+
+/**
+ * A template decoded through an image cache. The data is only needed the
+ * first time the key is seen.
+ */
+export interface CachedTemplate {
+  images: ImageCache;
+  key: string;
+  data?: Buffer;
+}
+
+export type ImageCache = ReturnType<typeof createImageCache>;
+
+// Font ids already registered with node-canvas in this process
+const registeredFonts = new Set<string>();
+
+/**
+ * Registers event fonts with node-canvas. Fonts must be registered before
+ * the canvas is created, and node-canvas can only load them from disk.
+ */
+export function registerCustomFonts(fonts: ICustomFont[]): void {
+  const fontsDir = join(tmpdir(), 'certificate-generator-fonts');
+
+  for (const font of fonts) {
+    if (registeredFonts.has(font.id) || !font.base64) continue;
+
+    try {
+      if (!existsSync(fontsDir)) {
+        mkdirSync(fontsDir, { recursive: true });
+      }
+
+      const fontPath = join(
+        fontsDir,
+        `${font.id}.${getFontExtension(font.format)}`
+      );
+      writeFileSync(fontPath, Buffer.from(font.base64, 'base64'));
+      registerFont(fontPath, { family: font.family });
+      registeredFonts.add(font.id);
+    } catch (error) {
+      console.error(`Error registering font ${font.family}:`, error);
+    }
+  }
+}
+
+/**
+ * Keeps recently decoded images, so a template or image layer used for many
+ * certificates is decoded once instead of for every certificate
+ * @param maxSize - The most images kept, least recently used are dropped.
+ *   Decoded templates take width × height × 4 bytes each.
+ */
+export function createImageCache(maxSize: number = 8) {
+  const images = new Map<string, Promise<Image>>();
+
+  return {
+    has(key: string): boolean {
+      return images.has(key);
+    },
+
+    load(key: string, source?: string | Buffer): Promise<Image> {
+      let image = images.get(key);
+      if (image) {
+        // Re-inserted so the map stays in least recently used order
+        images.delete(key);
+      } else {
+        if (!source) {
+          return Promise.reject(new Error(`Image ${key} is not cached`));
+        }
+        const loading = loadImage(source);
+        // Failed decodes are retried next time
+        loading.catch(() => {
+          if (images.get(key) === loading) images.delete(key);
+        });
+        image = loading;
+      }
+
+      images.set(key, image);
+      const oldest = images.keys().next();
+      if (images.size > maxSize && !oldest.done) {
+        images.delete(oldest.value);
+      }
+      return image;
+    },
+  };
+}
+
+// Cairo can't create surfaces larger than this in either dimension
+const MAX_CANVAS_SIZE = 32767;
+
+/**
+ * Limits a render scale to what the canvas can hold for an image. Scales
+ * below 1 are raised to 1.
+ */
+function getRenderScale(image: Image, scale: number = 1): number {
+  return Math.max(
+    1,
+    Math.min(
+      scale,
+      MAX_CANVAS_SIZE / image.width,
+      MAX_CANVAS_SIZE / image.height
+    )
+  );
+}
 
 export async function generateCertificate(
-  templateUrl: string,
+  template: string | Buffer | CachedTemplate, // URL, image data or cached
   recipient: IRecipientData,
   nameConfig: ITextConfig,
-  idConfig: ITextConfig
+  idConfig: ITextConfig,
+  options: CertificateRenderOptions = {}
 ): Promise<Buffer> {
   try {
-    // Load the template image
-    const image = await loadImage(templateUrl);
+    // Register custom fonts before any canvas is created
+    if (options.fonts && options.fonts.length > 0) {
+      registerCustomFonts(options.fonts);
+    }
 
-    // Create canvas with template dimensions
-    const canvas = createCanvas(image.width, image.height);
-    const ctx = canvas.getContext('2d');
+    // Load the template and layer images
+    const cache =
+      typeof template === 'string' || Buffer.isBuffer(template)
+        ? undefined
+        : template;
+    const image = cache
+      ? await cache.images.load(cache.key, cache.data)
+      : await loadImage(template as string | Buffer);
+    const layers = await loadImageLayers(
+      options.imageLayers || [],
+      cache?.images
+    );
 
-    // Draw the template
-    ctx.drawImage(image, 0, 0);
+    // Vector PDFs are drawn directly onto a PDF surface so text stays as
+    // glyphs. They print sharply at any size, so the render scale is ignored.
+    if (options.format === 'pdf-vector') {
+      const canvas = createCanvas(image.width, image.height, 'pdf');
+      drawCertificate(
+        canvas.getContext('2d'),
+        image,
+        layers,
+        recipient,
+        nameConfig,
+        idConfig,
+        { ...options, scale: 1 }
+      );
+      return canvas.toBuffer('application/pdf');
+    }
 
-    // Draw recipient name
-    drawText(ctx, recipient.name, nameConfig);
+    // Create canvas with template dimensions, multiplied by the render scale
+    // so text and shapes are drawn with more pixels
+    const scale = getRenderScale(image, options.scale);
+    const canvas = createCanvas(
+      Math.round(image.width * scale),
+      Math.round(image.height * scale)
+    );
+    drawCertificate(
+      canvas.getContext('2d'),
+      image,
+      layers,
+      recipient,
+      nameConfig,
+      idConfig,
+      { ...options, scale }
+    );
+    const pngBuffer = canvas.toBuffer('image/png');
 
-    // Draw certificate ID
-    drawText(ctx, recipient.certification_id, idConfig);
+    if (options.format === 'pdf') {
+      return await convertPngToPdf(pngBuffer, image.width, image.height);
+    }
 
-    return canvas.toBuffer('image/png');
+    return pngBuffer;
   } catch (error) {
     console.error('Error generating certificate:', error);
     throw new Error('Failed to generate certificate');
   }
 }
 
-function drawText(
+async function loadImageLayers(
+  imageLayers: IImageLayer[],
+  images?: ImageCache
+): Promise<LoadedImageLayer[]> {
+  const loaded: LoadedImageLayer[] = [];
+
+  for (const layer of imageLayers) {
+    try {
+      // Layer images never change after upload, so their ID is a safe key
+      loaded.push({
+        layer,
+        image: images
+          ? await images.load(`layer:${layer.id}`, getImageLayerDataUrl(layer))
+          : await loadImage(getImageLayerDataUrl(layer)),
+      });
+    } catch (error) {
+      // A broken layer should not stop the certificate from rendering
+      console.error(`Error loading image layer ${layer.label}:`, error);
+    }
+  }
+
+  return loaded;
+}
+
+function drawCertificate(
   ctx: CanvasRenderingContext2D,
-  text: string,
-  config: ITextConfig
+  image: Image,
+  layers: LoadedImageLayer[],
+  recipient: IRecipientData,
+  nameConfig: ITextConfig,
+  idConfig: ITextConfig,
+  options: CertificateRenderOptions
 ) {
-  ctx.font = `${config.fontSize}px ${config.fontFamily}`;
-  ctx.fillStyle = config.color;
-  ctx.textAlign = config.textAlign;
-  ctx.textBaseline = 'middle';
-
-  // Add text shadow for better visibility
-  ctx.shadowColor = 'rgba(0, 0, 0, 0.3)';
-  ctx.shadowBlur = 2;
-  ctx.shadowOffsetX = 1;
-  ctx.shadowOffsetY = 1;
-
-  ctx.fillText(text, config.x, config.y);
-
-  // Reset shadow
-  ctx.shadowColor = 'transparent';
-  ctx.shadowBlur = 0;
-  ctx.shadowOffsetX = 0;
-  ctx.shadowOffsetY = 0;
+  const scale = options.scale || 1;
+
+  // Draw the template, upscaled smoothly when rendering above its size
+  if (scale !== 1) {
+    ctx.patternQuality = 'best';
+  }
+  ctx.drawImage(image, 0, 0, image.width * scale, image.height * scale);
+
+  // Draw image layers in order
+  for (const { layer, image: layerImage } of layers) {
+    drawImageLayer(ctx, layerImage, layer, scale);
+  }
+
+  // Draw recipient name
+  drawTextElement(ctx, recipient.name, nameConfig, scale);
+
+  // Draw certificate ID
+  drawTextElement(ctx, recipient.certification_id, idConfig, scale);
+
+  // Draw additional text elements
+  const variables = options.variables || {
+    ...recipient.fields,
+    name: recipient.name,
+    certification_id: recipient.certification_id,
+    email: recipient.email || '',
+  };
+  for (const element of options.textElements || []) {
+    const text = renderTextTemplate(element.content, variables);
+    if (text) {
+      drawTextElement(ctx, text, element.config, scale);
+    }
+  }
+
+  // Draw verification QR code
+  if (options.qrCodeConfig?.enabled) {
+    drawQRCode(
+      ctx,
+      buildVerificationUrl(
+        options.verificationBaseUrl,
+        recipient.certification_id
+      ),
+      options.qrCodeConfig,
+      scale
+    );
+  }
+}
+
+// Wraps a rendered PNG in a single-page PDF with the same dimensions
+async function convertPngToPdf(
+  pngBuffer: Buffer,
+  width: number,
+  height: number
+): Promise<Buffer> {
+  const image = await loadImage(pngBuffer);
+  const canvas = createCanvas(width, height, 'pdf');
+  canvas.getContext('2d').drawImage(image, 0, 0, width, height);
+  return canvas.toBuffer('application/pdf');
+}
+
+/**
+ * Creates a print PDF that rendered PNG certificates are added to one by
+ * one, filling each sheet before starting the next. The page layout follows
+ * the first certificate's proportions. The PDF is built in memory until
+ * toBuffer is called.
+ */
+export function createPrintDocument(options: IPrintOptions) {
+  let canvas: Canvas | null = null;
+  let layout: PrintLayout | null = null;
+  let slotIndex = 0;
+
+  return {
+    async addCertificate(pngBuffer: Buffer): Promise<void> {
+      const image = await loadImage(pngBuffer);
+
+      if (!canvas || !layout) {
+        layout = computePrintLayout(options, image.width, image.height);
+        canvas = createCanvas(layout.pageWidth, layout.pageHeight, 'pdf');
+      } else if (slotIndex === layout.slots.length) {
+        canvas.getContext('2d').addPage(layout.pageWidth, layout.pageHeight);
+        slotIndex = 0;
+      }
+
+      const ctx = canvas.getContext('2d');
+      const slot = fitPrintSlot(
+        layout.slots[slotIndex++],
+        options,
+        image.width,
+        image.height
+      );
+
+      // The certificate covers the bleed area; whatever extends past it on
+      // the longer side is clipped
+      const { bleed } = slot;
+      const scale = Math.max(
+        bleed.width / image.width,
+        bleed.height / image.height
+      );
+      const width = image.width * scale;
+      const height = image.height * scale;
+      ctx.save();
+      ctx.beginPath();
+      ctx.rect(bleed.x, bleed.y, bleed.width, bleed.height);
+      ctx.clip();
+      ctx.drawImage(
+        image,
+        bleed.x + (bleed.width - width) / 2,
+        bleed.y + (bleed.height - height) / 2,
+        width,
+        height
+      );
+      ctx.restore();
+
+      if (options.cropMarks) {
+        ctx.save();
+        ctx.strokeStyle = '#000000';
+        ctx.lineWidth = 0.25;
+        ctx.beginPath();
+        getCropMarks(slot, options).forEach(({ x1, y1, x2, y2 }) => {
+          ctx.moveTo(x1, y1);
+          ctx.lineTo(x2, y2);
+        });
+        ctx.stroke();
+        ctx.restore();
+      }
+    },
+
+    /**
+     * Finishes the PDF
+     * @returns The PDF, or null if no certificate was added
+     */
+    toBuffer(): Buffer | null {
+      return canvas ? canvas.toBuffer('application/pdf') : null;
+    },
+  };
 }
 
 export function getTextMetrics(
@@ -70,7 +398,7 @@ export function getTextMetrics(
   const canvas = createCanvas(canvasWidth, canvasHeight);
   const ctx = canvas.getContext('2d');
 
-  ctx.font = `${config.fontSize}px ${config.fontFamily}`;
+  ctx.font = getFontString(config, config.fontSize);
   const metrics = ctx.measureText(text);
 
   return {
@@ -78,3 +406,22 @@ export function getTextMetrics(
     height: config.fontSize,
   };
 }
+
+/**
+ * Scales a rendered PNG certificate down to a preview thumbnail
+ * @param pngBuffer - The full-size certificate
+ * @param maxWidth - The largest thumbnail width in pixels
+ */
+export async function createThumbnail(
+  pngBuffer: Buffer,
+  maxWidth: number = 600
+): Promise<Buffer> {
+  const image = await loadImage(pngBuffer);
+  const ratio = Math.min(1, maxWidth / image.width);
+  const width = Math.round(image.width * ratio);
+  const height = Math.round(image.height * ratio);
+
+  const canvas = createCanvas(width, height);
+  canvas.getContext('2d').drawImage(image, 0, 0, width, height);
+  return canvas.toBuffer('image/png');
+}
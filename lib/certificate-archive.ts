@@ -0,0 +1,130 @@
+import archiver, { Archiver } from 'archiver';
+import { createHash } from 'crypto';
+import { once } from 'events';
+import {
+  ArchiveManifestEntry,
+  buildArchiveErrors,
+  buildArchiveManifest,
+  ERRORS_FILENAME,
+  getArchiveFolder,
+  getArchivePath,
+  MANIFEST_FILENAME,
+} from './archive-manifest';
+import { getRenderConcurrency } from './certificate-render-engine';
+import { renderCertificateBatches } from './certificate-renderer';
+import { getCertificateFileInfo } from './certificate-utils';
+import {
+  buildCertificateFilename,
+  createFilenameDeduplicator,
+} from './filename-pattern';
+import { ICertificateJobFailure, IEvent, IRecipientData } from './types';
+
+/**
+ * Creates a ZIP archive for certificates. Compression is kept low because
+ * PNGs and PDFs are already compressed; PNGs are stored as they are.
+ */
+export function createCertificateArchive(): Archiver {
+  return archiver('zip', { zlib: { level: 1 } });
+}
+
+/**
+ * Waits until the archive has written another entry, i.e. until whoever
+ * reads the archive has caught up
+ */
+async function waitForEntry(archive: Archiver): Promise<void> {
+  if (archive.destroyed) {
+    throw new Error('Archive was closed');
+  }
+
+  const controller = new AbortController();
+  try {
+    await Promise.race([
+      once(archive, 'entry', { signal: controller.signal }),
+      once(archive, 'close', { signal: controller.signal }).then(() => {
+        throw new Error('Archive was closed');
+      }),
+    ]);
+  } finally {
+    controller.abort();
+  }
+}
+
+/**
+ * Renders participants' certificates into an archive, in batches that keep
+ * every render worker busy. Rendering stays at most one batch ahead of what
+ * the archive has written, so a slow reader never makes it buffer the whole
+ * archive. Certificates go into the folders of the event's archive grouping.
+ * Participants whose certificate fails are skipped and listed in errors.txt,
+ * and manifest.csv describing every participant is added last.
+ * @param onBatch - Called after every batch with its size and failures
+ * @returns The number of certificates added
+ */
+export async function appendCertificates(
+  archive: Archiver,
+  event: IEvent,
+  participants: IRecipientData[],
+  onBatch?: (
+    processed: number,
+    failures: ICertificateJobFailure[]
+  ) => Promise<void>
+): Promise<number> {
+  const { extension } = getCertificateFileInfo(event.outputFormat);
+  const batchSize = getRenderConcurrency();
+  const uniquePath = createFilenameDeduplicator();
+
+  let writtenCount = 0;
+  const countEntry = () => writtenCount++;
+  archive.on('entry', countEntry);
+
+  const manifest: ArchiveManifestEntry[] = [];
+  let appendedCount = 0;
+  try {
+    await renderCertificateBatches(event, participants, async (results) => {
+      const failures: ICertificateJobFailure[] = [];
+      results.forEach(({ participant, certificate, error }) => {
+        if (!certificate) {
+          failures.push({
+            certification_id: participant.certification_id,
+            name: participant.name,
+            error: error || 'Unknown error',
+          });
+          manifest.push({ participant, error });
+          return;
+        }
+
+        const path = uniquePath(
+          getArchivePath(
+            getArchiveFolder(event.archiveGrouping, event, participant),
+            buildCertificateFilename(event, participant, extension)
+          )
+        );
+        archive.append(certificate, {
+          name: path,
+          store: extension === 'png',
+        });
+        manifest.push({
+          participant,
+          path,
+          sha256: createHash('sha256').update(certificate).digest('hex'),
+        });
+        appendedCount++;
+      });
+
+      await onBatch?.(results.length, failures);
+
+      while (appendedCount - writtenCount > batchSize) {
+        await waitForEntry(archive);
+      }
+    });
+  } finally {
+    archive.off('entry', countEntry);
+  }
+
+  archive.append(buildArchiveManifest(manifest), { name: MANIFEST_FILENAME });
+  const errors = buildArchiveErrors(manifest);
+  if (errors) {
+    archive.append(errors, { name: ERRORS_FILENAME });
+  }
+
+  return appendedCount;
+}
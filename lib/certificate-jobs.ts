@@ -0,0 +1,299 @@
+import { Db, ObjectId } from 'mongodb';
+import { deleteAssets, storeAsset, storeAssetStream } from './asset-storage';
+import {
+  appendCertificates,
+  createCertificateArchive,
+} from './certificate-archive';
+import { renderPrintPdf } from './certificate-print';
+import { isCertificateRevoked } from './certificate-utils';
+import { getDatabase } from './mongodb';
+import {
+  findParticipantsByIds,
+  getEventParticipants,
+} from './participant-store';
+import {
+  ICertificateJob,
+  ICertificateJobFailure,
+  IEvent,
+  IPrintOptions,
+  IRecipientData,
+} from './types';
+
+/**
+ * Bulk certificate generation runs as a persisted job instead of inside one
+ * request, so large events neither time out nor hold every certificate in
+ * memory. Jobs run one at a time in the background of the server process and
+ * the ZIP archive is streamed into asset storage while it is written. Jobs
+ * with print options produce one print PDF instead.
+ */
+
+export const CERTIFICATE_JOBS_COLLECTION = 'certificateJobs';
+
+// A running job that stopped updating, e.g. because the server restarted,
+// is started again
+const STALE_JOB_MS = 5 * 60 * 1000;
+
+// Finished jobs and their archives are deleted after a day
+const JOB_RETENTION_MS = 24 * 60 * 60 * 1000;
+
+let isProcessing = false;
+
+export function getCertificateJobsCollection(db: Db) {
+  return db.collection<ICertificateJob>(CERTIFICATE_JOBS_COLLECTION);
+}
+
+async function getCollection() {
+  return getCertificateJobsCollection(await getDatabase());
+}
+
+/**
+ * Queues a job. Call processCertificateJobs to make sure it gets run.
+ * @param participantIds - Certification IDs to include, or all participants
+ * @param printOptions - Layout of a print PDF to generate instead of a ZIP
+ */
+export async function createCertificateJob(
+  eventId: string,
+  archiveFilename: string,
+  participantIds?: string[],
+  printOptions?: IPrintOptions
+): Promise<ICertificateJob> {
+  const now = new Date();
+  const job: ICertificateJob = {
+    eventId: new ObjectId(eventId),
+    ...(participantIds ? { participantIds } : {}),
+    ...(printOptions ? { printOptions } : {}),
+    status: 'queued',
+    total: participantIds?.length ?? 0,
+    processed: 0,
+    failures: [],
+    archiveFilename,
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  const collection = await getCollection();
+  const result = await collection.insertOne(job);
+  return { ...job, _id: result.insertedId };
+}
+
+export async function getCertificateJob(
+  jobId: string
+): Promise<ICertificateJob | null> {
+  if (!ObjectId.isValid(jobId)) return null;
+  const collection = await getCollection();
+  return collection.findOne({ _id: new ObjectId(jobId) });
+}
+
+/**
+ * Claims the oldest queued job, or a running job that stopped updating
+ */
+async function claimNextJob(): Promise<ICertificateJob | null> {
+  const collection = await getCollection();
+  const now = new Date();
+  return collection.findOneAndUpdate(
+    {
+      $or: [
+        { status: 'queued' },
+        {
+          status: 'running',
+          updatedAt: { $lt: new Date(now.getTime() - STALE_JOB_MS) },
+        },
+      ],
+    },
+    {
+      $set: {
+        status: 'running',
+        processed: 0,
+        failures: [],
+        startedAt: now,
+        updatedAt: now,
+      },
+    },
+    { sort: { createdAt: 1 }, returnDocument: 'after' }
+  );
+}
+
+/**
+ * Renders certificates into a ZIP archive that is streamed into asset
+ * storage
+ * @returns The asset ID of the archive
+ */
+async function storeCertificateArchive(
+  event: IEvent,
+  participants: IRecipientData[],
+  onBatch: (
+    processed: number,
+    failures: ICertificateJobFailure[]
+  ) => Promise<void>
+): Promise<string> {
+  const archive = createCertificateArchive();
+  const storedArchive = storeAssetStream(archive, 'application/zip');
+  // Storage errors are handled once rendering is done
+  storedArchive.catch(() => undefined);
+
+  let renderedCount = 0;
+  try {
+    renderedCount = await appendCertificates(
+      archive,
+      event,
+      participants,
+      onBatch
+    );
+
+    await archive.finalize();
+  } catch (error) {
+    // Stop writing the archive and remove whatever was stored
+    archive.abort();
+    await storedArchive.then(
+      (archiveAssetId) => deleteAssets([archiveAssetId]),
+      () => undefined
+    );
+    throw error;
+  }
+
+  const archiveAssetId = await storedArchive;
+  if (renderedCount === 0) {
+    await deleteAssets([archiveAssetId]);
+    throw new Error('None of the certificates could be generated');
+  }
+  return archiveAssetId;
+}
+
+/**
+ * Renders a job's certificates into a ZIP archive, or a print PDF, in asset
+ * storage. Progress is saved after every batch; participants that fail are
+ * listed on the job and skipped.
+ * @returns The asset ID of the archive
+ */
+async function renderJobArchive(job: ICertificateJob): Promise<string> {
+  const collection = await getCollection();
+  const db = await getDatabase();
+  const eventId = job.eventId.toString();
+
+  const event = await db
+    .collection<IEvent>('events')
+    .findOne({ _id: job.eventId }, { projection: { participants: 0 } });
+  if (!event) {
+    throw new Error('Event not found');
+  }
+
+  const participants = (
+    job.participantIds
+      ? await findParticipantsByIds(eventId, job.participantIds)
+      : await getEventParticipants(eventId)
+  ).filter((p) => !isCertificateRevoked(p));
+  if (participants.length === 0) {
+    throw new Error('No participants to generate certificates for');
+  }
+
+  await collection.updateOne(
+    { _id: job._id },
+    { $set: { total: participants.length, updatedAt: new Date() } }
+  );
+
+  const saveProgress = async (
+    processed: number,
+    failures: ICertificateJobFailure[]
+  ) => {
+    await collection.updateOne(
+      { _id: job._id },
+      {
+        $inc: { processed },
+        $set: { updatedAt: new Date() },
+        ...(failures.length > 0
+          ? { $push: { failures: { $each: failures } } }
+          : {}),
+      }
+    );
+  };
+
+  if (job.printOptions) {
+    const pdf = await renderPrintPdf(
+      event,
+      participants,
+      job.printOptions,
+      saveProgress
+    );
+    return storeAsset(pdf, 'application/pdf');
+  }
+  return storeCertificateArchive(event, participants, saveProgress);
+}
+
+async function runCertificateJob(job: ICertificateJob): Promise<void> {
+  const collection = await getCollection();
+  try {
+    const archiveAssetId = await renderJobArchive(job);
+    await collection.updateOne(
+      { _id: job._id },
+      {
+        $set: {
+          status: 'completed',
+          archiveAssetId,
+          completedAt: new Date(),
+          updatedAt: new Date(),
+        },
+      }
+    );
+  } catch (error) {
+    console.error('Error running certificate job:', error);
+    await collection.updateOne(
+      { _id: job._id },
+      {
+        $set: {
+          status: 'failed',
+          error: error instanceof Error ? error.message : 'Unknown error',
+          completedAt: new Date(),
+          updatedAt: new Date(),
+        },
+      }
+    );
+  }
+}
+
+/**
+ * Deletes finished jobs past their retention time together with their
+ * archives
+ */
+async function deleteExpiredJobs(): Promise<void> {
+  const collection = await getCollection();
+  const expiredJobs = await collection
+    .find(
+      { completedAt: { $lt: new Date(Date.now() - JOB_RETENTION_MS) } },
+      { projection: { archiveAssetId: 1 } }
+    )
+    .toArray();
+  if (expiredJobs.length === 0) return;
+
+  await deleteAssets(expiredJobs.map((job) => job.archiveAssetId));
+  await collection.deleteMany({
+    _id: { $in: expiredJobs.map((job) => job._id) },
+  });
+}
+
+async function runQueuedJobs(): Promise<void> {
+  await deleteExpiredJobs();
+
+  let job = await claimNextJob();
+  while (job) {
+    await runCertificateJob(job);
+    job = await claimNextJob();
+  }
+}
+
+/**
+ * Runs queued jobs in the background unless this server process is already
+ * doing so. Cheap to call often, e.g. whenever a job's progress is checked,
+ * which also resumes jobs that were interrupted by a restart.
+ */
+export function processCertificateJobs(): void {
+  if (isProcessing) return;
+
+  isProcessing = true;
+  runQueuedJobs()
+    .catch((error) => {
+      console.error('Error processing certificate jobs:', error);
+    })
+    .finally(() => {
+      isProcessing = false;
+    });
+}
@@ -0,0 +1,63 @@
+import { createPrintDocument } from './canvas-utils';
+import { renderCertificateBatches } from './certificate-renderer';
+import { sortPrintParticipants } from './print-layout';
+import {
+  ICertificateJobFailure,
+  IEvent,
+  IPrintOptions,
+  IRecipientData,
+} from './types';
+
+/**
+ * A print PDF holds the certificates of many participants in one document,
+ * laid out on A4 or Letter sheets for a print shop. Certificates are rendered
+ * as PNGs by the usual pipeline, whatever the event's output format, and
+ * placed on the pages in the chosen order.
+ */
+
+/**
+ * Renders participants' certificates into one print PDF. Participants whose
+ * certificate fails are left out.
+ * @param onBatch - Called after every batch with its size and failures
+ * @returns The PDF
+ */
+export async function renderPrintPdf(
+  event: IEvent,
+  participants: IRecipientData[],
+  options: IPrintOptions,
+  onBatch?: (
+    processed: number,
+    failures: ICertificateJobFailure[]
+  ) => Promise<void>
+): Promise<Buffer> {
+  const document = createPrintDocument(options);
+
+  await renderCertificateBatches(
+    event,
+    sortPrintParticipants(participants, options.sortBy),
+    async (results) => {
+      const failures: ICertificateJobFailure[] = [];
+      // Added one at a time to keep the page order
+      for (const { participant, certificate, error } of results) {
+        if (certificate) {
+          await document.addCertificate(certificate);
+        } else {
+          failures.push({
+            certification_id: participant.certification_id,
+            name: participant.name,
+            error: error || 'Unknown error',
+          });
+        }
+      }
+
+      await onBatch?.(results.length, failures);
+    },
+    { format: 'png' }
+  );
+
+  const pdf = document.toBuffer();
+  if (!pdf) {
+    throw new Error('None of the certificates could be generated');
+  }
+  return pdf;
+}
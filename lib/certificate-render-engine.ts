@@ -0,0 +1,253 @@
+import { cpus } from 'os';
+import { Worker } from 'worker_threads';
+import {
+  CertificateRenderOptions,
+  createImageCache,
+  generateCertificate,
+} from './canvas-utils';
+import {
+  RenderWorkerRequest,
+  RenderWorkerResponse,
+} from './certificate-render-worker';
+import { IRecipientData, ITextConfig } from './types';
+
+/**
+ * Renders certificates on a pool of worker threads. A worker decodes a
+ * template the first time it renders from it and keeps the decoded image, so
+ * a job decodes its template once per worker instead of once per
+ * participant. Without workers, because RENDER_WORKERS is 0 or the worker
+ * script can't run, certificates are rendered on the main thread one at a
+ * time with the same caching.
+ */
+
+interface RenderTask {
+  request: Omit<RenderWorkerRequest, 'template'>;
+  template: Buffer;
+  resolve: (certificate: Buffer) => void;
+  reject: (error: Error) => void;
+}
+
+interface PoolWorker {
+  worker: Worker;
+  isReady: boolean;
+  templateKeys: Set<string>; // Templates this worker has been sent
+  task?: RenderTask;
+}
+
+const queue: RenderTask[] = [];
+const poolWorkers: PoolWorker[] = [];
+let useMainThread = false;
+let isRenderingOnMainThread = false;
+
+const mainThreadImages = createImageCache();
+
+// Templates are told apart by Buffer identity, which avoids hashing
+// megabytes of image data for every certificate
+const templateKeys = new WeakMap<Buffer, string>();
+let nextTemplateKey = 1;
+
+/**
+ * The number of render workers, from RENDER_WORKERS or one less than the
+ * number of CPUs
+ */
+export function getRenderWorkerCount(): number {
+  const configured = Number(process.env.RENDER_WORKERS);
+  if (process.env.RENDER_WORKERS && Number.isInteger(configured)) {
+    return Math.max(0, configured);
+  }
+  return Math.max(1, cpus().length - 1);
+}
+
+/**
+ * How many certificates to keep in flight so every worker is busy
+ */
+export function getRenderConcurrency(): number {
+  return useMainThread ? 1 : Math.max(1, getRenderWorkerCount());
+}
+
+function startWorker(): void {
+  let worker: Worker;
+  try {
+    worker = new Worker(
+      new URL('./certificate-render-worker.ts', import.meta.url)
+    );
+  } catch (error) {
+    fallBackToMainThread(error);
+    return;
+  }
+
+  const poolWorker: PoolWorker = {
+    worker,
+    isReady: false,
+    templateKeys: new Set(),
+  };
+  poolWorkers.push(poolWorker);
+  // Idle workers don't keep the process alive
+  worker.unref();
+
+  worker.on('message', (response: RenderWorkerResponse) =>
+    handleResponse(poolWorker, response)
+  );
+  worker.on('error', (error) => handleWorkerExit(poolWorker, error));
+  worker.on('exit', (code) =>
+    handleWorkerExit(
+      poolWorker,
+      new Error(`Render worker exited with code ${code}`)
+    )
+  );
+}
+
+function fallBackToMainThread(error: unknown): void {
+  console.error('Error starting render workers:', error);
+  useMainThread = true;
+
+  poolWorkers.splice(0).forEach(({ worker, task }) => {
+    if (task) queue.unshift(task);
+    worker.terminate();
+  });
+  dispatch();
+}
+
+function handleWorkerExit(poolWorker: PoolWorker, error: Error): void {
+  const index = poolWorkers.indexOf(poolWorker);
+  if (index === -1) return;
+
+  // A worker that fails before it is ready can't load the worker script or
+  // canvas, and neither will the next one
+  if (!poolWorker.isReady) {
+    fallBackToMainThread(error);
+    return;
+  }
+
+  console.error('Render worker failed:', error);
+  poolWorkers.splice(index, 1);
+  poolWorker.task?.reject(new Error('Failed to generate certificate'));
+  startWorker();
+  dispatch();
+}
+
+function handleResponse(
+  poolWorker: PoolWorker,
+  response: RenderWorkerResponse
+): void {
+  if (response.type === 'ready') {
+    poolWorker.isReady = true;
+    dispatch();
+    return;
+  }
+
+  const task = poolWorker.task;
+  poolWorker.task = undefined;
+  poolWorker.worker.unref();
+
+  if (task) {
+    if (response.type === 'rendered') {
+      const { certificate } = response;
+      task.resolve(
+        Buffer.from(
+          certificate.buffer,
+          certificate.byteOffset,
+          certificate.byteLength
+        )
+      );
+    } else if (response.type === 'failed') {
+      task.reject(new Error(response.error));
+    } else {
+      // The worker dropped the template from its cache, so send it again
+      poolWorker.templateKeys.delete(task.request.templateKey);
+      queue.unshift(task);
+    }
+  }
+
+  dispatch();
+}
+
+function sendTask(poolWorker: PoolWorker, task: RenderTask): void {
+  const { templateKey } = task.request;
+  const sendTemplate = !poolWorker.templateKeys.has(templateKey);
+  poolWorker.templateKeys.add(templateKey);
+
+  poolWorker.task = task;
+  poolWorker.worker.ref();
+  poolWorker.worker.postMessage({
+    ...task.request,
+    ...(sendTemplate ? { template: task.template } : {}),
+  });
+}
+
+async function renderQueueOnMainThread(): Promise<void> {
+  if (isRenderingOnMainThread) return;
+
+  isRenderingOnMainThread = true;
+  let task = queue.shift();
+  while (task) {
+    const { templateKey, recipient, nameConfig, idConfig, options } =
+      task.request;
+    try {
+      task.resolve(
+        await generateCertificate(
+          { images: mainThreadImages, key: templateKey, data: task.template },
+          recipient,
+          nameConfig,
+          idConfig,
+          options
+        )
+      );
+    } catch (error) {
+      task.reject(error as Error);
+    }
+    task = queue.shift();
+  }
+  isRenderingOnMainThread = false;
+}
+
+function dispatch(): void {
+  if (useMainThread) {
+    renderQueueOnMainThread();
+    return;
+  }
+
+  for (const poolWorker of poolWorkers) {
+    if (!poolWorker.isReady || poolWorker.task) continue;
+
+    const task = queue.shift();
+    if (!task) return;
+    sendTask(poolWorker, task);
+  }
+}
+
+/**
+ * Renders a certificate like generateCertificate, on a worker thread when
+ * possible. Pass the same template Buffer for every certificate of a job, as
+ * decoded templates are cached per Buffer.
+ * @param template - The template's image data
+ */
+export function renderCertificate(
+  template: Buffer,
+  recipient: IRecipientData,
+  nameConfig: ITextConfig,
+  idConfig: ITextConfig,
+  options: CertificateRenderOptions = {}
+): Promise<Buffer> {
+  const templateKey =
+    templateKeys.get(template) || `template:${nextTemplateKey++}`;
+  templateKeys.set(template, templateKey);
+
+  if (poolWorkers.length === 0 && !useMainThread) {
+    const workerCount = getRenderWorkerCount();
+    useMainThread = workerCount === 0;
+    for (let i = 0; i < workerCount && !useMainThread; i++) {
+      startWorker();
+    }
+  }
+
+  return new Promise((resolve, reject) => {
+    queue.push({
+      request: { templateKey, recipient, nameConfig, idConfig, options },
+      template,
+      resolve,
+      reject,
+    });
+    dispatch();
+  });
+}
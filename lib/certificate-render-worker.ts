@@ -0,0 +1,66 @@
+import { parentPort } from 'worker_threads';
+import {
+  CertificateRenderOptions,
+  createImageCache,
+  generateCertificate,
+} from './canvas-utils';
+import { IRecipientData, ITextConfig } from './types';
+
+/**
+ * Worker thread of the certificate render engine. Renders one certificate
+ * per request and keeps decoded templates between requests.
+ */
+
+export interface RenderWorkerRequest {
+  templateKey: string;
+  template?: Uint8Array; // Only sent the first time this worker needs it
+  recipient: IRecipientData;
+  nameConfig: ITextConfig;
+  idConfig: ITextConfig;
+  options: CertificateRenderOptions;
+}
+
+export type RenderWorkerResponse =
+  | { type: 'ready' }
+  | { type: 'rendered'; certificate: Uint8Array }
+  | { type: 'failed'; error: string }
+  | { type: 'missing-template' };
+
+const images = createImageCache();
+
+function respond(response: RenderWorkerResponse) {
+  parentPort?.postMessage(response);
+}
+
+parentPort?.on('message', async (request: RenderWorkerRequest) => {
+  // The engine only sends a template once, so it has to resend it if this
+  // worker has dropped it from its cache since
+  if (!request.template && !images.has(request.templateKey)) {
+    respond({ type: 'missing-template' });
+    return;
+  }
+
+  try {
+    const certificate = await generateCertificate(
+      {
+        images,
+        key: request.templateKey,
+        // Buffers arrive as plain Uint8Arrays
+        data: request.template && Buffer.from(request.template),
+      },
+      request.recipient,
+      request.nameConfig,
+      request.idConfig,
+      request.options
+    );
+    respond({ type: 'rendered', certificate });
+  } catch (error) {
+    respond({
+      type: 'failed',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+// Sent once canvas has loaded, so the engine knows this worker can render
+respond({ type: 'ready' });
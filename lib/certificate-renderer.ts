@@ -0,0 +1,88 @@
+import { readTemplateImage } from './asset-storage';
+import { CertificateRenderOptions } from './canvas-utils';
+import {
+  getRenderConcurrency,
+  renderCertificate,
+} from './certificate-render-engine';
+import { buildCertificateVariables } from './text-template';
+import { resolveCertificateLayout } from './template-variants';
+import { IEvent, IRecipientData } from './types';
+
+/**
+ * Renders one participant's certificate with the event's full layout, using
+ * the participant's template variant when one matches
+ * @param event - The event, including its template
+ * @param participant - The certificate holder
+ * @param overrides - Render options that replace the event's settings
+ */
+export async function renderParticipantCertificate(
+  event: IEvent,
+  participant: IRecipientData,
+  overrides: Partial<CertificateRenderOptions> = {}
+): Promise<Buffer> {
+  const layout = resolveCertificateLayout(event, participant);
+  const templateImage = await readTemplateImage(layout.template);
+
+  return renderCertificate(
+    templateImage,
+    participant,
+    layout.nameConfig,
+    layout.idConfig,
+    {
+      textElements: layout.textElements,
+      variables: buildCertificateVariables(event, participant),
+      format: event.outputFormat,
+      scale: event.renderScale,
+      fonts: event.fonts || [],
+      qrCodeConfig: event.qrCodeConfig,
+      verificationBaseUrl: event.verificationBaseUrl,
+      imageLayers: event.imageLayers || [],
+      ...overrides,
+    }
+  );
+}
+
+export interface RenderedParticipantCertificate {
+  participant: IRecipientData;
+  certificate?: Buffer; // Unset when rendering failed
+  error?: string;
+}
+
+/**
+ * Renders participants' certificates in batches that keep every render
+ * worker busy. A certificate that fails doesn't stop the others.
+ * @param onBatch - Receives each batch's results in participant order, and
+ * is awaited before the next batch starts
+ */
+export async function renderCertificateBatches(
+  event: IEvent,
+  participants: IRecipientData[],
+  onBatch: (results: RenderedParticipantCertificate[]) => Promise<void>,
+  overrides: Partial<CertificateRenderOptions> = {}
+): Promise<void> {
+  const batchSize = getRenderConcurrency();
+
+  for (let start = 0; start < participants.length; start += batchSize) {
+    const batch = participants.slice(start, start + batchSize);
+    const results = await Promise.allSettled(
+      batch.map((participant) =>
+        renderParticipantCertificate(event, participant, overrides)
+      )
+    );
+
+    await onBatch(
+      batch.map((participant, index) => {
+        const result = results[index];
+        return result.status === 'fulfilled'
+          ? { participant, certificate: result.value }
+          : {
+              participant,
+              error:
+                result.reason instanceof Error
+                  ? result.reason.message
+                  : 'Unknown error',
+            };
+      })
+    );
+  }
+}
@@ -2,18 +2,74 @@
  * Utility functions for certificate download and file handling
  */
 
+import {
+  CertificateOutputFormat,
+  IParticipantQuery,
+  IRecipientData,
+} from './types';
+
+/**
+ * Returns the file extension and MIME type for a certificate output format
+ * @param format - The output format (defaults to PNG)
+ * @returns The extension (without dot) and MIME type
+ */
+export function getCertificateFileInfo(format?: CertificateOutputFormat): {
+  extension: string;
+  mimeType: string;
+} {
+  if (format === 'pdf' || format === 'pdf-vector') {
+    return { extension: 'pdf', mimeType: 'application/pdf' };
+  }
+
+  return { extension: 'png', mimeType: 'image/png' };
+}
+
+/**
+ * Checks whether a participant's certificate has been revoked
+ * @param participant - The participant to check
+ */
+export function isCertificateRevoked(
+  participant: Pick<IRecipientData, 'revokedAt'>
+): boolean {
+  return !!participant.revokedAt;
+}
+
+/**
+ * Creates the certificate ID for a reissued certificate, e.g. CERT-001-R1
+ * @param certificationId - The ID of the certificate being replaced
+ * @param existingIds - IDs already used in the event
+ * @returns An ID that is not used by any other participant
+ */
+export function createReissuedCertificationId(
+  certificationId: string,
+  existingIds: string[]
+): string {
+  // Reissuing a reissue continues the sequence instead of stacking suffixes
+  const baseId = certificationId.replace(/-R\d+$/, '');
+  const taken = new Set(existingIds);
+
+  let revision = 1;
+  while (taken.has(`${baseId}-R${revision}`)) {
+    revision++;
+  }
+
+  return `${baseId}-R${revision}`;
+}
+
 /**
  * Downloads a certificate file to the user's device
  * @param buffer - The certificate data as ArrayBuffer
  * @param filename - The name of the file to download
+ * @param mimeType - The MIME type of the certificate file
  */
 export function downloadCertificate(
   buffer: ArrayBuffer,
-  filename: string
+  filename: string,
+  mimeType: string = 'image/png'
 ): void {
   try {
     // Create blob from buffer
-    const blob = new Blob([buffer], { type: 'image/png' });
+    const blob = new Blob([buffer], { type: mimeType });
 
     // Create download URL
     const url = URL.createObjectURL(blob);
@@ -37,53 +93,78 @@ export function downloadCertificate(
 }
 
 /**
- * Downloads a ZIP file containing multiple certificates
- * @param buffer - The ZIP data as ArrayBuffer
- * @param filename - The name of the ZIP file to download
+ * Downloads the ZIP archive of a completed certificate job. The archive is
+ * streamed by the server, so it is never held in browser memory.
+ * @param jobId - The certificate job ID
  */
-export function downloadZipFile(buffer: ArrayBuffer, filename: string): void {
-  try {
-    // Create blob from buffer
-    const blob = new Blob([buffer], { type: 'application/zip' });
+export function downloadCertificateJobArchive(jobId: string): void {
+  const link = document.createElement('a');
+  link.href = `/api/certificate-jobs/${jobId}/download`;
 
-    // Create download URL
-    const url = URL.createObjectURL(blob);
-
-    // Create temporary link element
-    const link = document.createElement('a');
-    link.href = url;
-    link.download = filename;
+  // Append to DOM, click, and remove
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+}
 
-    // Append to DOM, click, and remove
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
+/**
+ * Downloads an event's certificates as a ZIP archive that the server streams
+ * while it renders them. Posting a form hands the response to the browser's
+ * download manager, so the archive is never held in memory and long
+ * selections don't have to fit in a URL.
+ * @param eventId - The event ID
+ * @param filter - Selected certification IDs and/or the participant table's
+ *   search and filters; all participants when empty. Sorting is ignored.
+ */
+export function downloadCertificateArchive(
+  eventId: string,
+  filter: IParticipantQuery & { participantIds?: string[] } = {}
+): void {
+  const form = document.createElement('form');
+  form.method = 'POST';
+  form.action = `/api/events/${eventId}/certificates`;
 
-    // Clean up the URL object
-    URL.revokeObjectURL(url);
-  } catch (error) {
-    console.error('Error downloading ZIP file:', error);
-    throw new Error('Failed to download ZIP file');
+  const addField = (name: string, value: string) => {
+    const input = document.createElement('input');
+    input.type = 'hidden';
+    input.name = name;
+    input.value = value;
+    form.appendChild(input);
+  };
+  filter.participantIds?.forEach((id) => addField('ids', id));
+  if (filter.search?.trim()) {
+    addField('search', filter.search.trim());
+  }
+  if (filter.emailStatus) {
+    addField('emailStatus', filter.emailStatus);
+  }
+  if (filter.missingEmail) {
+    addField('missingEmail', 'true');
   }
+  if (filter.templateVariantId) {
+    addField('templateVariantId', filter.templateVariantId);
+  }
+
+  // Append to DOM, submit, and remove
+  document.body.appendChild(form);
+  form.submit();
+  document.body.removeChild(form);
 }
 
-/**
- * Generates a filename for a certificate
- * @param participantName - The participant's name
- * @param certificationId - The certification ID
- * @returns A sanitized filename
- */
-export function generateCertificateFilename(
-  participantName: string,
-  certificationId: string
+// Names a file holding the certificates of many participants
+function generateBulkFilename(
+  eventTitle: string,
+  participantCount: number,
+  extension: string
 ): string {
-  // Sanitize participant name for filename
-  const sanitizedName = participantName
+  // Sanitize event title for filename
+  const sanitizedTitle = eventTitle
     .replace(/[^a-zA-Z0-9\s-_]/g, '') // Remove special characters
     .replace(/\s+/g, '_') // Replace spaces with underscores
     .toLowerCase();
 
-  return `certificate_${sanitizedName}_${certificationId}.png`;
+  const timestamp = new Date().toISOString().split('T')[0]; // YYYY-MM-DD
+  return `certificates_${sanitizedTitle}_${participantCount}_${timestamp}.${extension}`;
 }
 
 /**
@@ -96,12 +177,18 @@ export function generateZipFilename(
   eventTitle: string,
   participantCount: number
 ): string {
-  // Sanitize event title for filename
-  const sanitizedTitle = eventTitle
-    .replace(/[^a-zA-Z0-9\s-_]/g, '') // Remove special characters
-    .replace(/\s+/g, '_') // Replace spaces with underscores
-    .toLowerCase();
+  return generateBulkFilename(eventTitle, participantCount, 'zip');
+}
 
-  const timestamp = new Date().toISOString().split('T')[0]; // YYYY-MM-DD
-  return `certificates_${sanitizedTitle}_${participantCount}_${timestamp}.zip`;
+/**
+ * Generates a filename for a print PDF containing multiple certificates
+ * @param eventTitle - The event title
+ * @param participantCount - Number of participants
+ * @returns A sanitized filename
+ */
+export function generatePrintFilename(
+  eventTitle: string,
+  participantCount: number
+): string {
+  return generateBulkFilename(eventTitle, participantCount, 'pdf');
 }
@@ -0,0 +1,147 @@
+import { getDatabase } from './mongodb';
+import { createThumbnail } from './canvas-utils';
+import { renderParticipantCertificate } from './certificate-renderer';
+import { isCertificateRevoked } from './certificate-utils';
+import { getParticipantsCollection } from './participant-store';
+import { ICertificateVerification, IEvent, IRecipientData } from './types';
+
+/**
+ * Public certificate verification. Certificates from archived events still
+ * verify; certificates from soft-deleted events do not. Revoked certificates
+ * are reported as revoked rather than hidden.
+ */
+
+// Event fields needed to render a certificate
+const RENDER_PROJECTION = {
+  template: 1,
+  nameConfig: 1,
+  idConfig: 1,
+  textElements: 1,
+  fonts: 1,
+  qrCodeConfig: 1,
+  verificationBaseUrl: 1,
+  imageLayers: 1,
+  templateVariants: 1,
+};
+
+interface CertificateRecord {
+  event: IEvent;
+  participant: IRecipientData;
+}
+
+/**
+ * Normalizes a certificate ID taken from a URL segment
+ * @param rawId - The ID as it appears in the route
+ */
+export function normalizeCertificationId(rawId: string): string {
+  try {
+    return decodeURIComponent(rawId).trim();
+  } catch {
+    return rawId.trim();
+  }
+}
+
+/**
+ * Finds the event and participant holding a certificate ID
+ * @param certificationId - The certificate ID to look up
+ * @param includeTemplate - Whether to load the template and layout for rendering
+ */
+async function findCertificateRecord(
+  certificationId: string,
+  includeTemplate: boolean = false
+): Promise<CertificateRecord | null> {
+  if (!certificationId) return null;
+
+  const db = await getDatabase();
+
+  // IDs are unique per event, so the same ID may exist in several events
+  const participants = await getParticipantsCollection(db)
+    .find(
+      { certification_id: certificationId },
+      { projection: { _id: 0, position: 0 } }
+    )
+    .toArray();
+  if (participants.length === 0) return null;
+
+  const event = await db.collection<IEvent>('events').findOne(
+    {
+      _id: { $in: participants.map((p) => p.eventId) },
+      isDeleted: { $ne: true },
+    },
+    {
+      projection: {
+        ...(includeTemplate ? RENDER_PROJECTION : {}),
+        title: 1,
+        eventDate: 1,
+        status: 1,
+      },
+    }
+  );
+  if (!event?._id) return null;
+
+  const eventId = event._id;
+  const participant = participants.find((p) => p.eventId.equals(eventId));
+  if (!participant) return null;
+
+  return { event, participant };
+}
+
+/**
+ * Looks up a certificate across all non-deleted events
+ * @param certificationId - The certificate ID to verify
+ * @returns Public certificate details, or null if the ID is not valid
+ */
+export async function verifyCertificate(
+  certificationId: string
+): Promise<ICertificateVerification | null> {
+  try {
+    const record = await findCertificateRecord(certificationId);
+    if (!record) return null;
+
+    const { event, participant } = record;
+    return {
+      certificationId: participant.certification_id,
+      holderName: participant.name,
+      eventTitle: event.title,
+      eventDate: event.eventDate,
+      eventStatus: event.status,
+      status: isCertificateRevoked(participant) ? 'revoked' : 'valid',
+      issuedAt:
+        participant.emailStatus === 'sent'
+          ? participant.lastEmailSent
+          : undefined,
+      revokedAt: participant.revokedAt,
+      revocationReason: participant.revocationReason,
+      replacedBy: participant.replacedBy,
+    };
+  } catch (error) {
+    console.error('Error verifying certificate:', error);
+    throw new Error('Failed to verify certificate');
+  }
+}
+
+/**
+ * Renders a small PNG preview of a verified certificate
+ * @param certificationId - The certificate ID to render
+ * @returns The thumbnail, or null if the ID is not valid
+ */
+export async function renderCertificateThumbnail(
+  certificationId: string
+): Promise<Buffer | null> {
+  try {
+    const record = await findCertificateRecord(certificationId, true);
+    if (!record) return null;
+
+    // The thumbnail is small, so there is no point rendering above the
+    // template size
+    const certificate = await renderParticipantCertificate(
+      record.event,
+      record.participant,
+      { format: 'png', scale: 1 }
+    );
+    return await createThumbnail(certificate);
+  } catch (error) {
+    console.error('Error rendering certificate thumbnail:', error);
+    throw new Error('Failed to render certificate thumbnail');
+  }
+}
@@ -1,9 +1,78 @@
-import { IRecipientData } from './types';
+import {
+  CSVColumnTarget,
+  CSVDelimiter,
+  CSVEncoding,
+  ICSVColumnMapping,
+  ICSVImportMapping,
+  IRecipientData,
+} from './types';
+import { isReservedFieldName } from './participant-fields';
+import { isXLSXFile, readXLSXWorkbook, XLSXSheet } from './xlsx-utils';
+import {
+  formatImportIssues,
+  IImportRow,
+  validateImportRows,
+} from './import-validation';
+
+// Separators tried when detecting a CSV dialect, in order of preference
+export const CSV_DELIMITERS: CSVDelimiter[] = [',', ';', '\t', '|'];
+
+export const CSV_ENCODINGS: CSVEncoding[] = [
+  'utf-8',
+  'utf-16le',
+  'utf-16be',
+  'windows-1252',
+];
+
+export const CSV_COLUMN_TARGET_LABELS: Record<CSVColumnTarget, string> = {
+  name: 'Name',
+  certification_id: 'Certification ID',
+  email: 'Email',
+  template: 'Template',
+  field: 'Custom field',
+  ignore: 'Ignore',
+};
+
+const REQUIRED_COLUMN_TARGETS: CSVColumnTarget[] = [
+  'name',
+  'certification_id',
+  'email',
+];
+
+// Header spellings recognized for the built-in columns, compared without
+// case, spaces, dashes or underscores
+const COLUMN_ALIASES: Partial<Record<CSVColumnTarget, string[]>> = {
+  name: [
+    'name',
+    'fullname',
+    'participant',
+    'participantname',
+    'recipient',
+    'attendee',
+  ],
+  certification_id: [
+    'certificationid',
+    'certificateid',
+    'certid',
+    'certificatenumber',
+    'id',
+  ],
+  email: ['email', 'emailaddress', 'mail'],
+};
+
+// Rows sampled when detecting the delimiter
+const DELIMITER_SAMPLE_ROWS = 10;
+
+export interface CSVTable {
+  headers: string[];
+  rows: string[][];
+  delimiter: CSVDelimiter;
+}
 
 /**
  * Properly parses a CSV row handling quoted fields, escaped quotes, and newlines within quotes
  */
-function parseCSVRow(row: string): string[] {
+function parseCSVRow(row: string, delimiter: CSVDelimiter = ','): string[] {
   const fields: string[] = [];
   let currentField = '';
   let inQuotes = false;
@@ -23,7 +92,7 @@ function parseCSVRow(row: string): string[] {
         inQuotes = !inQuotes;
         i++;
       }
-    } else if (char === ',' && !inQuotes) {
+    } else if (char === delimiter && !inQuotes) {
       // Field separator (only outside quotes)
       fields.push(currentField.trim());
       currentField = '';
@@ -81,8 +150,127 @@ function splitCSVRows(csvContent: string): string[] {
   return rows;
 }
 
-export function parseCSV(csvContent: string): IRecipientData[] {
-  const rows = splitCSVRows(csvContent.trim());
+/**
+ * Removes surrounding quotes and whitespace from a parsed value
+ */
+function cleanValue(value?: string): string {
+  return value?.replace(/^"|"$/g, '').trim() || '';
+}
+
+/**
+ * Normalizes a header for matching against known column names
+ */
+function normalizeHeader(header: string): string {
+  return header.trim().toLowerCase().replace(/[\s_-]+/g, '');
+}
+
+/**
+ * Counts the occurrences of a character outside quoted values
+ */
+function countOutsideQuotes(row: string, char: string): number {
+  let count = 0;
+  let inQuotes = false;
+
+  for (let i = 0; i < row.length; i++) {
+    const current = row[i];
+    if (current === '"') {
+      inQuotes = !inQuotes;
+    } else if (current === char && !inQuotes) {
+      count++;
+    }
+  }
+
+  return count;
+}
+
+/**
+ * Removes a leading byte order mark from decoded text
+ */
+export function stripBOM(content: string): string {
+  return content.charCodeAt(0) === 0xfeff ? content.slice(1) : content;
+}
+
+/**
+ * Detects the character encoding of a CSV file from its byte order mark,
+ * falling back to Windows-1252 when the bytes are not valid UTF-8
+ */
+export function detectEncoding(bytes: Uint8Array): CSVEncoding {
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) {
+    return 'utf-8';
+  }
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) {
+    return 'utf-16le';
+  }
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) {
+    return 'utf-16be';
+  }
+
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+    return 'utf-8';
+  } catch {
+    return 'windows-1252';
+  }
+}
+
+/**
+ * Decodes the raw bytes of a CSV file
+ * @param buffer - The file contents
+ * @param encoding - Encoding to use instead of the detected one
+ */
+export function decodeCSVBuffer(
+  buffer: ArrayBuffer | Uint8Array,
+  encoding?: CSVEncoding
+): { content: string; encoding: CSVEncoding } {
+  const bytes = buffer instanceof Uint8Array ? buffer : new Uint8Array(buffer);
+  const resolvedEncoding = encoding || detectEncoding(bytes);
+  const content = new TextDecoder(resolvedEncoding).decode(bytes);
+
+  return { content: stripBOM(content), encoding: resolvedEncoding };
+}
+
+/**
+ * Detects the delimiter of CSV content. Prefers the separator that appears
+ * the same number of times in every sampled row, then the most frequent one.
+ */
+export function detectDelimiter(csvContent: string): CSVDelimiter {
+  const rows = splitCSVRows(stripBOM(csvContent).replace(/\r\n?/g, '\n')).slice(
+    0,
+    DELIMITER_SAMPLE_ROWS
+  );
+  if (rows.length === 0) return ',';
+
+  let best: CSVDelimiter = ',';
+  let bestScore = 0;
+
+  for (const delimiter of CSV_DELIMITERS) {
+    const counts = rows.map((row) => countOutsideQuotes(row, delimiter));
+    if (counts[0] === 0) continue;
+
+    const isConsistent = counts.every((count) => count === counts[0]);
+    // Consistent delimiters always beat inconsistent ones
+    const score = counts[0] + (isConsistent ? 1000 : 0);
+    if (score > bestScore) {
+      best = delimiter;
+      bestScore = score;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Splits CSV content into a header row and data rows
+ * @param csvContent - The CSV file content
+ * @param delimiter - Separator to use instead of the detected one
+ */
+export function readCSVTable(
+  csvContent: string,
+  delimiter?: CSVDelimiter
+): CSVTable {
+  const content = stripBOM(csvContent).replace(/\r\n?/g, '\n').trim();
+  const resolvedDelimiter = delimiter || detectDelimiter(content);
+  const rows = splitCSVRows(content);
 
   if (rows.length < 2) {
     throw new Error(
@@ -90,56 +278,199 @@ export function parseCSV(csvContent: string): IRecipientData[] {
     );
   }
 
-  const headers = parseCSVRow(rows[0]).map((h) => h.trim().toLowerCase());
+  return {
+    headers: parseCSVRow(rows[0], resolvedDelimiter).map(cleanValue),
+    rows: rows
+      .slice(1)
+      .map((row) => parseCSVRow(row, resolvedDelimiter).map(cleanValue)),
+    delimiter: resolvedDelimiter,
+  };
+}
 
-  // Validate headers
-  if (
-    !headers.includes('name') ||
-    !headers.includes('certification_id') ||
-    !headers.includes('email')
-  ) {
+/**
+ * Splits worksheet rows into a header row and data rows, skipping empty rows
+ */
+export function readSheetTable(
+  sheetRows: string[][]
+): Pick<CSVTable, 'headers' | 'rows'> {
+  const rows = sheetRows
+    .map((row) => row.map((value) => value.trim()))
+    .filter((row) => row.some(Boolean));
+
+  if (rows.length < 2) {
     throw new Error(
-      'CSV file must contain "name", "certification_id" and "email" columns'
+      'Sheet must contain at least a header row and one data row'
     );
   }
 
-  const nameIndex = headers.indexOf('name');
-  const certIdIndex = headers.indexOf('certification_id');
-  const emailIndex = headers.indexOf('email');
-
-  const recipients: IRecipientData[] = [];
-  const seenCertIds = new Set<string>();
+  return { headers: rows[0], rows: rows.slice(1) };
+}
 
-  for (let i = 1; i < rows.length; i++) {
-    const values = parseCSVRow(rows[i]);
+/**
+ * Suggests what each column is imported as, in header order. Columns from a
+ * saved mapping keep their target; other built-in columns are recognized by
+ * name and anything else is kept as a custom field.
+ * @param headers - The CSV header row
+ * @param options.savedMapping - Mapping used for the event's previous import
+ * @param options.templateField - Column whose value selects each participant's template variant
+ * @param options.matchAliases - Also recognize common spellings like "Full Name"
+ */
+export function suggestColumnMapping(
+  headers: string[],
+  options: {
+    savedMapping?: ICSVImportMapping;
+    templateField?: string;
+    matchAliases?: boolean;
+  } = {}
+): ICSVColumnMapping[] {
+  const { savedMapping, templateField, matchAliases = true } = options;
+  const targets: (CSVColumnTarget | undefined)[] = headers.map((header) => {
+    const saved = savedMapping?.columns.find(
+      (column) => column.source.toLowerCase() === header.toLowerCase()
+    );
+    return saved?.target;
+  });
+  const isTaken = (target: CSVColumnTarget) => targets.includes(target);
+
+  const assign = (
+    target: CSVColumnTarget,
+    matches: (normalized: string) => boolean
+  ) => {
+    if (isTaken(target)) return;
+    const index = headers.findIndex(
+      (header, i) => !targets[i] && header && matches(normalizeHeader(header))
+    );
+    if (index >= 0) {
+      targets[index] = target;
+    }
+  };
 
-    if (values.length < Math.max(nameIndex + 1, certIdIndex + 1, emailIndex + 1)) {
-      console.warn(`Skipping row ${i + 1}: insufficient columns`);
-      continue;
+  // Exact column names win over aliases, e.g. "certification_id" over "id"
+  if (templateField) {
+    assign('template', (header) => header === normalizeHeader(templateField));
+  }
+  for (const target of REQUIRED_COLUMN_TARGETS) {
+    assign(target, (header) => header === normalizeHeader(target));
+  }
+  if (matchAliases) {
+    for (const target of REQUIRED_COLUMN_TARGETS) {
+      assign(target, (header) => !!COLUMN_ALIASES[target]?.includes(header));
     }
+  }
 
-    // Remove surrounding quotes if present
-    const name = values[nameIndex]?.replace(/^"|"$/g, '').trim() || '';
-    const certification_id = values[certIdIndex]?.replace(/^"|"$/g, '').trim() || '';
-    const email = values[emailIndex]?.replace(/^"|"$/g, '').trim() || '';
+  return headers.map((header, index) => ({
+    source: header,
+    target:
+      targets[index] ||
+      (header && !isReservedFieldName(header) ? 'field' : 'ignore'),
+  }));
+}
+
+/**
+ * Checks that a column mapping covers the required participant columns
+ * @returns Error messages, empty if the mapping can be imported
+ */
+export function getMappingErrors(columns: ICSVColumnMapping[]): string[] {
+  const errors: string[] = [];
 
-    if (!name || !certification_id) {
-      console.warn(`Skipping row ${i + 1}: missing required data`);
-      continue;
+  for (const target of REQUIRED_COLUMN_TARGETS) {
+    if (!columns.some((column) => column.target === target)) {
+      errors.push(`Map a column to ${CSV_COLUMN_TARGET_LABELS[target]}`);
+    }
+  }
+
+  for (const target of [...REQUIRED_COLUMN_TARGETS, 'template'] as const) {
+    if (columns.filter((column) => column.target === target).length > 1) {
+      errors.push(
+        `Only one column can be mapped to ${CSV_COLUMN_TARGET_LABELS[target]}`
+      );
     }
+  }
+
+  return errors;
+}
+
+/**
+ * Reads every data row of a CSV table as a participant, without validating.
+ * Missing cells are read as empty values.
+ * @param table - Headers and rows read with readCSVTable
+ * @param columns - One mapping per header, in header order
+ */
+export function readImportRows(
+  table: Pick<CSVTable, 'rows'>,
+  columns: ICSVColumnMapping[]
+): IImportRow[] {
+  const indexOf = (target: CSVColumnTarget) =>
+    columns.findIndex((column) => column.target === target);
+  const nameIndex = indexOf('name');
+  const certIdIndex = indexOf('certification_id');
+  const emailIndex = indexOf('email');
+  const templateIndex = indexOf('template');
+
+  // Custom fields are keyed by the header as written
+  const fieldColumns = columns
+    .map((column, index) => ({ header: column.source, index }))
+    .filter(({ header, index }) => header && columns[index].target === 'field');
+
+  return table.rows.map((values, rowIndex) => {
+    const valueAt = (index: number) =>
+      index >= 0 ? cleanValue(values[index]) : '';
+    const participant: IRecipientData = {
+      name: valueAt(nameIndex),
+      certification_id: valueAt(certIdIndex),
+      email: valueAt(emailIndex),
+    };
 
-    if (seenCertIds.has(certification_id)) {
-      throw new Error(
-        `Duplicate certification_id found: "${certification_id}" in row ${
-          i + 1
-        }`
+    const templateKey = valueAt(templateIndex);
+    if (templateKey) {
+      participant.templateKey = templateKey;
+    }
+    if (fieldColumns.length > 0) {
+      participant.fields = Object.fromEntries(
+        fieldColumns.map(({ header, index }) => [header, valueAt(index)])
       );
     }
 
-    seenCertIds.add(certification_id);
-    recipients.push({ name, certification_id, email });
+    // Account for the header row and 1-based numbering
+    return { row: rowIndex + 2, participant };
+  });
+}
+
+// What to do with rows missing a name or certification ID, or repeating an ID:
+// reject the whole file, or skip those rows and log them
+export type InvalidRowHandling = 'reject' | 'skip';
+
+/**
+ * Builds participants from a CSV table using a column mapping
+ * @param table - Headers and rows read with readCSVTable
+ * @param columns - One mapping per header, in header order
+ * @param options.invalidRows - Defaults to 'reject'
+ * @throws If any row is invalid and invalid rows are rejected, or if no
+ * valid rows are left
+ */
+export function mapCSVRecipients(
+  table: Pick<CSVTable, 'rows'>,
+  columns: ICSVColumnMapping[],
+  options: { invalidRows?: InvalidRowHandling } = {}
+): IRecipientData[] {
+  const rows = readImportRows(table, columns);
+  const errors = validateImportRows(rows).filter(
+    (issue) => issue.severity === 'error'
+  );
+
+  if (errors.length > 0 && options.invalidRows !== 'skip') {
+    throw new Error(`Invalid participant data: ${formatImportIssues(errors)}`);
+  }
+
+  if (errors.length > 0) {
+    console.warn(`Skipping invalid rows: ${formatImportIssues(errors)}`);
   }
 
+  const invalidRows = new Set(errors.map((issue) => issue.row));
+  const recipients = rows
+    .filter(({ row }) => !invalidRows.has(row))
+    .map(({ participant }) => participant);
+
   if (recipients.length === 0) {
     throw new Error('No valid recipient data found in CSV file');
   }
@@ -147,7 +478,100 @@ export function parseCSV(csvContent: string): IRecipientData[] {
   return recipients;
 }
 
+/**
+ * Parses participants from CSV content. Columns other than name,
+ * certification_id, email and the template column are kept as custom fields.
+ * @param csvContent - The CSV file content
+ * @param options.templateField - Column whose value selects each participant's template variant
+ * @param options.delimiter - Separator to use instead of the detected one
+ * @param options.invalidRows - Reject the file when a row is invalid (the
+ * default), or skip invalid rows
+ */
+export function parseCSV(
+  csvContent: string,
+  options: {
+    templateField?: string;
+    delimiter?: CSVDelimiter;
+    invalidRows?: InvalidRowHandling;
+  } = {}
+): IRecipientData[] {
+  const table = readCSVTable(csvContent, options.delimiter);
+  const columns = suggestColumnMapping(table.headers, {
+    templateField: options.templateField,
+    matchAliases: false,
+  });
+
+  // Validate headers
+  if (getMappingErrors(columns).length > 0) {
+    throw new Error(
+      'CSV file must contain "name", "certification_id" and "email" columns'
+    );
+  }
+
+  return mapCSVRecipients(table, columns, {
+    invalidRows: options.invalidRows,
+  });
+}
+
+/**
+ * Picks a worksheet by name, defaulting to the first sheet
+ */
+export function findSheet(sheets: XLSXSheet[], sheetName?: string): XLSXSheet {
+  const sheet = sheetName
+    ? sheets.find((candidate) => candidate.name === sheetName)
+    : sheets[0];
+
+  if (!sheet) {
+    throw new Error(`Sheet "${sheetName}" not found in XLSX file`);
+  }
+
+  return sheet;
+}
+
+/**
+ * Parses participants from an XLSX workbook, reading columns the same way
+ * as parseCSV
+ * @param data - The XLSX file contents
+ * @param options.templateField - Column whose value selects each participant's template variant
+ * @param options.sheetName - Worksheet to read instead of the first one
+ * @param options.invalidRows - Reject the workbook when a row is invalid (the
+ * default), or skip invalid rows
+ */
+export async function parseXLSX(
+  data: ArrayBuffer | Uint8Array,
+  options: {
+    templateField?: string;
+    sheetName?: string;
+    invalidRows?: InvalidRowHandling;
+  } = {}
+): Promise<IRecipientData[]> {
+  const sheets = await readXLSXWorkbook(data);
+  const table = readSheetTable(findSheet(sheets, options.sheetName).rows);
+  const columns = suggestColumnMapping(table.headers, {
+    templateField: options.templateField,
+    matchAliases: false,
+  });
+
+  // Validate headers
+  if (getMappingErrors(columns).length > 0) {
+    throw new Error(
+      'Sheet must contain "name", "certification_id" and "email" columns'
+    );
+  }
+
+  return mapCSVRecipients(table, columns, {
+    invalidRows: options.invalidRows,
+  });
+}
+
 export function validateCSVFormat(file: File): Promise<boolean> {
+  if (isXLSXFile(file)) {
+    return file
+      .arrayBuffer()
+      .then((data) => parseXLSX(data))
+      .then(() => true);
+  }
+
   return new Promise((resolve, reject) => {
     const reader = new FileReader();
 
@@ -166,6 +590,18 @@ export function validateCSVFormat(file: File): Promise<boolean> {
   });
 }
 
+/**
+ * Quotes a value for a CSV cell when needed. Values that spreadsheets would
+ * read as a formula get a leading apostrophe, so opening an exported file
+ * can't run one.
+ */
+export function escapeCSVValue(value: string): string {
+  const safeValue = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(safeValue)
+    ? `"${safeValue.replace(/"/g, '""')}"`
+    : safeValue;
+}
+
 /**
  * Downloads a CSV file to the user's device
  * @param csvContent - The CSV content as a string
@@ -198,14 +634,16 @@ export function downloadCSV(csvContent: string, filename: string): void {
 }
 
 /**
- * Generates a filename for a CSV export
+ * Generates a filename for a CSV or XLSX export
  * @param eventTitle - The event title
  * @param participantCount - Number of participants
+ * @param extension - File extension of the export
  * @returns A sanitized filename
  */
 export function generateCSVFilename(
   eventTitle: string,
-  participantCount: number
+  participantCount: number,
+  extension: 'csv' | 'xlsx' = 'csv'
 ): string {
   // Sanitize event title for filename
   const sanitizedTitle = eventTitle
@@ -214,5 +652,5 @@ export function generateCSVFilename(
     .toLowerCase();
 
   const timestamp = new Date().toISOString().split('T')[0]; // YYYY-MM-DD
-  return `participants_${sanitizedTitle}_${participantCount}_${timestamp}.csv`;
+  return `participants_${sanitizedTitle}_${participantCount}_${timestamp}.${extension}`;
 }
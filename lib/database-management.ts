@@ -4,6 +4,7 @@ import {
   validateEmailDataIntegrity,
   cleanupOldEmailLogs,
 } from './database-migrations';
+import { getParticipantsCollection } from './participant-store';
 
 /**
  * Database management utilities for email functionality
@@ -39,15 +40,16 @@ export async function getDatabaseStats(): Promise<DatabaseStats> {
     const db = await getDatabase();
     const eventsCollection = db.collection('events');
     const emailLogsCollection = db.collection('emailLogs');
+    const participantsCollection = getParticipantsCollection(db);
 
     // Events statistics
     const totalEvents = await eventsCollection.countDocuments();
     const eventsWithEmailConfig = await eventsCollection.countDocuments({
       emailConfig: { $exists: true },
     });
-    const eventsWithParticipants = await eventsCollection.countDocuments({
-      participants: { $exists: true, $not: { $size: 0 } },
-    });
+    const eventsWithParticipants = (
+      await participantsCollection.distinct('eventId')
+    ).length;
     const eventsWithEmailEnabled = await eventsCollection.countDocuments({
       'emailSettings.enabled': true,
     });
@@ -69,7 +71,6 @@ export async function getDatabaseStats(): Promise<DatabaseStats> {
 
     // Participants statistics
     const participantsPipeline = [
-      { $unwind: '$participants' },
       {
         $group: {
           _id: null,
@@ -78,10 +79,7 @@ export async function getDatabaseStats(): Promise<DatabaseStats> {
             $sum: {
               $cond: [
                 {
-                  $and: [
-                    { $ne: ['$participants.email', ''] },
-                    { $ne: ['$participants.email', null] },
-                  ],
+                  $and: [{ $ne: ['$email', ''] }, { $ne: ['$email', null] }],
                 },
                 1,
                 0,
@@ -92,39 +90,40 @@ export async function getDatabaseStats(): Promise<DatabaseStats> {
             $sum: {
               $cond: [
                 {
-                  $or: [
-                    { $eq: ['$participants.email', ''] },
-                    { $eq: ['$participants.email', null] },
-                  ],
+                  $or: [{ $eq: ['$email', ''] }, { $eq: ['$email', null] }],
                 },
                 1,
                 0,
               ],
             },
           },
-          emailStatusCounts: {
-            $push: {
-              $ifNull: ['$participants.emailStatus', 'not_sent'],
-            },
-          },
         },
       },
     ];
 
-    const participantsResult = await eventsCollection
+    const participantsResult = await participantsCollection
       .aggregate(participantsPipeline)
       .toArray();
     const participantsData = participantsResult[0] || {
       total: 0,
       withEmails: 0,
       withoutEmails: 0,
-      emailStatusCounts: [],
     };
 
     // Count email statuses
+    const statusResult = await participantsCollection
+      .aggregate([
+        {
+          $group: {
+            _id: { $ifNull: ['$emailStatus', 'not_sent'] },
+            count: { $sum: 1 },
+          },
+        },
+      ])
+      .toArray();
     const emailStatusCounts: Record<string, number> = {};
-    participantsData.emailStatusCounts.forEach((status: string) => {
-      emailStatusCounts[status] = (emailStatusCounts[status] || 0) + 1;
+    statusResult.forEach((status) => {
+      emailStatusCounts[status._id] = status.count;
     });
 
     return {
@@ -280,13 +279,13 @@ export async function optimizeDatabase(): Promise<{
 
     // Optimization 1: Create missing indexes
     try {
-      const eventsCollection = db.collection('events');
+      const participantsCollection = getParticipantsCollection(db);
       const emailLogsCollection = db.collection('emailLogs');
 
       // Create compound indexes for common queries
-      await eventsCollection.createIndex({
-        'participants.emailStatus': 1,
-        updatedAt: -1,
+      await participantsCollection.createIndex({
+        eventId: 1,
+        emailStatus: 1,
       });
       await emailLogsCollection.createIndex({
         eventId: 1,
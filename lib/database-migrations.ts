@@ -1,5 +1,14 @@
-import { Db, Collection } from 'mongodb';
+import { Db, Collection, ObjectId } from 'mongodb';
 import { IEmailLog, IEvent, IRecipientData } from './types';
+import {
+  getParticipantsCollection,
+  PARTICIPANTS_COLLECTION,
+} from './participant-store';
+import { storeAsset } from './asset-storage';
+import {
+  CERTIFICATE_JOBS_COLLECTION,
+  getCertificateJobsCollection,
+} from './certificate-jobs';
 
 /**
  * Database migration utilities for email functionality
@@ -128,6 +137,244 @@ export async function migrateEventsForEmail(db: Db): Promise<MigrationResult> {
   }
 }
 
+/**
+ * Create indexes for the participants collection
+ */
+export async function createParticipantIndexes(
+  db: Db
+): Promise<MigrationResult> {
+  try {
+    const participantsCollection = getParticipantsCollection(db);
+
+    // Certification IDs are unique within an event
+    await participantsCollection.createIndex(
+      { eventId: 1, certification_id: 1 },
+      { unique: true }
+    );
+    await participantsCollection.createIndex({ eventId: 1, position: 1 });
+    await participantsCollection.createIndex({ eventId: 1, emailStatus: 1 });
+    await participantsCollection.createIndex({ eventId: 1, email: 1 });
+
+    // Supports public certificate verification lookups
+    await participantsCollection.createIndex({ certification_id: 1 });
+
+    return {
+      success: true,
+      message: 'Participant indexes created successfully',
+      collectionsUpdated: [PARTICIPANTS_COLLECTION],
+      recordsUpdated: 0,
+    };
+  } catch (error) {
+    return {
+      success: false,
+      message: `Failed to create participant indexes: ${
+        error instanceof Error ? error.message : 'Unknown error'
+      }`,
+      collectionsUpdated: [],
+      recordsUpdated: 0,
+    };
+  }
+}
+
+/**
+ * Create indexes for the certificate jobs collection
+ */
+export async function createCertificateJobIndexes(
+  db: Db
+): Promise<MigrationResult> {
+  try {
+    const jobsCollection = getCertificateJobsCollection(db);
+
+    // Supports claiming the next job and finding expired ones
+    await jobsCollection.createIndex({ status: 1, createdAt: 1 });
+    await jobsCollection.createIndex({ completedAt: 1 });
+
+    return {
+      success: true,
+      message: 'Certificate job indexes created successfully',
+      collectionsUpdated: [CERTIFICATE_JOBS_COLLECTION],
+      recordsUpdated: 0,
+    };
+  } catch (error) {
+    return {
+      success: false,
+      message: `Failed to create certificate job indexes: ${
+        error instanceof Error ? error.message : 'Unknown error'
+      }`,
+      collectionsUpdated: [],
+      recordsUpdated: 0,
+    };
+  }
+}
+
+/**
+ * Move one event's embedded participant array into the participants
+ * collection. Safe to run again if interrupted: participants that were
+ * already copied are skipped, and the array is only removed afterwards.
+ * @returns The number of participants copied
+ */
+export async function moveEmbeddedParticipants(
+  db: Db,
+  event: { _id: ObjectId; participants?: IRecipientData[] }
+): Promise<number> {
+  const participants = event.participants || [];
+  let copiedCount = 0;
+
+  if (participants.length > 0) {
+    const result = await getParticipantsCollection(db).bulkWrite(
+      participants.map((participant, position) => ({
+        updateOne: {
+          filter: {
+            eventId: event._id,
+            certification_id: participant.certification_id,
+          },
+          // Duplicate certification IDs keep the first participant
+          update: {
+            $setOnInsert: { ...participant, eventId: event._id, position },
+          },
+          upsert: true,
+        },
+      })),
+      { ordered: true }
+    );
+    copiedCount = result.upsertedCount;
+  }
+
+  await db
+    .collection('events')
+    .updateOne({ _id: event._id }, { $unset: { participants: '' } });
+
+  return copiedCount;
+}
+
+/**
+ * Move participants of existing events into the participants collection
+ */
+export async function migrateParticipantsToCollection(
+  db: Db
+): Promise<MigrationResult> {
+  try {
+    const eventsCollection = db.collection('events');
+
+    // Only the participant arrays are needed, not the templates
+    const eventsWithParticipants = eventsCollection.find(
+      { participants: { $exists: true } },
+      { projection: { participants: 1 } }
+    );
+
+    let migratedCount = 0;
+    while (await eventsWithParticipants.hasNext()) {
+      const event = await eventsWithParticipants.next();
+      if (!event) break;
+
+      migratedCount += await moveEmbeddedParticipants(db, {
+        _id: event._id,
+        participants: event.participants,
+      });
+    }
+
+    return {
+      success: true,
+      message: `Successfully moved ${migratedCount} participants to their own collection`,
+      collectionsUpdated: ['events', PARTICIPANTS_COLLECTION],
+      recordsUpdated: migratedCount,
+    };
+  } catch (error) {
+    return {
+      success: false,
+      message: `Participant migration failed: ${
+        error instanceof Error ? error.message : 'Unknown error'
+      }`,
+      collectionsUpdated: [],
+      recordsUpdated: 0,
+    };
+  }
+}
+
+/**
+ * Move base64 template images embedded in events into asset storage. Each
+ * image is removed from the event once its asset ID is saved, so an
+ * interrupted run continues with the remaining images.
+ */
+export async function migrateTemplatesToAssetStorage(
+  db: Db
+): Promise<MigrationResult> {
+  try {
+    const eventsCollection = db.collection<IEvent>('events');
+
+    const eventsWithEmbeddedTemplates = eventsCollection.find(
+      {
+        $or: [
+          { 'template.base64': { $exists: true } },
+          { 'templateVariants.template.base64': { $exists: true } },
+        ],
+      },
+      { projection: { template: 1, templateVariants: 1 } }
+    );
+
+    let migratedCount = 0;
+    while (await eventsWithEmbeddedTemplates.hasNext()) {
+      const event = await eventsWithEmbeddedTemplates.next();
+      if (!event) break;
+
+      if (event.template?.base64 !== undefined) {
+        // Events created without a template have an empty string
+        const assetId = event.template.base64
+          ? await storeAsset(
+              Buffer.from(event.template.base64, 'base64'),
+              'image/png'
+            )
+          : undefined;
+        await eventsCollection.updateOne(
+          { _id: event._id },
+          {
+            ...(assetId ? { $set: { 'template.assetId': assetId } } : {}),
+            $unset: { 'template.base64': '' },
+          }
+        );
+        if (assetId) migratedCount++;
+      }
+
+      for (const variant of event.templateVariants || []) {
+        if (variant.template.base64 === undefined) continue;
+
+        const assetId = variant.template.base64
+          ? await storeAsset(
+              Buffer.from(variant.template.base64, 'base64'),
+              'image/png'
+            )
+          : undefined;
+        await eventsCollection.updateOne(
+          { _id: event._id, 'templateVariants.id': variant.id },
+          {
+            ...(assetId
+              ? { $set: { 'templateVariants.$.template.assetId': assetId } }
+              : {}),
+            $unset: { 'templateVariants.$.template.base64': '' },
+          }
+        );
+        if (assetId) migratedCount++;
+      }
+    }
+
+    return {
+      success: true,
+      message: `Successfully moved ${migratedCount} template images to asset storage`,
+      collectionsUpdated: ['events'],
+      recordsUpdated: migratedCount,
+    };
+  } catch (error) {
+    return {
+      success: false,
+      message: `Template migration failed: ${
+        error instanceof Error ? error.message : 'Unknown error'
+      }`,
+      collectionsUpdated: [],
+      recordsUpdated: 0,
+    };
+  }
+}
+
 /**
  * Create email logs collection with proper indexes
  */
@@ -182,8 +429,6 @@ export async function createEventEmailIndexes(
 
     // Create indexes for email-related queries
     await eventsCollection.createIndex({ 'emailSettings.enabled': 1 });
-    await eventsCollection.createIndex({ 'participants.emailStatus': 1 });
-    await eventsCollection.createIndex({ 'participants.email': 1 });
     await eventsCollection.createIndex({ updatedAt: -1 });
 
     return {
@@ -212,6 +457,10 @@ export async function runEmailMigrations(db: Db): Promise<MigrationResult[]> {
 
   // Run migrations in order
   results.push(await migrateEventsForEmail(db));
+  results.push(await createParticipantIndexes(db));
+  results.push(await migrateParticipantsToCollection(db));
+  results.push(await migrateTemplatesToAssetStorage(db));
+  results.push(await createCertificateJobIndexes(db));
   results.push(await createEmailLogsCollection(db));
   results.push(await createEventEmailIndexes(db));
 
@@ -252,25 +501,19 @@ export async function validateEmailDataIntegrity(db: Db): Promise<{
     }
 
     // Check for participants with invalid email addresses
-    const participantsWithInvalidEmails = await eventsCollection
-      .aggregate([
-        { $unwind: '$participants' },
-        {
-          $match: {
-            'participants.email': {
-              $exists: true,
-              $ne: '',
-              $not: /^[^\s@]+@[^\s@]+\.[^\s@]+$/,
-            },
-          },
-        },
-        { $count: 'count' },
-      ])
-      .toArray();
+    const participantsWithInvalidEmails = await getParticipantsCollection(
+      db
+    ).countDocuments({
+      email: {
+        $exists: true,
+        $ne: '',
+        $not: /^[^\s@]+@[^\s@]+\.[^\s@]+$/,
+      },
+    });
 
-    if (participantsWithInvalidEmails.length > 0) {
+    if (participantsWithInvalidEmails > 0) {
       issues.push(
-        `${participantsWithInvalidEmails[0].count} participants have invalid email addresses`
+        `${participantsWithInvalidEmails} participants have invalid email addresses`
       );
       recommendations.push('Validate and fix invalid email addresses');
     }
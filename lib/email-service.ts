@@ -1,5 +1,12 @@
 import nodemailer, { Transporter, SendMailOptions } from 'nodemailer';
-import { IEmailConfig, IEmailTemplate, EmailStatus } from './types';
+import {
+  IEmailConfig,
+  IEmailTemplate,
+  EmailStatus,
+  CertificateOutputFormat,
+} from './types';
+import { getCertificateFileInfo } from './certificate-utils';
+import { buildCertificateFilename } from './filename-pattern';
 import {
   EmailErrorFactory,
   EmailError,
@@ -249,14 +256,34 @@ export class EmailService {
   renderTemplate(template: string, variables: Record<string, string>): string {
     let rendered = template;
 
+    // Split and join so field names are not treated as regular expressions
     Object.entries(variables).forEach(([key, value]) => {
       const placeholder = `{${key}}`;
-      rendered = rendered.replace(new RegExp(placeholder, 'g'), value || '');
+      rendered = rendered.split(placeholder).join(value || '');
     });
 
     return rendered;
   }
 
+  /**
+   * Escape variable values for use in HTML bodies
+   */
+  escapeHtmlVariables(
+    variables: Record<string, string>
+  ): Record<string, string> {
+    return Object.fromEntries(
+      Object.entries(variables).map(([key, value]) => [
+        key,
+        (value || '')
+          .replace(/&/g, '&amp;')
+          .replace(/</g, '&lt;')
+          .replace(/>/g, '&gt;')
+          .replace(/"/g, '&quot;')
+          .replace(/'/g, '&#39;'),
+      ])
+    );
+  }
+
   /**
    * Sanitize HTML content to prevent XSS
    */
@@ -297,7 +324,10 @@ export class EmailService {
     return {
       to: variables.email || '',
       subject: this.renderTemplate(template.subject, variables),
-      html: this.renderTemplate(sanitizedHtml, variables),
+      html: this.renderTemplate(
+        sanitizedHtml,
+        this.escapeHtmlVariables(variables)
+      ),
       text: this.renderTemplate(template.text, variables),
     };
   }
@@ -311,9 +341,14 @@ export class EmailService {
     eventTitle: string,
     certificateId: string,
     certificateBuffer: Buffer,
-    template: IEmailTemplate
+    template: IEmailTemplate,
+    format: CertificateOutputFormat = 'png',
+    fields: Record<string, string> = {},
+    attachmentFilename?: string // Defaults to the default filename pattern
   ): Promise<EmailResult> {
+    // Custom participant fields never override the built-in variables
     const variables = {
+      ...fields,
       participantName,
       eventTitle,
       certificateId,
@@ -323,11 +358,23 @@ export class EmailService {
     const emailData = this.createEmailFromTemplate(template, variables);
 
     // Add certificate as attachment
+    const { extension, mimeType } = getCertificateFileInfo(format);
     emailData.attachments = [
       {
-        filename: `certificate-${certificateId}.png`,
+        filename:
+          attachmentFilename ||
+          buildCertificateFilename(
+            { title: eventTitle },
+            {
+              name: participantName,
+              certification_id: certificateId,
+              email: participantEmail,
+              fields,
+            },
+            extension
+          ),
         content: certificateBuffer,
-        contentType: 'image/png',
+        contentType: mimeType,
       },
     ];
 
@@ -4,6 +4,7 @@ import {
   EmailValidationResult,
   EmailErrorFactory,
 } from './email-error-handler';
+import { hasTemplateImage } from './template-images';
 
 /**
  * Comprehensive email validation service
@@ -117,7 +118,7 @@ export class EmailValidationService {
     }
 
     // Check if event has a template
-    if (!event.template || !event.template.base64) {
+    if (!hasTemplateImage(event.template)) {
       errors.push(
         EmailErrorFactory.createValidationError(
           'template',
@@ -0,0 +1,112 @@
+import { buildCertificateVariables, renderTextTemplate } from './text-template';
+import { IRecipientData } from './types';
+
+/**
+ * File names of generated certificates come from a per-event pattern with
+ * the same {placeholders} as text elements, including custom fields. The
+ * same name is used for ZIP entries, single downloads and email attachments.
+ */
+
+export const DEFAULT_FILENAME_PATTERN = 'certificate_{name}_{certification_id}';
+
+// Leaves room for an extension and a duplicate counter within the 255 byte
+// limit of most file systems, even for multi-byte characters
+const MAX_FILENAME_LENGTH = 120;
+
+// Characters Windows, macOS or ZIP tools don't allow in a file name
+const RESERVED_CHARACTERS = /[\u0000-\u001f\u007f<>:"/\\|?*]/g;
+
+// Device names Windows refuses as file names, with or without an extension
+const RESERVED_NAMES = /^(con|prn|aux|nul|com\d|lpt\d)(\..*)?$/i;
+
+export interface FilenameContext {
+  title: string;
+  eventDate?: Date | string;
+  filenamePattern?: string; // Defaults to DEFAULT_FILENAME_PATTERN
+}
+
+/**
+ * Makes text safe to use in a file name. Letters and digits of every script
+ * are kept; reserved characters are removed and whitespace becomes
+ * underscores.
+ */
+export function sanitizeFilename(text: string): string {
+  const sanitized = text
+    .normalize('NFC')
+    .replace(RESERVED_CHARACTERS, '')
+    .replace(/\s+/g, '_')
+    .replace(/_{2,}/g, '_')
+    // Leading dots hide files, trailing dots and spaces are dropped by Windows
+    .replace(/^[._]+|[._]+$/g, '');
+
+  return RESERVED_NAMES.test(sanitized) ? `${sanitized}_` : sanitized;
+}
+
+// Cut by code point so surrogate pairs, e.g. emoji, are never split
+function truncate(text: string, maxLength: number): string {
+  const characters = Array.from(text);
+  return characters.length > maxLength
+    ? characters
+        .slice(0, maxLength)
+        .join('')
+        .replace(/[._]+$/, '')
+    : text;
+}
+
+/**
+ * Builds a certificate's file name from its event's pattern. Values are
+ * sanitized before they are inserted, so they can't add folders, and
+ * unknown placeholders are dropped. Falls back to the certification ID if
+ * nothing is left.
+ * @param extension - The file extension (without dot)
+ */
+export function buildCertificateFilename(
+  event: FilenameContext,
+  recipient: IRecipientData,
+  extension: string
+): string {
+  const variables = buildCertificateVariables(event, recipient);
+  const sanitizedVariables: Record<string, string> = {};
+  Object.keys(variables).forEach((key) => {
+    sanitizedVariables[key] = sanitizeFilename(variables[key]);
+  });
+
+  const name = sanitizeFilename(
+    renderTextTemplate(
+      event.filenamePattern?.trim() || DEFAULT_FILENAME_PATTERN,
+      sanitizedVariables
+    ).replace(/\{[^{}]*\}/g, '')
+  );
+
+  const baseName =
+    truncate(name, MAX_FILENAME_LENGTH) ||
+    truncate(
+      sanitizeFilename(recipient.certification_id),
+      MAX_FILENAME_LENGTH
+    ) ||
+    'certificate';
+  return `${baseName}.${extension}`;
+}
+
+/**
+ * Returns a function that makes file names unique, e.g. for the entries of
+ * one ZIP archive. Repeated names get a counter before the extension:
+ * name.png, name_2.png, name_3.png. Names differing only in case count as
+ * the same, as they do on Windows and macOS.
+ */
+export function createFilenameDeduplicator(): (filename: string) => string {
+  const usedNames = new Set<string>();
+
+  return (filename) => {
+    const dotIndex = filename.lastIndexOf('.');
+    const baseName = dotIndex > 0 ? filename.slice(0, dotIndex) : filename;
+    const extension = dotIndex > 0 ? filename.slice(dotIndex) : '';
+
+    let uniqueName = filename;
+    for (let counter = 2; usedNames.has(uniqueName.toLowerCase()); counter++) {
+      uniqueName = `${baseName}_${counter}${extension}`;
+    }
+    usedNames.add(uniqueName.toLowerCase());
+    return uniqueName;
+  };
+}
@@ -0,0 +1,81 @@
+import { CustomFontFormat, FONT_FAMILIES, ICustomFont } from './types';
+
+/**
+ * Utility functions for custom event fonts (safe to use on client and server)
+ */
+
+const FONT_FORMATS: Record<
+  string,
+  { format: CustomFontFormat; mimeType: string }
+> = {
+  ttf: { format: 'truetype', mimeType: 'font/ttf' },
+  otf: { format: 'opentype', mimeType: 'font/otf' },
+  woff: { format: 'woff', mimeType: 'font/woff' },
+};
+
+export const FONT_FILE_ACCEPT = '.ttf,.otf,.woff';
+
+export const MAX_FONT_FILE_SIZE = 5 * 1024 * 1024; // 5MB
+
+/**
+ * Detects the font format from a file name
+ * @param filename - The uploaded font file name
+ * @returns The font format, or null if unsupported
+ */
+export function getFontFormat(filename: string): CustomFontFormat | null {
+  const extension = filename.split('.').pop()?.toLowerCase() || '';
+  return FONT_FORMATS[extension]?.format || null;
+}
+
+/**
+ * Returns the file extension used when writing a font to disk
+ * @param format - The font format
+ */
+export function getFontExtension(format: CustomFontFormat): string {
+  const entry = Object.entries(FONT_FORMATS).find(
+    ([, info]) => info.format === format
+  );
+  return entry ? entry[0] : 'ttf';
+}
+
+/**
+ * Builds a data URL that browsers can load with the FontFace API
+ * @param font - The custom font
+ */
+export function getFontDataUrl(font: ICustomFont): string {
+  const mimeType = FONT_FORMATS[getFontExtension(font.format)].mimeType;
+  return `data:${mimeType};base64,${font.base64}`;
+}
+
+/**
+ * Derives a unique font family name from a font file name
+ * @param filename - The uploaded font file name
+ * @param existingFamilies - Family names already used by the event
+ * @returns A family name that does not clash with system or event fonts
+ */
+export function createFontFamilyName(
+  filename: string,
+  existingFamilies: string[]
+): string {
+  const baseName =
+    filename
+      .replace(/\.[^.]+$/, '') // Remove extension
+      .replace(/[^\p{L}\p{N}\s_-]/gu, ' ') // Remove quotes and special characters
+      .replace(/\s+/g, ' ')
+      .trim() || 'Custom Font';
+
+  const taken = new Set(
+    [...FONT_FAMILIES, ...existingFamilies].map((family) =>
+      family.toLowerCase()
+    )
+  );
+
+  let family = baseName;
+  let counter = 2;
+  while (taken.has(family.toLowerCase())) {
+    family = `${baseName} ${counter}`;
+    counter++;
+  }
+
+  return family;
+}
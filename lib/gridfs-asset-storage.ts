@@ -0,0 +1,70 @@
+import { Db, GridFSBucket } from 'mongodb';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { IAssetStorage } from './types';
+
+/**
+ * Asset storage in a GridFS bucket of the app's MongoDB database, so no
+ * extra service is needed. Files are named by asset ID.
+ */
+
+const BUCKET_NAME = 'assets';
+
+export function createGridFSAssetStorage(
+  getDb: () => Promise<Db>
+): IAssetStorage {
+  const getBucket = async () =>
+    new GridFSBucket(await getDb(), { bucketName: BUCKET_NAME });
+
+  const storage: IAssetStorage = {
+    async put(assetId, asset) {
+      await storage.putStream(
+        assetId,
+        Readable.from([asset.data]),
+        asset.contentType
+      );
+    },
+
+    async putStream(assetId, stream, contentType) {
+      const bucket = await getBucket();
+      await pipeline(
+        stream,
+        bucket.openUploadStream(assetId, { metadata: { contentType } })
+      );
+    },
+
+    async get(assetId) {
+      const asset = await storage.getStream(assetId);
+      if (!asset) return null;
+
+      const data = await new Promise<Buffer>((resolve, reject) => {
+        const chunks: Buffer[] = [];
+        asset.stream
+          .on('data', (chunk: Buffer) => chunks.push(chunk))
+          .once('end', () => resolve(Buffer.concat(chunks)))
+          .once('error', reject);
+      });
+      return { data, contentType: asset.contentType };
+    },
+
+    async getStream(assetId) {
+      const bucket = await getBucket();
+      const file = await bucket.find({ filename: assetId }).limit(1).next();
+      if (!file) return null;
+
+      return {
+        stream: bucket.openDownloadStream(file._id),
+        contentType: file.metadata?.contentType || 'application/octet-stream',
+        size: file.length,
+      };
+    },
+
+    async delete(assetId) {
+      const bucket = await getBucket();
+      const files = await bucket.find({ filename: assetId }).toArray();
+      await Promise.all(files.map((file) => bucket.delete(file._id)));
+    },
+  };
+
+  return storage;
+}
@@ -0,0 +1,154 @@
+import { IImageLayer, LayoutElementKey } from './types';
+
+/**
+ * Image layer helpers shared by the browser preview and the server-side
+ * renderer (safe to use on client and server)
+ */
+
+const LAYER_KEY_PREFIX = 'layer:';
+const PNG_SIGNATURE = '89504e470d0a1a0a';
+
+export const IMAGE_LAYER_FILE_ACCEPT = '.png,image/png';
+
+export const MAX_IMAGE_LAYER_FILE_SIZE = 5 * 1024 * 1024; // 5MB
+
+export const MIN_IMAGE_LAYER_SIZE = 10;
+
+// The subset of CanvasRenderingContext2D used for drawing image layers
+export interface ImageLayerDrawingContext<TImage> {
+  globalAlpha: number;
+  save(): void;
+  restore(): void;
+  translate(x: number, y: number): void;
+  rotate(angle: number): void;
+  drawImage(
+    image: TImage,
+    dx: number,
+    dy: number,
+    dw: number,
+    dh: number
+  ): void;
+}
+
+/**
+ * Returns the preview selection key for an image layer
+ */
+export function getImageLayerKey(layerId: string): LayoutElementKey {
+  return `${LAYER_KEY_PREFIX}${layerId}`;
+}
+
+/**
+ * Returns the layer id for a selection key, or null for other elements
+ */
+export function parseImageLayerKey(key: LayoutElementKey): string | null {
+  return key.startsWith(LAYER_KEY_PREFIX)
+    ? key.slice(LAYER_KEY_PREFIX.length)
+    : null;
+}
+
+/**
+ * Builds a data URL for loading a layer image
+ */
+export function getImageLayerDataUrl(layer: Pick<IImageLayer, 'base64'>) {
+  return `data:image/png;base64,${layer.base64}`;
+}
+
+/**
+ * Checks that base64 data starts with the PNG file signature
+ */
+export function isPngData(base64: string): boolean {
+  const header = Buffer.from(base64.slice(0, 12), 'base64');
+  return header.subarray(0, 8).toString('hex') === PNG_SIGNATURE;
+}
+
+/**
+ * Converts a point into the layer's unrotated frame, relative to its center
+ */
+function toLayerSpace(
+  layer: IImageLayer,
+  x: number,
+  y: number
+): { x: number; y: number } {
+  const angle = (-layer.rotation * Math.PI) / 180;
+  const dx = x - layer.x;
+  const dy = y - layer.y;
+
+  return {
+    x: dx * Math.cos(angle) - dy * Math.sin(angle),
+    y: dx * Math.sin(angle) + dy * Math.cos(angle),
+  };
+}
+
+/**
+ * Checks whether a point in template pixels falls inside a layer
+ */
+export function isPointInImageLayer(
+  layer: IImageLayer,
+  x: number,
+  y: number
+): boolean {
+  const local = toLayerSpace(layer, x, y);
+  return (
+    Math.abs(local.x) <= layer.width / 2 &&
+    Math.abs(local.y) <= layer.height / 2
+  );
+}
+
+/**
+ * Returns the position of the layer's resize handle (its bottom-right
+ * corner after rotation) in template pixels
+ */
+export function getImageLayerResizeHandle(layer: IImageLayer): {
+  x: number;
+  y: number;
+} {
+  const angle = (layer.rotation * Math.PI) / 180;
+  const dx = layer.width / 2;
+  const dy = layer.height / 2;
+
+  return {
+    x: layer.x + dx * Math.cos(angle) - dy * Math.sin(angle),
+    y: layer.y + dx * Math.sin(angle) + dy * Math.cos(angle),
+  };
+}
+
+/**
+ * Resizes a layer so its corner follows a point, keeping the aspect ratio
+ * @returns The new width and height in template pixels
+ */
+export function resizeImageLayerToPoint(
+  layer: IImageLayer,
+  x: number,
+  y: number
+): { width: number; height: number } {
+  const local = toLayerSpace(layer, x, y);
+  const ratio = layer.height / layer.width;
+  const width = Math.max(
+    MIN_IMAGE_LAYER_SIZE,
+    Math.abs(local.x) * 2,
+    (Math.abs(local.y) * 2) / ratio
+  );
+
+  return { width, height: width * ratio };
+}
+
+/**
+ * Draws an image layer centered on its position. Positions and sizes are in
+ * template pixels and are multiplied by scale.
+ */
+export function drawImageLayer<TImage>(
+  ctx: ImageLayerDrawingContext<TImage>,
+  image: TImage,
+  layer: IImageLayer,
+  scale: number = 1
+): void {
+  const width = layer.width * scale;
+  const height = layer.height * scale;
+
+  ctx.save();
+  ctx.globalAlpha = Math.min(1, Math.max(0, layer.opacity));
+  ctx.translate(layer.x * scale, layer.y * scale);
+  ctx.rotate((layer.rotation * Math.PI) / 180);
+  ctx.drawImage(image, -width / 2, -height / 2, width, height);
+  ctx.restore();
+}
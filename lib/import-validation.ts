@@ -0,0 +1,153 @@
+import { IEvent, IRecipientData } from './types';
+import { EmailValidator } from './email-error-handler';
+import { resolveCertificateLayout } from './template-variants';
+import {
+  applyTextTransform,
+  measureTextElement,
+  TextMeasuringContext,
+} from './text-rendering';
+
+/**
+ * Dry-run validation of imported participant rows. Every problem is reported
+ * with its row number instead of skipping rows or stopping at the first one.
+ * Rows with errors cannot be imported; warnings are informational.
+ */
+
+export type ImportIssueSeverity = 'error' | 'warning';
+
+export type ImportIssueField = 'name' | 'certification_id' | 'email';
+
+export interface IImportRow {
+  row: number; // 1-based row number in the file, counting the header
+  participant: IRecipientData;
+}
+
+export interface IImportIssue {
+  row: number;
+  field: ImportIssueField;
+  severity: ImportIssueSeverity;
+  message: string;
+}
+
+// Returns false when a participant's name does not fit the name box
+export type NameFitCheck = (participant: IRecipientData) => boolean;
+
+/**
+ * Validates imported rows
+ * @param rows - Rows read with readImportRows
+ * @param options.checkEmails - Check email format, disposable domains and typos
+ * @param options.nameFits - Check that names fit the certificate's name box
+ */
+export function validateImportRows(
+  rows: IImportRow[],
+  options: { checkEmails?: boolean; nameFits?: NameFitCheck } = {}
+): IImportIssue[] {
+  const issues: IImportIssue[] = [];
+  const firstRowById = new Map<string, number>();
+
+  for (const { row, participant } of rows) {
+    const name = participant.name.trim();
+    const certificationId = participant.certification_id.trim();
+    const email = (participant.email || '').trim();
+    const firstRowWithId = firstRowById.get(certificationId);
+
+    const addIssue = (
+      field: ImportIssueField,
+      severity: ImportIssueSeverity,
+      message: string
+    ) => issues.push({ row, field, severity, message });
+
+    if (!name) {
+      addIssue('name', 'error', 'Name is required');
+    } else if (
+      options.nameFits &&
+      !options.nameFits({ ...participant, name })
+    ) {
+      addIssue(
+        'name',
+        'warning',
+        'Name is too long for the name box and will be cut off'
+      );
+    }
+
+    if (!certificationId) {
+      addIssue('certification_id', 'error', 'Certification ID is required');
+    } else if (firstRowWithId !== undefined) {
+      addIssue(
+        'certification_id',
+        'error',
+        `Duplicate certification ID "${certificationId}" (first used in row ${firstRowWithId})`
+      );
+    } else {
+      firstRowById.set(certificationId, row);
+    }
+
+    // Email is optional; only addresses that are present are checked
+    if (options.checkEmails && email) {
+      const result = EmailValidator.validateEmailAddress(email);
+      result.errors.forEach((error) =>
+        addIssue('email', 'error', error.details?.reason || error.message)
+      );
+      result.warnings.forEach((warning) =>
+        addIssue('email', 'warning', warning)
+      );
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Returns the row numbers that have at least one error
+ */
+export function getRowsWithErrors(issues: IImportIssue[]): Set<number> {
+  return new Set(
+    issues
+      .filter((issue) => issue.severity === 'error')
+      .map((issue) => issue.row)
+  );
+}
+
+/**
+ * Summarizes issues for an error message, e.g. "Row 3: Name is required"
+ * @param limit - Number of issues listed before the remainder is counted
+ */
+export function formatImportIssues(
+  issues: IImportIssue[],
+  limit: number = 5
+): string {
+  const listed = issues
+    .slice(0, limit)
+    .map((issue) => `Row ${issue.row}: ${issue.message}`);
+  if (issues.length > limit) {
+    listed.push(`and ${issues.length - limit} more`);
+  }
+  return listed.join('; ');
+}
+
+/**
+ * Creates a check for names that the certificate would truncate. Names are
+ * measured with the name settings of each participant's template.
+ * @param ctx - Context used to measure text, e.g. from an offscreen canvas
+ */
+export function createNameFitCheck(
+  event: Pick<
+    IEvent,
+    'template' | 'nameConfig' | 'idConfig' | 'textElements' | 'templateVariants'
+  >,
+  ctx: TextMeasuringContext
+): NameFitCheck {
+  return (participant) => {
+    const { nameConfig } = resolveCertificateLayout(event, participant);
+    // Wrapped names grow downwards instead of being cut off
+    if (!nameConfig.maxWidth || nameConfig.overflow === 'wrap') {
+      return true;
+    }
+
+    const layout = measureTextElement(ctx, participant.name, nameConfig);
+    return (
+      layout.lines[0] ===
+      applyTextTransform(participant.name, nameConfig.textTransform)
+    );
+  };
+}
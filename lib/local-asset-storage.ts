@@ -0,0 +1,83 @@
+import { createReadStream, createWriteStream } from 'fs';
+import { mkdir, readFile, rm, stat, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { pipeline } from 'stream/promises';
+import { IAssetStorage } from './types';
+
+/**
+ * Asset storage in a local directory. Each asset is a data file named by its
+ * ID with the content type in a JSON file next to it.
+ */
+
+// IDs become file names, so anything that could leave the directory is refused
+const SAFE_ASSET_ID = /^[A-Za-z0-9_-]+$/;
+
+function isNotFound(error: unknown): boolean {
+  return (error as NodeJS.ErrnoException)?.code === 'ENOENT';
+}
+
+export function createLocalAssetStorage(directory: string): IAssetStorage {
+  const getPaths = (assetId: string) => {
+    if (!SAFE_ASSET_ID.test(assetId)) {
+      throw new Error(`Invalid asset ID: ${assetId}`);
+    }
+    const dataPath = join(directory, assetId);
+    return { dataPath, metadataPath: `${dataPath}.json` };
+  };
+
+  const writeMetadata = (metadataPath: string, contentType: string) =>
+    writeFile(metadataPath, JSON.stringify({ contentType }));
+
+  const readContentType = async (metadataPath: string) =>
+    JSON.parse(await readFile(metadataPath, 'utf8')).contentType as string;
+
+  return {
+    async put(assetId, asset) {
+      const { dataPath, metadataPath } = getPaths(assetId);
+      await mkdir(directory, { recursive: true });
+      await writeFile(dataPath, asset.data);
+      await writeMetadata(metadataPath, asset.contentType);
+    },
+
+    async putStream(assetId, stream, contentType) {
+      const { dataPath, metadataPath } = getPaths(assetId);
+      await mkdir(directory, { recursive: true });
+      await pipeline(stream, createWriteStream(dataPath));
+      await writeMetadata(metadataPath, contentType);
+    },
+
+    async get(assetId) {
+      const { dataPath, metadataPath } = getPaths(assetId);
+      try {
+        const [data, contentType] = await Promise.all([
+          readFile(dataPath),
+          readContentType(metadataPath),
+        ]);
+        return { data, contentType };
+      } catch (error) {
+        if (isNotFound(error)) return null;
+        throw error;
+      }
+    },
+
+    async getStream(assetId) {
+      const { dataPath, metadataPath } = getPaths(assetId);
+      try {
+        const [{ size }, contentType] = await Promise.all([
+          stat(dataPath),
+          readContentType(metadataPath),
+        ]);
+        return { stream: createReadStream(dataPath), contentType, size };
+      } catch (error) {
+        if (isNotFound(error)) return null;
+        throw error;
+      }
+    },
+
+    async delete(assetId) {
+      const { dataPath, metadataPath } = getPaths(assetId);
+      await rm(dataPath, { force: true });
+      await rm(metadataPath, { force: true });
+    },
+  };
+}
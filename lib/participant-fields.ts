@@ -0,0 +1,57 @@
+import { IRecipientData } from './types';
+
+/**
+ * Custom participant fields are the extra CSV columns kept per participant,
+ * e.g. company, course or hours. Field names keep the column header as
+ * written and are used as {placeholders} in certificates and emails.
+ */
+
+// Columns stored on the participant itself rather than as custom fields
+export const RESERVED_FIELD_NAMES = ['name', 'certification_id', 'email'];
+
+/**
+ * Checks whether a column name is one of the built-in participant columns
+ */
+export function isReservedFieldName(fieldName: string): boolean {
+  return RESERVED_FIELD_NAMES.includes(fieldName.trim().toLowerCase());
+}
+
+/**
+ * Checks that a custom field name is usable and not taken
+ * @returns An error message, or null if the name is valid
+ */
+export function validateFieldName(
+  fieldName: string,
+  existingNames: string[]
+): string | null {
+  const name = fieldName.trim();
+  if (!name) {
+    return 'Field name is required';
+  }
+
+  if (/[{}]/.test(name)) {
+    return 'Field names cannot contain { or }';
+  }
+
+  if (isReservedFieldName(name)) {
+    return `"${name}" is a built-in participant column`;
+  }
+
+  const isTaken = existingNames.some(
+    (existing) => existing.toLowerCase() === name.toLowerCase()
+  );
+  return isTaken ? `A field named "${name}" already exists` : null;
+}
+
+/**
+ * Lists the custom field names used by any participant, in first-seen order
+ */
+export function getParticipantFieldNames(
+  participants: Pick<IRecipientData, 'fields'>[]
+): string[] {
+  const names = new Set<string>();
+  for (const participant of participants) {
+    Object.keys(participant.fields || {}).forEach((name) => names.add(name));
+  }
+  return Array.from(names);
+}
@@ -0,0 +1,187 @@
+import {
+  IParticipantDiff,
+  IParticipantFieldChange,
+  IParticipantImportOptions,
+  IRecipientData,
+  ParticipantMatchKey,
+} from './types';
+
+/**
+ * Merging applies a re-imported participant list to an event without losing
+ * delivery history or revocations. Imported rows are matched to existing
+ * participants by certification ID or email, and empty cells in the file
+ * never clear existing values.
+ */
+
+export const PARTICIPANT_MATCH_KEY_LABELS: Record<ParticipantMatchKey, string> =
+  {
+    certification_id: 'Certification ID',
+    email: 'Email',
+  };
+
+/**
+ * Returns the value a participant is matched on, or '' if it has none
+ */
+function getMatchValue(
+  participant: IRecipientData,
+  matchBy: ParticipantMatchKey
+): string {
+  return matchBy === 'email'
+    ? (participant.email || '').trim().toLowerCase()
+    : participant.certification_id.trim();
+}
+
+/**
+ * Applies the non-empty values of an imported row to an existing participant,
+ * keeping its email delivery and revocation history
+ */
+export function applyImportedValues(
+  existing: IRecipientData,
+  incoming: IRecipientData
+): IRecipientData {
+  const fields = { ...existing.fields };
+  Object.entries(incoming.fields || {}).forEach(([name, value]) => {
+    if (value) fields[name] = value;
+  });
+
+  const merged: IRecipientData = {
+    ...existing,
+    name: incoming.name || existing.name,
+    certification_id: incoming.certification_id || existing.certification_id,
+    email: incoming.email || existing.email,
+  };
+  const templateKey = incoming.templateKey || existing.templateKey;
+  if (templateKey) {
+    merged.templateKey = templateKey;
+  }
+  if (Object.keys(fields).length > 0) {
+    merged.fields = fields;
+  }
+  return merged;
+}
+
+/**
+ * Lists the values that differ between two versions of a participant
+ */
+function getFieldChanges(
+  before: IRecipientData,
+  after: IRecipientData
+): IParticipantFieldChange[] {
+  const values = (participant: IRecipientData): [string, string][] => [
+    ['name', participant.name],
+    ['certification_id', participant.certification_id],
+    ['email', participant.email || ''],
+    ['template', participant.templateKey || ''],
+  ];
+  const afterValues = values(after);
+  const changes = values(before)
+    .map(([field, value], index) => ({
+      field,
+      before: value,
+      after: afterValues[index][1],
+    }))
+    .filter((change) => change.before !== change.after);
+
+  const fieldNames = new Set([
+    ...Object.keys(before.fields || {}),
+    ...Object.keys(after.fields || {}),
+  ]);
+  fieldNames.forEach((field) => {
+    const beforeValue = before.fields?.[field] || '';
+    const afterValue = after.fields?.[field] || '';
+    if (beforeValue !== afterValue) {
+      changes.push({ field, before: beforeValue, after: afterValue });
+    }
+  });
+
+  return changes;
+}
+
+/**
+ * Compares an imported participant list with the event's participants
+ * @param existing - The event's current participants
+ * @param incoming - Participants read from the imported file
+ * @param matchBy - Column used to match imported rows to participants
+ */
+export function diffParticipants(
+  existing: IRecipientData[],
+  incoming: IRecipientData[],
+  matchBy: ParticipantMatchKey
+): IParticipantDiff {
+  const unmatched = new Map<string, IRecipientData>();
+  existing.forEach((participant) => {
+    const key = getMatchValue(participant, matchBy);
+    if (key && !unmatched.has(key)) {
+      unmatched.set(key, participant);
+    }
+  });
+
+  const diff: IParticipantDiff = {
+    added: [],
+    updated: [],
+    unchanged: [],
+    missing: [],
+  };
+  const matched = new Set<IRecipientData>();
+
+  incoming.forEach((row) => {
+    const key = getMatchValue(row, matchBy);
+    const match = key ? unmatched.get(key) : undefined;
+    if (!match) {
+      diff.added.push(row);
+      return;
+    }
+
+    // Each participant is matched by at most one row
+    unmatched.delete(key);
+    matched.add(match);
+    const changes = getFieldChanges(match, applyImportedValues(match, row));
+    if (changes.length > 0) {
+      diff.updated.push({ existing: match, incoming: row, changes });
+    } else {
+      diff.unchanged.push(match);
+    }
+  });
+
+  diff.missing = existing.filter((participant) => !matched.has(participant));
+  return diff;
+}
+
+/**
+ * Merges an imported participant list into the event's participants.
+ * Existing participants keep their order and new ones are appended.
+ * @throws If the result would contain the same certification ID twice
+ */
+export function mergeParticipants(
+  existing: IRecipientData[],
+  incoming: IRecipientData[],
+  options: Pick<IParticipantImportOptions, 'matchBy' | 'removeMissing'>
+): IRecipientData[] {
+  const diff = diffParticipants(existing, incoming, options.matchBy);
+  const updates = new Map(
+    diff.updated.map(({ existing: participant, incoming: row }) => [
+      participant,
+      applyImportedValues(participant, row),
+    ])
+  );
+  const missing = new Set(diff.missing);
+
+  const merged = existing
+    .filter(
+      (participant) => !(options.removeMissing && missing.has(participant))
+    )
+    .map((participant) => updates.get(participant) || participant)
+    .concat(diff.added);
+
+  const seenCertIds = new Set<string>();
+  merged.forEach(({ certification_id }) => {
+    if (seenCertIds.has(certification_id)) {
+      throw new Error(
+        `Duplicate certification_id found: "${certification_id}"`
+      );
+    }
+    seenCertIds.add(certification_id);
+  });
+
+  return merged;
+}
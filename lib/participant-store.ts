@@ -0,0 +1,605 @@
+import { AnyBulkWriteOperation, Db, Filter, ObjectId, Sort } from 'mongodb';
+import { getDatabase } from './mongodb';
+import { applyImportedValues } from './participant-merge';
+import { DEFAULT_TEMPLATE_VARIANT_ID } from './template-variants';
+import {
+  EmailStatus,
+  IParticipantDiff,
+  IParticipantDocument,
+  IParticipantQuery,
+  IRecipientData,
+  ITemplateVariant,
+} from './types';
+
+/**
+ * Participants are stored one document per participant instead of as an
+ * array on the event, so events stay small and every change to a participant
+ * is a single atomic update. Certification IDs are unique within an event.
+ */
+
+export const PARTICIPANTS_COLLECTION = 'participants';
+
+// Storage fields that are not part of IRecipientData
+const RECIPIENT_PROJECTION = { _id: 0, eventId: 0, position: 0 };
+
+// Reissued certificates share a position and sort after their original
+const PARTICIPANT_SORT = { position: 1, _id: 1 } as const;
+
+// Sorts text case-insensitively
+const PARTICIPANT_COLLATION = { locale: 'en', strength: 2 };
+
+export function getParticipantsCollection(db: Db) {
+  return db.collection<IParticipantDocument>(PARTICIPANTS_COLLECTION);
+}
+
+async function getCollection() {
+  return getParticipantsCollection(await getDatabase());
+}
+
+/**
+ * Creates the documents for participants added to an event
+ * @param firstPosition - Position of the first participant
+ */
+export function toParticipantDocuments(
+  eventId: ObjectId,
+  participants: IRecipientData[],
+  firstPosition: number = 0
+): IParticipantDocument[] {
+  return participants.map((participant, index) => ({
+    ...participant,
+    eventId,
+    position: firstPosition + index,
+  }));
+}
+
+/**
+ * Splits participant updates into $set and $unset, so undefined values
+ * remove the field instead of being stored as null
+ */
+function toUpdate(updates: Partial<IRecipientData>) {
+  const $set: Record<string, unknown> = {};
+  const $unset: Record<string, ''> = {};
+  Object.entries(updates).forEach(([field, value]) => {
+    if (value === undefined) {
+      $unset[field] = '';
+    } else {
+      $set[field] = value;
+    }
+  });
+
+  return {
+    ...(Object.keys($set).length > 0 ? { $set } : {}),
+    ...(Object.keys($unset).length > 0 ? { $unset } : {}),
+  };
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Returns all participants of an event in order
+ */
+export async function getEventParticipants(
+  eventId: string
+): Promise<IRecipientData[]> {
+  const collection = await getCollection();
+  return collection
+    .find(
+      { eventId: new ObjectId(eventId) },
+      { projection: RECIPIENT_PROJECTION, sort: PARTICIPANT_SORT }
+    )
+    .toArray();
+}
+
+/**
+ * Builds the filter for an event's participants matching a query
+ * @param templateVariants - The event's variants, used by the template filter
+ */
+function buildParticipantFilter(
+  eventId: string,
+  query: IParticipantQuery,
+  templateVariants: ITemplateVariant[]
+): Filter<IParticipantDocument> {
+  const conditions: Filter<IParticipantDocument>[] = [
+    { eventId: new ObjectId(eventId) },
+  ];
+
+  const search = query.search?.trim();
+  if (search) {
+    const pattern = new RegExp(escapeRegExp(search), 'i');
+    conditions.push({
+      $or: [
+        { name: pattern },
+        { certification_id: pattern },
+        { email: pattern },
+      ],
+    });
+  }
+
+  // Participants without a status have never been emailed. Matching null
+  // also matches fields that are not set.
+  if (query.emailStatus === 'not_sent') {
+    conditions.push({
+      emailStatus: { $in: ['not_sent', null] },
+    } as Filter<IParticipantDocument>);
+  } else if (query.emailStatus) {
+    conditions.push({ emailStatus: query.emailStatus });
+  }
+
+  if (query.missingEmail) {
+    conditions.push({
+      email: { $in: ['', null] },
+    } as Filter<IParticipantDocument>);
+  }
+
+  // Template keys match variant names ignoring case and surrounding spaces
+  if (query.templateVariantId) {
+    const variantPattern = (variant: ITemplateVariant) =>
+      new RegExp(`^\\s*${escapeRegExp(variant.name.trim())}\\s*$`, 'i');
+    if (query.templateVariantId === DEFAULT_TEMPLATE_VARIANT_ID) {
+      conditions.push({
+        templateKey: { $nin: templateVariants.map(variantPattern) },
+      });
+    } else {
+      const variant = templateVariants.find(
+        (v) => v.id === query.templateVariantId
+      );
+      // An unknown variant matches nobody rather than everybody
+      conditions.push(
+        variant
+          ? { templateKey: variantPattern(variant) }
+          : { _id: { $exists: false } }
+      );
+    }
+  }
+
+  return conditions.length === 1 ? conditions[0] : { $and: conditions };
+}
+
+function getParticipantSort(query: IParticipantQuery): Sort {
+  if (!query.sortBy || query.sortBy === 'position') {
+    return query.sortDirection === 'desc'
+      ? { position: -1, _id: -1 }
+      : PARTICIPANT_SORT;
+  }
+
+  // Ties keep import order so pages don't overlap
+  return {
+    [query.sortBy]: query.sortDirection === 'desc' ? -1 : 1,
+    ...PARTICIPANT_SORT,
+  };
+}
+
+/**
+ * Returns one page of an event's participants matching a query
+ * @param templateVariants - The event's variants, used by the template filter
+ */
+export async function findParticipants(
+  eventId: string,
+  query: IParticipantQuery,
+  page: { skip: number; limit: number },
+  templateVariants: ITemplateVariant[] = []
+): Promise<{ participants: IRecipientData[]; total: number }> {
+  const collection = await getCollection();
+  const filter = buildParticipantFilter(eventId, query, templateVariants);
+
+  const [participants, total] = await Promise.all([
+    collection
+      .find(filter, {
+        projection: RECIPIENT_PROJECTION,
+        sort: getParticipantSort(query),
+        collation: PARTICIPANT_COLLATION,
+        skip: page.skip,
+        limit: page.limit,
+      })
+      .toArray(),
+    collection.countDocuments(filter),
+  ]);
+
+  return { participants, total };
+}
+
+/**
+ * Returns the certification IDs of all participants matching a query
+ */
+export async function findParticipantIds(
+  eventId: string,
+  query: IParticipantQuery,
+  templateVariants: ITemplateVariant[] = []
+): Promise<string[]> {
+  const collection = await getCollection();
+  const participants = await collection
+    .find(buildParticipantFilter(eventId, query, templateVariants), {
+      projection: { _id: 0, certification_id: 1 },
+      sort: getParticipantSort(query),
+      collation: PARTICIPANT_COLLATION,
+    })
+    .toArray();
+  return participants.map((p) => p.certification_id);
+}
+
+/**
+ * Returns every participant of an event matching a query, in import order
+ * @param certificationIds - Only these participants, when given
+ */
+export async function findAllParticipants(
+  eventId: string,
+  query: IParticipantQuery,
+  templateVariants: ITemplateVariant[] = [],
+  certificationIds?: string[]
+): Promise<IRecipientData[]> {
+  const collection = await getCollection();
+  const filter = buildParticipantFilter(eventId, query, templateVariants);
+  return collection
+    .find(
+      certificationIds
+        ? { $and: [filter, { certification_id: { $in: certificationIds } }] }
+        : filter,
+      { projection: RECIPIENT_PROJECTION, sort: PARTICIPANT_SORT }
+    )
+    .toArray();
+}
+
+export async function findParticipant(
+  eventId: string,
+  certificationId: string
+): Promise<IRecipientData | null> {
+  const collection = await getCollection();
+  return collection.findOne(
+    { eventId: new ObjectId(eventId), certification_id: certificationId },
+    { projection: RECIPIENT_PROJECTION }
+  );
+}
+
+/**
+ * Returns the participants with the given certification IDs in event order
+ */
+export async function findParticipantsByIds(
+  eventId: string,
+  certificationIds: string[]
+): Promise<IRecipientData[]> {
+  const collection = await getCollection();
+  return collection
+    .find(
+      {
+        eventId: new ObjectId(eventId),
+        certification_id: { $in: certificationIds },
+      },
+      { projection: RECIPIENT_PROJECTION, sort: PARTICIPANT_SORT }
+    )
+    .toArray();
+}
+
+export async function getCertificationIds(eventId: string): Promise<string[]> {
+  const collection = await getCollection();
+  return collection.distinct('certification_id', {
+    eventId: new ObjectId(eventId),
+  });
+}
+
+export async function countParticipants(eventId: string): Promise<number> {
+  const collection = await getCollection();
+  return collection.countDocuments({ eventId: new ObjectId(eventId) });
+}
+
+/**
+ * Counts the participants of several events at once
+ * @returns Participant counts by event ID; events without participants are
+ * left out
+ */
+export async function countParticipantsByEvent(
+  eventIds: string[]
+): Promise<Record<string, number>> {
+  const collection = await getCollection();
+  const counts = await collection
+    .aggregate<{ _id: ObjectId; count: number }>([
+      { $match: { eventId: { $in: eventIds.map((id) => new ObjectId(id)) } } },
+      { $group: { _id: '$eventId', count: { $sum: 1 } } },
+    ])
+    .toArray();
+  return counts.reduce<Record<string, number>>((result, { _id, count }) => {
+    result[_id.toString()] = count;
+    return result;
+  }, {});
+}
+
+/**
+ * Counts an event's participants by email status. Participants without a
+ * status count as not sent, as in the emailStatus filter.
+ */
+export async function countParticipantsByEmailStatus(
+  eventId: string
+): Promise<Record<EmailStatus, number>> {
+  const collection = await getCollection();
+  const counts = await collection
+    .aggregate<{ _id: EmailStatus | null; count: number }>([
+      { $match: { eventId: new ObjectId(eventId) } },
+      { $group: { _id: '$emailStatus', count: { $sum: 1 } } },
+    ])
+    .toArray();
+  return counts.reduce<Record<EmailStatus, number>>(
+    (result, { _id, count }) => {
+      result[_id || 'not_sent'] += count;
+      return result;
+    },
+    { not_sent: 0, pending: 0, sent: 0, failed: 0, bounced: 0 }
+  );
+}
+
+/**
+ * Lists the custom field names used by an event's participants, in
+ * first-seen order like getParticipantFieldNames
+ */
+export async function findParticipantFieldNames(
+  eventId: string
+): Promise<string[]> {
+  const collection = await getCollection();
+  const names = await collection
+    .aggregate<{ _id: string }>([
+      { $match: { eventId: new ObjectId(eventId), fields: { $ne: null } } },
+      {
+        $project: {
+          position: 1,
+          names: {
+            $map: { input: { $objectToArray: '$fields' }, in: '$$this.k' },
+          },
+        },
+      },
+      { $unwind: { path: '$names', includeArrayIndex: 'index' } },
+      {
+        $group: {
+          _id: '$names',
+          position: { $min: { position: '$position', index: '$index' } },
+        },
+      },
+      { $sort: { 'position.position': 1, 'position.index': 1 } },
+    ])
+    .toArray();
+  return names.map(({ _id }) => _id);
+}
+
+/**
+ * Returns the position after the event's last participant
+ */
+async function getNextPosition(eventId: ObjectId): Promise<number> {
+  const collection = await getCollection();
+  const last = await collection.findOne(
+    { eventId },
+    { projection: { position: 1 }, sort: { position: -1 } }
+  );
+  return last ? last.position + 1 : 0;
+}
+
+/**
+ * Adds participants after the event's existing participants
+ * @param position - Position to insert at instead of the end
+ */
+export async function insertParticipants(
+  eventId: string,
+  participants: IRecipientData[],
+  position?: number
+): Promise<void> {
+  if (participants.length === 0) return;
+
+  const eventObjectId = new ObjectId(eventId);
+  const collection = await getCollection();
+  await collection.insertMany(
+    toParticipantDocuments(
+      eventObjectId,
+      participants,
+      position ?? (await getNextPosition(eventObjectId))
+    )
+  );
+}
+
+/**
+ * Adds a participant directly after another one
+ * @param certificationId - The participant to insert after
+ */
+export async function insertParticipantAfter(
+  eventId: string,
+  certificationId: string,
+  participant: IRecipientData
+): Promise<void> {
+  const eventObjectId = new ObjectId(eventId);
+  const collection = await getCollection();
+  const previous = await collection.findOne(
+    { eventId: eventObjectId, certification_id: certificationId },
+    { projection: { position: 1 } }
+  );
+  if (!previous) {
+    throw new Error('Participant not found');
+  }
+
+  await collection.insertOne({
+    ...participant,
+    eventId: eventObjectId,
+    position: previous.position,
+  });
+}
+
+/**
+ * Throws if a certification ID appears more than once, which the unique
+ * index on an event's certification IDs would refuse
+ */
+export function assertUniqueCertificationIds(
+  participants: Pick<IRecipientData, 'certification_id'>[]
+): void {
+  const seen = new Set<string>();
+  for (const { certification_id } of participants) {
+    if (seen.has(certification_id)) {
+      throw new Error(`Duplicate certification ID: ${certification_id}`);
+    }
+    seen.add(certification_id);
+  }
+}
+
+/**
+ * Replaces all participants of an event. The new participants are stored
+ * under a temporary event ID first, so the current ones are only deleted once
+ * every new one has been written; a failed insert leaves them untouched.
+ */
+export async function replaceParticipants(
+  eventId: string,
+  participants: IRecipientData[]
+): Promise<void> {
+  assertUniqueCertificationIds(participants);
+
+  const eventObjectId = new ObjectId(eventId);
+  const stagingId = new ObjectId();
+  const collection = await getCollection();
+
+  if (participants.length > 0) {
+    try {
+      await collection.insertMany(
+        toParticipantDocuments(stagingId, participants)
+      );
+    } catch (error) {
+      await collection.deleteMany({ eventId: stagingId });
+      throw error;
+    }
+  }
+
+  await collection.deleteMany({ eventId: eventObjectId });
+  await collection.updateMany(
+    { eventId: stagingId },
+    { $set: { eventId: eventObjectId } }
+  );
+}
+
+/**
+ * Updates a single participant atomically
+ * @param filter - Extra conditions the participant must match
+ * @returns Whether a matching participant was found
+ */
+export async function updateParticipantFields(
+  eventId: string,
+  certificationId: string,
+  updates: Partial<IRecipientData>,
+  filter: Filter<IParticipantDocument> = {}
+): Promise<boolean> {
+  const collection = await getCollection();
+  const result = await collection.updateOne(
+    {
+      ...filter,
+      eventId: new ObjectId(eventId),
+      certification_id: certificationId,
+    },
+    toUpdate(updates)
+  );
+  return result.matchedCount > 0;
+}
+
+/**
+ * Deletes participants by certification ID
+ * @returns The number of participants deleted
+ */
+export async function deleteParticipantsByIds(
+  eventId: string,
+  certificationIds: string[]
+): Promise<number> {
+  const collection = await getCollection();
+  const result = await collection.deleteMany({
+    eventId: new ObjectId(eventId),
+    certification_id: { $in: certificationIds },
+  });
+  return result.deletedCount;
+}
+
+// Participants written per insert when copying an event
+const COPY_BATCH_SIZE = 1000;
+
+/**
+ * Copies every participant of one event to another, keeping their order,
+ * without loading them all at once
+ */
+export async function copyEventParticipants(
+  sourceEventId: string,
+  targetEventId: string
+): Promise<void> {
+  const collection = await getCollection();
+  const targetObjectId = new ObjectId(targetEventId);
+  const cursor = collection.find(
+    { eventId: new ObjectId(sourceEventId) },
+    { projection: { _id: 0 }, sort: PARTICIPANT_SORT }
+  );
+
+  let batch: IParticipantDocument[] = [];
+  while (await cursor.hasNext()) {
+    const participant = await cursor.next();
+    if (!participant) break;
+
+    batch.push({ ...participant, eventId: targetObjectId });
+    if (batch.length === COPY_BATCH_SIZE) {
+      await collection.insertMany(batch);
+      batch = [];
+    }
+  }
+  if (batch.length > 0) {
+    await collection.insertMany(batch);
+  }
+}
+
+export async function deleteEventParticipants(eventId: string): Promise<void> {
+  const collection = await getCollection();
+  await collection.deleteMany({ eventId: new ObjectId(eventId) });
+}
+
+/**
+ * Applies a merge diff with per-participant writes. Only imported values are
+ * written, so email status changes made during the import are kept.
+ */
+export async function applyParticipantDiff(
+  eventId: string,
+  diff: IParticipantDiff,
+  removeMissing: boolean
+): Promise<void> {
+  const eventObjectId = new ObjectId(eventId);
+  const operations: AnyBulkWriteOperation<IParticipantDocument>[] = [];
+
+  // Removals go first so their certification IDs can be reused
+  if (removeMissing && diff.missing.length > 0) {
+    operations.push({
+      deleteMany: {
+        filter: {
+          eventId: eventObjectId,
+          certification_id: {
+            $in: diff.missing.map((p) => p.certification_id),
+          },
+        },
+      },
+    });
+  }
+
+  diff.updated.forEach(({ existing, incoming }) => {
+    const { name, certification_id, email, templateKey, fields } =
+      applyImportedValues(existing, incoming);
+    operations.push({
+      updateOne: {
+        filter: {
+          eventId: eventObjectId,
+          certification_id: existing.certification_id,
+        },
+        update: toUpdate({
+          name,
+          certification_id,
+          email,
+          templateKey,
+          fields,
+        }),
+      },
+    });
+  });
+
+  toParticipantDocuments(
+    eventObjectId,
+    diff.added,
+    await getNextPosition(eventObjectId)
+  ).forEach((document) => operations.push({ insertOne: { document } }));
+
+  if (operations.length > 0) {
+    const collection = await getCollection();
+    await collection.bulkWrite(operations, { ordered: true });
+  }
+}
@@ -0,0 +1,287 @@
+import {
+  IPrintOptions,
+  IRecipientData,
+  PrintPaperSize,
+  PrintSortOrder,
+} from './types';
+
+/**
+ * Page geometry for print-ready PDFs. Certificates are scaled to fit the
+ * paper, one or two per sheet, in whichever orientation gives them the most
+ * room. Bleed extends the artwork past the trim edge so cutting slightly off
+ * leaves no white border, and crop marks outside the bleed show where to cut.
+ * All measurements are in PDF points (1/72 inch).
+ */
+
+export const PRINT_PAPER_SIZES: Record<
+  PrintPaperSize,
+  { label: string; width: number; height: number }
+> = {
+  a4: { label: 'A4', width: 595.28, height: 841.89 },
+  letter: { label: 'Letter', width: 612, height: 792 },
+};
+
+export const MAX_BLEED_MM = 5;
+
+const POINTS_PER_MM = 72 / 25.4;
+
+// Most printers can't print right up to the edge of the paper
+const PAGE_MARGIN_MM = 8;
+
+// Crop marks start a little outside the bleed so they never show on the
+// trimmed certificate
+const CROP_MARK_OFFSET_MM = 2;
+const CROP_MARK_LENGTH_MM = 5;
+
+export interface PrintRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface PrintLine {
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+}
+
+export interface PrintSlot {
+  trim: PrintRect; // The certificate's finished size after cutting
+  bleed: PrintRect; // Area the certificate is drawn into
+}
+
+export interface PrintLayout {
+  pageWidth: number;
+  pageHeight: number;
+  slots: PrintSlot[]; // Certificate positions on each page, in order
+}
+
+function mmToPoints(mm: number): number {
+  return mm * POINTS_PER_MM;
+}
+
+function getBleed(options: IPrintOptions): number {
+  return mmToPoints(Math.min(Math.max(options.bleed || 0, 0), MAX_BLEED_MM));
+}
+
+// Space each certificate needs around its trim edge
+function getSlotPadding(options: IPrintOptions): number {
+  return (
+    getBleed(options) +
+    (options.cropMarks
+      ? mmToPoints(CROP_MARK_OFFSET_MM + CROP_MARK_LENGTH_MM)
+      : 0)
+  );
+}
+
+function layoutPage(
+  options: IPrintOptions,
+  pageWidth: number,
+  pageHeight: number,
+  certificateWidth: number,
+  certificateHeight: number
+): { layout: PrintLayout; scale: number } {
+  const margin = mmToPoints(PAGE_MARGIN_MM);
+  const padding = getSlotPadding(options);
+
+  // Two certificates share the sheet along its longer side
+  const areaWidth = pageWidth - 2 * margin;
+  const areaHeight = pageHeight - 2 * margin;
+  const stackVertically = areaHeight >= areaWidth;
+  const cellWidth = stackVertically ? areaWidth : areaWidth / options.perPage;
+  const cellHeight = stackVertically
+    ? areaHeight / options.perPage
+    : areaHeight;
+
+  const scale = Math.max(
+    Math.min(
+      (cellWidth - 2 * padding) / certificateWidth,
+      (cellHeight - 2 * padding) / certificateHeight
+    ),
+    0
+  );
+  const trimWidth = certificateWidth * scale;
+  const trimHeight = certificateHeight * scale;
+
+  const slots: PrintSlot[] = [];
+  for (let index = 0; index < options.perPage; index++) {
+    const cellX = margin + (stackVertically ? 0 : index * cellWidth);
+    const cellY = margin + (stackVertically ? index * cellHeight : 0);
+    slots.push(
+      createSlot(
+        {
+          x: cellX + (cellWidth - trimWidth) / 2,
+          y: cellY + (cellHeight - trimHeight) / 2,
+          width: trimWidth,
+          height: trimHeight,
+        },
+        options
+      )
+    );
+  }
+
+  return { layout: { pageWidth, pageHeight, slots }, scale };
+}
+
+function createSlot(trim: PrintRect, options: IPrintOptions): PrintSlot {
+  const bleed = getBleed(options);
+  return {
+    trim,
+    bleed: {
+      x: trim.x - bleed,
+      y: trim.y - bleed,
+      width: trim.width + 2 * bleed,
+      height: trim.height + 2 * bleed,
+    },
+  };
+}
+
+/**
+ * Places certificates of the given size on a sheet of paper
+ * @param certificateWidth - Certificate width in any unit, e.g. pixels
+ * @param certificateHeight - Certificate height in the same unit
+ */
+export function computePrintLayout(
+  options: IPrintOptions,
+  certificateWidth: number,
+  certificateHeight: number
+): PrintLayout {
+  const paper = PRINT_PAPER_SIZES[options.paperSize] || PRINT_PAPER_SIZES.a4;
+  const portrait = layoutPage(
+    options,
+    paper.width,
+    paper.height,
+    certificateWidth,
+    certificateHeight
+  );
+  const landscape = layoutPage(
+    options,
+    paper.height,
+    paper.width,
+    certificateWidth,
+    certificateHeight
+  );
+
+  return landscape.scale > portrait.scale ? landscape.layout : portrait.layout;
+}
+
+/**
+ * Shrinks a slot to fit a certificate whose proportions differ from the
+ * one the layout was made for, e.g. from another template variant
+ */
+export function fitPrintSlot(
+  slot: PrintSlot,
+  options: IPrintOptions,
+  certificateWidth: number,
+  certificateHeight: number
+): PrintSlot {
+  const { x, y, width, height } = slot.trim;
+  const scale = Math.min(width / certificateWidth, height / certificateHeight);
+  const trimWidth = certificateWidth * scale;
+  const trimHeight = certificateHeight * scale;
+
+  return createSlot(
+    {
+      x: x + (width - trimWidth) / 2,
+      y: y + (height - trimHeight) / 2,
+      width: trimWidth,
+      height: trimHeight,
+    },
+    options
+  );
+}
+
+/**
+ * Returns the crop marks for a slot: two short lines at each corner, lined
+ * up with the trim edges
+ */
+export function getCropMarks(
+  slot: PrintSlot,
+  options: IPrintOptions
+): PrintLine[] {
+  const start = getBleed(options) + mmToPoints(CROP_MARK_OFFSET_MM);
+  const end = start + mmToPoints(CROP_MARK_LENGTH_MM);
+  const { x, y, width, height } = slot.trim;
+
+  const lines: PrintLine[] = [];
+  [x, x + width].forEach((edgeX, column) => {
+    const outward = column === 0 ? -1 : 1;
+    [y, y + height].forEach((edgeY, row) => {
+      const downward = row === 0 ? -1 : 1;
+      lines.push(
+        {
+          x1: edgeX + outward * start,
+          y1: edgeY,
+          x2: edgeX + outward * end,
+          y2: edgeY,
+        },
+        {
+          x1: edgeX,
+          y1: edgeY + downward * start,
+          x2: edgeX,
+          y2: edgeY + downward * end,
+        }
+      );
+    });
+  });
+  return lines;
+}
+
+// Last word of the name, which is the surname for most names
+function getSurname(name: string): string {
+  const words = name.trim().split(/\s+/);
+  return words[words.length - 1] || '';
+}
+
+function getSortValue(
+  participant: IRecipientData,
+  sortBy: PrintSortOrder
+): string {
+  switch (sortBy.by) {
+    case 'surname':
+      return getSurname(participant.name);
+    case 'certification_id':
+      return participant.certification_id;
+    case 'field':
+      return participant.fields?.[sortBy.field] || '';
+    default:
+      return participant.name;
+  }
+}
+
+/**
+ * Sorts participants into page order. Numbers sort by value and case and
+ * accents are ignored; participants without a value come last and ties keep
+ * their original order.
+ * @returns A sorted copy, or the participants as they are without sortBy
+ */
+export function sortPrintParticipants(
+  participants: IRecipientData[],
+  sortBy?: PrintSortOrder
+): IRecipientData[] {
+  if (!sortBy) return participants;
+
+  const collator = new Intl.Collator(undefined, {
+    numeric: true,
+    sensitivity: 'base',
+  });
+  const keyed = participants.map((participant, index) => ({
+    participant,
+    index,
+    value: getSortValue(participant, sortBy).trim(),
+  }));
+
+  keyed.sort((a, b) => {
+    if (!a.value !== !b.value) return a.value ? -1 : 1;
+    return (
+      collator.compare(a.value, b.value) ||
+      (sortBy.by === 'surname'
+        ? collator.compare(a.participant.name, b.participant.name)
+        : 0) ||
+      a.index - b.index
+    );
+  });
+  return keyed.map(({ participant }) => participant);
+}
@@ -0,0 +1,110 @@
+import QRCode from 'qrcode';
+import { IQRCodeConfig } from './types';
+
+/**
+ * QR code helpers shared by the browser preview and the server-side renderer.
+ * Codes are generated locally from the certificate's verification URL.
+ */
+
+// Light border around the code required by scanners, in modules
+const QUIET_ZONE_MODULES = 2;
+
+export const DEFAULT_QR_CODE_CONFIG: IQRCodeConfig = {
+  enabled: false,
+  x: 100,
+  y: 100,
+  size: 120,
+  color: '#000000',
+  backgroundColor: '#ffffff',
+};
+
+// The subset of CanvasRenderingContext2D used for drawing QR codes
+export interface QRCodeDrawingContext {
+  fillStyle: string | object;
+  fillRect(x: number, y: number, width: number, height: number): void;
+}
+
+/**
+ * Resolves the base URL used for verification links
+ * @param baseUrl - The event's configured base URL, if any
+ */
+export function resolveVerificationBaseUrl(baseUrl?: string): string {
+  return (
+    baseUrl?.trim() ||
+    process.env.NEXT_PUBLIC_BASE_URL ||
+    'http://localhost:3000'
+  ).replace(/\/+$/, '');
+}
+
+/**
+ * Builds the verification URL encoded in a certificate's QR code
+ * @param baseUrl - The event's configured base URL, if any
+ * @param certificationId - The certificate ID to verify
+ */
+export function buildVerificationUrl(
+  baseUrl: string | undefined,
+  certificationId: string
+): string {
+  return `${resolveVerificationBaseUrl(baseUrl)}/verify/${encodeURIComponent(
+    certificationId
+  )}`;
+}
+
+/**
+ * Returns the square occupied by the QR code in template pixels
+ */
+export function getQRCodeBounds(config: IQRCodeConfig): {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+} {
+  return {
+    x: config.x - config.size / 2,
+    y: config.y - config.size / 2,
+    width: config.size,
+    height: config.size,
+  };
+}
+
+/**
+ * Draws a QR code centered on the configured position. Positions and sizes
+ * are in template pixels and are multiplied by scale.
+ */
+export function drawQRCode(
+  ctx: QRCodeDrawingContext,
+  text: string,
+  config: IQRCodeConfig,
+  scale: number = 1
+): void {
+  const qr = QRCode.create(text, { errorCorrectionLevel: 'M' });
+  const moduleCount = qr.modules.size;
+  const bounds = getQRCodeBounds(config);
+  const left = bounds.x * scale;
+  const top = bounds.y * scale;
+  const size = config.size * scale;
+  const moduleSize = size / (moduleCount + QUIET_ZONE_MODULES * 2);
+
+  ctx.fillStyle = config.backgroundColor;
+  ctx.fillRect(left, top, size, size);
+
+  ctx.fillStyle = config.color;
+  for (let row = 0; row < moduleCount; row++) {
+    // Draw runs of dark modules as single rectangles to avoid seams
+    let runStart = -1;
+    for (let col = 0; col <= moduleCount; col++) {
+      const isDark = col < moduleCount && qr.modules.get(row, col) === 1;
+      if (isDark && runStart === -1) {
+        runStart = col;
+      } else if (!isDark && runStart !== -1) {
+        ctx.fillRect(
+          left + (runStart + QUIET_ZONE_MODULES) * moduleSize,
+          top + (row + QUIET_ZONE_MODULES) * moduleSize,
+          (col - runStart) * moduleSize,
+          moduleSize
+        );
+        runStart = -1;
+      }
+    }
+  }
+}
@@ -0,0 +1,210 @@
+import { createHash, createHmac, randomBytes } from 'crypto';
+import { createReadStream, createWriteStream } from 'fs';
+import { rm, stat } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Readable, Transform } from 'stream';
+import { ReadableStream } from 'stream/web';
+import { pipeline } from 'stream/promises';
+import { IAssetStorage } from './types';
+
+/**
+ * Asset storage in an S3-compatible bucket, e.g. AWS S3 or a local MinIO.
+ * Requests are signed with Signature Version 4 and use path-style URLs
+ * (endpoint/bucket/key), which MinIO and S3 both accept. Streamed uploads
+ * are spooled to a temporary file first, because a signed upload needs the
+ * body's length and hash before it starts.
+ */
+
+export interface S3StorageConfig {
+  endpoint: string; // e.g. http://localhost:9000
+  region: string;
+  bucket: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+}
+
+export interface S3Request {
+  method: string;
+  url: URL;
+  headers?: Record<string, string>;
+  payloadHash: string; // Hex SHA-256 of the body
+}
+
+function sha256Hex(data: string | Buffer): string {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+function hmac(key: string | Buffer, data: string): Buffer {
+  return createHmac('sha256', key).update(data).digest();
+}
+
+/**
+ * Signs a request with AWS Signature Version 4
+ * @param date - Signing time, defaults to now
+ * @returns The headers to send, including Authorization. Host is signed but
+ *   not returned because fetch sets it.
+ */
+export function signS3Request(
+  request: S3Request,
+  config: Pick<S3StorageConfig, 'region' | 'accessKeyId' | 'secretAccessKey'>,
+  date: Date = new Date()
+): Record<string, string> {
+  const amzDate = date.toISOString().replace(/[-:]|\.\d{3}/g, '');
+  const dateStamp = amzDate.slice(0, 8);
+  const scope = `${dateStamp}/${config.region}/s3/aws4_request`;
+
+  const headers: Record<string, string> = {
+    ...request.headers,
+    'x-amz-content-sha256': request.payloadHash,
+    'x-amz-date': amzDate,
+  };
+
+  const signedHeaderValues: Record<string, string> = { host: request.url.host };
+  Object.entries(headers).forEach(([name, value]) => {
+    signedHeaderValues[name.toLowerCase()] = value.trim();
+  });
+  const signedHeaderNames = Object.keys(signedHeaderValues).sort();
+  const signedHeaders = signedHeaderNames.join(';');
+
+  const canonicalRequest = [
+    request.method,
+    request.url.pathname,
+    request.url.searchParams.toString(),
+    ...signedHeaderNames.map((name) => `${name}:${signedHeaderValues[name]}`),
+    '',
+    signedHeaders,
+    request.payloadHash,
+  ].join('\n');
+
+  const stringToSign = [
+    'AWS4-HMAC-SHA256',
+    amzDate,
+    scope,
+    sha256Hex(canonicalRequest),
+  ].join('\n');
+
+  const signingKey = hmac(
+    hmac(
+      hmac(hmac(`AWS4${config.secretAccessKey}`, dateStamp), config.region),
+      's3'
+    ),
+    'aws4_request'
+  );
+  const signature = createHmac('sha256', signingKey)
+    .update(stringToSign)
+    .digest('hex');
+
+  return {
+    ...headers,
+    Authorization: `AWS4-HMAC-SHA256 Credential=${config.accessKeyId}/${scope},SignedHeaders=${signedHeaders},Signature=${signature}`,
+  };
+}
+
+export function createS3AssetStorage(config: S3StorageConfig): IAssetStorage {
+  const send = (
+    method: string,
+    assetId: string,
+    body?: Buffer | Readable,
+    headers?: Record<string, string>,
+    payloadHash: string = sha256Hex(Buffer.isBuffer(body) ? body : '')
+  ) => {
+    const url = new URL(
+      `${config.endpoint.replace(/\/+$/, '')}/${
+        config.bucket
+      }/${encodeURIComponent(assetId)}`
+    );
+    return fetch(url, {
+      method,
+      body: body instanceof Readable ? Readable.toWeb(body) : body,
+      headers: signS3Request({ method, url, headers, payloadHash }, config),
+      // Required by Node for streamed request bodies
+      duplex: 'half',
+    } as RequestInit);
+  };
+
+  const checkUpload = (response: Response) => {
+    if (!response.ok) {
+      throw new Error(`S3 upload failed with status ${response.status}`);
+    }
+  };
+
+  return {
+    async put(assetId, asset) {
+      checkUpload(
+        await send('PUT', assetId, asset.data, {
+          'content-type': asset.contentType,
+        })
+      );
+    },
+
+    async putStream(assetId, stream, contentType) {
+      const spoolPath = join(
+        tmpdir(),
+        `asset-${randomBytes(8).toString('hex')}`
+      );
+      try {
+        const hash = createHash('sha256');
+        await pipeline(
+          stream,
+          new Transform({
+            transform(chunk, _encoding, callback) {
+              hash.update(chunk);
+              callback(null, chunk);
+            },
+          }),
+          createWriteStream(spoolPath)
+        );
+
+        const { size } = await stat(spoolPath);
+        checkUpload(
+          await send(
+            'PUT',
+            assetId,
+            createReadStream(spoolPath),
+            { 'content-type': contentType, 'content-length': size.toString() },
+            hash.digest('hex')
+          )
+        );
+      } finally {
+        await rm(spoolPath, { force: true });
+      }
+    },
+
+    async get(assetId) {
+      const response = await send('GET', assetId);
+      if (response.status === 404) return null;
+      if (!response.ok) {
+        throw new Error(`S3 download failed with status ${response.status}`);
+      }
+
+      return {
+        data: Buffer.from(await response.arrayBuffer()),
+        contentType:
+          response.headers.get('content-type') || 'application/octet-stream',
+      };
+    },
+
+    async getStream(assetId) {
+      const response = await send('GET', assetId);
+      if (response.status === 404) return null;
+      if (!response.ok || !response.body) {
+        throw new Error(`S3 download failed with status ${response.status}`);
+      }
+
+      return {
+        stream: Readable.fromWeb(response.body as ReadableStream),
+        contentType:
+          response.headers.get('content-type') || 'application/octet-stream',
+        size: Number(response.headers.get('content-length') || 0),
+      };
+    },
+
+    async delete(assetId) {
+      const response = await send('DELETE', assetId);
+      if (!response.ok && response.status !== 404) {
+        throw new Error(`S3 delete failed with status ${response.status}`);
+      }
+    },
+  };
+}
@@ -0,0 +1,51 @@
+import { ITemplateImage } from './types';
+
+/**
+ * Template image helpers for the browser (safe to use on client and server)
+ */
+
+// Image types accepted for upload and served from asset storage. SVG is left
+// out because it can run scripts when opened.
+export const ASSET_IMAGE_TYPES = ['image/png', 'image/jpeg', 'image/webp'];
+
+export function getAssetUrl(assetId: string): string {
+  return `/api/assets/${assetId}`;
+}
+
+export function hasTemplateImage(
+  template?: Partial<ITemplateImage> | null
+): boolean {
+  return !!(template?.assetId || template?.base64);
+}
+
+/**
+ * Returns the URL to display a template image, or '' when there is none.
+ * Templates that were not migrated yet are shown from their base64 data.
+ */
+export function getTemplateImageUrl(
+  template?: Partial<ITemplateImage> | null
+): string {
+  if (template?.assetId) {
+    return getAssetUrl(template.assetId);
+  }
+  return template?.base64 ? `data:image/png;base64,${template.base64}` : '';
+}
+
+/**
+ * Uploads a file to asset storage
+ * @returns The asset ID
+ */
+export async function uploadAsset(file: File): Promise<string> {
+  const formData = new FormData();
+  formData.append('file', file);
+
+  const response = await fetch('/api/upload', {
+    method: 'POST',
+    body: formData,
+  });
+  const result = await response.json();
+  if (!result.success) {
+    throw new Error(result.error || 'Upload failed');
+  }
+  return result.assetId;
+}
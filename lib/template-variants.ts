@@ -0,0 +1,99 @@
+import {
+  ICertificateLayout,
+  IEvent,
+  IRecipientData,
+  ITemplateVariant,
+} from './types';
+
+/**
+ * Template variants let one event issue different certificates, e.g. to
+ * attendees, speakers and organizers. Participants without a matching
+ * variant use the event's default template.
+ */
+
+export const DEFAULT_TEMPLATE_NAME = 'Default';
+
+// Selection key used by the editor for the event's own template
+export const DEFAULT_TEMPLATE_VARIANT_ID = 'default';
+
+/**
+ * Normalizes a template key or variant name for matching
+ */
+export function normalizeTemplateKey(value?: string): string {
+  return (value || '').trim().toLowerCase();
+}
+
+/**
+ * Finds the variant whose name matches a participant's template key
+ * @returns The variant, or undefined when the default template applies
+ */
+export function findTemplateVariant(
+  event: Pick<IEvent, 'templateVariants'>,
+  templateKey?: string
+): ITemplateVariant | undefined {
+  const key = normalizeTemplateKey(templateKey);
+  if (!key) return undefined;
+
+  return (event.templateVariants || []).find(
+    (variant) => normalizeTemplateKey(variant.name) === key
+  );
+}
+
+/**
+ * Returns the template and layout used for a participant's certificate
+ */
+export function resolveCertificateLayout(
+  event: Pick<
+    IEvent,
+    'template' | 'nameConfig' | 'idConfig' | 'textElements' | 'templateVariants'
+  >,
+  participant: Pick<IRecipientData, 'templateKey'>
+): ICertificateLayout {
+  const variant = findTemplateVariant(event, participant.templateKey);
+  const source = variant || event;
+
+  return {
+    template: source.template,
+    nameConfig: source.nameConfig,
+    idConfig: source.idConfig,
+    textElements: source.textElements || [],
+  };
+}
+
+/**
+ * Returns the name of the template that applies to a participant
+ */
+export function getParticipantTemplateName(
+  event: Pick<IEvent, 'templateVariants'>,
+  participant: Pick<IRecipientData, 'templateKey'>
+): string {
+  return (
+    findTemplateVariant(event, participant.templateKey)?.name ||
+    DEFAULT_TEMPLATE_NAME
+  );
+}
+
+/**
+ * Checks that a variant name is usable and not taken by another variant
+ * @returns An error message, or null if the name is valid
+ */
+export function validateTemplateVariantName(
+  name: string,
+  variants: ITemplateVariant[],
+  variantId?: string
+): string | null {
+  const key = normalizeTemplateKey(name);
+  if (!key) {
+    return 'Template name is required';
+  }
+
+  if (key === normalizeTemplateKey(DEFAULT_TEMPLATE_NAME)) {
+    return `"${DEFAULT_TEMPLATE_NAME}" is reserved for the event template`;
+  }
+
+  const isTaken = variants.some(
+    (variant) =>
+      variant.id !== variantId && normalizeTemplateKey(variant.name) === key
+  );
+  return isTaken ? `A template named "${name.trim()}" already exists` : null;
+}
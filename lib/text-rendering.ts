@@ -0,0 +1,474 @@
+import { ITextConfig, ITextShadow, TextTransform } from './types';
+
+/**
+ * Text layout and drawing shared by the browser preview and the server-side
+ * node-canvas renderer, so both produce the same line breaks and sizes.
+ */
+
+export const DEFAULT_MIN_FONT_SIZE = 8;
+export const DEFAULT_LINE_HEIGHT = 1.2;
+export const DEFAULT_FONT_WEIGHT = 400;
+
+export const DEFAULT_TEXT_SHADOW: ITextShadow = {
+  enabled: true,
+  color: '#000000',
+  opacity: 0.3,
+  blur: 2,
+  offsetX: 1,
+  offsetY: 1,
+};
+
+const ELLIPSIS = '…';
+
+// Small caps draw lowercase letters as capitals at this fraction of the size
+const SMALL_CAPS_SCALE = 0.75;
+// Moves reduced capitals down onto the baseline of full-size text, as a
+// fraction of the size difference (assumes an ascent of about 0.8em)
+const SMALL_CAPS_BASELINE_SHIFT = 0.3;
+
+// The subset of CanvasRenderingContext2D used for text, implemented by both
+// the DOM canvas and node-canvas
+export interface TextDrawingContext {
+  font: string;
+  fillStyle: string | object;
+  textAlign: 'left' | 'right' | 'center' | 'start' | 'end';
+  textBaseline:
+    | 'top'
+    | 'hanging'
+    | 'middle'
+    | 'alphabetic'
+    | 'ideographic'
+    | 'bottom';
+  shadowColor: string;
+  shadowBlur: number;
+  shadowOffsetX: number;
+  shadowOffsetY: number;
+  strokeStyle: string | object;
+  lineWidth: number;
+  lineJoin: 'bevel' | 'round' | 'miter';
+  fillText(text: string, x: number, y: number): void;
+  strokeText(text: string, x: number, y: number): void;
+  measureText(text: string): { width: number };
+}
+
+// The part of a drawing context needed to lay out text
+export type TextMeasuringContext = Pick<
+  TextDrawingContext,
+  'font' | 'measureText'
+>;
+
+// Measures text width at a font size, both in template pixels
+export type MeasureText = (text: string, fontSize: number) => number;
+
+export interface TextLayout {
+  lines: string[];
+  fontSize: number;
+  lineHeight: number; // In template pixels
+}
+
+// A piece of a line drawn with one font size, positioned from the line start
+interface LinePiece {
+  text: string;
+  fontSize: number;
+  x: number;
+}
+
+/**
+ * Builds a CSS font string for a text configuration
+ */
+export function getFontString(config: ITextConfig, fontSize: number): string {
+  const parts: string[] = [];
+  if (config.fontStyle === 'italic') {
+    parts.push('italic');
+  }
+  if (config.fontWeight && config.fontWeight !== DEFAULT_FONT_WEIGHT) {
+    parts.push(String(config.fontWeight));
+  }
+  parts.push(`${fontSize}px "${config.fontFamily}"`);
+
+  return parts.join(' ');
+}
+
+/**
+ * Applies a case transform. Small caps keep their case here and are
+ * handled when the text is drawn.
+ */
+export function applyTextTransform(
+  text: string,
+  transform: TextTransform = 'none'
+): string {
+  switch (transform) {
+    case 'uppercase':
+      return text.toUpperCase();
+    case 'lowercase':
+      return text.toLowerCase();
+    default:
+      return text;
+  }
+}
+
+/**
+ * Converts a hex color and opacity into a CSS rgba() color
+ */
+function toRgba(hex: string, opacity: number): string {
+  const value = hex.replace('#', '');
+  const digits =
+    value.length === 3
+      ? Array.from(value)
+          .map((char) => char + char)
+          .join('')
+      : value;
+  const [r, g, b] = [0, 2, 4].map((i) => parseInt(digits.slice(i, i + 2), 16));
+
+  return `rgba(${r}, ${g}, ${b}, ${Math.min(1, Math.max(0, opacity))})`;
+}
+
+/**
+ * Fits text into the configured box using the overflow mode
+ */
+export function layoutText(
+  text: string,
+  config: ITextConfig,
+  measure: MeasureText
+): TextLayout {
+  const lineHeightRatio = config.lineHeight || DEFAULT_LINE_HEIGHT;
+  const createLayout = (lines: string[], fontSize: number): TextLayout => ({
+    lines,
+    fontSize,
+    lineHeight: fontSize * lineHeightRatio,
+  });
+
+  const maxWidth = config.maxWidth;
+  if (
+    !maxWidth ||
+    maxWidth <= 0 ||
+    measure(text, config.fontSize) <= maxWidth
+  ) {
+    return createLayout([text], config.fontSize);
+  }
+
+  const measureAt = (fontSize: number) => (value: string) =>
+    measure(value, fontSize);
+
+  switch (config.overflow || 'shrink') {
+    case 'wrap':
+      return createLayout(
+        wrapText(text, maxWidth, measureAt(config.fontSize)),
+        config.fontSize
+      );
+    case 'truncate':
+      return createLayout(
+        [truncateText(text, maxWidth, measureAt(config.fontSize))],
+        config.fontSize
+      );
+    case 'shrink':
+    default: {
+      const fontSize = fitFontSize(text, config, maxWidth, measure);
+      // Truncate if the text still does not fit at the minimum size
+      return createLayout(
+        [truncateText(text, maxWidth, measureAt(fontSize))],
+        fontSize
+      );
+    }
+  }
+}
+
+/**
+ * Finds the largest font size (down to the minimum) at which text fits
+ */
+function fitFontSize(
+  text: string,
+  config: ITextConfig,
+  maxWidth: number,
+  measure: MeasureText
+): number {
+  const minFontSize = Math.min(
+    config.minFontSize || DEFAULT_MIN_FONT_SIZE,
+    config.fontSize
+  );
+
+  // Text width scales roughly linearly with font size
+  const width = measure(text, config.fontSize);
+  let fontSize = Math.max(
+    minFontSize,
+    Math.floor(((config.fontSize * maxWidth) / width) * 2) / 2
+  );
+
+  while (fontSize > minFontSize && measure(text, fontSize) > maxWidth) {
+    fontSize = Math.max(minFontSize, fontSize - 0.5);
+  }
+
+  return fontSize;
+}
+
+/**
+ * Breaks text into lines that fit the width, splitting long words
+ */
+function wrapText(
+  text: string,
+  maxWidth: number,
+  measure: (value: string) => number
+): string[] {
+  const words = text.split(/\s+/).filter(Boolean);
+  const lines: string[] = [];
+  let currentLine = '';
+
+  for (const word of words) {
+    const candidate = currentLine ? `${currentLine} ${word}` : word;
+    if (measure(candidate) <= maxWidth) {
+      currentLine = candidate;
+      continue;
+    }
+
+    if (currentLine) {
+      lines.push(currentLine);
+    }
+
+    if (measure(word) <= maxWidth) {
+      currentLine = word;
+      continue;
+    }
+
+    // Word is wider than the box on its own, break it by characters
+    currentLine = '';
+    for (const char of Array.from(word)) {
+      if (currentLine && measure(currentLine + char) > maxWidth) {
+        lines.push(currentLine);
+        currentLine = char;
+      } else {
+        currentLine += char;
+      }
+    }
+  }
+
+  if (currentLine) {
+    lines.push(currentLine);
+  }
+
+  return lines.length > 0 ? lines : [''];
+}
+
+/**
+ * Shortens text with an ellipsis until it fits the width
+ */
+function truncateText(
+  text: string,
+  maxWidth: number,
+  measure: (value: string) => number
+): string {
+  if (measure(text) <= maxWidth) {
+    return text;
+  }
+
+  const chars = Array.from(text);
+  let low = 0;
+  let high = chars.length;
+
+  // Binary search for the longest prefix that fits with the ellipsis
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    const candidate = chars.slice(0, mid).join('').trimEnd() + ELLIPSIS;
+    if (measure(candidate) <= maxWidth) {
+      low = mid;
+    } else {
+      high = mid - 1;
+    }
+  }
+
+  return low > 0 ? chars.slice(0, low).join('').trimEnd() + ELLIPSIS : '';
+}
+
+/**
+ * Returns the text box in template pixels for a laid out text element
+ */
+export function getTextBoxBounds(
+  config: ITextConfig,
+  layout: TextLayout
+): { x: number; y: number; width: number; height: number } {
+  const width = config.maxWidth || 0;
+  const height = layout.lines.length * layout.lineHeight;
+  const x =
+    config.textAlign === 'left'
+      ? config.x
+      : config.textAlign === 'right'
+      ? config.x - width
+      : config.x - width / 2;
+
+  return { x, y: config.y - height / 2, width, height };
+}
+
+/**
+ * Splits a line into runs that share a font size. Small caps turn lowercase
+ * letters into smaller capitals.
+ */
+function getTextRuns(
+  text: string,
+  config: ITextConfig,
+  fontSize: number
+): Array<{ text: string; fontSize: number }> {
+  if (config.textTransform !== 'small-caps') {
+    return [{ text, fontSize }];
+  }
+
+  const runs: Array<{ text: string; fontSize: number }> = [];
+  for (const char of Array.from(text)) {
+    const upper = char.toUpperCase();
+    const runSize = upper !== char ? fontSize * SMALL_CAPS_SCALE : fontSize;
+    const lastRun = runs[runs.length - 1];
+
+    if (lastRun && lastRun.fontSize === runSize) {
+      lastRun.text += upper;
+    } else {
+      runs.push({ text: upper, fontSize: runSize });
+    }
+  }
+
+  return runs;
+}
+
+/**
+ * Positions the pieces of a line. Letter spacing draws each character on its
+ * own, so measuring and drawing always agree.
+ * @param fontSize - The font size in canvas pixels
+ * @param letterSpacing - The extra space between characters in canvas pixels
+ */
+function layoutLine(
+  ctx: TextMeasuringContext,
+  line: string,
+  config: ITextConfig,
+  fontSize: number,
+  letterSpacing: number
+): { pieces: LinePiece[]; width: number } {
+  const pieces: LinePiece[] = [];
+  let x = 0;
+
+  for (const run of getTextRuns(line, config, fontSize)) {
+    ctx.font = getFontString(config, run.fontSize);
+    const parts = letterSpacing ? Array.from(run.text) : [run.text];
+
+    for (const part of parts) {
+      if (pieces.length > 0) {
+        x += letterSpacing;
+      }
+      pieces.push({ text: part, fontSize: run.fontSize, x });
+      x += ctx.measureText(part).width;
+    }
+  }
+
+  return { pieces, width: x };
+}
+
+/**
+ * Sets or clears the drop shadow used for text
+ */
+function setTextShadow(
+  ctx: TextDrawingContext,
+  shadow: ITextShadow | null,
+  scale: number
+): void {
+  if (!shadow || !shadow.enabled) {
+    ctx.shadowColor = 'transparent';
+    ctx.shadowBlur = 0;
+    ctx.shadowOffsetX = 0;
+    ctx.shadowOffsetY = 0;
+    return;
+  }
+
+  ctx.shadowColor = toRgba(shadow.color, shadow.opacity);
+  ctx.shadowBlur = shadow.blur * scale;
+  ctx.shadowOffsetX = shadow.offsetX * scale;
+  ctx.shadowOffsetY = shadow.offsetY * scale;
+}
+
+/**
+ * Lays out a text element the way drawTextElement draws it, without drawing
+ */
+export function measureTextElement(
+  ctx: TextMeasuringContext,
+  text: string,
+  config: ITextConfig,
+  scale: number = 1
+): TextLayout {
+  const letterSpacing = (config.letterSpacing || 0) * scale;
+  const measure: MeasureText = (value, fontSize) =>
+    layoutLine(ctx, value, config, fontSize * scale, letterSpacing).width /
+    scale;
+
+  return layoutText(
+    applyTextTransform(text, config.textTransform),
+    config,
+    measure
+  );
+}
+
+/**
+ * Draws a text element. Positions and sizes are in template pixels and are
+ * multiplied by scale, so the preview can draw on a smaller canvas.
+ */
+export function drawTextElement(
+  ctx: TextDrawingContext,
+  text: string,
+  config: ITextConfig,
+  scale: number = 1
+): TextLayout {
+  const letterSpacing = (config.letterSpacing || 0) * scale;
+  const layout = measureTextElement(ctx, text, config, scale);
+  const shadow = config.shadow || DEFAULT_TEXT_SHADOW;
+  const strokeWidth =
+    config.strokeColor && config.strokeWidth ? config.strokeWidth * scale : 0;
+
+  ctx.fillStyle = config.color;
+  ctx.textAlign = 'left';
+  ctx.textBaseline = 'middle';
+  if (strokeWidth > 0) {
+    ctx.strokeStyle = config.strokeColor as string;
+    ctx.lineWidth = strokeWidth;
+    ctx.lineJoin = 'round';
+  }
+
+  // Lines are centered vertically around the configured position
+  const lineFontSize = layout.fontSize * scale;
+  const firstLineY =
+    config.y - ((layout.lines.length - 1) * layout.lineHeight) / 2;
+
+  layout.lines.forEach((line, index) => {
+    const { pieces, width } = layoutLine(
+      ctx,
+      line,
+      config,
+      lineFontSize,
+      letterSpacing
+    );
+    const left =
+      config.x * scale -
+      (config.textAlign === 'center'
+        ? width / 2
+        : config.textAlign === 'right'
+        ? width
+        : 0);
+    const y = (firstLineY + index * layout.lineHeight) * scale;
+
+    const drawPieces = (draw: (text: string, x: number, y: number) => void) => {
+      for (const piece of pieces) {
+        ctx.font = getFontString(config, piece.fontSize);
+        draw(
+          piece.text,
+          left + piece.x,
+          y + (lineFontSize - piece.fontSize) * SMALL_CAPS_BASELINE_SHIFT
+        );
+      }
+    };
+
+    // The outline casts the shadow so it is not drawn twice
+    setTextShadow(ctx, shadow, scale);
+    if (strokeWidth > 0) {
+      drawPieces((value, x, y) => ctx.strokeText(value, x, y));
+      setTextShadow(ctx, null, scale);
+    }
+    drawPieces((value, x, y) => ctx.fillText(value, x, y));
+  });
+
+  setTextShadow(ctx, null, scale);
+
+  return layout;
+}
@@ -0,0 +1,53 @@
+import { IEvent, IRecipientData } from './types';
+
+/**
+ * Placeholders available to certificate text elements
+ */
+export const TEXT_PLACEHOLDERS = [
+  'name',
+  'certification_id',
+  'email',
+  'eventTitle',
+  'eventDate',
+] as const;
+
+/**
+ * Replaces {placeholder} variables in a text template.
+ * Unknown placeholders are left untouched so missing data stays visible.
+ */
+export function renderTextTemplate(
+  template: string,
+  variables: Record<string, string | undefined>
+): string {
+  return template.replace(/\{([^{}]+)\}/g, (match, key: string) => {
+    const value = variables[key.trim()];
+    return value !== undefined ? value : match;
+  });
+}
+
+/**
+ * Builds the variables used to render text elements for a recipient.
+ * Custom fields never override the built-in placeholders.
+ */
+export function buildCertificateVariables(
+  event: Pick<IEvent, 'title'> & { eventDate?: Date | string },
+  recipient: IRecipientData
+): Record<string, string> {
+  const eventDate = event.eventDate ? new Date(event.eventDate) : null;
+
+  return {
+    ...recipient.fields,
+    name: recipient.name,
+    certification_id: recipient.certification_id,
+    email: recipient.email || '',
+    eventTitle: event.title,
+    eventDate:
+      eventDate && !isNaN(eventDate.getTime())
+        ? eventDate.toLocaleDateString('en-US', {
+            day: 'numeric',
+            month: 'long',
+            year: 'numeric',
+          })
+        : '',
+  };
+}
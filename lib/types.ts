@@ -1,4 +1,5 @@
 import { ObjectId } from 'mongodb';
+import { Readable } from 'stream';
 
 export interface IEvent {
   _id?: ObjectId;
@@ -8,14 +9,24 @@ export interface IEvent {
   status: 'draft' | 'completed' | 'archived';
   isDeleted?: boolean; // Soft delete flag
   deletedAt?: Date; // When it was soft deleted
-  template: {
-    base64: string; // Base64 encoded PNG template
-    originalName: string;
-    uploadedAt: Date;
-  };
+  template: ITemplateImage;
   nameConfig: ITextConfig;
   idConfig: ITextConfig;
-  participants: IRecipientData[];
+  textElements?: ITextElement[];
+  outputFormat?: CertificateOutputFormat; // Defaults to 'png'
+  renderScale?: RenderScale; // Defaults to 1, the template's pixel size
+  filenamePattern?: string; // Certificate file names, e.g. "{name}_{certification_id}"
+  archiveGrouping?: ArchiveGrouping; // No folders in ZIP archives when unset
+  fonts?: ICustomFont[];
+  qrCodeConfig?: IQRCodeConfig;
+  verificationBaseUrl?: string; // Defaults to NEXT_PUBLIC_BASE_URL
+  imageLayers?: IImageLayer[]; // Drawn in order above the template
+  templateVariants?: ITemplateVariant[]; // Used instead of the default template
+  templateField?: string; // CSV column that selects a participant's variant
+  csvImportMapping?: ICSVImportMapping; // Reused for the next CSV import
+  participants: IRecipientData[]; // Stored in the participants collection
+  isSummary?: boolean; // From getAllEventsSummary, without participants and file data
+  participantCount?: number; // Set when the event is loaded without its participants
   emailConfig?: IEmailConfig;
   emailTemplate?: IEmailTemplate;
   emailSettings?: {
@@ -46,16 +57,297 @@ export interface ITextConfig {
   fontSize: number;
   color: string;
   textAlign: 'left' | 'center' | 'right';
+  maxWidth?: number; // Width of the text box; unlimited when unset
+  overflow?: TextOverflowMode; // How text wider than maxWidth is handled
+  minFontSize?: number; // Smallest size used when shrinking to fit
+  lineHeight?: number; // Line height multiplier used when wrapping
+  fontWeight?: number; // 100-900, defaults to 400
+  fontStyle?: TextFontStyle;
+  strokeColor?: string;
+  strokeWidth?: number; // Outline width in template pixels; none when unset
+  shadow?: ITextShadow; // Defaults to a subtle drop shadow
+  letterSpacing?: number; // Extra space between characters in template pixels
+  textTransform?: TextTransform;
+}
+
+export type TextOverflowMode = 'shrink' | 'wrap' | 'truncate';
+
+export type TextFontStyle = 'normal' | 'italic';
+
+export type TextTransform = 'none' | 'uppercase' | 'lowercase' | 'small-caps';
+
+export interface ITextShadow {
+  enabled: boolean;
+  color: string; // Hex color
+  opacity: number; // 0-1
+  blur: number; // In template pixels
+  offsetX: number;
+  offsetY: number;
+}
+
+// Additional text drawn on the certificate, e.g. "Completed on {eventDate}"
+export interface ITextElement {
+  id: string;
+  label: string;
+  content: string; // Text with {placeholder} variables
+  config: ITextConfig;
+}
+
+export interface IQRCodeConfig {
+  enabled: boolean;
+  x: number; // Center of the QR code
+  y: number;
+  size: number; // Width and height in template pixels
+  color: string;
+  backgroundColor: string;
+}
+
+// Template image kept in asset storage and served from /api/assets/<assetId>
+export interface ITemplateImage {
+  assetId?: string;
+  base64?: string; // Legacy embedded PNG, moved to asset storage on migration
+  originalName: string;
+  uploadedAt: Date;
+}
+
+// Binary file kept in asset storage
+export interface IStoredAsset {
+  data: Buffer;
+  contentType: string;
+}
+
+// Stored file read as a stream, for files too large to hold in memory
+export interface IAssetStream {
+  stream: Readable;
+  contentType: string;
+  size: number; // Bytes
 }
 
+// Backend that keeps assets, e.g. GridFS, a local directory or S3
+export interface IAssetStorage {
+  put(assetId: string, asset: IStoredAsset): Promise<void>;
+  putStream(
+    assetId: string,
+    stream: Readable,
+    contentType: string
+  ): Promise<void>;
+  get(assetId: string): Promise<IStoredAsset | null>; // null when missing
+  getStream(assetId: string): Promise<IAssetStream | null>;
+  delete(assetId: string): Promise<void>; // Succeeds when already missing
+}
+
+// Template and text layout that varies per participant. Fonts, image layers,
+// the QR code and the output format are shared with the event.
+export interface ITemplateVariant {
+  id: string;
+  name: string; // Matched case-insensitively against the participant's templateKey
+  template: ITemplateImage;
+  nameConfig: ITextConfig;
+  idConfig: ITextConfig;
+  textElements?: ITextElement[];
+}
+
+// The template and text layout used to render one certificate
+export type ICertificateLayout = Pick<
+  IEvent,
+  'template' | 'nameConfig' | 'idConfig' | 'textElements'
+>;
+
+// PNG drawn above the template, e.g. a signature, sponsor logo or seal
+export interface IImageLayer {
+  id: string;
+  label: string;
+  base64: string; // Base64 encoded PNG
+  x: number; // Center of the layer
+  y: number;
+  width: number;
+  height: number;
+  opacity: number; // 0 to 1
+  rotation: number; // Degrees clockwise around the center
+}
+
+// 'name', 'id', 'qr', 'layer:<id>' or the id of a custom text element
+export type LayoutElementKey = string;
+
 export interface IRecipientData {
   name: string;
   certification_id: string;
   email?: string;
+  templateKey?: string; // Selects a template variant, e.g. "speaker"
+  fields?: Record<string, string>; // Extra CSV columns, e.g. company or hours
   lastEmailSent?: Date;
   emailStatus?: EmailStatus;
   emailError?: string;
   emailRetryCount?: number;
+  revokedAt?: Date; // Set when the certificate is no longer valid
+  revocationReason?: string;
+  replacedBy?: string; // certification_id of the reissued certificate
+  replaces?: string; // certification_id this certificate was reissued from
+}
+
+// A participant as stored in the participants collection
+export interface IParticipantDocument extends IRecipientData {
+  _id?: ObjectId;
+  eventId: ObjectId;
+  position: number; // Order within the event; reissues share their original's
+}
+
+export type ParticipantSortField =
+  | 'position'
+  | 'name'
+  | 'certification_id'
+  | 'email'
+  | 'emailStatus'
+  | 'lastEmailSent';
+
+// Search, filters and sort order for listing an event's participants
+export interface IParticipantQuery {
+  search?: string; // Matches name, certification ID or email
+  emailStatus?: EmailStatus;
+  missingEmail?: boolean;
+  templateVariantId?: string; // 'default' for the event's own template
+  sortBy?: ParticipantSortField; // Defaults to import order
+  sortDirection?: 'asc' | 'desc';
+}
+
+export interface IParticipantPage {
+  participants: IRecipientData[];
+  total: number; // Participants matching the query
+  eventTotal: number; // All participants of the event
+  page: number; // 0-based
+  pageSize: number;
+}
+
+export interface IParticipantSummary {
+  total: number;
+  fieldNames: string[]; // Custom fields used by any participant
+  emailStatusCounts: Record<EmailStatus, number>;
+}
+
+export type CertificateJobStatus =
+  | 'queued'
+  | 'running'
+  | 'completed'
+  | 'failed';
+
+// Participant whose certificate could not be rendered in a job
+export interface ICertificateJobFailure {
+  certification_id: string;
+  name: string;
+  error: string;
+}
+
+// Bulk certificate generation that runs in the background. The finished
+// ZIP archive, or print PDF, is kept in asset storage until the job expires.
+export interface ICertificateJob {
+  _id?: ObjectId;
+  eventId: ObjectId;
+  participantIds?: string[]; // All active participants when not set
+  printOptions?: IPrintOptions; // Generates one print PDF instead of a ZIP
+  status: CertificateJobStatus;
+  total: number;
+  processed: number; // Rendered or failed
+  failures: ICertificateJobFailure[];
+  archiveAssetId?: string;
+  archiveFilename: string;
+  error?: string; // Why the whole job failed
+  createdAt: Date;
+  startedAt?: Date;
+  completedAt?: Date;
+  updatedAt: Date; // Also shows that a running job is still alive
+}
+
+// Separator detected in, or chosen for, a CSV file
+export type CSVDelimiter = ',' | ';' | '\t' | '|';
+
+export type CSVEncoding = 'utf-8' | 'utf-16le' | 'utf-16be' | 'windows-1252';
+
+// What a CSV column is imported as; 'field' keeps it as a custom field
+export type CSVColumnTarget =
+  | 'name'
+  | 'certification_id'
+  | 'email'
+  | 'template'
+  | 'field'
+  | 'ignore';
+
+export interface ICSVColumnMapping {
+  source: string; // Column header as written in the file
+  target: CSVColumnTarget;
+}
+
+export interface ICSVImportMapping {
+  delimiter?: CSVDelimiter;
+  encoding?: CSVEncoding;
+  sheetName?: string; // Worksheet used when importing an XLSX file
+  columns: ICSVColumnMapping[];
+}
+
+// How an imported participant list is applied to an event
+export type ParticipantImportMode = 'replace' | 'merge';
+
+// Column used to match imported rows to existing participants
+export type ParticipantMatchKey = 'certification_id' | 'email';
+
+export interface IParticipantImportOptions {
+  mode: ParticipantImportMode;
+  matchBy: ParticipantMatchKey;
+  removeMissing: boolean; // Remove participants that are not in the file
+}
+
+export interface IParticipantFieldChange {
+  field: string; // "name", "email", "template" or a custom field name
+  before: string;
+  after: string;
+}
+
+export interface IParticipantUpdate {
+  existing: IRecipientData;
+  incoming: IRecipientData;
+  changes: IParticipantFieldChange[];
+}
+
+export interface IParticipantDiff {
+  added: IRecipientData[];
+  updated: IParticipantUpdate[];
+  unchanged: IRecipientData[];
+  missing: IRecipientData[]; // Existing participants not in the file
+}
+
+// Merge preview made on the server against the event's participants
+export interface IParticipantImportPreview {
+  diff?: IParticipantDiff;
+  error?: string; // Why the rows can't be merged, e.g. duplicate IDs
+}
+
+export interface IParticipantMergeResult {
+  added: number;
+  updated: number;
+  removed: number;
+}
+
+export interface IReissueCertificateOptions {
+  reason: string; // Stored as the revocation reason of the old certificate
+  name?: string; // Corrected holder name
+  email?: string; // Corrected email address
+  certificationId?: string; // Defaults to the old ID with an -R suffix
+  sendEmail?: boolean; // Email the corrected certificate after reissuing
+}
+
+export type CertificateVerificationStatus = 'valid' | 'revoked';
+
+// Public details shown when verifying a certificate; never includes emails
+export interface ICertificateVerification {
+  certificationId: string;
+  holderName: string;
+  eventTitle: string;
+  eventDate: Date;
+  eventStatus: IEvent['status'];
+  status: CertificateVerificationStatus;
+  issuedAt?: Date; // When the certificate was last emailed
+  revokedAt?: Date;
+  revocationReason?: string;
+  replacedBy?: string; // ID of the corrected certificate, if reissued
 }
 
 export interface IProjectConfig {
@@ -110,12 +402,79 @@ export const FONT_FAMILIES = [
 
 export type FontFamily = (typeof FONT_FAMILIES)[number];
 
+// Font file uploaded to an event and usable as ITextConfig.fontFamily
+export interface ICustomFont {
+  id: string;
+  family: string;
+  originalName: string;
+  format: CustomFontFormat;
+  base64: string;
+  uploadedAt: Date;
+}
+
+export type CustomFontFormat = 'truetype' | 'opentype' | 'woff';
+
+// 'pdf' embeds the rendered PNG, 'pdf-vector' keeps text as vector glyphs
+export type CertificateOutputFormat = 'png' | 'pdf' | 'pdf-vector';
+
+export const OUTPUT_FORMATS: {
+  value: CertificateOutputFormat;
+  label: string;
+}[] = [
+  { value: 'png', label: 'PNG Image' },
+  { value: 'pdf', label: 'PDF' },
+  { value: 'pdf-vector', label: 'PDF (vector text)' },
+];
+
+// Multiple of the template's pixel size certificates are rendered at.
+// Layouts stay in template pixels and are scaled along with the template.
+// 3.125 turns a 96 DPI template into exactly 300 DPI.
+export type RenderScale = 1 | 2 | 3 | 3.125;
+
+// Labels give the DPI for a 96 DPI template, the usual resolution of designs
+// made for the screen
+export const RENDER_SCALES: {
+  value: RenderScale;
+  label: string;
+}[] = [
+  { value: 1, label: 'Template size (1x, 96 DPI)' },
+  { value: 2, label: 'High resolution (2x, 192 DPI)' },
+  { value: 3, label: 'High resolution (3x, 288 DPI)' },
+  { value: 3.125, label: 'Print resolution (300 DPI)' },
+];
+
+// Folders for the certificates in ZIP archives, by template variant or by
+// the value of a custom participant field
+export type ArchiveGrouping =
+  | { by: 'template' }
+  | { by: 'field'; field: string };
+
+export type PrintPaperSize = 'a4' | 'letter';
+
+// Order of the pages in a print PDF; surname is the last word of the name
+export type PrintSortOrder =
+  | { by: 'name' | 'surname' | 'certification_id' }
+  | { by: 'field'; field: string };
+
+// Layout of a print-ready PDF with every certificate of a job
+export interface IPrintOptions {
+  paperSize: PrintPaperSize;
+  perPage: 1 | 2; // Certificates per sheet
+  cropMarks: boolean;
+  bleed: number; // Millimeters the certificate extends past its trim edge
+  sortBy?: PrintSortOrder; // Import order when unset
+}
+
 export type IParticipantAction =
   | 'download'
+  | 'print'
   | 'send'
   | 'edit'
   | 'delete'
-  | 'export';
+  | 'export'
+  | 'export-xlsx'
+  | 'revoke'
+  | 'reissue';
 
 // Email-related interfaces
 export interface IEmailConfig {
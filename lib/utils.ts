@@ -1,6 +1,17 @@
 import { clsx, type ClassValue } from 'clsx';
 import { twMerge } from 'tailwind-merge';
+import { IEvent } from './types';
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
 }
+
+/**
+ * Number of participants of an event, whether or not they were loaded
+ * with it
+ */
+export function getParticipantCount(
+  event: Pick<IEvent, 'participants' | 'participantCount'>
+): number {
+  return event.participantCount ?? event.participants.length;
+}
@@ -0,0 +1,456 @@
+import JSZip from 'jszip';
+
+/**
+ * Minimal XLSX (Office Open XML spreadsheet) reader and writer for
+ * participant lists. Only cell values are read; formulas use their cached
+ * result and formatting is ignored apart from recognizing dates.
+ */
+
+export const XLSX_MIME_TYPE =
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+export interface XLSXSheet {
+  name: string;
+  rows: string[][];
+}
+
+// Excel limits sheet names to 31 characters
+const MAX_SHEET_NAME_LENGTH = 31;
+
+// Built-in number formats that display dates or times
+const BUILT_IN_DATE_FORMAT_IDS = new Set([
+  14, 15, 16, 17, 18, 19, 20, 21, 22, 27, 28, 29, 30, 31, 32, 33, 34, 35, 36,
+  45, 46, 47, 50, 51, 52, 53, 54, 55, 56, 57, 58,
+]);
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Checks whether a file is an XLSX workbook by extension or MIME type
+ */
+export function isXLSXFile(file: { name: string; type?: string }): boolean {
+  return (
+    file.type === XLSX_MIME_TYPE || file.name.toLowerCase().endsWith('.xlsx')
+  );
+}
+
+/**
+ * Downloads an XLSX file to the user's device
+ * @param buffer - The workbook file contents
+ * @param filename - The name of the XLSX file to download
+ */
+export function downloadXLSX(buffer: ArrayBuffer, filename: string): void {
+  try {
+    const blob = new Blob([buffer], { type: XLSX_MIME_TYPE });
+    const url = URL.createObjectURL(blob);
+
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+
+    URL.revokeObjectURL(url);
+  } catch (error) {
+    console.error('Error downloading XLSX:', error);
+    throw new Error('Failed to download XLSX');
+  }
+}
+
+/**
+ * Decodes the XML entities used in element text and attribute values
+ */
+function decodeXML(value: string): string {
+  return value.replace(
+    /&(#x[0-9a-f]+|#\d+|amp|lt|gt|quot|apos);/gi,
+    (entity, code: string) => {
+      switch (code.toLowerCase()) {
+        case 'amp':
+          return '&';
+        case 'lt':
+          return '<';
+        case 'gt':
+          return '>';
+        case 'quot':
+          return '"';
+        case 'apos':
+          return "'";
+      }
+      const codePoint =
+        code[1].toLowerCase() === 'x'
+          ? parseInt(code.slice(2), 16)
+          : parseInt(code.slice(1), 10);
+      return Number.isNaN(codePoint) ? entity : String.fromCodePoint(codePoint);
+    }
+  );
+}
+
+/**
+ * Escapes text for use in XML, dropping characters XML cannot contain
+ */
+function escapeXML(value: string): string {
+  return value
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Finds elements by local name, ignoring any namespace prefix
+ * @returns The attribute string and inner XML of each element
+ */
+function findElements(
+  xml: string,
+  tagName: string
+): { attributes: string; content: string }[] {
+  const pattern = new RegExp(
+    `<(?:\\w+:)?${tagName}\\b([^>]*?)(?:\\/>|>([\\s\\S]*?)<\\/(?:\\w+:)?${tagName}>)`,
+    'g'
+  );
+  const elements: { attributes: string; content: string }[] = [];
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(xml)) !== null) {
+    elements.push({ attributes: match[1], content: match[2] || '' });
+  }
+  return elements;
+}
+
+/**
+ * Reads an attribute value, ignoring any namespace prefix
+ */
+function getAttribute(attributes: string, name: string): string | undefined {
+  const match = new RegExp(`(?:^|\\s)(?:\\w+:)?${name}="([^"]*)"`).exec(
+    attributes
+  );
+  return match ? decodeXML(match[1]) : undefined;
+}
+
+/**
+ * Joins the text runs of a shared or inline string
+ */
+function readText(xml: string): string {
+  // Phonetic guides repeat the text for East Asian names
+  const text = xml.replace(/<(?:\w+:)?rPh\b[\s\S]*?<\/(?:\w+:)?rPh>/g, '');
+  return findElements(text, 't')
+    .map((element) => decodeXML(element.content))
+    .join('');
+}
+
+/**
+ * Converts a column reference like "AB" to a zero-based index
+ */
+function columnIndex(column: string): number {
+  let index = 0;
+  for (let i = 0; i < column.length; i++) {
+    index = index * 26 + (column.charCodeAt(i) - 64);
+  }
+  return index - 1;
+}
+
+/**
+ * Converts a zero-based column index to a column reference like "AB"
+ */
+function columnName(index: number): string {
+  let name = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+}
+
+/**
+ * Checks whether a custom number format displays a date or time
+ */
+function isDateFormatCode(formatCode: string): boolean {
+  const code = formatCode
+    .replace(/"[^"]*"/g, '') // Literal text
+    .replace(/\\./g, '') // Escaped characters
+    .replace(/\[[^\]]*\]/g, ''); // Colors and conditions
+  return /[dmyhs]/i.test(code);
+}
+
+/**
+ * Reads which cell styles display dates, indexed like the cell "s" attribute
+ */
+function readDateStyles(stylesXml?: string): boolean[] {
+  if (!stylesXml) return [];
+
+  const customDateFormats = new Set(
+    findElements(stylesXml, 'numFmt')
+      .filter(({ attributes }) =>
+        isDateFormatCode(getAttribute(attributes, 'formatCode') || '')
+      )
+      .map(({ attributes }) => Number(getAttribute(attributes, 'numFmtId')))
+  );
+
+  const cellXfs = findElements(stylesXml, 'cellXfs')[0];
+  if (!cellXfs) return [];
+
+  return findElements(cellXfs.content, 'xf').map(({ attributes }) => {
+    const formatId = Number(getAttribute(attributes, 'numFmtId') || 0);
+    return (
+      BUILT_IN_DATE_FORMAT_IDS.has(formatId) || customDateFormats.has(formatId)
+    );
+  });
+}
+
+/**
+ * Formats an Excel date serial number as an ISO date, date-time or time
+ */
+function formatDateSerial(serial: number, uses1904: boolean): string {
+  // Excel treats 1900 as a leap year, so serials before March 1900 are
+  // shifted by a day
+  const epoch = uses1904
+    ? Date.UTC(1904, 0, 1)
+    : Date.UTC(1899, 11, serial < 60 ? 31 : 30);
+  const iso = new Date(Math.round(epoch + serial * MS_PER_DAY)).toISOString();
+  const date = iso.slice(0, 10);
+  const time = iso.slice(11, 19);
+
+  if (serial < 1) return time;
+  return Number.isInteger(serial) ? date : `${date} ${time}`;
+}
+
+/**
+ * Formats a numeric cell as Excel displays it in the General format
+ */
+function formatNumber(value: string): string {
+  const number = Number(value);
+  return Number.isFinite(number)
+    ? String(parseFloat(number.toPrecision(15)))
+    : value;
+}
+
+/**
+ * Resolves a workbook relationship target to a path inside the package
+ */
+function resolveTarget(target: string): string {
+  return target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+}
+
+/**
+ * Reads the cell values of a worksheet as rows of text
+ */
+function readSheetRows(
+  sheetXml: string,
+  sharedStrings: string[],
+  dateStyles: boolean[],
+  uses1904: boolean
+): string[][] {
+  const rows: string[][] = [];
+
+  findElements(sheetXml, 'row').forEach((row, position) => {
+    const rowNumber = Number(getAttribute(row.attributes, 'r')) || position + 1;
+    const values: string[] = [];
+
+    findElements(row.content, 'c').forEach((cell) => {
+      const reference = getAttribute(cell.attributes, 'r');
+      const index = reference
+        ? columnIndex(reference.replace(/\d+$/, ''))
+        : values.length;
+      const type = getAttribute(cell.attributes, 't') || 'n';
+      const rawValue = decodeXML(
+        findElements(cell.content, 'v')[0]?.content || ''
+      );
+      let value: string;
+
+      switch (type) {
+        case 's':
+          value = sharedStrings[Number(rawValue)] || '';
+          break;
+        case 'inlineStr':
+          value = readText(findElements(cell.content, 'is')[0]?.content || '');
+          break;
+        case 'b':
+          value = rawValue === '1' ? 'TRUE' : 'FALSE';
+          break;
+        case 'n': {
+          const style = Number(getAttribute(cell.attributes, 's') || 0);
+          value =
+            rawValue && dateStyles[style]
+              ? formatDateSerial(Number(rawValue), uses1904)
+              : formatNumber(rawValue);
+          break;
+        }
+        default:
+          // Formula strings, errors and ISO dates are stored as text
+          value = rawValue;
+      }
+
+      while (values.length < index) values.push('');
+      values[index] = value;
+    });
+
+    rows[rowNumber - 1] = values;
+  });
+
+  // Fill rows skipped in the sheet so row numbers stay meaningful
+  return Array.from(rows, (row) => row || []);
+}
+
+/**
+ * Reads every worksheet of an XLSX workbook
+ * @param data - The workbook file contents
+ * @returns The sheets in workbook order
+ */
+export async function readXLSXWorkbook(
+  data: ArrayBuffer | Uint8Array
+): Promise<XLSXSheet[]> {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(data);
+  } catch (error) {
+    console.error('Error opening XLSX file:', error);
+    throw new Error('File is not a valid XLSX workbook');
+  }
+
+  const readPart = (path: string) => zip.file(path)?.async('string');
+  const [workbookXml, relsXml, sharedStringsXml, stylesXml] = await Promise.all(
+    [
+      readPart('xl/workbook.xml'),
+      readPart('xl/_rels/workbook.xml.rels'),
+      readPart('xl/sharedStrings.xml'),
+      readPart('xl/styles.xml'),
+    ]
+  );
+
+  if (!workbookXml || !relsXml) {
+    throw new Error('File is not a valid XLSX workbook');
+  }
+
+  const targets = new Map(
+    findElements(relsXml, 'Relationship').map(({ attributes }) => [
+      getAttribute(attributes, 'Id'),
+      getAttribute(attributes, 'Target') || '',
+    ])
+  );
+  const sharedStrings = sharedStringsXml
+    ? findElements(sharedStringsXml, 'si').map((item) => readText(item.content))
+    : [];
+  const dateStyles = readDateStyles(stylesXml);
+  const workbookPr = findElements(workbookXml, 'workbookPr')[0];
+  const date1904 =
+    workbookPr && getAttribute(workbookPr.attributes, 'date1904');
+  const uses1904 = date1904 === '1' || date1904 === 'true';
+
+  const sheets: XLSXSheet[] = [];
+  for (const { attributes } of findElements(workbookXml, 'sheet')) {
+    const target = targets.get(getAttribute(attributes, 'id'));
+    const sheetXml = target ? await readPart(resolveTarget(target)) : undefined;
+    if (sheetXml === undefined) continue;
+
+    sheets.push({
+      name: getAttribute(attributes, 'name') || `Sheet${sheets.length + 1}`,
+      rows: readSheetRows(sheetXml, sharedStrings, dateStyles, uses1904),
+    });
+  }
+
+  if (sheets.length === 0) {
+    throw new Error('XLSX workbook does not contain any sheets');
+  }
+
+  return sheets;
+}
+
+/**
+ * Writes a single-sheet XLSX workbook. All cells are stored as text and the
+ * first row is bold and frozen as a header.
+ * @param sheetName - Name of the worksheet
+ * @param rows - Cell values, starting with the header row
+ * @returns The workbook file contents
+ */
+export async function writeXLSXWorkbook(
+  sheetName: string,
+  rows: string[][]
+): Promise<ArrayBuffer> {
+  const name =
+    sheetName
+      .replace(/[\[\]:*?/\\]/g, '')
+      .trim()
+      .slice(0, MAX_SHEET_NAME_LENGTH) || 'Sheet1';
+
+  const rowsXml = rows
+    .map((row, rowIndex) => {
+      const cellsXml = row
+        .map((value, columnIdx) => {
+          const reference = `${columnName(columnIdx)}${rowIndex + 1}`;
+          const style = rowIndex === 0 ? ' s="1"' : '';
+          return `<c r="${reference}"${style} t="inlineStr"><is><t xml:space="preserve">${escapeXML(
+            value
+          )}</t></is></c>`;
+        })
+        .join('');
+      return `<row r="${rowIndex + 1}">${cellsXml}</row>`;
+    })
+    .join('');
+
+  const zip = new JSZip();
+  zip.file(
+    '[Content_Types].xml',
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+      '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+      '<Default Extension="xml" ContentType="application/xml"/>' +
+      '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+      '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+      '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+      '</Types>'
+  );
+  zip.file(
+    '_rels/.rels',
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+      '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+      '</Relationships>'
+  );
+  zip.file(
+    'xl/workbook.xml',
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">' +
+      `<sheets><sheet name="${escapeXML(
+        name
+      )}" sheetId="1" r:id="rId1"/></sheets>` +
+      '</workbook>'
+  );
+  zip.file(
+    'xl/_rels/workbook.xml.rels',
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+      '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>' +
+      '<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>' +
+      '</Relationships>'
+  );
+  zip.file(
+    'xl/styles.xml',
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+      '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>' +
+      '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>' +
+      '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>' +
+      '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+      '<cellXfs count="2"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/><xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/></cellXfs>' +
+      '</styleSheet>'
+  );
+  zip.file(
+    'xl/worksheets/sheet1.xml',
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+      '<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>' +
+      `<sheetData>${rowsXml}</sheetData>` +
+      '</worksheet>'
+  );
+
+  const bytes = await zip.generateAsync({
+    type: 'uint8array',
+    compression: 'DEFLATE',
+    mimeType: XLSX_MIME_TYPE,
+  });
+  return bytes.buffer.slice(
+    bytes.byteOffset,
+    bytes.byteOffset + bytes.byteLength
+  ) as ArrayBuffer;
+}